@@ -0,0 +1,101 @@
+// Compares eager and lazy decoding of the quote stream fixtures, for a consumer
+// that only ranks routes and for one that also reads their instructions.
+//
+// Usage: pnpm bench [iterations]
+
+import * as fs from "node:fs";
+
+import { V1ClientCodec } from "../src/codec";
+import type { ServerMessage } from "../src/types/v1";
+
+const FIXTURES: [protocol: string, file: string][] = [
+	["v1.api.titan.ag", "stream_data.msgpack"],
+	["v1.api.titan.ag+zstd", "stream_data.msgpack.zstd"],
+	["v1.api.titan.ag+brotli", "stream_data.msgpack.brotli"],
+	["v1.api.titan.ag+gzip", "stream_data.msgpack.gz"],
+];
+
+const ITERATIONS = Number(process.argv[2] ?? 2000);
+
+type Consumer = (message: ServerMessage) => void;
+
+// Reads what is needed to pick the best route.
+const rank: Consumer = (message) => {
+	if (!("StreamData" in message)) {
+		throw new Error("expected stream data");
+	}
+	let best = -1n;
+	for (const route of Object.values(
+		message.StreamData.payload.SwapQuotes.quotes,
+	)) {
+		const minOut =
+			(BigInt(route.outAmount) * BigInt(10_000 - route.slippageBps)) / 10_000n;
+		if (minOut > best && BigInt(route.inAmount) > 0n) {
+			best = minOut;
+		}
+	}
+};
+
+// Also reads everything needed to build a transaction.
+const execute: Consumer = (message) => {
+	rank(message);
+	if (!("StreamData" in message)) {
+		return;
+	}
+	for (const route of Object.values(
+		message.StreamData.payload.SwapQuotes.quotes,
+	)) {
+		route.steps.length;
+		route.instructions.length;
+		route.addressLookupTables.length;
+		route.transaction?.length;
+	}
+};
+
+async function measure(
+	codec: V1ClientCodec,
+	data: Uint8Array,
+	consume: Consumer,
+): Promise<number> {
+	for (let i = 0; i < ITERATIONS / 10; i++) {
+		consume(await codec.decode(data));
+	}
+	const start = performance.now();
+	for (let i = 0; i < ITERATIONS; i++) {
+		consume(await codec.decode(data));
+	}
+	return ((performance.now() - start) * 1000) / ITERATIONS;
+}
+
+async function main() {
+	console.log(`${ITERATIONS} iterations, microseconds per message\n`);
+	console.log(
+		["fixture", "consumer", "eager", "lazy", "speedup"]
+			.map((title, i) => title.padEnd(i < 2 ? 28 : 10))
+			.join(""),
+	);
+	for (const [protocol, file] of FIXTURES) {
+		const data = fs.readFileSync(`test/data/${file}`);
+		for (const [name, consume] of [
+			["rank", rank],
+			["execute", execute],
+		] as const) {
+			const eager = V1ClientCodec.from_protocol(protocol);
+			const lazy = V1ClientCodec.from_protocol(protocol);
+			lazy.lazyRoutes = true;
+			const eagerUs = await measure(eager, data, consume);
+			const lazyUs = await measure(lazy, data, consume);
+			console.log(
+				[
+					file.padEnd(28),
+					name.padEnd(28),
+					eagerUs.toFixed(1).padEnd(10),
+					lazyUs.toFixed(1).padEnd(10),
+					`${(eagerUs / lazyUs).toFixed(2)}x`,
+				].join(""),
+			);
+		}
+	}
+}
+
+main();
@@ -63,7 +63,7 @@ async function basicExample() {
 				userPublicKey: USER_PUBLIC_KEY
 			},
 			update: {
-				numQuotes: NUM_QUOTES
+				num_quotes: NUM_QUOTES
 			}
 		};
 
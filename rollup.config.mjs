@@ -1,4 +1,5 @@
 import fs from "node:fs/promises";
+import path from "node:path";
 import dts from "rollup-plugin-dts";
 //import esbuild from "rollup-plugin-esbuild";
 import { nodeResolve } from "@rollup/plugin-node-resolve";
@@ -18,6 +19,8 @@ const rawPackageJSON = await fs.readFile("package.json", { encoding: "utf8" });
 const { name, version, main } = JSON.parse(rawPackageJSON);
 
 const libOutputPath = main.replace(/\.[cm]?js$/, "");
+const libOutputDir = path.dirname(libOutputPath);
+const libOutputName = path.basename(libOutputPath);
 const camelCaseName = name.replace(/^@[^/]+\//, '').replace(/-./g, (x) => x[1].toUpperCase());
 
 /**
@@ -30,15 +33,54 @@ const isExternal =
 		: (/** @type {string} */ id) => !/^[./]/.test(id);
 
 /**
+ * Builds the main entry along with the `testing` subpath, which is kept out of
+ * the main entry so that the mock server and test harness are not bundled into
+ * applications. Code used by both goes into a shared chunk.
+ *
  * @param {import('rollup').RollupOptions} config
  * @returns {import('rollup').RollupOptions}
  */
 const bundle = (config) => ({
 	...config,
-	input: "./src/index.ts",
+	input: {
+		[libOutputName]: "./src/index.ts",
+		testing: "./src/testing/index.ts",
+	},
 	external: isExternal,
 });
 
+/**
+ * Defines `require` in the ES module chunk with the worker pool, which resolves
+ * the modules loaded by its workers with it. Without it, workers would resolve
+ * them from the current directory instead of the package.
+ *
+ * @param {import('rollup').RenderedChunk} chunk
+ * @returns {string}
+ */
+const esmRequire = (chunk) =>
+	chunk.moduleIds.some((id) => id.endsWith(path.join("src", "worker.ts")))
+		? 'import { createRequire } from "node:module";\nconst require = createRequire(import.meta.url);'
+		: "";
+
+/**
+ * Replaces WebSocket packages that only work on NodeJS with empty modules, so
+ * browser bundles only use the global WebSocket transport. Node's worker
+ * threads are replaced the same way, as browsers use Web Workers instead.
+ *
+ * @returns {import('rollup').Plugin}
+ */
+const stubNodeTransports = () => ({
+	name: "stub-node-transports",
+	resolveId(id) {
+		return id === "ws" || id === "websocket" || id === "node:worker_threads"
+			? `\0stub:${id}`
+			: null;
+	},
+	load(id) {
+		return id.startsWith("\0stub:") ? "export default {};" : null;
+	},
+});
+
 /**
  * @param {import('rollup').RollupOptions} config
  * @returns {import('rollup').RollupOptions}
@@ -59,14 +101,19 @@ export default [
 		plugins: [typescript()],
 		output: [
 			{
-				file: `${libOutputPath}.cjs`,
+				dir: libOutputDir,
+				entryFileNames: "[name].cjs",
+				chunkFileNames: `${libOutputName}-[hash].cjs`,
 				format: "cjs",
 				sourcemap: false,
 				compact: false,
 			},
 			{
-				file: `${libOutputPath}.mjs`,
+				dir: libOutputDir,
+				entryFileNames: "[name].mjs",
+				chunkFileNames: `${libOutputName}-[hash].mjs`,
 				format: "esm",
+				banner: esmRequire,
 				sourcemap: false,
 				compact: false,
 			},
@@ -77,7 +124,9 @@ export default [
 	bundle({
 		plugins: [dts()],
 		output: {
-			file: `${libOutputPath}.d.ts`,
+			dir: libOutputDir,
+			entryFileNames: "[name].d.ts",
+			chunkFileNames: `${libOutputName}-[hash].d.ts`,
 			format: "es",
 		},
 	}),
@@ -91,6 +140,7 @@ export default [
 					__dirname: '"/"',
 				},
 			}),
+			stubNodeTransports(),
 			typescript(),
 			commonjs(),
 			nodeResolve({
@@ -119,6 +169,7 @@ export default [
 					__dirname: '"/"',
 				},
 			}),
+			stubNodeTransports(),
 			typescript(),
 			commonjs(),
 			nodeResolve({
@@ -148,6 +199,7 @@ export default [
 					__dirname: '"/"',
 				},
 			}),
+			stubNodeTransports(),
 			typescript(),
 			commonjs(),
 			nodeResolve({
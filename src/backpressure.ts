@@ -0,0 +1,183 @@
+// Buffering of stream updates between the connection and a consumer that may
+// read slower than the server sends.
+
+import { type Logger, consoleLogger } from "./logger";
+
+/**
+ * How updates are buffered while the consumer of a stream is not reading.
+ *
+ * - `"unbounded"`: keep every update.
+ * - `"dropOldest"`: keep up to `size` updates, dropping the oldest to make room.
+ * - `"latest"`: keep only the newest update, so that the consumer always reads
+ *   the most recent quotes.
+ */
+export type StreamBufferPolicy = "unbounded" | "dropOldest" | "latest";
+
+/**
+ * Options controlling how updates of a stream are buffered for its consumer.
+ */
+export interface StreamBufferOptions {
+	/** How to buffer updates. Defaults to `"unbounded"`. */
+	policy?: StreamBufferPolicy;
+	/** Number of updates to keep with the `"dropOldest"` policy. Defaults to 16. */
+	size?: number;
+	/**
+	 * Called with the total number of updates dropped from the stream so far,
+	 * whenever an update is dropped.
+	 */
+	onDrop?: (dropped: number) => void;
+}
+
+/**
+ * Stream buffer options with all defaults filled in.
+ */
+export interface ResolvedStreamBufferOptions {
+	policy: StreamBufferPolicy;
+	/** Maximum number of buffered updates, Infinity if unbounded. */
+	size: number;
+	onDrop: ((dropped: number) => void) | null;
+}
+
+/**
+ * Fills in defaults for the given stream buffer options.
+ */
+export function resolveStreamBufferOptions(
+	options: StreamBufferOptions | undefined,
+): ResolvedStreamBufferOptions {
+	const policy = options?.policy ?? "unbounded";
+	let size: number;
+	switch (policy) {
+		case "unbounded":
+			size = Infinity;
+			break;
+		case "latest":
+			size = 1;
+			break;
+		case "dropOldest":
+			size = options?.size ?? 16;
+			if (!Number.isInteger(size) || size < 1) {
+				throw new RangeError(
+					`Stream buffer size must be a positive integer, got ${size}.`,
+				);
+			}
+			break;
+		default:
+			throw new RangeError(`Unknown stream buffer policy ${policy}.`);
+	}
+	return { policy, size, onDrop: options?.onDrop ?? null };
+}
+
+/**
+ * Buffers the updates of a consumer-facing `ReadableStream`, dropping the
+ * oldest ones once it is full.
+ *
+ * Bounded buffers hand updates to the stream only when the consumer reads, so
+ * that nothing accumulates in the stream's own queue.
+ */
+export class StreamBuffer<T> {
+	/** The stream read by the consumer. */
+	readonly stream: ReadableStream<T>;
+	private controller!: ReadableStreamDefaultController<T>;
+	private size: number;
+	private onDrop: ((dropped: number) => void) | null;
+	private observer: (() => void) | null;
+	private logger: Logger;
+	private queue: T[] = [];
+	// Set when the consumer is waiting for an update.
+	private waiting = false;
+	// Set when the stream should close once the queue is drained.
+	private closing = false;
+	private _dropped = 0;
+
+	/**
+	 * @param options - How to buffer updates.
+	 * @param cancel - Called when the consumer cancels the stream.
+	 * @param observer - Called whenever an update is dropped, before
+	 *   `options.onDrop`.
+	 * @param logger - Receives errors thrown by `options.onDrop`.
+	 */
+	constructor(
+		options: ResolvedStreamBufferOptions,
+		cancel: UnderlyingSourceCancelCallback,
+		observer: (() => void) | null = null,
+		logger: Logger = consoleLogger(),
+	) {
+		this.size = options.size;
+		this.onDrop = options.onDrop;
+		this.observer = observer;
+		this.logger = logger;
+		const start = (controller: ReadableStreamDefaultController<T>) => {
+			this.controller = controller;
+		};
+		this.stream =
+			this.size === Infinity
+				? new ReadableStream<T>({ start, cancel })
+				: new ReadableStream<T>(
+						{ start, cancel, pull: () => this.pull() },
+						{ highWaterMark: 0 },
+					);
+	}
+
+	/** Number of updates dropped so far. */
+	get dropped(): number {
+		return this._dropped;
+	}
+
+	/** Number of updates waiting to be read. */
+	get length(): number {
+		return this.queue.length;
+	}
+
+	/** Adds an update, dropping the oldest one if the buffer is full. */
+	enqueue(item: T) {
+		if (this.size === Infinity || this.waiting) {
+			this.waiting = false;
+			this.controller.enqueue(item);
+			return;
+		}
+		this.queue.push(item);
+		if (this.queue.length > this.size) {
+			this.queue.shift();
+			this._dropped += 1;
+			this.notifyDrop();
+		}
+	}
+
+	/** Closes the stream once the consumer has read the buffered updates. */
+	close() {
+		if (this.queue.length === 0) {
+			this.controller.close();
+		} else {
+			this.closing = true;
+		}
+	}
+
+	/** Errors the stream, discarding buffered updates. */
+	error(reason: unknown) {
+		this.queue = [];
+		this.controller.error(reason);
+	}
+
+	private notifyDrop() {
+		this.observer?.();
+		try {
+			this.onDrop?.(this._dropped);
+		} catch (err) {
+			this.logger.error("Stream drop callback threw error", {
+				dropped: this._dropped,
+				error: err,
+			});
+		}
+	}
+
+	private pull() {
+		if (this.queue.length === 0) {
+			this.waiting = true;
+			return;
+		}
+		this.controller.enqueue(this.queue.shift() as T);
+		if (this.closing && this.queue.length === 0) {
+			this.controller.close();
+		}
+	}
+}
@@ -0,0 +1,525 @@
+// Recording of the frames exchanged with the server into capture files, and a
+// transport that plays captures back into a client, so that issues seen on the
+// live feed can be reported and reproduced.
+
+import { Encoder, decodeMulti } from "@msgpack/msgpack";
+
+import type { ClientListeners, V1Client } from "./client";
+import {
+	type Transport,
+	type TransportCloseEvent,
+	TransportError,
+	type TransportFactory,
+	type TransportMessageEvent,
+} from "./transport";
+import { WEBSOCKET_SUBPROTO_BASE } from "./types/v1";
+import {
+	boolean,
+	bytes,
+	formatIssues,
+	integer,
+	literal,
+	number,
+	object,
+	string,
+	tagged,
+	uint,
+	validate,
+} from "./validate";
+
+/**
+ * A frame sent or received on a recorded connection.
+ */
+export interface CapturedFrame {
+	/** When the frame was sent or received, in milliseconds since the capture started. */
+	timeMs: number;
+	direction: "received" | "sent";
+	/** The frame as it was on the wire, compressed if the connection was. */
+	data: Uint8Array;
+}
+
+/**
+ * How a recorded connection closed.
+ */
+export interface CapturedClose extends TransportCloseEvent {
+	/** When the connection closed, in milliseconds since the capture started. */
+	timeMs: number;
+}
+
+/**
+ * A recorded connection and its frames, in the order they were sent or received.
+ */
+export interface CapturedConnection {
+	/** Subprotocol negotiated with the server, which tells how frames are compressed. */
+	protocol: string;
+	/** When the connection opened, in milliseconds since the capture started. */
+	openedAtMs: number;
+	frames: CapturedFrame[];
+	/** How the connection closed, if it did while being recorded. */
+	close?: CapturedClose;
+}
+
+/**
+ * A recorded session, made of one connection per reconnect.
+ */
+export interface Capture {
+	/** When the capture started, in milliseconds since the UNIX epoch. */
+	startedAt: number;
+	connections: CapturedConnection[];
+}
+
+/**
+ * Error thrown when reading a capture file that is not valid.
+ */
+export class CaptureError extends Error {
+	constructor(reason: string) {
+		super(`Invalid capture: ${reason}`);
+		this.name = "CaptureError";
+		Object.setPrototypeOf(this, CaptureError.prototype);
+	}
+}
+
+const CAPTURE_VERSION = 1;
+
+// A capture file is a sequence of MessagePack encoded entries, starting with a
+// header, so that it can be written as the session goes.
+type CaptureEntry =
+	| { Capture: { version: number; startedAt: number } }
+	| { Open: { timeMs: number; protocol: string } }
+	| { Frame: CapturedFrame }
+	| { Close: CapturedClose };
+
+const captureEntry = tagged<CaptureEntry>({
+	Capture: object({ version: uint, startedAt: number }),
+	Open: object({ timeMs: number, protocol: string }),
+	Frame: object<CapturedFrame>({
+		timeMs: number,
+		direction: literal("received", "sent"),
+		data: bytes(),
+	}),
+	Close: object<CapturedClose>({
+		timeMs: number,
+		code: integer,
+		reason: string,
+		wasClean: boolean,
+	}),
+});
+
+const encoder = new Encoder();
+
+/**
+ * Encodes a capture to the contents of a capture file.
+ */
+export function encodeCapture(capture: Capture): Uint8Array {
+	const entries: CaptureEntry[] = [
+		{ Capture: { version: CAPTURE_VERSION, startedAt: capture.startedAt } },
+	];
+	for (const connection of capture.connections) {
+		entries.push({
+			Open: { timeMs: connection.openedAtMs, protocol: connection.protocol },
+		});
+		for (const frame of connection.frames) {
+			entries.push({ Frame: frame });
+		}
+		if (connection.close !== undefined) {
+			entries.push({ Close: connection.close });
+		}
+	}
+	const chunks = entries.map((entry) => encoder.encode(entry));
+	const data = new Uint8Array(
+		chunks.reduce((size, chunk) => size + chunk.byteLength, 0),
+	);
+	let offset = 0;
+	for (const chunk of chunks) {
+		data.set(chunk, offset);
+		offset += chunk.byteLength;
+	}
+	return data;
+}
+
+/**
+ * Decodes the contents of a capture file, such as one written by a
+ * {@link SessionRecorder}.
+ *
+ * @throws {CaptureError} If the data is not a valid capture.
+ */
+export function decodeCapture(data: Uint8Array): Capture {
+	let capture: Capture | null = null;
+	let connection: CapturedConnection | null = null;
+	try {
+		for (const entry of decodeMulti(data)) {
+			const issues = validate(captureEntry, entry);
+			if (issues.length > 0) {
+				throw new CaptureError(formatIssues(issues));
+			}
+			const known = entry as CaptureEntry;
+			if ("Capture" in known) {
+				if (capture !== null) {
+					throw new CaptureError("more than one header");
+				}
+				if (known.Capture.version !== CAPTURE_VERSION) {
+					throw new CaptureError(
+						`unsupported version ${known.Capture.version}`,
+					);
+				}
+				capture = { startedAt: known.Capture.startedAt, connections: [] };
+			} else if (capture === null) {
+				throw new CaptureError("does not start with a header");
+			} else if ("Open" in known) {
+				connection = {
+					protocol: known.Open.protocol,
+					openedAtMs: known.Open.timeMs,
+					frames: [],
+				};
+				capture.connections.push(connection);
+			} else if (connection === null || connection.close !== undefined) {
+				throw new CaptureError("frame or close outside of a connection");
+			} else if ("Frame" in known) {
+				connection.frames.push(known.Frame);
+			} else {
+				connection.close = known.Close;
+			}
+		}
+	} catch (err) {
+		if (err instanceof CaptureError) {
+			throw err;
+		}
+		throw new CaptureError(err instanceof Error ? err.message : String(err));
+	}
+	if (capture === null) {
+		throw new CaptureError("empty");
+	}
+	return capture;
+}
+
+/**
+ * Options for a {@link SessionRecorder}.
+ */
+export interface SessionRecorderOptions {
+	/**
+	 * Receives the capture file as it is recorded, one chunk at a time, such as
+	 * to append them to a file. Every frame is written, regardless of
+	 * `keepFrames`.
+	 */
+	write?: (chunk: Uint8Array) => void;
+	/**
+	 * Number of most recent frames kept in memory, for {@link
+	 * SessionRecorder.capture} and the errors of clients using the recorder.
+	 * Defaults to 50.
+	 */
+	keepFrames?: number;
+}
+
+const DEFAULT_KEEP_FRAMES = 50;
+
+/**
+ * The client events a {@link SessionRecorder} listens to.
+ */
+export type RecorderListeners = Required<
+	Pick<ClientListeners, "open" | "frame" | "close">
+>;
+
+/**
+ * Records the frames a client sends and receives, along with when each
+ * connection opened and closed.
+ *
+ * Pass a recorder to a client with the `recorder` connect option to record
+ * every connection from the start, and to have the `ProtocolError` and
+ * `DecodeError` it reports include the most recent frames in their `capture`.
+ */
+export class SessionRecorder {
+	/** When recording started, in milliseconds since the UNIX epoch. */
+	readonly startedAt: number;
+	private write: ((chunk: Uint8Array) => void) | null;
+	private keepFrames: number;
+	// Connections with frames still kept, and the current one.
+	private connections: CapturedConnection[];
+	private current: CapturedConnection | null;
+	private keptFrames: number;
+
+	constructor(options: SessionRecorderOptions = {}) {
+		const keepFrames = options.keepFrames ?? DEFAULT_KEEP_FRAMES;
+		if (!Number.isInteger(keepFrames) || keepFrames < 0) {
+			throw new RangeError(
+				`keepFrames must be a non-negative integer, got ${keepFrames}.`,
+			);
+		}
+		this.startedAt = Date.now();
+		this.write = options.write ?? null;
+		this.keepFrames = keepFrames;
+		this.connections = [];
+		this.current = null;
+		this.keptFrames = 0;
+		this.writeEntry({
+			Capture: { version: CAPTURE_VERSION, startedAt: this.startedAt },
+		});
+	}
+
+	/**
+	 * Listeners recording a client's connections, to register before it
+	 * connects, as done by the `recorder` connect option.
+	 */
+	listeners(): RecorderListeners {
+		return {
+			open: (event) => this.opened(event.protocol),
+			frame: (event) => this.recordFrame(event.direction, event.data),
+			close: (event) => this.closed(event),
+		};
+	}
+
+	/**
+	 * Starts recording a client that is already connected. Its current
+	 * connection is recorded from this point on.
+	 *
+	 * @returns A function that stops recording the client.
+	 */
+	attach(client: V1Client): () => void {
+		if (!client.closed && !client.reconnecting) {
+			const compression = client.compression;
+			this.opened(
+				compression === null
+					? WEBSOCKET_SUBPROTO_BASE
+					: `${WEBSOCKET_SUBPROTO_BASE}+${compression}`,
+			);
+		}
+		const { open, frame, close } = this.listeners();
+		const removers = [
+			client.on("open", open),
+			client.on("frame", frame),
+			client.on("close", close),
+		];
+		return () => {
+			for (const remove of removers) {
+				remove();
+			}
+		};
+	}
+
+	/**
+	 * Returns the kept frames, or only the most recent ones, as a capture.
+	 *
+	 * @param lastFrames - Maximum number of frames to include.
+	 */
+	capture(lastFrames: number = this.keepFrames): Capture {
+		let remaining = lastFrames;
+		const connections: CapturedConnection[] = [];
+		for (let i = this.connections.length - 1; i >= 0; i--) {
+			const connection = this.connections[i];
+			if (remaining <= 0 && connection !== this.current) {
+				break;
+			}
+			const frames = connection.frames.slice(
+				Math.max(0, connection.frames.length - remaining),
+			);
+			remaining -= frames.length;
+			connections.unshift({ ...connection, frames });
+		}
+		return { startedAt: this.startedAt, connections };
+	}
+
+	private opened(protocol: string) {
+		const connection: CapturedConnection = {
+			protocol,
+			openedAtMs: this.now(),
+			frames: [],
+		};
+		this.current = connection;
+		this.connections.push(connection);
+		this.writeEntry({
+			Open: { timeMs: connection.openedAtMs, protocol },
+		});
+		this.trim();
+	}
+
+	private recordFrame(direction: CapturedFrame["direction"], data: Uint8Array) {
+		if (this.current === null) {
+			return;
+		}
+		const frame: CapturedFrame = { timeMs: this.now(), direction, data };
+		this.current.frames.push(frame);
+		this.keptFrames += 1;
+		this.writeEntry({ Frame: frame });
+		this.trim();
+	}
+
+	private closed(event: TransportCloseEvent) {
+		if (this.current === null) {
+			return;
+		}
+		const close: CapturedClose = {
+			timeMs: this.now(),
+			code: event.code,
+			reason: event.reason,
+			wasClean: event.wasClean,
+		};
+		this.current.close = close;
+		this.current = null;
+		this.writeEntry({ Close: close });
+		this.trim();
+	}
+
+	// Drops the oldest frames beyond the limit, then connections left with none.
+	private trim() {
+		while (this.keptFrames > this.keepFrames) {
+			const oldest = this.connections.find(
+				(connection) => connection.frames.length > 0,
+			) as CapturedConnection;
+			oldest.frames.shift();
+			this.keptFrames -= 1;
+		}
+		this.connections = this.connections.filter(
+			(connection) =>
+				connection.frames.length > 0 || connection === this.current,
+		);
+	}
+
+	private now(): number {
+		return Date.now() - this.startedAt;
+	}
+
+	private writeEntry(entry: CaptureEntry) {
+		this.write?.(encoder.encode(entry));
+	}
+}
+
+/**
+ * Options for {@link replayTransport}.
+ */
+export interface ReplayOptions {
+	/**
+	 * How fast received frames are played back:
+	 *
+	 * - `"fast"`: as fast as the client handles them.
+	 * - `"realtime"`: each frame no earlier than it was received after its
+	 *   connection opened.
+	 *
+	 * Defaults to `"fast"`.
+	 */
+	pace?: "fast" | "realtime";
+}
+
+/**
+ * Returns a transport that plays back the connections of a capture, one per
+ * connection attempt, for use with the `transport` connect option.
+ *
+ * Received frames are delivered in order, each only once the client has sent
+ * as many frames as had been sent before it, so responses follow the requests
+ * they answer. The frames the client sends are otherwise ignored, so it must
+ * make the same requests, in the same order, as the recorded client did.
+ * Connections that were recorded closing close the same way once their frames
+ * have been played; others stay open until the client closes them.
+ *
+ * Connecting fails with a `TransportError` once every connection was played,
+ * or if the recorded subprotocol is not among those offered.
+ */
+export function replayTransport(
+	capture: Capture,
+	options: ReplayOptions = {},
+): TransportFactory {
+	const pace = options.pace ?? "fast";
+	if (pace !== "fast" && pace !== "realtime") {
+		throw new RangeError(`Invalid replay pace ${pace}.`);
+	}
+	const connections = [...capture.connections];
+	return async (_url, protocols) => {
+		const connection = connections.shift();
+		if (connection === undefined) {
+			throw new TransportError("No connections left to replay");
+		}
+		if (!protocols.includes(connection.protocol)) {
+			throw new TransportError(
+				`Recorded subprotocol ${connection.protocol} was not offered`,
+			);
+		}
+		return new ReplayTransport(connection, pace);
+	};
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Plays back a recorded connection.
+class ReplayTransport implements Transport {
+	readonly protocol: string;
+	onmessage: ((event: TransportMessageEvent) => void) | null = null;
+	onclose: ((event: TransportCloseEvent) => void) | null = null;
+	onerror: ((error: Error) => void) | null = null;
+	private connection: CapturedConnection;
+	private pace: "fast" | "realtime";
+	private sentFrames: number;
+	private closed: boolean;
+	// Resumes playback after the client sent a frame or closed.
+	private wake: (() => void) | null;
+
+	constructor(connection: CapturedConnection, pace: "fast" | "realtime") {
+		this.protocol = connection.protocol;
+		this.connection = connection;
+		this.pace = pace;
+		this.sentFrames = 0;
+		this.closed = false;
+		this.wake = null;
+		void this.play();
+	}
+
+	send(_data: Uint8Array): void {
+		if (!this.closed) {
+			this.sentFrames += 1;
+			this.wake?.();
+		}
+	}
+
+	close(code = 1000, reason = ""): void {
+		if (this.closed) {
+			return;
+		}
+		this.closed = true;
+		this.wake?.();
+		setTimeout(() => this.onclose?.({ code, reason, wasClean: true }), 0);
+	}
+
+	private async play() {
+		const openedAt = Date.now();
+		let sentBefore = 0;
+		for (const frame of this.connection.frames) {
+			if (frame.direction === "sent") {
+				sentBefore += 1;
+				continue;
+			}
+			while (this.sentFrames < sentBefore && !this.closed) {
+				await new Promise<void>((resolve) => {
+					this.wake = resolve;
+				});
+			}
+			await this.waitUntil(openedAt, frame.timeMs);
+			if (this.closed) {
+				return;
+			}
+			// Delivered in a buffer of its own, like a WebSocket would. Copied
+			// with the constructor as a Buffer's slice() would share its pool.
+			this.onmessage?.({ data: new Uint8Array(frame.data).buffer });
+		}
+		const close = this.connection.close;
+		if (close !== undefined) {
+			await this.waitUntil(openedAt, close.timeMs);
+			if (!this.closed) {
+				this.closed = true;
+				this.onclose?.({
+					code: close.code,
+					reason: close.reason,
+					wasClean: close.wasClean,
+				});
+			}
+		}
+	}
+
+	// Waits until the recorded time comes, relative to when the connection
+	// opened, or for the next turn of the event loop when replaying fast.
+	private waitUntil(openedAt: number, timeMs: number): Promise<void> {
+		const delay =
+			this.pace === "realtime"
+				? openedAt + timeMs - this.connection.openedAtMs - Date.now()
+				: 0;
+		return sleep(Math.max(0, delay));
+	}
+}
@@ -1,13 +1,74 @@
-import { DecodeError, InvalidProtocolError, V1ClientCodec } from "./codec";
-
 import {
-	WebSocket,
-	WebSocketInstance,
-	IMessageEvent,
-	ICloseEvent,
-} from "./websocket";
+	type ResolvedStreamBufferOptions,
+	resolveStreamBufferOptions,
+	StreamBuffer,
+	type StreamBufferOptions,
+} from "./backpressure";
+import type { Capture, SessionRecorder } from "./capture";
+import {
+	DecodeError,
+	InvalidProtocolError,
+	type Uint64Mode,
+	type Uint64Type,
+	V1ClientCodec,
+	type ValidationMode,
+} from "./codec";
+import { type CompressorRegistry, compressors } from "./compression";
 
+import {
+	globalWebSocketTransport,
+	resolveTransport,
+	type Transport,
+	type TransportCloseEvent,
+	type TransportFactory,
+	type TransportKind,
+	type TransportMessageEvent,
+} from "./transport";
+
+import { EndpointSelector, type EndpointStatus } from "./endpoints";
+import { type Listener, TypedEventEmitter } from "./events";
+import {
+	HeartbeatMonitor,
+	type HeartbeatOptions,
+	type ResolvedHeartbeatOptions,
+	resolveHeartbeatOptions,
+} from "./liveness";
+import {
+	type DecodeLimits,
+	type ResolvedDecodeLimits,
+	resolveDecodeLimits,
+} from "./limits";
+import { type Logger, consoleLogger } from "./logger";
+import type { ClientMetrics, RequestOutcome } from "./metrics";
+import "./polyfills";
+import {
+	backoffDelay,
+	type ReconnectOptions,
+	type ResolvedReconnectOptions,
+	resolveReconnectOptions,
+} from "./reconnect";
+import {
+	type QueuedStream,
+	type ResolvedStreamLimitOptions,
+	resolveStreamLimitOptions,
+	type StreamLimitOptions,
+	StreamQueue,
+} from "./quota";
+import type { ClientTracing, Span } from "./tracing";
 import * as v1 from "./types/v1";
+import { mapUint64, requestData } from "./validate";
+import type { WorkerPool } from "./worker";
+
+export type { StreamBufferOptions, StreamBufferPolicy } from "./backpressure";
+export type { Capture, SessionRecorder } from "./capture";
+export type { Uint64Mode, Uint64Type, ValidationMode } from "./codec";
+export type { Compressor, CompressorRegistry } from "./compression";
+export type { EndpointStatus } from "./endpoints";
+export type { DecodeLimits } from "./limits";
+export type { HeartbeatOptions } from "./liveness";
+export type { Logger, LogFields, LogLevel } from "./logger";
+export type { StreamLimitOptions, StreamLimitPolicy } from "./quota";
+export type { PendingRequestPolicy, ReconnectOptions } from "./reconnect";
 
 /** Maximum value for a uint64 field. */
 const UINT64_MAX = (1n << 64n) - 1n;
@@ -18,39 +79,59 @@ const UINT64_MAX = (1n << 64n) - 1n;
  * Without this conversion, numbers >= 2^32 are encoded as float64 instead of uint64,
  * which the server rejects. This function also ensures the value is a non-negative
  * integer within the valid uint64 range [0, 2^64 - 1].
+ *
+ * @param path - Where the value is found in the request, for error messages.
  */
-function toBigInt(value: v1.Uint64): bigint {
-	if (typeof value === "bigint") {
-		if (value < 0n || value > UINT64_MAX) {
-			throw new RangeError(
-				`Amount out of uint64 range: ${value}. Must be between 0 and 2^64 - 1.`,
-			);
+function toBigInt(value: unknown, path: string): bigint {
+	if (typeof value === "number") {
+		if (!Number.isInteger(value)) {
+			throw new TypeError(`${path} must be a whole number, got ${value}.`);
+		}
+		if (value < 0) {
+			throw new RangeError(`${path} must be non-negative, got ${value}.`);
 		}
-		return value;
+		value = BigInt(value);
 	}
-	if (!Number.isInteger(value)) {
-		throw new TypeError(`Amount must be a whole number, got ${value}.`);
+	if (typeof value !== "bigint") {
+		throw new TypeError(
+			`${path} must be a number or bigint, got ${typeof value}.`,
+		);
 	}
-	if (value < 0) {
-		throw new RangeError(`Amount must be non-negative, got ${value}.`);
+	if (value < 0n || value > UINT64_MAX) {
+		throw new RangeError(
+			`${path} out of uint64 range: ${value}. Must be between 0 and 2^64 - 1.`,
+		);
 	}
-	return BigInt(value);
+	return value;
 }
 
-// Polyfill Promise.withResolvers if not available.
-// Implementation based on the example from MDN: https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Promise/withResolvers
-if (typeof Promise.withResolvers === "undefined") {
-	Object.assign(Promise, {
-		withResolvers: <T>() => {
-			let resolve!: (value: T | PromiseLike<T>) => void;
-			let reject!: (reason?: unknown) => void;
-			const promise = new Promise<T>((res, rej) => {
-				resolve = res;
-				reject = rej;
-			});
-			return { promise, resolve, reject };
+// Renames the deprecated fields of the request to the names the server reads.
+function renameAliases(data: v1.RequestData): v1.RequestData {
+	if (!("NewSwapQuoteStream" in data)) {
+		return data;
+	}
+	const update = data.NewSwapQuoteStream.update;
+	if (update?.numQuotes === undefined) {
+		return data;
+	}
+	const { numQuotes, ...rest } = update;
+	return {
+		NewSwapQuoteStream: {
+			...data.NewSwapQuoteStream,
+			update: { ...rest, num_quotes: rest.num_quotes ?? numQuotes },
 		},
-	});
+	};
+}
+
+// Converts every Uint64 field of the request to BigInt, as found from the
+// request schema, so that none of them is encoded as a float, and sends
+// deprecated fields under their current names.
+function normalizeRequest(data: v1.RequestData): v1.RequestData {
+	return mapUint64(
+		requestData,
+		renameAliases(data),
+		toBigInt,
+	) as v1.RequestData;
 }
 
 /**
@@ -62,7 +143,7 @@ export class ConnectionClosed extends Error {
 	reason: string;
 	wasClean: boolean;
 
-	constructor(event: ICloseEvent) {
+	constructor(event: TransportCloseEvent) {
 		super(`Client WebSocket closed with code ${event.code}: ${event.reason}`);
 		this.name = "ConnectionClosed";
 		Object.setPrototypeOf(this, ConnectionClosed.prototype);
@@ -127,6 +208,31 @@ export class StreamError extends Error {
 	}
 }
 
+/**
+ * Error returned if a quote stream skipped updates and was started with
+ * `failOnSequenceGap`.
+ */
+export class StreamSequenceError extends Error {
+	/** ID of the stream on the connection that skipped updates. */
+	streamId: number;
+	/** Sequence number the client expected next. */
+	expectedSeq: number;
+	/** Sequence number the client received instead. */
+	receivedSeq: number;
+
+	constructor(streamId: number, expectedSeq: number, receivedSeq: number) {
+		super(
+			`Stream ${streamId} skipped ${receivedSeq - expectedSeq} updates: expected seq ${expectedSeq}, got ${receivedSeq}`,
+		);
+		this.name = "StreamSequenceError";
+		Object.setPrototypeOf(this, StreamSequenceError.prototype);
+
+		this.streamId = streamId;
+		this.expectedSeq = expectedSeq;
+		this.receivedSeq = receivedSeq;
+	}
+}
+
 /**
  * Represents a protocol-level error, usually an error in the server or client
  * implementation.
@@ -136,6 +242,11 @@ export class ProtocolError extends Error {
 	reason: string;
 	/** Any associated data that helps explain what happened */
 	data: unknown;
+	/**
+	 * The frames leading up to the error, if the client has a `recorder`. Can
+	 * be saved with `encodeCapture()` to include in the report.
+	 */
+	capture?: Capture;
 
 	constructor(data: unknown, reason: string) {
 		super(`Protocol error, please report to the Titan developers: ${reason}`);
@@ -147,6 +258,94 @@ export class ProtocolError extends Error {
 	}
 }
 
+/**
+ * Error returned if the request or stream was cancelled because the connection
+ * stopped responding to heartbeats.
+ */
+export class ConnectionStale extends Error {
+	/** Number of consecutive heartbeats that went unanswered. */
+	missedBeats: number;
+
+	constructor(missedBeats: number) {
+		super(`Connection stale after ${missedBeats} missed heartbeats`);
+		this.name = "ConnectionStale";
+		Object.setPrototypeOf(this, ConnectionStale.prototype);
+
+		this.missedBeats = missedBeats;
+	}
+}
+
+/**
+ * Error returned if the server did not respond to a request in time.
+ */
+export class RequestTimeout extends Error {
+	/** ID of the request that timed out. */
+	requestId: number;
+	/** How long the client waited for a response, in milliseconds. */
+	timeoutMs: number;
+
+	constructor(requestId: number, timeoutMs: number) {
+		super(`Request ${requestId} timed out after ${timeoutMs}ms`);
+		this.name = "RequestTimeout";
+		Object.setPrototypeOf(this, RequestTimeout.prototype);
+
+		this.requestId = requestId;
+		this.timeoutMs = timeoutMs;
+	}
+}
+
+/**
+ * Error returned if a connection could not be opened in time.
+ */
+export class ConnectTimeout extends Error {
+	/** How long the client waited for the connection to open, in milliseconds. */
+	timeoutMs: number;
+
+	constructor(timeoutMs: number) {
+		super(`Connection not established within ${timeoutMs}ms`);
+		this.name = "ConnectTimeout";
+		Object.setPrototypeOf(this, ConnectTimeout.prototype);
+
+		this.timeoutMs = timeoutMs;
+	}
+}
+
+/**
+ * Error returned if a stream could not be started because the client already
+ * holds as many streams as the server allows.
+ */
+export class StreamLimitExceeded extends Error {
+	/** Maximum number of concurrent streams. */
+	limit: number;
+
+	constructor(limit: number) {
+		super(`Concurrent stream limit of ${limit} reached`);
+		this.name = "StreamLimitExceeded";
+		Object.setPrototypeOf(this, StreamLimitExceeded.prototype);
+
+		this.limit = limit;
+	}
+}
+
+/**
+ * Error returned if a request or stream was cancelled through its AbortSignal.
+ */
+export class AbortError extends Error {
+	/** ID of the request that was aborted. */
+	requestId: number;
+	/** The reason given to the AbortController, if any. */
+	reason: unknown;
+
+	constructor(requestId: number, reason: unknown) {
+		super(`Request ${requestId} was aborted`);
+		this.name = "AbortError";
+		Object.setPrototypeOf(this, AbortError.prototype);
+
+		this.requestId = requestId;
+		this.reason = reason;
+	}
+}
+
 type Resolver<T> = (result: T | PromiseLike<T>) => void;
 type Rejector = (error?: unknown) => void;
 type ResolverAndRejector<T> = {
@@ -174,6 +373,12 @@ interface HandlerAndPromise<T> {
 abstract class ResponseHandler {
 	private _kind: ResponseHandlerKind;
 	private rejector: Rejector;
+	/** The request this handler is waiting on, kept so it can be re-sent after reconnecting. */
+	request: v1.ClientRequest | null = null;
+	/** Whether the client sent the request for itself, rather than the application. */
+	internal = false;
+	/** Called with the reason before the request is rejected, if set. */
+	onReject: ((reason: unknown) => void) | null = null;
 
 	constructor(kind: ResponseHandlerKind, rejector: Rejector) {
 		this._kind = kind;
@@ -185,6 +390,7 @@ abstract class ResponseHandler {
 	}
 
 	reject(reason?: unknown) {
+		this.onReject?.(reason);
 		this.rejector(reason);
 	}
 
@@ -297,8 +503,16 @@ class NewSwapQuoteStreamHandler extends ResponseHandler {
 	) {
 		super(ResponseHandlerKind.NewSwapQuoteStream, rejector);
 		this.resolver = resolver;
+		this.signal = null;
 	}
 
+	// Signal that cancels the stream once it has started.
+	signal: AbortSignal | null;
+	// Whether to error the stream if it skips updates.
+	failOnSequenceGap = false;
+	// How to buffer updates for the consumer.
+	buffer: ResolvedStreamBufferOptions | null = null;
+
 	override resolveNewSwapQuoteStream(
 		result: ResponseWithStream<v1.QuoteSwapStreamResponse, v1.SwapQuotes>,
 	): void {
@@ -374,6 +588,77 @@ class GetSwapPriceResponseHandler extends ResponseHandler {
 		return { promise, handler };
 	}
 }
+// Handler for a stream that is being re-established on a new connection after
+// a reconnect. Instead of producing a new ReadableStream, the server's new stream
+// is attached to the consumer's existing one.
+class ResubscribeHandler extends ResponseHandler {
+	stream: QuoteStreamState;
+
+	constructor(stream: QuoteStreamState) {
+		super(ResponseHandlerKind.NewSwapQuoteStream, (reason) => {
+			stream.release();
+			if (!stream.cancelled) {
+				stream.buffer.error(reason);
+			}
+		});
+		this.stream = stream;
+	}
+}
+
+// Book-keeping for a single quote stream, which may span multiple server-side
+// streams if the client reconnects.
+interface QuoteStreamState {
+	// The normalized request that started the stream, used to re-issue it.
+	request: v1.SwapQuoteRequest;
+	// Buffer feeding the consumer-facing ReadableStream.
+	buffer: StreamBuffer<v1.SwapQuotes>;
+	// ID of the stream on the current connection.
+	streamId: number;
+	// Set when the consumer cancelled the stream.
+	cancelled: boolean;
+	// Releases resources tied to the stream, such as abort listeners.
+	release: () => void;
+	// Update interval negotiated with the server, in milliseconds.
+	intervalMs: number;
+	// When the stream last received data (or started), as a millisecond timestamp.
+	lastDataAt: number;
+	// Whether the stream has been reported as stalled.
+	stalled: boolean;
+	// Fires when the stream has gone quiet for too long.
+	stallTimer?: ReturnType<typeof setTimeout>;
+	// Span covering the lifetime of the stream, until it is ended.
+	span: Span | null;
+	// Highest sequence number received on the current connection.
+	lastSeq: number | null;
+	// Whether to error the stream if it skips updates.
+	failOnSequenceGap: boolean;
+}
+
+/**
+ * A request waiting for its response, as listed by
+ * {@link V1Client.pendingRequests}.
+ */
+export interface PendingRequest {
+	/** ID the request was sent with. */
+	requestId: number;
+	/** Type of the request, such as "GetInfo". */
+	kind: string;
+}
+
+/**
+ * A quote stream running on the current connection, as listed by
+ * {@link V1Client.openStreams}.
+ */
+export interface OpenStream {
+	/** ID of the stream on the current connection. */
+	streamId: number;
+	/** Update interval negotiated with the server, in milliseconds. */
+	intervalMs: number;
+	/** Highest sequence number received on the current connection, if any. */
+	lastSeq: number | null;
+	/** Whether the stream is reported as stalled. */
+	stalled: boolean;
+}
 
 /**
  * Resolved value of requests that result in a stream.
@@ -381,334 +666,1611 @@ class GetSwapPriceResponseHandler extends ResponseHandler {
 export interface ResponseWithStream<T, D> {
 	response: T;
 	stream: ReadableStream<D>;
+	/**
+	 * ID of the stream on the connection it was started on.
+	 *
+	 * If the client reconnects, the stream is transparently re-created under a new
+	 * ID, announced through the `streamIdChanged` event.
+	 */
 	streamId: number;
 }
 
-export class V1Client {
-	private socket: WebSocketInstance;
-	private codec: V1ClientCodec;
-	private nextId: number;
-	private _closed: boolean;
-	private _closing: boolean;
-	private _closeEvent: ICloseEvent | null;
-
-	private results: Map<number, ResponseHandler>;
-	private quoteStreams: Map<
-		number,
-		ReadableStreamDefaultController<v1.SwapQuotes>
-	>;
-	private streamStopping: Map<number, boolean>;
-	private closeListeners: ResolverAndRejector<ICloseEvent>[];
-
-	static connect(url: string): Promise<V1Client> {
-		const ws: WebSocketInstance = new WebSocket(url, v1.WEBSOCKET_SUBPROTOCOLS);
-		ws.binaryType = "arraybuffer";
-
-		const { promise, resolve, reject } = Promise.withResolvers<V1Client>();
-
-		ws.onopen = () => {
-			if (!ws.protocol) {
-				reject(
-					new InvalidProtocolError("", "no protocol selected during handshake"),
-				);
-				return;
-			}
-			try {
-				const codec = V1ClientCodec.from_protocol(ws.protocol);
-				const client = new V1Client(ws, codec);
-				resolve(client);
-			} catch (err) {
-				reject(err);
-			}
-		};
-		ws.onerror = (err) => {
-			reject(err);
-		};
-
-		return promise;
-	}
+/**
+ * Options accepted by every request method.
+ */
+export interface RequestOptions {
+	/**
+	 * How long to wait for the server to respond, in milliseconds, before
+	 * rejecting with {@link RequestTimeout}. Overrides the client-wide
+	 * `requestTimeoutMs`.
+	 *
+	 * For quote streams, this only covers waiting for the stream to start.
+	 */
+	timeoutMs?: number;
+	/**
+	 * Signal that cancels the request, rejecting it with {@link AbortError}.
+	 *
+	 * For quote streams, aborting after the stream has started stops the stream
+	 * and errors it with {@link AbortError}.
+	 */
+	signal?: AbortSignal;
+	/**
+	 * Called with the 1-based position of a quote stream request in the queue
+	 * whenever it changes, if it has to wait for a free stream slot. Only
+	 * applies with the `"queue"` stream limit policy.
+	 */
+	onQueuePosition?: (position: number) => void;
+	/**
+	 * Whether to error a quote stream with {@link StreamSequenceError} and stop
+	 * it if the server skips updates, rather than only reporting the gap through
+	 * the `streamSequence` event. Defaults to false.
+	 */
+	failOnSequenceGap?: boolean;
+	/**
+	 * How to buffer the updates of a quote stream while the consumer is not
+	 * reading. By default every update is kept, so a slow consumer falls further
+	 * and further behind; see {@link StreamBufferOptions} for alternatives.
+	 */
+	buffer?: StreamBufferOptions;
+}
 
-	constructor(socket: WebSocketInstance, codec: V1ClientCodec) {
-		this.socket = socket;
-		this.codec = codec;
-		this.nextId = 0;
-		this.results = new Map();
-		this.quoteStreams = new Map();
-		this.streamStopping = new Map();
-		this._closed = false;
-		this._closing = false;
-		this._closeEvent = null;
-		this.closeListeners = [];
+/**
+ * An open connection to the server, along with the codec negotiated for it.
+ */
+export interface Connection {
+	transport: Transport;
+	codec: V1ClientCodec;
+}
 
-		this.socket.onmessage = (message) => {
-			this.handleMessage(message);
-		};
-		this.socket.onclose = (event) => {
-			this.handleClose(event);
-		};
-		this.socket.onerror = (event) => {
-			this.handleError(event);
-		};
-	}
+/**
+ * Function that opens a new connection to the server.
+ *
+ * When reconnecting, it is passed the error that closed the previous
+ * connection or failed the previous attempt.
+ */
+export type Connector = (error?: unknown) => Promise<Connection>;
 
-	private nextRequestId(): number {
-		const id = this.nextId;
-		this.nextId += 1;
-		return id;
-	}
+/**
+ * Provides the API token to connect with.
+ */
+export type TokenProvider = () => string | Promise<string>;
 
+/**
+ * Options accepted by {@link V1Client.connect}.
+ */
+export interface ConnectOptions {
 	/**
-	 * Returns true if the underlying WebSocket connection is closed.
+	 * Whether to automatically reconnect when the connection drops, and how.
+	 *
+	 * When enabled, active quote streams are re-issued on the new connection and
+	 * continue to deliver data through the same ReadableStream. Disabled by default.
 	 */
-	public get closed() {
-		return this._closed;
-	}
-
+	reconnect?: boolean | ReconnectOptions;
 	/**
-	 * Returns a promise that resolves when the underlying WebSocket connection is closed.
+	 * WebSocket implementation to connect with: the name of a built-in transport,
+	 * or a factory for a custom one. Defaults to `"auto"`, which uses the global
+	 * `WebSocket` where available and the `websocket` package otherwise.
 	 */
-	public listenClosed(): Promise<ICloseEvent> {
-		if (this._closeEvent === null) {
-			const { promise, resolve, reject } = Promise.withResolvers<ICloseEvent>();
-			this.closeListeners.push({ resolve, reject });
-			return promise;
-		}
-		return Promise.resolve(this._closeEvent);
-	}
-
+	transport?: TransportKind | TransportFactory;
 	/**
-	 * Closes the WebSocket if it is not already closed.
-	 *
-	 * @returns A promise that is resolved when the WebSocket is closed.
+	 * Extra HTTP headers to send with the WebSocket handshake. Not supported by
+	 * the global WebSocket transport.
 	 */
-	public close(): Promise<ICloseEvent> {
-		const promise = this.listenClosed();
-		// Start closing socket if not already closed or closing.
-		if (!this._closing && !this._closed) {
-			this._closing = true;
-			this.socket.close();
-		}
-		return promise;
-	}
-
+	headers?: Record<string, string>;
 	/**
-	 * Requests the server stop a running stream with the given ID.
+	 * API token, or a callback returning one.
 	 *
-	 * Alternatively, you may call {@link https://developer.mozilla.org/en-US/docs/Web/API/ReadableStream/cancel | the cancel() method}
-	 * method on the stream.
-	 *
-	 * @param streamId - The ID of the stream to stop.
-	 * @returns A promise that completes once the stream has been stopped.
+	 * Callbacks are invoked before every connection attempt, including
+	 * reconnects, so short-lived tokens can be refreshed. The token is sent in an
+	 * `Authorization: Bearer` header, unless `tokenInQuery` is set.
 	 */
-	public stopStream(streamId: number): Promise<v1.StreamEnd> {
-		const requestId = this.nextRequestId();
-		const { promise, handler } = StopStreamResponseHandler.create();
-		this.results.set(requestId, handler);
-
-		const message: v1.ClientRequest = {
-			id: requestId,
-			data: {
-				StopStream: {
-					id: streamId,
-				},
-			},
-		};
-		this.sendMessage(message);
-
-		return promise;
-	}
-
+	token?: string | TokenProvider;
 	/**
-	 * Requests information from the server regarding protocol version and settings.
+	 * Whether to send the token in the `auth` query parameter of the URL instead
+	 * of a header. Required to send a token with the global WebSocket transport,
+	 * which cannot send headers; URLs may end up in proxy and server logs.
+	 * Disabled by default.
+	 */
+	tokenInQuery?: boolean;
+	/**
+	 * Compression schemes to offer the server, most preferred first, or false to
+	 * disable compression. Defaults to every scheme of the compressor registry,
+	 * in the order they were registered.
+	 */
+	compression?: readonly (v1.WebSocketCompression | (string & {}))[] | false;
+	/**
+	 * Compressors to choose from, including any registered by the application.
+	 * Defaults to the shared registry, {@link compressors}, which holds the
+	 * built-in zstd, brotli and gzip compressors.
+	 */
+	compressors?: CompressorRegistry;
+	/**
+	 * Time to wait for a connection to open, in milliseconds, after which the
+	 * attempt fails with {@link ConnectTimeout}. Waits indefinitely if not set.
+	 */
+	connectTimeoutMs?: number;
+	/**
+	 * Default time to wait for a response to any request, in milliseconds.
+	 * Requests wait indefinitely if not set.
+	 */
+	requestTimeoutMs?: number;
+	/**
+	 * Whether to monitor the connection for liveness, and how.
 	 *
-	 * @returns A promise that is resolved with the requested information.
+	 * When enabled, a connection that stops responding is torn down with
+	 * {@link ConnectionStale} (and re-established if `reconnect` is enabled),
+	 * and quote streams that stop receiving updates are reported through the
+	 * `streamStalled` event. Disabled by default.
 	 */
-	public getInfo(): Promise<v1.ServerInfo> {
-		const requestId = this.nextRequestId();
-		const { promise, handler } = ServerInfoResponseHandler.create();
-		this.results.set(requestId, handler);
-
-		const message: v1.ClientRequest = {
-			id: requestId,
-			data: {
-				GetInfo: {},
-			},
-		};
-		this.sendMessage(message);
-
-		return promise;
-	}
-
+	heartbeat?: boolean | HeartbeatOptions;
 	/**
-	 * Requests that the server start a new stream of quotes for a given swap.
+	 * Whether to enforce the server's limit on concurrent streams on the client,
+	 * and how.
 	 *
-	 * @param params - The parameters for the swap to be quoted.
-	 * @returns A promise that is resolved once the quote stream is initialized.
+	 * When enabled, new quote streams beyond the limit either wait for a running
+	 * stream to end, or fail with {@link StreamLimitExceeded}, instead of being
+	 * rejected by the server. Disabled by default.
+	 */
+	streamLimit?: boolean | StreamLimitOptions;
+	/**
+	 * Event listeners to register before the connection is attached, so that
+	 * they also see the `open` event and frames of the first connection.
+	 */
+	on?: ClientListeners;
+	/**
+	 * Where the client logs unexpected messages and other diagnostics.
 	 *
-	 * The resolved value contains both the response, which contains information that
-	 * may have been filled in with defaults (such as the update interval), as well as
-	 * a {@link https://developer.mozilla.org/en-US/docs/Web/API/ReadableStream | ReadableStream}
-	 * that will stream the current best quote for each provider.
+	 * Defaults to logging warnings and errors to the console. Pass `noopLogger`
+	 * to silence the client, or wrap a logger with `withLevel()` to change the
+	 * threshold.
 	 */
-	public newSwapQuoteStream(
-		params: v1.SwapQuoteRequest,
-	): Promise<ResponseWithStream<v1.QuoteSwapStreamResponse, v1.SwapQuotes>> {
-		const requestId = this.nextRequestId();
-		const { promise, handler } = NewSwapQuoteStreamHandler.create();
-		this.results.set(requestId, handler);
-
-		// Normalize amount to BigInt for proper uint64 encoding
-		const normalizedParams: v1.SwapQuoteRequest = {
-			...params,
-			swap: { ...params.swap, amount: toBigInt(params.swap.amount) },
-		};
-
-		const message: v1.ClientRequest = {
-			id: requestId,
-			data: {
-				NewSwapQuoteStream: normalizedParams,
-			},
-		};
-		this.sendMessage(message);
-
-		return promise;
-	}
-
+	logger?: Logger;
 	/**
-	 * Requests a list of venues from the server.
+	 * Collects metrics about requests, streams and bytes on the wire.
 	 *
-	 * @param params - (optional) includeProgramIds - Whether to include program ID for each venue..
+	 * The same instance may be shared between clients to aggregate their
+	 * metrics. Nothing is recorded by default.
+	 */
+	metrics?: ClientMetrics;
+	/**
+	 * Creates spans for every request and quote stream, through an
+	 * OpenTelemetry-compatible tracer.
 	 *
-	 * @returns A promise that is resolved with the list of venues.
+	 * The same instance may be shared between clients, so that quotes received
+	 * by any of them can be linked to with `tracing.linkQuote()`.
 	 */
-	public getVenues(params?: v1.GetVenuesRequest): Promise<v1.VenueInfo> {
-		const requestId = this.nextRequestId();
-		const { promise, handler } = VenueInfoResponseHandler.create();
-		this.results.set(requestId, handler);
-
-		const message: v1.ClientRequest = {
-			id: requestId,
-			data: {
-				GetVenues: params || {},
-			},
-		};
-		this.sendMessage(message);
-
-		return promise;
-	}
-
+	tracing?: ClientTracing;
 	/**
-	 * Requests a list of providers from the server.
+	 * Whether to check every message received against the protocol's types.
+	 * In `"strict"` mode, an invalid message fails with a `DecodeError` pointing
+	 * at what was wrong, which closes the connection. In `"lenient"` mode it is
+	 * logged as a warning and handled anyway.
 	 *
-	 * @param params - (optional) includeIcons - Whether to include icons in the response.
+	 * Defaults to the codec's setting, which is `"off"` unless changed.
+	 */
+	validation?: ValidationMode;
+	/**
+	 * How unsigned 64-bit integers in responses and stream data, such as
+	 * amounts, are decoded: as either a number or a bigint depending on their
+	 * size (`"mixed"`), always as a bigint, or always as a number, failing to
+	 * decode values that do not fit. The types of the values returned by
+	 * clients connected with {@link V1Client.connect} narrow to match.
 	 *
-	 * @returns A promise that is resolved with the list of providers.
+	 * Defaults to the codec's setting, which is `"mixed"` unless changed.
 	 */
-	public listProviders(
-		params?: v1.ListProvidersRequest,
-	): Promise<v1.ProviderInfo[]> {
-		const requestId = this.nextRequestId();
-		const { promise, handler } = ProviderInfoResponseHandler.create();
-		this.results.set(requestId, handler);
+	uint64?: Uint64Mode;
+	/**
+	 * Workers to decompress and decode messages on, keeping large frames from
+	 * blocking the thread running the client. Messages are still handled in
+	 * the order they were received. The pool may be shared between clients and
+	 * is not terminated when they close.
+	 */
+	workers?: WorkerPool;
+	/**
+	 * Whether to decode the steps, instructions, address lookup tables and
+	 * transaction of quoted routes only when they are first read, which makes
+	 * quote streams much cheaper for consumers that only rank routes by their
+	 * amounts. Ignored for messages decoded on `workers`.
+	 *
+	 * Defaults to the codec's setting, which is off unless changed.
+	 */
+	lazyRoutes?: boolean;
+	/**
+	 * Limits on the size and shape of messages, checked before decoding them,
+	 * so that a hostile or corrupted frame cannot exhaust memory. A frame over
+	 * a limit fails with a `DecodeError` whose `kind` names it, which closes
+	 * the connection.
+	 *
+	 * Defaults to the codec's limits, which allow messages of up to 64 MiB.
+	 */
+	decodeLimits?: DecodeLimits;
+	/**
+	 * Records the frames of every connection the client makes, from the first
+	 * one on. The `ProtocolError` and `DecodeError` the client reports then
+	 * include the most recent frames in their `capture`.
+	 */
+	recorder?: SessionRecorder;
+}
+
+/**
+ * Options accepted by the {@link V1Client} constructor.
+ */
+export interface ClientOptions extends ConnectOptions {
+	/**
+	 * Opens a new connection when reconnecting. Required for reconnection to
+	 * take place; set automatically by {@link V1Client.connect}.
+	 */
+	connector?: Connector;
+	/**
+	 * Endpoints the connector chooses from, exposed through
+	 * {@link V1Client.endpoints}. Set automatically by {@link V1Client.connectBest}.
+	 */
+	endpoints?: EndpointSelector;
+}
+
+/**
+ * Options accepted by {@link V1Client.connectBest}.
+ */
+export interface MultiEndpointOptions extends ConnectOptions {
+	/**
+	 * How long to wait for the `GetInfo` round-trip when probing an endpoint, in
+	 * milliseconds. Defaults to 5 seconds.
+	 */
+	probeTimeoutMs?: number;
+}
+
+/**
+ * Emitted before each attempt to re-establish a dropped connection.
+ */
+export interface ReconnectingEvent {
+	/** Attempt number, starting from 1. */
+	attempt: number;
+	/** How long the client will wait before this attempt, in milliseconds. */
+	delayMs: number;
+	/** The error that closed the connection or failed the previous attempt. */
+	error: unknown;
+}
+
+/**
+ * Emitted once a dropped connection has been re-established.
+ */
+export interface ReconnectedEvent {
+	/** Number of attempts it took to reconnect. */
+	attempts: number;
+	/** Compression negotiated for the new connection. */
+	compression: string | null;
+}
+
+/**
+ * Emitted when a quote stream was re-created on a new connection under a new ID.
+ */
+export interface StreamIdChangedEvent {
+	/** ID of the stream on the previous connection. */
+	previousId: number;
+	/** ID of the stream on the current connection. */
+	streamId: number;
+}
+
+/**
+ * Emitted when a quote stream has not received an update for several of its
+ * update intervals.
+ */
+export interface StreamStalledEvent {
+	/** ID of the stream on the current connection. */
+	streamId: number;
+	/** Update interval negotiated for the stream, in milliseconds. */
+	intervalMs: number;
+	/** How long since the stream last received data, in milliseconds. */
+	silentForMs: number;
+}
+
+/**
+ * Emitted when a stalled quote stream receives data again.
+ */
+export interface StreamResumedEvent {
+	/** ID of the stream on the current connection. */
+	streamId: number;
+	/** How long the stream went without data, in milliseconds. */
+	silentForMs: number;
+}
+
+/**
+ * Emitted when the client attaches to an open connection, including after
+ * reconnecting.
+ */
+export interface ConnectionOpenEvent {
+	/** Subprotocol negotiated with the server. */
+	protocol: string;
+	/** Compression negotiated with the server, if any. */
+	compression: string | null;
+	/** URL of the endpoint, if the client was connected with `connectBest()`. */
+	endpoint: string | null;
+	/** Whether the connection replaces one that was lost. */
+	reconnect: boolean;
+}
+
+/**
+ * Emitted when a connection closes, whether or not the client reconnects.
+ */
+export interface ConnectionCloseEvent extends TransportCloseEvent {
+	/** Whether the client will try to re-establish the connection. */
+	willReconnect: boolean;
+}
+
+/**
+ * Emitted when the connection reports an error or a message fails to decode.
+ */
+export interface ClientErrorEvent {
+	/** The error reported by the transport or codec. */
+	error: unknown;
+}
+
+/**
+ * Emitted when a request has been encoded and handed to the connection.
+ */
+export interface RequestSentEvent {
+	/** ID of the request. */
+	requestId: number;
+	/** Type of the request, such as `"GetInfo"`. */
+	kind: string;
+	/** The request as sent. */
+	request: v1.ClientRequest;
+}
+
+/**
+ * Emitted when the server answers a request, successfully or with an error.
+ */
+export interface ResponseReceivedEvent {
+	/** ID of the request being answered. */
+	requestId: number;
+	/** Whether the server answered with a response rather than an error. */
+	ok: boolean;
+	/** Time since the request was sent, in milliseconds, if it was sent on this connection. */
+	latencyMs: number | null;
+	/** The response or error message. */
+	message: v1.ResponseSuccess | v1.ResponseError;
+}
+
+/**
+ * Emitted when a quote stream has been started by the server, including
+ * streams re-issued after reconnecting.
+ */
+export interface StreamStartEvent {
+	/** ID of the stream on the current connection. */
+	streamId: number;
+	/** Update interval negotiated for the stream, in milliseconds. */
+	intervalMs: number;
+	/** The parameters the stream was requested with. */
+	request: v1.SwapQuoteRequest;
+}
+
+/**
+ * Emitted for every data message received for a stream.
+ */
+export interface StreamDataEvent {
+	/** ID of the stream on the current connection. */
+	streamId: number;
+	/** Sequence number of the message. */
+	seq: number;
+	/** The data received. */
+	payload: v1.StreamDataPayload;
+}
+
+/**
+ * Kind of irregularity in the sequence numbers of a quote stream:
+ *
+ * - `"gap"`: updates were skipped. The update is still delivered, unless the
+ *   stream was started with `failOnSequenceGap`.
+ * - `"duplicate"`: the update repeats the previous one and is dropped.
+ * - `"outOfOrder"`: the update is older than the previous one and is dropped,
+ *   as a newer one has already been delivered.
+ */
+export type StreamSequenceIssue = "gap" | "duplicate" | "outOfOrder";
+
+/**
+ * Emitted when a quote stream receives data with an unexpected sequence number.
+ *
+ * Sequence numbers are tracked per server-side stream, so they start over when
+ * a stream is re-issued after reconnecting.
+ */
+export interface StreamSequenceEvent {
+	/** ID of the stream on the current connection. */
+	streamId: number;
+	/** What was wrong with the sequence number. */
+	issue: StreamSequenceIssue;
+	/** Sequence number that was expected next. */
+	expectedSeq: number;
+	/** Sequence number that was received. */
+	seq: number;
+	/** Number of updates skipped, for gaps, and 0 otherwise. */
+	missed: number;
+}
+
+/**
+ * Emitted when the server ends a stream, including streams that were stopped.
+ */
+export interface StreamEndEvent {
+	/** ID of the stream on the current connection. */
+	streamId: number;
+	/** Error code, if the stream ended due to an error. */
+	errorCode?: number;
+	/** Error message, if the stream ended due to an error. */
+	errorMessage?: string;
+}
+
+/**
+ * Emitted for server messages of a type the client does not know.
+ */
+export interface UnknownMessageEvent {
+	/** The decoded message. */
+	message: unknown;
+}
+
+/**
+ * Emitted with the encoded bytes of every binary frame, before decoding for
+ * received frames and after encoding for sent ones.
+ *
+ * The data must not be modified.
+ */
+export interface FrameEvent {
+	/** Whether the frame was received from or sent to the server. */
+	direction: "received" | "sent";
+	/** Encoded contents of the frame. */
+	data: Uint8Array;
+}
+
+/**
+ * Events emitted by {@link V1Client}.
+ */
+export interface ClientEvents {
+	open: ConnectionOpenEvent;
+	close: ConnectionCloseEvent;
+	error: ClientErrorEvent;
+	request: RequestSentEvent;
+	response: ResponseReceivedEvent;
+	streamStart: StreamStartEvent;
+	streamData: StreamDataEvent;
+	streamSequence: StreamSequenceEvent;
+	streamEnd: StreamEndEvent;
+	unknownMessage: UnknownMessageEvent;
+	frame: FrameEvent;
+	reconnecting: ReconnectingEvent;
+	reconnected: ReconnectedEvent;
+	streamIdChanged: StreamIdChangedEvent;
+	streamStalled: StreamStalledEvent;
+	streamResumed: StreamResumedEvent;
+}
+
+/**
+ * Listeners for any number of client events, keyed by event name.
+ */
+export type ClientListeners = {
+	[K in keyof ClientEvents]?: Listener<ClientEvents[K]>;
+};
+
+// Outcome of decoding a single frame.
+type DecodeResult = { message: v1.ServerMessage } | { error: unknown };
+
+// A request sent on the current connection.
+interface SentRequest {
+	kind: string;
+	sentAt: number;
+}
+
+// Returns the type of a request, such as "GetInfo".
+function requestKind(request: v1.ClientRequest): string {
+	return Object.keys(request.data)[0];
+}
+
+// Classifies how a request failed.
+function requestOutcome(error: unknown): RequestOutcome {
+	if (error instanceof RequestTimeout) {
+		return "timeout";
+	}
+	if (error instanceof AbortError) {
+		return "aborted";
+	}
+	return "error";
+}
+
+// Everything needed to open a new connection, resolved from ConnectOptions.
+interface ConnectionSettings {
+	factory: TransportFactory;
+	protocols: string[];
+	compressors: CompressorRegistry;
+	headers: Record<string, string>;
+	token?: string | TokenProvider;
+	// Whether the token is sent in the URL rather than a header.
+	tokenInQuery: boolean;
+	connectTimeoutMs?: number;
+}
+
+// Returns the subprotocols to offer for the given compression preference.
+function offeredProtocols(
+	compression: readonly string[] | false | undefined,
+	registry: CompressorRegistry,
+): string[] {
+	if (compression === false) {
+		return [v1.WEBSOCKET_SUBPROTO_BASE];
+	}
+	compression ??= registry.names();
+	for (const name of compression) {
+		if (!registry.has(name)) {
+			throw new RangeError(`Unsupported compression ${name}`);
+		}
+	}
+	return [
+		...compression.map((name) => `${v1.WEBSOCKET_SUBPROTO_BASE}+${name}`),
+		v1.WEBSOCKET_SUBPROTO_BASE,
+	];
+}
+
+function resolveConnectionSettings(
+	options: ConnectOptions,
+): ConnectionSettings {
+	const factory = resolveTransport(options.transport);
+	const tokenInQuery = options.tokenInQuery ?? false;
+	if (
+		options.token !== undefined &&
+		!tokenInQuery &&
+		factory === globalWebSocketTransport
+	) {
+		throw new RangeError(
+			"The global WebSocket transport cannot send the token in a header. " +
+				"Set tokenInQuery to send it in the URL, or use another transport.",
+		);
+	}
+	const registry = options.compressors ?? compressors;
+	return {
+		factory,
+		protocols: offeredProtocols(options.compression, registry),
+		compressors: registry,
+		headers: options.headers ?? {},
+		token: options.token,
+		tokenInQuery,
+		connectTimeoutMs: options.connectTimeoutMs,
+	};
+}
+
+// Opens a connection to the given URL and negotiates the codec from the
+// subprotocol selected by the server.
+async function openConnection(
+	url: string,
+	settings: ConnectionSettings,
+): Promise<Connection> {
+	const headers = { ...settings.headers };
+	if (settings.token !== undefined) {
+		const token =
+			typeof settings.token === "function"
+				? await settings.token()
+				: settings.token;
+		if (settings.tokenInQuery) {
+			const withToken = new URL(url);
+			withToken.searchParams.set("auth", token);
+			url = withToken.toString();
+		} else {
+			headers.Authorization = `Bearer ${token}`;
+		}
+	}
+
+	const transport = await openTransport(url, settings, headers);
+	if (!transport.protocol) {
+		transport.close();
+		throw new InvalidProtocolError("", "no protocol selected during handshake");
+	}
+	if (!settings.protocols.includes(transport.protocol)) {
+		transport.close();
+		throw new InvalidProtocolError(
+			transport.protocol,
+			"not offered by the client",
+		);
+	}
+	try {
+		const codec = V1ClientCodec.from_protocol(
+			transport.protocol,
+			settings.compressors,
+		);
+		return { transport, codec };
+	} catch (err) {
+		transport.close();
+		throw err;
+	}
+}
+
+// Measures the GetInfo round-trip time to the given endpoint on a short-lived
+// connection.
+async function probeEndpoint(
+	url: string,
+	settings: ConnectionSettings,
+	timeoutMs: number,
+): Promise<number> {
+	const { transport, codec } = await openConnection(url, settings);
+	const client = new V1Client(transport, codec);
+	try {
+		const start = performance.now();
+		await client.getInfo({ timeoutMs });
+		return performance.now() - start;
+	} finally {
+		await client.close();
+	}
+}
+
+// Opens the transport, giving up once the connect timeout expires. Transports
+// are asked to abort the attempt, and closed should they open regardless.
+async function openTransport(
+	url: string,
+	settings: ConnectionSettings,
+	headers: Record<string, string>,
+): Promise<Transport> {
+	const timeoutMs = settings.connectTimeoutMs;
+	if (timeoutMs === undefined) {
+		return settings.factory(url, settings.protocols, { headers });
+	}
+	const controller = new AbortController();
+	const opening = settings.factory(url, settings.protocols, {
+		headers,
+		signal: controller.signal,
+	});
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const timeout = new Promise<never>((_, reject) => {
+		timer = setTimeout(() => {
+			const error = new ConnectTimeout(timeoutMs);
+			controller.abort(error);
+			reject(error);
+			opening.then(
+				(transport) => transport.close(),
+				() => {},
+			);
+		}, timeoutMs);
+	});
+	try {
+		return await Promise.race([opening, timeout]);
+	} finally {
+		clearTimeout(timer);
+	}
+}
+
+/**
+ * Client for the v1 API.
+ *
+ * `U` is the type of the unsigned 64-bit integers, such as amounts, in the
+ * quotes and prices it returns, as set by the `uint64` connect option.
+ */
+export class V1Client<U extends v1.Uint64 = v1.Uint64> {
+	private socket: Transport;
+	private codec: V1ClientCodec;
+	private nextId: number;
+	private _closed: boolean;
+	private _closing: boolean;
+	private _closeEvent: TransportCloseEvent | null;
+
+	private results: Map<number, ResponseHandler>;
+	private quoteStreams: Map<number, QuoteStreamState>;
+	private streamStopping: Map<number, boolean>;
+	private closeListeners: ResolverAndRejector<TransportCloseEvent>[];
+
+	private events: TypedEventEmitter<ClientEvents>;
+	private connector: Connector | null;
+	private reconnectOptions: ResolvedReconnectOptions | null;
+	private _reconnecting: boolean;
+	// Streams waiting to be re-issued once the connection is re-established.
+	private orphanedStreams: QuoteStreamState[];
+	// Wakes the reconnect loop early, used when the client is closed mid-reconnect.
+	private wakeReconnect: (() => void) | null;
+	private requestTimeoutMs: number | undefined;
+	// Requests that timed out or were aborted, whose late responses are ignored.
+	private abandonedRequests: Set<number>;
+	// Streams started by abandoned requests, which are stopped as soon as they start.
+	private discardedStreams: Set<number>;
+	private heartbeatOptions: ResolvedHeartbeatOptions | null;
+	private heartbeat: HeartbeatMonitor | null;
+	private _endpoints: EndpointSelector | null;
+	private streamLimitOptions: ResolvedStreamLimitOptions | null;
+	// Limit on concurrent streams, once known.
+	private _streamLimit: number | null;
+	// Stream requests waiting for a free slot.
+	private streamQueue: StreamQueue;
+	// Requests sent on the current connection, for response latency.
+	private sentRequests: Map<number, SentRequest>;
+	// Requests the client sent for itself, which are not reported.
+	private internalRequests: Set<number>;
+	private logger: Logger;
+	private metrics: ClientMetrics | null;
+	private tracing: ClientTracing | null;
+	private validation: ValidationMode | null;
+	private uint64: Uint64Mode | null;
+	private workers: WorkerPool | null;
+	private lazyRoutes: boolean | null;
+	private decodeLimits: ResolvedDecodeLimits | null;
+	private recorder: SessionRecorder | null;
+	// Processing of received frames, in the order they arrived.
+	private inbound: Promise<void>;
+	// Spans of requests that have not completed yet.
+	private requestSpans: Map<number, Span>;
+
+	/**
+	 * Connects to the server at the given URL.
+	 *
+	 * @param url - WebSocket URL of the API endpoint.
+	 * @param options - Additional connection options.
+	 * @returns A promise that resolves with the client once the connection is open.
+	 */
+	static async connect<M extends Uint64Mode = "mixed">(
+		url: string,
+		options: ConnectOptions & { uint64?: M } = {},
+	): Promise<V1Client<Uint64Type<M>>> {
+		const settings = resolveConnectionSettings(options);
+		const connector = () => openConnection(url, settings);
+		const { transport, codec } = await connector();
+		const client = new V1Client<Uint64Type<M>>(transport, codec, {
+			...options,
+			connector,
+		});
+		await client.fetchStreamLimit();
+		return client;
+	}
+
+	/**
+	 * Connects to the endpoint with the lowest latency out of several equivalent
+	 * ones, such as the regional endpoints of the API.
+	 *
+	 * Each endpoint is first probed with a connection and `GetInfo` round-trip.
+	 * Reconnection is enabled by default, and fails over to the next best
+	 * endpoint when the connection to the current one is lost.
+	 *
+	 * @param urls - WebSocket URLs of the endpoints.
+	 * @param options - Additional connection options, applied to every endpoint.
+	 * @returns A promise that resolves with the client once the connection is open.
+	 * @throws {NoEndpointAvailable} If none of the endpoints could be connected to.
+	 */
+	static async connectBest<M extends Uint64Mode = "mixed">(
+		urls: string[],
+		options: MultiEndpointOptions & { uint64?: M } = {},
+	): Promise<V1Client<Uint64Type<M>>> {
+		const settings = resolveConnectionSettings(options);
+		const probeTimeoutMs = options.probeTimeoutMs ?? 5_000;
+		const endpoints = new EndpointSelector(urls, (url) =>
+			probeEndpoint(url, settings, probeTimeoutMs),
+		);
+		await endpoints.probeAll();
+		const connector = (error?: unknown) =>
+			endpoints.connect((url) => openConnection(url, settings), error);
+		const { transport, codec } = await connector();
+		const client = new V1Client<Uint64Type<M>>(transport, codec, {
+			reconnect: true,
+			...options,
+			connector,
+			endpoints,
+		});
+		await client.fetchStreamLimit();
+		return client;
+	}
+
+	constructor(
+		socket: Transport,
+		codec: V1ClientCodec,
+		options: ClientOptions = {},
+	) {
+		this.socket = socket;
+		this.codec = codec;
+		this.nextId = 0;
+		this.results = new Map();
+		this.quoteStreams = new Map();
+		this.streamStopping = new Map();
+		this._closed = false;
+		this._closing = false;
+		this._closeEvent = null;
+		this.closeListeners = [];
+
+		this.logger = options.logger ?? consoleLogger();
+		this.events = new TypedEventEmitter(this.logger);
+		for (const [event, listener] of Object.entries(options.on ?? {})) {
+			this.events.on(
+				event as keyof ClientEvents,
+				listener as Listener<ClientEvents[keyof ClientEvents]>,
+			);
+		}
+		if (options.recorder !== undefined) {
+			const { open, frame, close } = options.recorder.listeners();
+			this.events.on("open", open);
+			this.events.on("frame", frame);
+			this.events.on("close", close);
+		}
+		this.connector = options.connector ?? null;
+		this.reconnectOptions = resolveReconnectOptions(options.reconnect);
+		this._reconnecting = false;
+		this.orphanedStreams = [];
+		this.wakeReconnect = null;
+		this.requestTimeoutMs = options.requestTimeoutMs;
+		this.abandonedRequests = new Set();
+		this.discardedStreams = new Set();
+		this.heartbeatOptions = resolveHeartbeatOptions(options.heartbeat);
+		this.heartbeat = null;
+		this._endpoints = options.endpoints ?? null;
+		this.streamLimitOptions = resolveStreamLimitOptions(options.streamLimit);
+		this._streamLimit = this.streamLimitOptions?.maxStreams ?? null;
+		this.streamQueue = new StreamQueue(this.logger);
+		this.sentRequests = new Map();
+		this.internalRequests = new Set();
+		this.metrics = options.metrics ?? null;
+		this.tracing = options.tracing ?? null;
+		this.validation = options.validation ?? null;
+		this.uint64 = options.uint64 ?? null;
+		this.workers = options.workers ?? null;
+		this.lazyRoutes = options.lazyRoutes ?? null;
+		this.decodeLimits =
+			options.decodeLimits === undefined
+				? null
+				: resolveDecodeLimits(options.decodeLimits);
+		this.recorder = options.recorder ?? null;
+		this.requestSpans = new Map();
+		this.inbound = Promise.resolve();
+
+		this.attachSocket(socket);
+	}
+
+	private attachSocket(socket: Transport) {
+		this.inbound = Promise.resolve();
+		if (this.metrics !== null) {
+			this.codec.observer = this.metrics;
+		}
+		if (this.validation !== null) {
+			this.codec.validation = this.validation;
+		}
+		if (this.uint64 !== null) {
+			this.codec.uint64 = this.uint64;
+		}
+		if (this.workers !== null) {
+			this.codec.workers = this.workers;
+		}
+		if (this.lazyRoutes !== null) {
+			this.codec.lazyRoutes = this.lazyRoutes;
+		}
+		if (this.decodeLimits !== null) {
+			this.codec.limits = this.decodeLimits;
+		}
+		this.codec.logger = this.logger;
+		socket.onmessage = (message) => {
+			this.handleMessage(socket, message);
+		};
+		socket.onclose = (event) => {
+			this.handleClose(event);
+		};
+		socket.onerror = (event) => {
+			this.handleError(event);
+		};
+		this.startHeartbeat(socket);
+		this.events.emit("open", {
+			protocol: socket.protocol,
+			compression: this.codec.compression(),
+			endpoint: this._endpoints?.current ?? null,
+			reconnect: this._reconnecting,
+		});
+	}
+
+	private startHeartbeat(socket: Transport) {
+		const options = this.heartbeatOptions;
+		if (options === null) {
+			return;
+		}
+		const ping = socket.ping?.bind(socket);
+		const probe = ping
+			? ping
+			: async () => {
+					await this.probe(options.timeoutMs);
+				};
+		this.heartbeat = new HeartbeatMonitor(
+			options,
+			probe,
+			(error) => error instanceof RequestTimeout,
+			(missed) => this.handleStale(socket, missed),
+		);
+		this.heartbeat.start();
+	}
+
+	// Sends a GetInfo request to check that the connection is alive, marked as
+	// the client's own so that it can be told apart from application requests.
+	private probe(timeoutMs: number): Promise<v1.ServerInfo> {
+		const created = ServerInfoResponseHandler.create();
+		created.handler.internal = true;
+		return this.sendRequest(created, { GetInfo: {} }, { timeoutMs });
+	}
+
+	private stopHeartbeat() {
+		this.heartbeat?.stop();
+		this.heartbeat = null;
+	}
+
+	// Stops listening to a socket that has been replaced or abandoned.
+	private detachSocket(socket: Transport) {
+		this.stopHeartbeat();
+		socket.onmessage = null;
+		socket.onclose = null;
+		socket.onerror = null;
+	}
+
+	private nextRequestId(): number {
+		const id = this.nextId;
+		this.nextId += 1;
+		return id;
+	}
+
+	/**
+	 * Returns true if the underlying WebSocket connection is closed.
+	 *
+	 * While the client is reconnecting this returns false, as the client is still usable.
+	 */
+	public get closed() {
+		return this._closed;
+	}
+
+	/**
+	 * Returns true if the client is currently trying to re-establish a dropped connection.
+	 */
+	public get reconnecting() {
+		return this._reconnecting;
+	}
+
+	/**
+	 * Returns the name of the compression negotiated for the current connection,
+	 * or null if messages are not compressed.
+	 */
+	public get compression(): string | null {
+		return this.codec.compression();
+	}
+
+	/**
+	 * Returns the number of quote streams the client holds on the server: running
+	 * streams, streams being started, and streams waiting to be re-issued after
+	 * a reconnect.
+	 */
+	public get activeStreams(): number {
+		let count = this.quoteStreams.size;
+		for (const state of this.orphanedStreams) {
+			if (!state.cancelled) {
+				count += 1;
+			}
+		}
+		for (const handler of this.results.values()) {
+			if (
+				handler instanceof NewSwapQuoteStreamHandler ||
+				handler instanceof ResubscribeHandler
+			) {
+				count += 1;
+			}
+		}
+		return count;
+	}
+
+	/**
+	 * Returns the enforced limit on concurrent streams, or null if the limit is
+	 * not enforced or not yet known.
+	 */
+	public get streamLimit(): number | null {
+		return this.streamLimitOptions === null ? null : this._streamLimit;
+	}
+
+	/**
+	 * Returns the number of quote stream requests waiting for a free slot.
+	 */
+	public get queuedStreams(): number {
+		return this.streamQueue.length;
+	}
+
+	/**
+	 * Returns the requests sent on the current connection that are still
+	 * waiting for a response, in the order they were sent.
+	 */
+	public pendingRequests(): PendingRequest[] {
+		const pending: PendingRequest[] = [];
+		for (const [requestId, handler] of this.results) {
+			if (handler.request !== null) {
+				pending.push({ requestId, kind: handler.kind });
+			}
+		}
+		return pending;
+	}
+
+	/**
+	 * Returns the quote streams running on the current connection. Streams
+	 * being started or waiting to be re-issued after a reconnect are not
+	 * included; see {@link activeStreams} for those.
+	 */
+	public openStreams(): OpenStream[] {
+		return [...this.quoteStreams.values()].map((state) => ({
+			streamId: state.streamId,
+			intervalMs: state.intervalMs,
+			lastSeq: state.lastSeq,
+			stalled: state.stalled,
+		}));
+	}
+
+	/**
+	 * Returns the URL of the endpoint currently connected to, if the client was
+	 * created with {@link V1Client.connectBest}.
+	 */
+	public get endpoint(): string | null {
+		return this._endpoints?.current ?? null;
+	}
+
+	/**
+	 * Returns the health and measured latency of every endpoint, if the client
+	 * was created with {@link V1Client.connectBest}.
+	 */
+	public endpointStatus(): EndpointStatus[] {
+		return this._endpoints?.status() ?? [];
+	}
+
+	/**
+	 * Re-measures the latency of every endpoint, if the client was created with
+	 * {@link V1Client.connectBest}. Does not switch the current connection.
+	 */
+	public async probeEndpoints(): Promise<EndpointStatus[]> {
+		return (await this._endpoints?.probeAll()) ?? [];
+	}
+
+	/**
+	 * Registers a listener for a client event.
+	 *
+	 * @returns A function that removes the listener.
+	 */
+	public on<K extends keyof ClientEvents>(
+		event: K,
+		listener: Listener<ClientEvents[K]>,
+	): () => void {
+		return this.events.on(event, listener);
+	}
+
+	/**
+	 * Registers a listener that is called at most once.
+	 *
+	 * @returns A function that removes the listener.
+	 */
+	public once<K extends keyof ClientEvents>(
+		event: K,
+		listener: Listener<ClientEvents[K]>,
+	): () => void {
+		return this.events.once(event, listener);
+	}
+
+	/**
+	 * Removes a previously registered listener.
+	 */
+	public off<K extends keyof ClientEvents>(
+		event: K,
+		listener: Listener<ClientEvents[K]>,
+	): void {
+		this.events.off(event, listener);
+	}
+
+	/**
+	 * Returns a promise that resolves when the underlying WebSocket connection is closed.
+	 *
+	 * If reconnection is enabled, this only resolves once the client gives up or is closed.
+	 */
+	public listenClosed(): Promise<TransportCloseEvent> {
+		if (this._closeEvent === null) {
+			const { promise, resolve, reject } =
+				Promise.withResolvers<TransportCloseEvent>();
+			this.closeListeners.push({ resolve, reject });
+			return promise;
+		}
+		return Promise.resolve(this._closeEvent);
+	}
+
+	/**
+	 * Closes the WebSocket if it is not already closed.
+	 *
+	 * This also stops any reconnection attempt in progress.
+	 *
+	 * @returns A promise that is resolved when the WebSocket is closed.
+	 */
+	public close(): Promise<TransportCloseEvent> {
+		const promise = this.listenClosed();
+		// Start closing socket if not already closed or closing.
+		if (!this._closing && !this._closed) {
+			this._closing = true;
+			if (this._reconnecting) {
+				this.wakeReconnect?.();
+			} else {
+				this.socket.close();
+			}
+		}
+		return promise;
+	}
+
+	/**
+	 * Requests the server stop a running stream with the given ID.
+	 *
+	 * Alternatively, you may call {@link https://developer.mozilla.org/en-US/docs/Web/API/ReadableStream/cancel | the cancel() method}
+	 * method on the stream.
+	 *
+	 * @param streamId - The ID of the stream to stop.
+	 * @param options - Timeout and cancellation for the request.
+	 * @returns A promise that completes once the stream has been stopped.
+	 */
+	public stopStream(
+		streamId: number,
+		options?: RequestOptions,
+	): Promise<v1.StreamEnd> {
+		return this.sendRequest(
+			StopStreamResponseHandler.create(),
+			{
+				StopStream: {
+					id: streamId,
+				},
+			},
+			options,
+		);
+	}
+
+	/**
+	 * Requests information from the server regarding protocol version and settings.
+	 *
+	 * @param options - Timeout and cancellation for the request.
+	 * @returns A promise that is resolved with the requested information.
+	 */
+	public getInfo(options?: RequestOptions): Promise<v1.ServerInfo> {
+		return this.sendRequest(
+			ServerInfoResponseHandler.create(),
+			{
+				GetInfo: {},
+			},
+			options,
+		);
+	}
+
+	/**
+	 * Requests that the server start a new stream of quotes for a given swap.
+	 *
+	 * @param params - The parameters for the swap to be quoted.
+	 * @param options - Timeout and cancellation for the request and the stream.
+	 * @returns A promise that is resolved once the quote stream is initialized.
+	 *
+	 * The resolved value contains both the response, which contains information that
+	 * may have been filled in with defaults (such as the update interval), as well as
+	 * a {@link https://developer.mozilla.org/en-US/docs/Web/API/ReadableStream | ReadableStream}
+	 * that will stream the current best quote for each provider.
+	 */
+	public newSwapQuoteStream(
+		params: v1.SwapQuoteRequest,
+		options?: RequestOptions,
+	): Promise<
+		ResponseWithStream<
+			v1.QuoteSwapStreamResponse,
+			v1.WithUint64<v1.SwapQuotes, U>
+		>
+	> {
+		const created = NewSwapQuoteStreamHandler.create();
+		const handler = created.handler as NewSwapQuoteStreamHandler;
+		handler.signal = options?.signal ?? null;
+		handler.failOnSequenceGap = options?.failOnSequenceGap ?? false;
+		try {
+			handler.buffer = resolveStreamBufferOptions(options?.buffer);
+		} catch (error) {
+			return Promise.reject(error);
+		}
 
-		const message: v1.ClientRequest = {
-			id: requestId,
-			data: {
-				ListProviders: params || {},
+		const limited = this.streamLimitReached();
+		if (limited && this.streamLimitOptions?.policy === "reject") {
+			return Promise.reject(
+				new StreamLimitExceeded(this._streamLimit as number),
+			);
+		}
+		return this.sendRequest(
+			created,
+			{
+				NewSwapQuoteStream: params,
 			},
-		};
-		this.sendMessage(message);
+			options,
+			limited,
+		) as Promise<
+			ResponseWithStream<
+				v1.QuoteSwapStreamResponse,
+				v1.WithUint64<v1.SwapQuotes, U>
+			>
+		>;
+	}
 
-		return promise;
+	/**
+	 * Requests a list of venues from the server.
+	 *
+	 * @param params - (optional) includeProgramIds - Whether to include program ID for each venue..
+	 * @param options - Timeout and cancellation for the request.
+	 *
+	 * @returns A promise that is resolved with the list of venues.
+	 */
+	public getVenues(
+		params?: v1.GetVenuesRequest,
+		options?: RequestOptions,
+	): Promise<v1.VenueInfo> {
+		return this.sendRequest(
+			VenueInfoResponseHandler.create(),
+			{
+				GetVenues: params || {},
+			},
+			options,
+		);
+	}
+
+	/**
+	 * Requests a list of providers from the server.
+	 *
+	 * @param params - (optional) includeIcons - Whether to include icons in the response.
+	 * @param options - Timeout and cancellation for the request.
+	 *
+	 * @returns A promise that is resolved with the list of providers.
+	 */
+	public listProviders(
+		params?: v1.ListProvidersRequest,
+		options?: RequestOptions,
+	): Promise<v1.ProviderInfo[]> {
+		return this.sendRequest(
+			ProviderInfoResponseHandler.create(),
+			{
+				ListProviders: params || {},
+			},
+			options,
+		);
 	}
 
 	/**
 	 * Requests pricing information for a swap between two tokens at a given input amount.
 	 *
 	 * @param params - Parameters for the swap to be quoted.
+	 * @param options - Timeout and cancellation for the request.
 	 * @returns A promise that is resolved with the quote information.
 	 */
-	public getSwapPrice(params: v1.SwapPriceRequest): Promise<v1.SwapPrice> {
-		const requestId = this.nextRequestId();
-		const { promise, handler } = GetSwapPriceResponseHandler.create();
-		this.results.set(requestId, handler);
+	public getSwapPrice(
+		params: v1.SwapPriceRequest,
+		options?: RequestOptions,
+	): Promise<v1.WithUint64<v1.SwapPrice, U>> {
+		return this.sendRequest(
+			GetSwapPriceResponseHandler.create(),
+			{
+				GetSwapPrice: params,
+			},
+			options,
+		) as Promise<v1.WithUint64<v1.SwapPrice, U>>;
+	}
 
-		// Normalize amount to BigInt for proper uint64 encoding
-		const normalizedParams: v1.SwapPriceRequest = {
-			...params,
-			amount: toBigInt(params.amount),
+	// Converts the Uint64 fields of the request to BigInt, throwing if any is
+	// invalid, then assigns the request an ID, registers its handler and sends it
+	// to the server, applying the timeout and abort signal from the options.
+	// Queued requests are only sent once a stream slot frees up, with the timeout
+	// covering the wait.
+	private sendRequest<T>(
+		{ promise, handler }: HandlerAndPromise<T>,
+		data: v1.RequestData,
+		options: RequestOptions = {},
+		queue = false,
+	): Promise<T> {
+		const normalized = normalizeRequest(data);
+		const message: v1.ClientRequest = {
+			id: this.nextRequestId(),
+			data: normalized,
 		};
+		handler.request = message;
+		handler.onReject = (reason) => this.attachCapture(reason);
+		if (handler.internal) {
+			this.internalRequests.add(message.id);
+		}
+		if (this.tracing !== null && !handler.internal) {
+			this.traceRequest(this.tracing, message, promise);
+		}
 
-		const message: v1.ClientRequest = {
-			id: requestId,
-			data: {
-				GetSwapPrice: normalizedParams,
-			},
+		const { signal } = options;
+		if (signal?.aborted) {
+			handler.reject(new AbortError(message.id, signal.reason));
+			return promise;
+		}
+
+		const send = () => {
+			this.results.set(message.id, handler);
+			if (!this._reconnecting) {
+				// Otherwise sent once the connection is re-established.
+				this.sendMessage(message);
+			}
+		};
+		let queued: QueuedStream | null = null;
+		if (queue) {
+			queued = {
+				start: () => {
+					queued = null;
+					send();
+				},
+				fail: (error) => handler.reject(error),
+				onPosition: options.onQueuePosition,
+			};
+			this.streamQueue.push(queued);
+		} else {
+			send();
+		}
+		const giveUp = (error: Error) => {
+			if (queued !== null) {
+				this.streamQueue.remove(queued);
+				queued = null;
+				handler.reject(error);
+			} else {
+				this.abandonRequest(message.id, error);
+			}
 		};
-		this.sendMessage(message);
 
+		const timeoutMs = options.timeoutMs ?? this.requestTimeoutMs;
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		if (timeoutMs !== undefined) {
+			timer = setTimeout(() => {
+				giveUp(new RequestTimeout(message.id, timeoutMs));
+			}, timeoutMs);
+		}
+		const onAbort = () => {
+			giveUp(new AbortError(message.id, signal?.reason));
+		};
+		signal?.addEventListener("abort", onAbort, { once: true });
+		const cleanup = () => {
+			clearTimeout(timer);
+			signal?.removeEventListener("abort", onAbort);
+			if (!this.abandonedRequests.has(message.id)) {
+				// Abandoned requests are forgotten once their late response arrives.
+				this.internalRequests.delete(message.id);
+			}
+		};
+		promise.then(cleanup, cleanup);
 		return promise;
 	}
 
+	// Covers a request with a span that ends once it completes.
+	private traceRequest<T>(
+		tracing: ClientTracing,
+		message: v1.ClientRequest,
+		promise: Promise<T>,
+	) {
+		const span = tracing.startRequest(message, requestKind(message));
+		this.requestSpans.set(message.id, span);
+		promise.then(
+			(result) => {
+				this.requestSpans.delete(message.id);
+				if ("GetSwapPrice" in message.data) {
+					tracing.swapPrice(span, result as v1.SwapPrice);
+				}
+				tracing.endRequest(span, "ok");
+			},
+			(error) => {
+				this.requestSpans.delete(message.id);
+				tracing.endRequest(span, requestOutcome(error), error);
+			},
+		);
+	}
+
+	// Ends the span of a stream that was cancelled or failed on the client.
+	private closeStreamSpan(state: QuoteStreamState, error?: unknown) {
+		if (state.span !== null) {
+			this.tracing?.streamClosed(state.span, error);
+			state.span = null;
+		}
+	}
+
+	// Whether new streams have to wait for, or be refused, a slot.
+	private streamLimitReached(): boolean {
+		if (this.streamLimitOptions === null || this._streamLimit === null) {
+			return false;
+		}
+		return (
+			this.streamQueue.length > 0 || this.activeStreams >= this._streamLimit
+		);
+	}
+
+	// Starts queued streams for as long as there are free slots.
+	private startQueuedStreams() {
+		while (this.streamQueue.length > 0) {
+			if (
+				this._streamLimit !== null &&
+				this.activeStreams >= this._streamLimit
+			) {
+				return;
+			}
+			this.streamQueue.shift()?.start();
+		}
+	}
+
+	// Updates the stream limit from the server's settings, unless fixed.
+	private learnStreamLimit(info: v1.ServerInfo) {
+		if (
+			this.streamLimitOptions !== null &&
+			this.streamLimitOptions.maxStreams === null
+		) {
+			this._streamLimit = info.settings.connection.concurrentStreams;
+		}
+	}
+
+	// Fetches the stream limit if configured to do so when connecting.
+	private async fetchStreamLimit() {
+		if (!this.streamLimitOptions?.fetchOnConnect) {
+			return;
+		}
+		try {
+			await this.getInfo();
+		} catch (err) {
+			await this.close();
+			throw err;
+		}
+	}
+
+	// Gives up on a pending request, ignoring any response that arrives later.
+	private abandonRequest(requestId: number, error: Error) {
+		const handler = this.results.get(requestId);
+		if (handler === undefined) {
+			return;
+		}
+		this.results.delete(requestId);
+		this.abandonedRequests.add(requestId);
+		if (
+			this.metrics !== null &&
+			handler.request !== null &&
+			!handler.internal
+		) {
+			this.metrics.requestCompleted(
+				requestKind(handler.request),
+				requestOutcome(error),
+			);
+		}
+		handler.reject(error);
+		this.startQueuedStreams();
+	}
+
 	// Sends the message on the socket, rejecting the promise if there is any encoding error.
 	private sendMessage(message: v1.ClientRequest) {
-		this.codec
+		// Capture the current connection, as the client may reconnect while encoding.
+		const { socket, codec } = this;
+		const internal = this.internalRequests.has(message.id);
+		codec
 			.encode(message)
 			.then((data) => {
-				this.socket.send(data);
+				if (socket !== this.socket) {
+					// Connection was replaced, the request is re-sent or rejected
+					// as part of reconnecting.
+					return;
+				}
+				socket.send(data);
+				this.emitFrame("sent", data);
+				if (internal) {
+					return;
+				}
+				const kind = requestKind(message);
+				this.sentRequests.set(message.id, { kind, sentAt: Date.now() });
+				this.metrics?.requestSent(kind);
+				this.events.emit("request", {
+					requestId: message.id,
+					kind,
+					request: message,
+				});
 			})
 			.catch((err) => {
 				this.rejectWithError(message.id, err);
 			});
 	}
 
-	private handleMessage(message: IMessageEvent) {
+	private handleMessage(socket: Transport, message: TransportMessageEvent) {
+		this.heartbeat?.activity();
 		if (message.data instanceof ArrayBuffer) {
 			const data = new Uint8Array(message.data, 0, message.data.byteLength);
-			this.codec
-				.decode(data)
-				.then((message) => {
-					this.handleServerMessage(message);
-				})
+			this.emitFrame("received", data);
+			// Frames are decoded concurrently, but decompressing a large frame may
+			// take longer than a later small one, so results are handled strictly
+			// in the order the frames arrived.
+			const decoded: Promise<DecodeResult> = this.codec.decode(data).then(
+				(message) => ({ message }),
+				(error: unknown) => ({ error }),
+			);
+			this.inbound = this.inbound
+				.then(() => this.processFrame(socket, data, decoded))
 				.catch((error) => {
-					if (error instanceof Error) {
-						this.handleError(error);
-					} else {
-						this.handleError(
-							new DecodeError(data, `got unknown error: ${error}`),
-						);
-					}
-					this.socket.close(3002, "failed to decode message");
+					this.logger.error("Failed to process message", { error });
 				});
 		}
 	}
 
+	private async processFrame(
+		socket: Transport,
+		data: Uint8Array,
+		decoded: Promise<DecodeResult>,
+	) {
+		const result = await decoded;
+		if (socket !== this.socket) {
+			// Late message from a connection that has since been replaced.
+			return;
+		}
+		let error: unknown;
+		if ("error" in result) {
+			error = result.error;
+		} else {
+			try {
+				this.handleServerMessage(result.message);
+				return;
+			} catch (err) {
+				error = err;
+			}
+		}
+		if (error instanceof Error) {
+			this.handleError(error);
+		} else {
+			this.handleError(
+				new DecodeError(data, `got unknown error: ${error}`, [], "malformed"),
+			);
+		}
+		this.socket.close(3002, "failed to decode message");
+	}
+
+	// Emits a frame event, skipping the event object if nobody listens.
+	private emitFrame(direction: FrameEvent["direction"], data: Uint8Array) {
+		if (this.events.listenerCount("frame") > 0) {
+			this.events.emit("frame", { direction, data });
+		}
+	}
+
 	private handleServerMessage(message: v1.ServerMessage) {
 		if ("Response" in message) {
+			this.emitResponse(message.Response.requestId, true, message.Response);
 			this.handleResponseSuccess(message.Response);
 		} else if ("Error" in message) {
+			this.emitResponse(message.Error.requestId, false, message.Error);
 			this.handleResponseError(message.Error);
 		} else if ("StreamData" in message) {
 			this.handleStreamData(message.StreamData);
 		} else if ("StreamEnd" in message) {
 			this.handleStreamEnd(message.StreamEnd);
 		} else {
-			console.warn(
-				"unhandled message type, keys:",
-				Object.getOwnPropertyNames(message),
-			);
+			this.logger.warn("Unhandled message type", {
+				messageType: Object.getOwnPropertyNames(message).join(","),
+			});
+			this.events.emit("unknownMessage", { message });
+		}
+		// Ended streams and failed stream requests free up slots.
+		this.startQueuedStreams();
+	}
+
+	private emitResponse(
+		requestId: number,
+		ok: boolean,
+		message: v1.ResponseSuccess | v1.ResponseError,
+	) {
+		if (this.internalRequests.delete(requestId)) {
+			return;
 		}
+		const sent = this.sentRequests.get(requestId);
+		this.sentRequests.delete(requestId);
+		const latencyMs = sent === undefined ? null : Date.now() - sent.sentAt;
+		if (this.metrics !== null && !this.abandonedRequests.has(requestId)) {
+			// Requests sent on a previous connection have no latency.
+			const request = this.results.get(requestId)?.request;
+			const kind = sent?.kind ?? (request ? requestKind(request) : null);
+			if (kind !== null) {
+				this.metrics.requestCompleted(kind, ok ? "ok" : "error", latencyMs);
+			}
+		}
+		this.events.emit("response", { requestId, ok, latencyMs, message });
 	}
 
 	private handleResponseSuccess(message: v1.ResponseSuccess) {
 		const handler = this.results.get(message.requestId);
 		if (handler === undefined) {
-			console.error("Got response for unknown request ID", message);
+			if (this.abandonedRequests.delete(message.requestId)) {
+				// Request timed out or was aborted; stop any stream it started.
+				if (message.stream !== undefined) {
+					this.discardStream(message.stream.id);
+				}
+				return;
+			}
+			this.logger.error("Got response for unknown request ID", {
+				requestId: message.requestId,
+				messageType: "Response",
+			});
 			return;
 		}
 		this.results.delete(message.requestId);
 
 		if ("GetInfo" in message.data) {
+			this.learnStreamLimit(message.data.GetInfo);
 			handler.resolveGetInfo(message.data.GetInfo);
 		} else if ("NewSwapQuoteStream" in message.data) {
 			const streamInfo = message.stream;
@@ -719,21 +2281,80 @@ export class V1Client {
 						"No stream associated with NewSwapQuoteStream response",
 					),
 				);
+			} else if (handler instanceof ResubscribeHandler) {
+				this.resumeStream(
+					handler.stream,
+					streamInfo.id,
+					message.data.NewSwapQuoteStream.intervalMs,
+				);
 			} else {
-				const stream = new ReadableStream({
-					start: (controller) => {
-						this.quoteStreams.set(streamInfo.id, controller);
-					},
-					cancel: (reason) => {
-						return this.handleStreamCancel(streamInfo.id, reason);
+				const request = handler.request?.data;
+				if (request === undefined || !("NewSwapQuoteStream" in request)) {
+					handler.reject(
+						new ProtocolError(
+							message,
+							`NewSwapQuoteStream response for request of kind ${handler.kind}`,
+						),
+					);
+					return;
+				}
+				const buffer = new StreamBuffer<v1.SwapQuotes>(
+					(handler as NewSwapQuoteStreamHandler).buffer ??
+						resolveStreamBufferOptions(undefined),
+					(reason) => this.handleStreamCancel(state, reason),
+					() => this.metrics?.streamDropped(),
+					this.logger,
+				);
+				const state: QuoteStreamState = {
+					request: request.NewSwapQuoteStream,
+					buffer,
+					streamId: streamInfo.id,
+					cancelled: false,
+					release: () => {
+						this.unwatchStream(state);
 					},
+					intervalMs: message.data.NewSwapQuoteStream.intervalMs,
+					lastDataAt: Date.now(),
+					stalled: false,
+					lastSeq: null,
+					failOnSequenceGap: (handler as NewSwapQuoteStreamHandler)
+						.failOnSequenceGap,
+					span:
+						this.tracing?.startStream(
+							streamInfo.id,
+							message.data.NewSwapQuoteStream.intervalMs,
+							handler.request as v1.ClientRequest,
+							this.requestSpans.get(message.requestId),
+						) ?? null,
+				};
+				this.quoteStreams.set(streamInfo.id, state);
+				this.watchStream(state);
+				this.metrics?.streamStarted();
+				this.events.emit("streamStart", {
+					streamId: streamInfo.id,
+					intervalMs: state.intervalMs,
+					request: state.request,
 				});
+				const signal = (handler as NewSwapQuoteStreamHandler).signal;
+				if (signal !== null) {
+					const onAbort = () => {
+						this.abortStream(
+							state,
+							new AbortError(message.requestId, signal.reason),
+						);
+					};
+					signal.addEventListener("abort", onAbort, { once: true });
+					state.release = () => {
+						this.unwatchStream(state);
+						signal.removeEventListener("abort", onAbort);
+					};
+				}
 				const result: ResponseWithStream<
 					v1.QuoteSwapStreamResponse,
 					v1.SwapQuotes
 				> = {
 					response: message.data.NewSwapQuoteStream,
-					stream: stream,
+					stream: buffer.stream,
 					streamId: streamInfo.id,
 				};
 				handler.resolveNewSwapQuoteStream(result);
@@ -757,27 +2378,122 @@ export class V1Client {
 		}
 	}
 
-	private async handleStreamCancel(
+	// Attaches a re-issued stream's new server-side ID to the consumer's stream.
+	private resumeStream(
+		state: QuoteStreamState,
 		streamId: number,
+		intervalMs: number,
+	) {
+		const previousId = state.streamId;
+		state.streamId = streamId;
+		state.intervalMs = intervalMs;
+		// The new stream numbers its data from scratch.
+		state.lastSeq = null;
+		this.quoteStreams.set(streamId, state);
+		if (state.cancelled) {
+			// Consumer cancelled while the stream was being re-issued.
+			this.streamStopping.set(streamId, true);
+			void this.stopStream(streamId).catch(() => {});
+			return;
+		}
+		if (previousId !== streamId) {
+			this.events.emit("streamIdChanged", { previousId, streamId });
+			if (state.span !== null) {
+				this.tracing?.streamResumed(state.span, streamId);
+			}
+		}
+		this.events.emit("streamStart", {
+			streamId,
+			intervalMs,
+			request: state.request,
+		});
+		this.watchStream(state);
+	}
+
+	// (Re)starts the timer that reports the stream as stalled if no data arrives
+	// for several update intervals.
+	private watchStream(state: QuoteStreamState) {
+		const options = this.heartbeatOptions;
+		if (options === null) {
+			return;
+		}
+		clearTimeout(state.stallTimer);
+		const stallAfterMs = state.intervalMs * options.stallFactor;
+		const check = () => {
+			const silentForMs = Date.now() - state.lastDataAt;
+			if (silentForMs < stallAfterMs) {
+				// Timers may fire slightly early by the wall clock.
+				state.stallTimer = setTimeout(check, stallAfterMs - silentForMs);
+				return;
+			}
+			state.stallTimer = undefined;
+			state.stalled = true;
+			this.events.emit("streamStalled", {
+				streamId: state.streamId,
+				intervalMs: state.intervalMs,
+				silentForMs,
+			});
+		};
+		state.stallTimer = setTimeout(check, stallAfterMs);
+	}
+
+	private unwatchStream(state: QuoteStreamState) {
+		clearTimeout(state.stallTimer);
+		state.stallTimer = undefined;
+	}
+
+	// Stops a stream that was started by an abandoned request.
+	private discardStream(streamId: number) {
+		this.discardedStreams.add(streamId);
+		void this.stopStream(streamId).catch(() => {});
+	}
+
+	// Errors the consumer's stream and asks the server to stop it.
+	private abortStream(
+		state: QuoteStreamState,
+		error: AbortError | StreamSequenceError,
+	) {
+		if (state.cancelled) {
+			return;
+		}
+		state.buffer.error(error);
+		void this.handleStreamCancel(state, "aborted").catch(() => {});
+	}
+
+	private async handleStreamCancel(
+		state: QuoteStreamState,
 		reason?: string,
 	): Promise<void> {
-		if (this.streamStopping.get(streamId) || !this.quoteStreams.has(streamId)) {
+		const streamId = state.streamId;
+		if (state.cancelled) {
 			// Stream already in process of stopping or has already stopped.
 			return;
 		}
+		state.cancelled = true;
+		state.release();
+		this.closeStreamSpan(state);
+		if (this.quoteStreams.get(streamId) !== state) {
+			// Stream has already ended, or is waiting to be re-issued after a
+			// reconnect, in which case it is simply dropped.
+			this.startQueuedStreams();
+			return;
+		}
 		this.streamStopping.set(streamId, true);
-		console.log(
-			"Requested to cancel stream %i with reason: %s",
-			streamId,
-			reason,
-		);
+		this.logger.info("Requested to cancel stream", { streamId, reason });
 		await this.stopStream(streamId);
 	}
 
 	private handleResponseError(error: v1.ResponseError) {
 		const executor = this.results.get(error.requestId);
 		if (executor === undefined) {
-			console.error("Got error response for unknown request ID", error);
+			if (this.abandonedRequests.delete(error.requestId)) {
+				return;
+			}
+			this.logger.error("Got error response for unknown request ID", {
+				requestId: error.requestId,
+				messageType: "Error",
+				code: error.code,
+			});
 			return;
 		}
 		this.results.delete(error.requestId);
@@ -785,9 +2501,21 @@ export class V1Client {
 	}
 
 	private handleStreamData(packet: v1.StreamData) {
-		const controller = this.quoteStreams.get(packet.id);
-		if (controller === undefined) {
-			console.error("Got stream data for unknown stream", packet);
+		this.events.emit("streamData", {
+			streamId: packet.id,
+			seq: packet.seq,
+			payload: packet.payload,
+		});
+		const state = this.quoteStreams.get(packet.id);
+		if (state === undefined) {
+			if (this.discardedStreams.has(packet.id)) {
+				return;
+			}
+			this.logger.error("Got stream data for unknown stream", {
+				streamId: packet.id,
+				messageType: "StreamData",
+				seq: packet.seq,
+			});
 			return;
 		}
 		const stopping = this.streamStopping.get(packet.id);
@@ -795,22 +2523,106 @@ export class V1Client {
 			// Stream cancelled, don't bother enqueueing data.
 			return;
 		}
+		if (!this.checkSequence(state, packet.seq)) {
+			return;
+		}
 		if (packet.payload.SwapQuotes !== undefined) {
-			controller.enqueue(packet.payload.SwapQuotes);
+			const now = Date.now();
+			if (state.stalled) {
+				state.stalled = false;
+				this.events.emit("streamResumed", {
+					streamId: packet.id,
+					silentForMs: now - state.lastDataAt,
+				});
+			}
+			this.metrics?.streamUpdated(now - state.lastDataAt);
+			if (state.span !== null) {
+				this.tracing?.streamData(state.span, packet);
+			}
+			state.lastDataAt = now;
+			this.watchStream(state);
+			state.buffer.enqueue(packet.payload.SwapQuotes);
 		} else {
-			console.error("Stream data has unknown payload type", packet);
+			this.logger.error("Stream data has unknown payload type", {
+				streamId: packet.id,
+				messageType: "StreamData",
+				payloadType: Object.keys(packet.payload).join(","),
+			});
+		}
+	}
+
+	// Tracks the sequence numbers of a stream's data, reporting any irregularity.
+	// Returns whether the data should be delivered.
+	private checkSequence(state: QuoteStreamState, seq: number): boolean {
+		const lastSeq = state.lastSeq;
+		if (lastSeq === null || seq === lastSeq + 1) {
+			state.lastSeq = seq;
+			return true;
+		}
+		const expectedSeq = lastSeq + 1;
+		const issue: StreamSequenceIssue =
+			seq > expectedSeq ? "gap" : seq === lastSeq ? "duplicate" : "outOfOrder";
+		const missed = issue === "gap" ? seq - expectedSeq : 0;
+		const fields = {
+			streamId: state.streamId,
+			messageType: "StreamData",
+			seq,
+			expectedSeq,
+		};
+		if (issue === "duplicate") {
+			this.logger.debug("Dropped duplicate stream data", fields);
+		} else if (issue === "outOfOrder") {
+			this.logger.warn("Dropped stream data received out of order", fields);
+		} else {
+			this.logger.warn("Stream skipped updates", { ...fields, missed });
+		}
+		this.metrics?.streamSequence(issue, missed);
+		this.events.emit("streamSequence", {
+			streamId: state.streamId,
+			issue,
+			expectedSeq,
+			seq,
+			missed,
+		});
+		if (issue !== "gap") {
+			return false;
+		}
+		state.lastSeq = seq;
+		if (state.failOnSequenceGap) {
+			const error = new StreamSequenceError(state.streamId, expectedSeq, seq);
+			this.closeStreamSpan(state, error);
+			this.abortStream(state, error);
+			return false;
 		}
+		return true;
 	}
 
 	private handleStreamEnd(packet: v1.StreamEnd) {
-		const controller = this.quoteStreams.get(packet.id);
-		if (controller === undefined) {
-			console.error("Got stream end for unknown stream", packet);
+		this.events.emit("streamEnd", {
+			streamId: packet.id,
+			errorCode: packet.errorCode,
+			errorMessage: packet.errorMessage,
+		});
+		const state = this.quoteStreams.get(packet.id);
+		if (state === undefined) {
+			if (this.discardedStreams.delete(packet.id)) {
+				return;
+			}
+			this.logger.error("Got stream end for unknown stream", {
+				streamId: packet.id,
+				messageType: "StreamEnd",
+			});
 			return;
 		}
+		this.metrics?.streamEnded(packet.errorCode === undefined ? "ok" : "error");
+		if (state.span !== null) {
+			this.tracing?.streamEnd(state.span, packet);
+			state.span = null;
+		}
 		const stopping = this.streamStopping.get(packet.id);
 		this.quoteStreams.delete(packet.id);
 		this.streamStopping.delete(packet.id);
+		state.release();
 
 		if (stopping === true) {
 			// Stream was cancelled, controller already closed, attempting to call
@@ -818,9 +2630,9 @@ export class V1Client {
 			return;
 		}
 		if (packet.errorCode !== undefined) {
-			controller.error(new StreamError(packet));
+			state.buffer.error(new StreamError(packet));
 		} else {
-			controller.close();
+			state.buffer.close();
 		}
 	}
 
@@ -830,18 +2642,76 @@ export class V1Client {
 			value.reject(error);
 		});
 		this.results.clear();
+		for (const queued of this.streamQueue.clear()) {
+			queued.fail(error);
+		}
 
 		// Close any pending streams.
-		for (const stream of this.quoteStreams.values()) {
-			stream.error(error);
+		for (const [streamId, state] of this.quoteStreams) {
+			state.release();
+			this.closeStreamSpan(state, error);
+			if (!this.streamStopping.get(streamId)) {
+				state.buffer.error(error);
+			}
+		}
+		for (const state of this.orphanedStreams) {
+			state.release();
+			this.closeStreamSpan(state, error);
+			if (!state.cancelled) {
+				state.buffer.error(error);
+			}
 		}
 		this.quoteStreams.clear();
 		this.streamStopping.clear();
+		this.orphanedStreams = [];
+	}
+
+	private handleClose(event: TransportCloseEvent) {
+		this.handleDisconnect(event, new ConnectionClosed(event));
+	}
+
+	// Reconnects if enabled, otherwise closes the client with the given error.
+	private handleDisconnect(event: TransportCloseEvent, error: Error) {
+		this.sentRequests.clear();
+		const willReconnect =
+			this.reconnectOptions !== null &&
+			this.connector !== null &&
+			!this._closing;
+		if (!this._closed) {
+			this.events.emit("close", { ...event, willReconnect });
+		}
+		if (willReconnect) {
+			void this.reconnect(error, event);
+			return;
+		}
+		this.finishClose(event, error);
+	}
+
+	// Tears down a connection that stopped answering heartbeats. The socket is
+	// abandoned rather than waiting for the close handshake, which may never
+	// complete on a half-open connection.
+	private handleStale(socket: Transport, missed: number) {
+		if (socket !== this.socket) {
+			return;
+		}
+		const event: TransportCloseEvent = {
+			code: 4000,
+			reason: "connection stale",
+			wasClean: false,
+		};
+		this.detachSocket(socket);
+		socket.close(event.code, event.reason);
+		this.handleDisconnect(event, new ConnectionStale(missed));
 	}
 
-	private handleClose(event: ICloseEvent) {
+	// Marks the client as closed, failing everything still outstanding.
+	private finishClose(
+		event: TransportCloseEvent,
+		error: Error = new ConnectionClosed(event),
+	) {
 		this._closed = true;
-		const error = new ConnectionClosed(event);
+		this._closeEvent = event;
+		this.stopHeartbeat();
 		this.rejectAllWithError(error);
 		for (const listener of this.closeListeners) {
 			listener.resolve(event);
@@ -850,19 +2720,190 @@ export class V1Client {
 	}
 
 	private handleError(error: Error) {
+		this.attachCapture(error);
+		this.events.emit("error", { error });
 		const new_error = new ConnectionError(error);
-		this.rejectAllWithError(new_error);
+		if (this.reconnectOptions === null || this._closing) {
+			this.rejectAllWithError(new_error);
+		}
+		// If reconnecting, closing the socket triggers the reconnect.
 		this.socket.close(3002); // protocol error (client-safe version of 1002)
 	}
 
+	// Adds the recent frames to errors that are worth reporting.
+	private attachCapture(error: unknown) {
+		if (
+			this.recorder !== null &&
+			(error instanceof ProtocolError || error instanceof DecodeError) &&
+			error.capture === undefined
+		) {
+			error.capture = this.recorder.capture();
+		}
+	}
+
+	// Moves everything tied to the dropped connection aside so it can be re-sent
+	// once a new connection is open.
+	private suspendForReconnect(error: Error) {
+		const options = this.reconnectOptions as ResolvedReconnectOptions;
+
+		for (const [streamId, state] of this.quoteStreams) {
+			// Streams being stopped are done, as the server has dropped them too.
+			this.unwatchStream(state);
+			if (!this.streamStopping.get(streamId) && !state.cancelled) {
+				this.orphanedStreams.push(state);
+			}
+		}
+		this.quoteStreams.clear();
+		this.streamStopping.clear();
+		// Responses to these will never arrive on the new connection.
+		this.abandonedRequests.clear();
+		this.discardedStreams.clear();
+		for (const requestId of this.internalRequests) {
+			if (!this.results.has(requestId)) {
+				this.internalRequests.delete(requestId);
+			}
+		}
+
+		for (const [requestId, handler] of [...this.results]) {
+			if (handler instanceof ResubscribeHandler) {
+				// Stream was still being re-issued from a previous reconnect.
+				this.results.delete(requestId);
+				if (!handler.stream.cancelled) {
+					this.orphanedStreams.push(handler.stream);
+				}
+			} else if (
+				handler.kind === ResponseHandlerKind.StopStream &&
+				handler.request !== null &&
+				"StopStream" in handler.request.data
+			) {
+				// The stream went away along with the connection.
+				this.results.delete(requestId);
+				handler.resolveStopStream({ id: handler.request.data.StopStream.id });
+			} else if (options.pendingRequests === "reject") {
+				this.results.delete(requestId);
+				handler.reject(error);
+			}
+		}
+	}
+
+	private async reconnect(error: Error, event: TransportCloseEvent) {
+		const options = this.reconnectOptions as ResolvedReconnectOptions;
+		const connector = this.connector as Connector;
+
+		this._reconnecting = true;
+		this.detachSocket(this.socket);
+		this.suspendForReconnect(error);
+
+		let lastError: unknown = error;
+		let attempt = 0;
+		while (true) {
+			attempt += 1;
+			if (attempt > options.maxAttempts) {
+				this.logger.error("Giving up reconnecting", {
+					attempts: options.maxAttempts,
+				});
+				this._reconnecting = false;
+				this.finishClose(event, error);
+				return;
+			}
+			const delayMs = backoffDelay(options, attempt);
+			this.events.emit("reconnecting", { attempt, delayMs, error: lastError });
+			await this.sleep(delayMs);
+			if (this._closing) {
+				this._reconnecting = false;
+				this.finishClose({
+					code: 1000,
+					reason: "client closed while reconnecting",
+					wasClean: true,
+				});
+				return;
+			}
+
+			let connection: Connection;
+			try {
+				connection = await connector(lastError);
+			} catch (err) {
+				lastError = err;
+				continue;
+			}
+			if (this._closing) {
+				// Closed while the connection was opening.
+				this._reconnecting = false;
+				this.detachSocket(connection.transport);
+				connection.transport.close();
+				this.finishClose({
+					code: 1000,
+					reason: "client closed while reconnecting",
+					wasClean: true,
+				});
+				return;
+			}
+
+			this.socket = connection.transport;
+			this.codec = connection.codec;
+			this.attachSocket(connection.transport);
+			break;
+		}
+
+		this._reconnecting = false;
+		this.resubscribe();
+		if (this.streamLimitOptions?.fetchOnConnect) {
+			// The new connection may allow a different number of streams.
+			this.getInfo().catch(() => {});
+		}
+		this.events.emit("reconnected", {
+			attempts: attempt,
+			compression: this.codec.compression(),
+		});
+	}
+
+	// Re-issues orphaned streams and sends all requests waiting on the connection.
+	private resubscribe() {
+		const streams = this.orphanedStreams;
+		this.orphanedStreams = [];
+		for (const state of streams) {
+			if (state.cancelled) {
+				continue;
+			}
+			const handler = new ResubscribeHandler(state);
+			const message: v1.ClientRequest = {
+				id: this.nextRequestId(),
+				data: { NewSwapQuoteStream: state.request },
+			};
+			handler.request = message;
+			this.results.set(message.id, handler);
+		}
+
+		const pending = [...this.results.entries()].sort(([a], [b]) => a - b);
+		for (const [, handler] of pending) {
+			if (handler.request !== null) {
+				this.sendMessage(handler.request);
+			}
+		}
+	}
+
+	// Waits for the given delay, or until the reconnect loop is woken up.
+	private sleep(delayMs: number): Promise<void> {
+		return new Promise((resolve) => {
+			const timer = setTimeout(() => {
+				this.wakeReconnect = null;
+				resolve();
+			}, delayMs);
+			this.wakeReconnect = () => {
+				clearTimeout(timer);
+				this.wakeReconnect = null;
+				resolve();
+			};
+		});
+	}
+
 	private rejectWithError(requestId: number, error: unknown) {
 		const executor = this.results.get(requestId);
 		if (executor === undefined) {
-			console.error(
-				"Tried to reject untracked request %i with error",
+			this.logger.error("Tried to reject untracked request", {
 				requestId,
 				error,
-			);
+			});
 			return;
 		}
 		this.results.delete(requestId);
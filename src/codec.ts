@@ -1,72 +1,107 @@
-import {
-	gzip,
-	gunzip,
-	brotliCompress,
-	brotliDecompress,
-	zstdCompress,
-	zstdDecompress,
-} from "http-encoding";
 import { Encoder, Decoder } from "@msgpack/msgpack";
 
+import type { Capture } from "./capture";
+import {
+	type Compressor,
+	type CompressorRegistry,
+	compressors,
+	DecompressionLimitError,
+	NullCompressor,
+} from "./compression";
+import { decodeLazily } from "./lazy";
+import {
+	type ResolvedDecodeLimits,
+	resolveDecodeLimits,
+	scanMessagePack,
+} from "./limits";
+import { type Logger, consoleLogger } from "./logger";
 import {
 	type ClientRequest,
 	type ServerMessage,
+	type Uint64,
 	WEBSOCKET_SUBPROTO_BASE,
 } from "./types/v1";
+import {
+	formatIssues,
+	mapUint64,
+	serverMessage,
+	type ValidationIssue,
+	validate,
+} from "./validate";
+import type { DecodedFrame, WorkerPool } from "./worker";
 
-interface Compressor {
-	name(): string | null;
-	compress(data: Uint8Array): Promise<Uint8Array>;
-	decompress(data: Uint8Array): Promise<Uint8Array>;
-}
+export type { Compressor } from "./compression";
+export type { DecodeLimits } from "./limits";
 
-class NullCompressor implements Compressor {
-	name(): string | null {
-		return null;
-	}
-	compress(data: Uint8Array): Promise<Uint8Array> {
-		return Promise.resolve(data);
-	}
-	decompress(data: Uint8Array): Promise<Uint8Array> {
-		return Promise.resolve(data);
-	}
+/**
+ * Receives the size and encoding time of every message passing through a
+ * codec, for metrics.
+ */
+export interface CodecObserver {
+	/** Called after a message was encoded and compressed. */
+	encoded(messageBytes: number, wireBytes: number, durationMs: number): void;
+	/** Called after a message was decompressed and decoded. */
+	decoded(wireBytes: number, messageBytes: number, durationMs: number): void;
 }
 
-class GzipCompressor implements Compressor {
-	name(): string | null {
-		return "gzip";
-	}
-	compress(data: Uint8Array): Promise<Uint8Array> {
-		return gzip(data);
-	}
-	decompress(data: Uint8Array): Promise<Uint8Array> {
-		return gunzip(data);
-	}
-}
+/**
+ * How decoded server messages are checked against the protocol's types.
+ *
+ * - `"off"`: only check that the message is an object.
+ * - `"lenient"`: log a warning for invalid messages, but pass them on.
+ * - `"strict"`: fail to decode invalid messages with a {@link DecodeError}.
+ */
+export type ValidationMode = "off" | "lenient" | "strict";
 
-class BrotliCompressor implements Compressor {
-	name(): string | null {
-		return "brotli";
-	}
-	compress(data: Uint8Array): Promise<Uint8Array> {
-		return brotliCompress(data);
-	}
-	decompress(data: Uint8Array): Promise<Uint8Array> {
-		return brotliDecompress(data);
-	}
-}
+/**
+ * How unsigned 64-bit integers, such as amounts, are decoded.
+ *
+ * - `"mixed"`: as a number if encoded in less than 64 bits, otherwise as a
+ *   bigint, which is how MessagePack decodes them.
+ * - `"bigint"`: always as a bigint.
+ * - `"number"`: always as a number, failing to decode messages with a
+ *   {@link DecodeError} if a value does not fit without losing precision.
+ */
+export type Uint64Mode = "mixed" | "bigint" | "number";
 
-class ZstdCompressor implements Compressor {
-	name(): string | null {
-		return "zstd";
-	}
-	compress(data: Uint8Array): Promise<Uint8Array> {
-		return zstdCompress(data);
-	}
-	decompress(data: Uint8Array): Promise<Uint8Array> {
-		return zstdDecompress(data);
-	}
-}
+/**
+ * Type of the unsigned 64-bit integers decoded in the given mode.
+ */
+export type Uint64Type<M extends Uint64Mode> = M extends "bigint"
+	? bigint
+	: M extends "number"
+		? number
+		: Uint64;
+
+/**
+ * What kind of problem made a message fail to decode.
+ *
+ * - `"decompress"`: the frame could not be decompressed.
+ * - `"messageSize"`: the message is larger than the `maxMessageBytes` limit.
+ * - `"arrayLength"`, `"mapLength"`, `"depth"`: the message exceeds the
+ *   `maxArrayLength`, `maxMapLength` or `maxDepth` limit.
+ * - `"extension"`: the message uses a MessagePack extension type, which the
+ *   protocol never does.
+ * - `"malformed"`: the message is not valid MessagePack, such as when
+ *   truncated.
+ * - `"shape"`: the message is not an object.
+ * - `"schema"`: the message failed validation.
+ * - `"uint64"`: an integer does not fit in a number, with `uint64` set to
+ *   `"number"`.
+ * - `"worker"`: the worker pool decoding the message was terminated.
+ */
+export type DecodeErrorKind =
+	| "decompress"
+	| "messageSize"
+	| "arrayLength"
+	| "mapLength"
+	| "depth"
+	| "extension"
+	| "malformed"
+	| "shape"
+	| "schema"
+	| "uint64"
+	| "worker";
 
 /**
  * Error thrown when failing to decode a message from the server.
@@ -76,18 +111,39 @@ export class DecodeError extends Error {
 	 * Reason why the decoding was not possible.
 	 */
 	reason: string;
+	/**
+	 * What kind of problem the reason describes.
+	 */
+	kind: DecodeErrorKind;
 	/**
 	 * The decoded value that cause the issue.
 	 */
 	value: unknown;
+	/**
+	 * Where the value did not match the expected type, if it failed validation.
+	 */
+	issues: ValidationIssue[];
+	/**
+	 * The frames leading up to the error, including the one that failed, if
+	 * the client has a `recorder`. Can be saved with `encodeCapture()` to
+	 * report and replay the issue.
+	 */
+	capture?: Capture;
 
-	constructor(value: unknown, reason: string) {
+	constructor(
+		value: unknown,
+		reason: string,
+		issues: ValidationIssue[] = [],
+		kind: DecodeErrorKind = issues.length > 0 ? "schema" : "shape",
+	) {
 		super(`Failed to decode server message: ${reason}`);
 		this.name = "DecodeError";
 		Object.setPrototypeOf(this, DecodeError.prototype);
 
 		this.reason = reason;
+		this.kind = kind;
 		this.value = value;
+		this.issues = issues;
 	}
 }
 
@@ -106,21 +162,48 @@ export class V1ClientCodec {
 	private compressor: Compressor;
 	private encoder: Encoder;
 	private decoder: Decoder;
+	/** Notified of every message encoded or decoded, if set. */
+	observer: CodecObserver | null = null;
+	/** How decoded messages are validated. */
+	validation: ValidationMode = "off";
+	/** Receives warnings about invalid messages in lenient mode. */
+	logger: Logger = consoleLogger();
+	/** How unsigned 64-bit integers are decoded. */
+	uint64: Uint64Mode = "mixed";
+	/**
+	 * Workers that decompress and decode messages, if set, instead of the
+	 * calling thread.
+	 */
+	workers: WorkerPool | null = null;
+	/**
+	 * Whether the steps, instructions, address lookup tables and transaction
+	 * of quoted routes are only decoded when first read. Has no effect on
+	 * messages decoded by `workers`, and little when `validation` or `uint64`
+	 * read every field anyway.
+	 */
+	lazyRoutes = false;
+	/**
+	 * Limits on the size and shape of messages, checked before decoding them.
+	 */
+	limits: ResolvedDecodeLimits = resolveDecodeLimits();
 
 	/**
 	 * Constructs a new coded from the given protocol string.
 	 *
 	 * The protocol should be in the form "v1.api.titan.ag[+<comp>]" where `<comp>`
-	 * is an optional compression scheme.
+	 * is an optional compression scheme, looked up by name in the given registry.
 	 *
-	 * The currently supported protocol strings are:
+	 * With the default registry, the supported protocol strings are:
 	 *
 	 * - v1.api.titan.ag
 	 * - v1.api.titan.ag+zstd
 	 * - v1.api.titan.ag+brotli
 	 * - v1.api.titan.ag+gzip
 	 */
-	static from_protocol(protocol: string): V1ClientCodec {
+	static from_protocol(
+		protocol: string,
+		registry: CompressorRegistry = compressors,
+	): V1ClientCodec {
 		if (!protocol.startsWith(WEBSOCKET_SUBPROTO_BASE)) {
 			throw new InvalidProtocolError(
 				protocol,
@@ -128,25 +211,14 @@ export class V1ClientCodec {
 			);
 		}
 		const encoding = protocol.substring(WEBSOCKET_SUBPROTO_BASE.length);
-		let compressor: Compressor;
-		switch (encoding) {
-			case "":
-				compressor = new NullCompressor();
-				break;
-			case "+zstd":
-				compressor = new ZstdCompressor();
-				break;
-			case "+brotli":
-				compressor = new BrotliCompressor();
-				break;
-			case "+gzip":
-				compressor = new GzipCompressor();
-				break;
-			default:
-				throw new InvalidProtocolError(
-					protocol,
-					`unknown encoding ${encoding}`,
-				);
+		if (encoding === "") {
+			return new V1ClientCodec(new NullCompressor());
+		}
+		const compressor = encoding.startsWith("+")
+			? registry.get(encoding.substring(1))
+			: undefined;
+		if (compressor === undefined) {
+			throw new InvalidProtocolError(protocol, `unknown encoding ${encoding}`);
 		}
 		return new V1ClientCodec(compressor);
 	}
@@ -175,20 +247,39 @@ export class V1ClientCodec {
 	/**
 	 * Encodes the given client request to binary, with compression if enabled.
 	 */
-	encode(message: ClientRequest): Promise<Uint8Array> {
+	async encode(message: ClientRequest): Promise<Uint8Array> {
+		const observer = this.observer;
+		const start = observer === null ? 0 : performance.now();
 		const encoded = this.encoder.encode(message);
-		return this.compressor.compress(encoded);
+		const compressed = await this.compressor.compress(encoded);
+		observer?.encoded(
+			encoded.byteLength,
+			compressed.byteLength,
+			performance.now() - start,
+		);
+		return compressed;
 	}
 
 	/**
 	 * Attempts to decode the given buffer as a server message, by first decompressing
-	 * then decoding the data via MessasgePack.
+	 * then decoding the data via MessasgePack, on a worker if `workers` is set.
 	 *
-	 * Performs some basic validation on the decoded message.
+	 * Frames over the `limits` are rejected before being decoded. Performs some
+	 * basic validation on the decoded message, and checks it against the
+	 * message schema unless `validation` is `"off"`. Unsigned 64-bit integers
+	 * are then converted as set by `uint64`.
+	 *
+	 * @throws {DecodeError} If the frame cannot be decoded, with a `kind` telling
+	 *   why.
 	 */
 	async decode(data: Uint8Array): Promise<ServerMessage> {
-		const decompressed = await this.compressor.decompress(data);
-		const decoded = this.decoder.decode(decompressed);
+		const observer = this.observer;
+		const start = observer === null ? 0 : performance.now();
+		const { decoded, messageBytes } =
+			this.workers === null
+				? await this.decodeFrame(data)
+				: await this.workers.decode(data, this.compressor, this.limits);
+		observer?.decoded(data.byteLength, messageBytes, performance.now() - start);
 		if (decoded === null) {
 			throw new DecodeError(decoded, "decoded value was null");
 		}
@@ -201,6 +292,110 @@ export class V1ClientCodec {
 		if (Array.isArray(decoded)) {
 			throw new DecodeError(decoded, "got array, expected object");
 		}
+		if (this.validation !== "off") {
+			const issues = validate(serverMessage, decoded);
+			if (issues.length > 0) {
+				if (this.validation === "strict") {
+					throw new DecodeError(decoded, formatIssues(issues), issues);
+				}
+				this.logger.warn("Server message does not match schema", {
+					messageType: Object.keys(decoded).join(","),
+					issues: formatIssues(issues),
+				});
+			}
+		}
+		if (this.uint64 !== "mixed") {
+			return this.convertUint64(decoded, this.uint64);
+		}
 		return decoded as ServerMessage;
 	}
-}
\ No newline at end of file
+
+	private async decodeFrame(data: Uint8Array): Promise<DecodedFrame> {
+		const decompressed = await decompressFrame(
+			this.compressor,
+			data,
+			this.limits,
+		);
+		const violation = scanMessagePack(decompressed, this.limits);
+		if (violation !== null) {
+			throw new DecodeError(undefined, violation.reason, [], violation.kind);
+		}
+		let decoded: unknown;
+		try {
+			decoded = this.lazyRoutes
+				? decodeLazily(this.decoder, decompressed)
+				: this.decoder.decode(decompressed);
+		} catch (err) {
+			throw new DecodeError(
+				undefined,
+				`invalid MessagePack: ${err instanceof Error ? err.message : err}`,
+				[],
+				"malformed",
+			);
+		}
+		return { decoded, messageBytes: decompressed.byteLength };
+	}
+
+	// Converts every unsigned 64-bit integer of a decoded message to a bigint or
+	// a number. Values of the wrong type are left for validation to report.
+	private convertUint64(
+		decoded: object,
+		mode: "bigint" | "number",
+	): ServerMessage {
+		return mapUint64(serverMessage, decoded, (value, path) => {
+			if (mode === "bigint") {
+				return typeof value === "number" && Number.isInteger(value)
+					? BigInt(value)
+					: value;
+			}
+			if (typeof value !== "bigint") {
+				return value;
+			}
+			if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+				throw new DecodeError(
+					decoded,
+					`${path}: ${value} does not fit in a number without losing precision`,
+					[],
+					"uint64",
+				);
+			}
+			return Number(value);
+		}) as ServerMessage;
+	}
+}
+
+/**
+ * Decompresses a frame with the given compressor, failing with a
+ * {@link DecodeError} if it cannot be decompressed or is larger than
+ * `maxMessageBytes` once decompressed.
+ */
+export async function decompressFrame(
+	compressor: Compressor,
+	data: Uint8Array,
+	limits: ResolvedDecodeLimits,
+): Promise<Uint8Array> {
+	const maxBytes = limits.maxMessageBytes;
+	let decompressed: Uint8Array;
+	try {
+		decompressed = await compressor.decompress(data, maxBytes);
+	} catch (err) {
+		if (err instanceof DecompressionLimitError) {
+			throw new DecodeError(undefined, err.message, [], "messageSize");
+		}
+		throw new DecodeError(
+			undefined,
+			`failed to decompress: ${err instanceof Error ? err.message : err}`,
+			[],
+			"decompress",
+		);
+	}
+	if (decompressed.byteLength > maxBytes) {
+		throw new DecodeError(
+			undefined,
+			`message of ${decompressed.byteLength} bytes is larger than ${maxBytes}`,
+			[],
+			"messageSize",
+		);
+	}
+	return decompressed;
+}
@@ -0,0 +1,324 @@
+// Compression schemes negotiated through the WebSocket subprotocol, kept in a
+// registry that applications can extend or trim.
+
+import {
+	brotliCompress,
+	brotliDecompress,
+	gunzip,
+	gzip,
+	zstdCompress,
+	zstdDecompress,
+} from "http-encoding";
+
+/**
+ * Compresses and decompresses the messages of a connection.
+ */
+export interface Compressor {
+	/**
+	 * Name of the scheme, used as the subprotocol suffix `+<name>`, or null if
+	 * messages are not compressed.
+	 */
+	name(): string | null;
+	compress(data: Uint8Array): Promise<Uint8Array>;
+	/**
+	 * Decompresses a message.
+	 *
+	 * @param maxBytes - Size past which to give up with a
+	 *   {@link DecompressionLimitError}, if given. Compressors that cannot stop
+	 *   early may ignore it, as the size is checked again once decompressed.
+	 */
+	decompress(data: Uint8Array, maxBytes?: number): Promise<Uint8Array>;
+}
+
+/**
+ * Error thrown by a compressor when a message decompresses to more than the
+ * size it was allowed.
+ */
+export class DecompressionLimitError extends Error {
+	/** The size that was exceeded, in bytes. */
+	maxBytes: number;
+
+	constructor(maxBytes: number) {
+		super(`Decompressed message is larger than ${maxBytes} bytes`);
+		this.name = "DecompressionLimitError";
+		Object.setPrototypeOf(this, DecompressionLimitError.prototype);
+		this.maxBytes = maxBytes;
+	}
+}
+
+// zlib-based decompression, which stops once `maxOutputLength` is exceeded
+// where supported.
+type ZlibDecompress = (
+	data: Uint8Array,
+	options?: { maxOutputLength?: number },
+) => Promise<Uint8Array>;
+
+// Decompresses with zlib, turning its error for outputs over the limit into a
+// DecompressionLimitError.
+async function decompressWithLimit(
+	decompress: ZlibDecompress,
+	data: Uint8Array,
+	maxBytes: number | undefined,
+): Promise<Uint8Array> {
+	try {
+		return await (maxBytes === undefined
+			? decompress(data)
+			: decompress(data, { maxOutputLength: maxBytes }));
+	} catch (err) {
+		if (
+			maxBytes !== undefined &&
+			(err as { code?: unknown }).code === "ERR_BUFFER_TOO_LARGE"
+		) {
+			throw new DecompressionLimitError(maxBytes);
+		}
+		throw err;
+	}
+}
+
+/**
+ * Decompression of zstd frames, as done by `zstdDecompress` of `http-encoding`.
+ * Its WASM fallback, used where Node has no built-in zstd, returns null rather
+ * than failing on invalid frames.
+ */
+export type ZstdDecompress = (data: Uint8Array) => Promise<Uint8Array | null>;
+
+/**
+ * Makes zstd decompression fail like zlib's when given a `maxOutputLength`,
+ * with a `RangeError` whose code is `ERR_BUFFER_TOO_LARGE`, and fail rather
+ * than return null on invalid frames.
+ *
+ * The limit is checked before anything is decompressed, against a bound on the
+ * size of the frames read from their headers: the size of each block is given
+ * by its header, except for compressed blocks, which hold at most 128 KiB.
+ * This bounds frames that do not declare their content size, such as those
+ * compressed by the WASM fallback, as well as frames following one another,
+ * so that output past the limit is never allocated.
+ *
+ * Only uses its arguments and globals, so that its source can be evaluated on
+ * its own in a worker.
+ */
+export function limitZstdDecompress(
+	decompress: ZstdDecompress,
+): (
+	data: Uint8Array,
+	options?: { maxOutputLength?: number },
+) => Promise<Uint8Array> {
+	// Returns a bound on the decompressed size of the frames, or null if they
+	// are not valid zstd or skippable frames.
+	const sizeBound = (data: Uint8Array): number | null => {
+		const readUint = (at: number, size: number) => {
+			let value = 0;
+			for (let i = size - 1; i >= 0; i--) {
+				value = value * 256 + data[at + i];
+			}
+			return value;
+		};
+		let offset = 0;
+		let bound = 0;
+		while (offset < data.byteLength) {
+			if (data.byteLength - offset < 8) {
+				return null;
+			}
+			const magic = readUint(offset, 4);
+			if (magic >= 0x184d2a50 && magic <= 0x184d2a5f) {
+				offset += 8 + readUint(offset + 4, 4);
+				continue;
+			}
+			if (magic !== 0xfd2fb528) {
+				return null;
+			}
+			const descriptor = data[offset + 4];
+			const singleSegment = (descriptor & 0x20) !== 0;
+			const sizeBytes = [singleSegment ? 1 : 0, 2, 4, 8][descriptor >> 6];
+			offset += 6 - (singleSegment ? 1 : 0) + [0, 1, 2, 4][descriptor & 0x03];
+			if (data.byteLength - offset < sizeBytes) {
+				return null;
+			}
+			let declared = Number.POSITIVE_INFINITY;
+			if (sizeBytes > 0) {
+				declared = readUint(offset, sizeBytes) + (sizeBytes === 2 ? 256 : 0);
+			}
+			offset += sizeBytes;
+
+			let frameBound = 0;
+			let last = false;
+			while (!last) {
+				if (data.byteLength - offset < 3) {
+					return null;
+				}
+				const header = readUint(offset, 3);
+				offset += 3;
+				last = (header & 1) === 1;
+				const type = (header >> 1) & 0x03;
+				const blockSize = header >>> 3;
+				if (type === 3) {
+					return null;
+				}
+				// Raw blocks hold their content, RLE blocks a single byte repeated,
+				// and compressed blocks at most 128 KiB once decompressed.
+				offset += type === 1 ? 1 : blockSize;
+				frameBound += type === 2 ? 128 * 1024 : blockSize;
+			}
+			if ((descriptor & 0x04) !== 0) {
+				offset += 4;
+			}
+			bound += Math.min(frameBound, declared);
+		}
+		return offset === data.byteLength ? bound : null;
+	};
+
+	return async (data, options) => {
+		const maxBytes = options?.maxOutputLength;
+		if (maxBytes !== undefined) {
+			const bound = sizeBound(data);
+			if (bound === null) {
+				throw new Error("invalid zstd frame");
+			}
+			if (bound > maxBytes) {
+				throw Object.assign(
+					new RangeError(
+						`Cannot create a buffer larger than ${maxBytes} bytes`,
+					),
+					{ code: "ERR_BUFFER_TOO_LARGE" },
+				);
+			}
+		}
+		const decompressed = await decompress(data);
+		if (decompressed === null) {
+			throw new Error("invalid zstd frame");
+		}
+		return decompressed;
+	};
+}
+
+// zstd decompression with the limits of zlib's.
+const zstdDecompressWithLimit = limitZstdDecompress(zstdDecompress);
+
+/**
+ * Passes messages through as they are, used for the base subprotocol.
+ */
+export class NullCompressor implements Compressor {
+	name(): string | null {
+		return null;
+	}
+	compress(data: Uint8Array): Promise<Uint8Array> {
+		return Promise.resolve(data);
+	}
+	decompress(data: Uint8Array): Promise<Uint8Array> {
+		return Promise.resolve(data);
+	}
+}
+
+export class GzipCompressor implements Compressor {
+	name(): string | null {
+		return "gzip";
+	}
+	compress(data: Uint8Array): Promise<Uint8Array> {
+		return gzip(data);
+	}
+	decompress(data: Uint8Array, maxBytes?: number): Promise<Uint8Array> {
+		return decompressWithLimit(gunzip, data, maxBytes);
+	}
+}
+
+export class BrotliCompressor implements Compressor {
+	name(): string | null {
+		return "brotli";
+	}
+	compress(data: Uint8Array): Promise<Uint8Array> {
+		return brotliCompress(data);
+	}
+	decompress(data: Uint8Array, maxBytes?: number): Promise<Uint8Array> {
+		return decompressWithLimit(
+			brotliDecompress as ZlibDecompress,
+			data,
+			maxBytes,
+		);
+	}
+}
+
+export class ZstdCompressor implements Compressor {
+	name(): string | null {
+		return "zstd";
+	}
+	compress(data: Uint8Array): Promise<Uint8Array> {
+		return zstdCompress(data);
+	}
+	/**
+	 * Decompresses a message, failing before decompressing if its frames may
+	 * hold more than `maxBytes`, as bounded by {@link limitZstdDecompress}.
+	 */
+	decompress(data: Uint8Array, maxBytes?: number): Promise<Uint8Array> {
+		return decompressWithLimit(zstdDecompressWithLimit, data, maxBytes);
+	}
+}
+
+/**
+ * Compressors available to connections, by name, in the order in which they
+ * are offered to the server by default.
+ */
+export class CompressorRegistry {
+	private compressors: Map<string, Compressor>;
+
+	constructor(compressors: Compressor[] = []) {
+		this.compressors = new Map();
+		for (const compressor of compressors) {
+			this.register(compressor);
+		}
+	}
+
+	/**
+	 * Makes a compressor available under its name. A compressor replacing one
+	 * of the same name, such as a WASM build of zstd for browsers, keeps its
+	 * place in the order of preference; others are offered after the existing
+	 * ones.
+	 *
+	 * @throws {RangeError} If the name is not usable as a subprotocol suffix.
+	 */
+	register(compressor: Compressor): void {
+		const name = compressor.name();
+		if (name === null || !/^[A-Za-z0-9._-]+$/.test(name)) {
+			throw new RangeError(`Invalid compressor name ${name}.`);
+		}
+		this.compressors.set(name, compressor);
+	}
+
+	/**
+	 * Removes the compressor with the given name, so that it is no longer
+	 * offered or accepted.
+	 *
+	 * @returns Whether there was such a compressor.
+	 */
+	unregister(name: string): boolean {
+		return this.compressors.delete(name);
+	}
+
+	/** Returns the compressor with the given name, if registered. */
+	get(name: string): Compressor | undefined {
+		return this.compressors.get(name);
+	}
+
+	/** Whether a compressor with the given name is registered. */
+	has(name: string): boolean {
+		return this.compressors.has(name);
+	}
+
+	/** Names of the registered compressors, most preferred first. */
+	names(): string[] {
+		return [...this.compressors.keys()];
+	}
+}
+
+/**
+ * Registry used by connections and {@link V1ClientCodec.from_protocol} unless
+ * given another one, holding the built-in zstd, brotli and gzip compressors.
+ *
+ * Compressors registered here are offered by every new connection. Removing
+ * built-in ones that an application does not want, such as in the browser,
+ * keeps them from being negotiated.
+ */
+export const compressors = new CompressorRegistry([
+	new ZstdCompressor(),
+	new BrotliCompressor(),
+	new GzipCompressor(),
+]);
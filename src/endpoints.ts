@@ -0,0 +1,188 @@
+// Selection of the best of several server endpoints, with failover.
+
+/**
+ * Health and latency of a single endpoint.
+ */
+export interface EndpointStatus {
+	/** WebSocket URL of the endpoint. */
+	url: string;
+	/** False if the last probe or connection to the endpoint failed. */
+	healthy: boolean;
+	/** Round-trip time measured by the last successful probe, in milliseconds. */
+	rttMs: number | null;
+	/** When the endpoint was last probed or connected to, as a Unix timestamp in milliseconds. */
+	checkedAt: number | null;
+	/** Number of probes or connections that failed in a row. */
+	failures: number;
+	/** The error of the last failure, if the endpoint is unhealthy. */
+	lastError: unknown;
+}
+
+/**
+ * Measures the round-trip time to an endpoint, in milliseconds.
+ *
+ * Should reject if the endpoint cannot be reached.
+ */
+export type EndpointProbe = (url: string) => Promise<number>;
+
+/**
+ * Thrown when no endpoint could be connected to.
+ */
+export class NoEndpointAvailable extends Error {
+	/** Errors for each endpoint that was tried, in the order they were tried. */
+	errors: { url: string; error: unknown }[];
+
+	constructor(errors: { url: string; error: unknown }[]) {
+		super(
+			`Failed to connect to any of ${errors.length} endpoint(s): ${errors
+				.map(({ url, error }) => `${url} (${error})`)
+				.join(", ")}`,
+		);
+		this.name = "NoEndpointAvailable";
+		Object.setPrototypeOf(this, NoEndpointAvailable.prototype);
+
+		this.errors = errors;
+	}
+}
+
+/**
+ * Tracks the health and latency of a set of equivalent endpoints, and picks
+ * which one to connect to.
+ *
+ * Endpoints are ranked healthy first, then by measured round-trip time, then by
+ * the order they were given in. Unhealthy endpoints are ranked by how many
+ * times in a row they failed, so that they are still retried once all others
+ * have failed as well.
+ */
+export class EndpointSelector {
+	private statuses: EndpointStatus[];
+	private probe: EndpointProbe;
+	private _current: string | null = null;
+
+	constructor(urls: string[], probe: EndpointProbe) {
+		if (urls.length === 0) {
+			throw new RangeError("At least one endpoint is required.");
+		}
+		this.statuses = [...new Set(urls)].map((url) => ({
+			url,
+			healthy: true,
+			rttMs: null,
+			checkedAt: null,
+			failures: 0,
+			lastError: undefined,
+		}));
+		this.probe = probe;
+	}
+
+	/** URL of the endpoint currently connected to, if any. */
+	get current(): string | null {
+		return this._current;
+	}
+
+	/** Returns the status of every endpoint, in the order they were given. */
+	status(): EndpointStatus[] {
+		return this.statuses.map((status) => ({ ...status }));
+	}
+
+	/** Returns endpoint URLs, most preferred first. */
+	ranked(): string[] {
+		return this.statuses
+			.map((status, index) => ({ status, index }))
+			.sort((a, b) => compareEndpoints(a.status, b.status) || a.index - b.index)
+			.map(({ status }) => status.url);
+	}
+
+	/**
+	 * Probes every endpoint concurrently, updating their health and latency.
+	 *
+	 * @returns The status of every endpoint once all probes have completed.
+	 */
+	async probeAll(): Promise<EndpointStatus[]> {
+		await Promise.all(
+			this.statuses.map(async (status) => {
+				try {
+					const rttMs = await this.probe(status.url);
+					this.reportSuccess(status.url, rttMs);
+				} catch (err) {
+					this.reportFailure(status.url, err);
+				}
+			}),
+		);
+		return this.status();
+	}
+
+	/**
+	 * Connects to the best available endpoint, trying the others in order if it
+	 * cannot be reached.
+	 *
+	 * If there is a current endpoint, it is assumed to have failed with the
+	 * given error, and is only retried after all others.
+	 *
+	 * @throws {NoEndpointAvailable} If every endpoint failed.
+	 */
+	async connect<T>(
+		open: (url: string) => Promise<T>,
+		error?: unknown,
+	): Promise<T> {
+		let candidates = this.ranked();
+		const failed = this._current;
+		if (failed !== null) {
+			this.reportFailure(failed, error);
+			this._current = null;
+			candidates = [...candidates.filter((url) => url !== failed), failed];
+		}
+		const errors: { url: string; error: unknown }[] = [];
+		for (const url of candidates) {
+			try {
+				const connection = await open(url);
+				this.reportSuccess(url);
+				this._current = url;
+				return connection;
+			} catch (err) {
+				this.reportFailure(url, err);
+				errors.push({ url, error: err });
+			}
+		}
+		throw new NoEndpointAvailable(errors);
+	}
+
+	/** Records that an endpoint was reached, optionally with a new latency measurement. */
+	reportSuccess(url: string, rttMs?: number) {
+		const status = this.find(url);
+		status.healthy = true;
+		status.failures = 0;
+		status.lastError = undefined;
+		status.checkedAt = Date.now();
+		if (rttMs !== undefined) {
+			status.rttMs = rttMs;
+		}
+	}
+
+	/** Records that an endpoint could not be reached or its connection failed. */
+	reportFailure(url: string, error: unknown) {
+		const status = this.find(url);
+		status.healthy = false;
+		status.failures += 1;
+		status.lastError = error;
+		status.checkedAt = Date.now();
+	}
+
+	private find(url: string): EndpointStatus {
+		const status = this.statuses.find((s) => s.url === url);
+		if (status === undefined) {
+			throw new RangeError(`Unknown endpoint ${url}`);
+		}
+		return status;
+	}
+}
+
+function compareEndpoints(a: EndpointStatus, b: EndpointStatus): number {
+	if (a.healthy !== b.healthy) {
+		return a.healthy ? -1 : 1;
+	}
+	if (!a.healthy) {
+		return a.failures - b.failures;
+	}
+	// Endpoints that were never measured go after those that were.
+	return (a.rttMs ?? Infinity) - (b.rttMs ?? Infinity);
+}
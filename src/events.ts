@@ -0,0 +1,97 @@
+// Minimal typed event emitter, usable in both NodeJS and browsers without
+// pulling in the `events` module polyfill.
+
+import { type Logger, consoleLogger } from "./logger";
+
+/**
+ * Listener for an event carrying a value of type `T`.
+ */
+export type Listener<T> = (event: T) => void;
+
+/**
+ * A simple event emitter where each event name maps to a single payload type.
+ *
+ * Listeners are called synchronously in the order they were registered. Errors
+ * thrown by a listener are caught and reported so that one misbehaving listener
+ * cannot break the client or prevent other listeners from running.
+ */
+export class TypedEventEmitter<Events extends object> {
+	private listeners: Map<keyof Events, Set<Listener<never>>> = new Map();
+	private logger: Logger;
+
+	/**
+	 * @param logger - Where errors thrown by listeners are reported.
+	 */
+	constructor(logger: Logger = consoleLogger()) {
+		this.logger = logger;
+	}
+
+	/**
+	 * Registers a listener for the given event.
+	 *
+	 * @returns A function that removes the listener when called.
+	 */
+	on<K extends keyof Events>(
+		event: K,
+		listener: Listener<Events[K]>,
+	): () => void {
+		let set = this.listeners.get(event);
+		if (set === undefined) {
+			set = new Set();
+			this.listeners.set(event, set);
+		}
+		set.add(listener as Listener<never>);
+		return () => this.off(event, listener);
+	}
+
+	/**
+	 * Registers a listener that is removed after it is called once.
+	 *
+	 * @returns A function that removes the listener when called.
+	 */
+	once<K extends keyof Events>(
+		event: K,
+		listener: Listener<Events[K]>,
+	): () => void {
+		const remove = this.on(event, (value) => {
+			remove();
+			listener(value);
+		});
+		return remove;
+	}
+
+	/**
+	 * Removes a previously registered listener.
+	 */
+	off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+		this.listeners.get(event)?.delete(listener as Listener<never>);
+	}
+
+	/**
+	 * Returns the number of listeners registered for the given event.
+	 */
+	listenerCount<K extends keyof Events>(event: K): number {
+		return this.listeners.get(event)?.size ?? 0;
+	}
+
+	/**
+	 * Calls all listeners registered for the given event.
+	 */
+	emit<K extends keyof Events>(event: K, value: Events[K]): void {
+		const set = this.listeners.get(event);
+		if (set === undefined) {
+			return;
+		}
+		// Copy so that listeners may remove themselves while being called.
+		for (const listener of [...set]) {
+			try {
+				(listener as Listener<Events[K]>)(value);
+			} catch (err) {
+				this.logger.error("Event listener threw error", {
+					event: String(event),
+					error: err,
+				});
+			}
+		}
+	}
+}
@@ -1,6 +1,21 @@
 export * as types from "./types";
+export * as backpressure from "./backpressure";
+export * as capture from "./capture";
 export * as codec from "./codec";
 export * as client from "./client";
+export * as compression from "./compression";
+export * as endpoints from "./endpoints";
+export * as lazy from "./lazy";
+export * as limits from "./limits";
+export * as logger from "./logger";
+export * as metrics from "./metrics";
+export * as pool from "./pool";
+export * as quota from "./quota";
+export * as tracing from "./tracing";
+export * as transport from "./transport";
+export * as validate from "./validate";
+export * as worker from "./worker";
 
-// Also just export the client itself at top level for convenience.
+// Also just export the clients themselves at top level for convenience.
 export { V1Client } from "./client";
+export { V1ClientPool } from "./pool";
@@ -0,0 +1,347 @@
+// Lazy decoding of server messages, leaving the bulky parts of quoted routes
+// encoded until they are first read.
+
+import { DecodeError as MessagePackDecodeError } from "@msgpack/msgpack";
+
+import type { SwapRoute } from "./types/v1";
+
+/**
+ * Fields of a {@link SwapRoute} that are decoded on first access when decoding
+ * lazily. Together they make up most of a quote, but are only needed to build
+ * the transaction of the route that was picked.
+ */
+export const LAZY_ROUTE_FIELDS: readonly (keyof SwapRoute)[] = [
+	"steps",
+	"instructions",
+	"addressLookupTables",
+	"transaction",
+];
+
+// Decodes a whole MessagePack value, such as a `Decoder` of @msgpack/msgpack.
+interface ValueDecoder {
+	decode(data: Uint8Array): unknown;
+}
+
+// Where in a message to look for lazy fields: maps on the way to them are
+// decoded entry by entry, and any other value all at once.
+interface Plan {
+	/** Plans for the values of the given keys. */
+	fields?: Record<string, Plan>;
+	/** Plan for the values of every key. */
+	each?: Plan;
+	/** Keys whose values are decoded on first access. */
+	lazy?: ReadonlySet<string>;
+}
+
+const SERVER_MESSAGE_PLAN: Plan = {
+	fields: {
+		StreamData: {
+			fields: {
+				payload: {
+					fields: {
+						SwapQuotes: {
+							fields: {
+								quotes: { each: { lazy: new Set(LAZY_ROUTE_FIELDS) } },
+							},
+						},
+					},
+				},
+			},
+		},
+	},
+};
+
+/**
+ * Decodes a MessagePack encoded server message, leaving the
+ * {@link LAZY_ROUTE_FIELDS} of the routes of quote stream updates to be
+ * decoded when first read.
+ *
+ * Lazy fields are enumerable properties that replace themselves with their
+ * decoded value, so the result compares equal to an eagerly decoded message.
+ * Until then they keep the whole frame in memory, and a lazy field that fails
+ * to decode throws when read rather than here.
+ *
+ * @param decoder - Decodes each value that is not decoded lazily; must
+ *   accept data that is only a part of the message.
+ */
+export function decodeLazily(decoder: ValueDecoder, data: Uint8Array): unknown {
+	const reader = new LazyReader(decoder, data);
+	const value = reader.read(SERVER_MESSAGE_PLAN);
+	reader.end();
+	return value;
+}
+
+const textDecoder = new TextDecoder();
+
+// Map keys seen so far, by hash, up to a limit keeping unusual messages from
+// filling it.
+const keyCache = new Map<number, string>();
+const KEY_CACHE_SIZE = 256;
+
+// Reads a message from start to end, decoding what is not lazy with the given
+// decoder.
+class LazyReader {
+	private decoder: ValueDecoder;
+	private data: Uint8Array;
+	// Position of the next value to read.
+	private pos: number;
+
+	constructor(decoder: ValueDecoder, data: Uint8Array) {
+		this.decoder = decoder;
+		this.data = data;
+		this.pos = 0;
+	}
+
+	// Reads the value at the current position, following the plan.
+	read(plan: Plan | undefined): unknown {
+		const start = this.pos;
+		const size = plan === undefined ? -1 : this.mapHeader();
+		if (size === -1) {
+			this.pos = start;
+			this.skip();
+			return this.decoder.decode(this.data.subarray(start, this.pos));
+		}
+		const value: Record<string, unknown> = {};
+		for (let i = 0; i < size; i++) {
+			const key = this.key();
+			if (key === "__proto__") {
+				throw new MessagePackDecodeError("The key __proto__ is not allowed");
+			}
+			if (plan?.lazy?.has(key)) {
+				const valueStart = this.pos;
+				this.skip();
+				defineLazy(value, key, this.decoder, this.data, valueStart, this.pos);
+			} else {
+				value[key] = this.read(plan?.each ?? plan?.fields?.[key]);
+			}
+		}
+		return value;
+	}
+
+	// Reads the header of a map, returning its number of entries, or -1 if the
+	// value is not a map.
+	private mapHeader(): number {
+		const byte = this.uint(1);
+		if (byte >= 0x80 && byte <= 0x8f) {
+			return byte - 0x80;
+		}
+		if (byte === 0xde) {
+			return this.uint(2);
+		}
+		if (byte === 0xdf) {
+			return this.uint(4);
+		}
+		return -1;
+	}
+
+	// Reads a map key. Keys are almost always short ASCII strings from a small
+	// set, so those are looked up by their hash rather than built every time.
+	private key(): string {
+		const start = this.pos;
+		const byte = this.data[start];
+		this.skip();
+		if (byte < 0xa0 || byte > 0xbf) {
+			return String(this.decoder.decode(this.data.subarray(start, this.pos)));
+		}
+		let hash = byte;
+		for (let i = start + 1; i < this.pos; i++) {
+			if (this.data[i] >= 0x80) {
+				return textDecoder.decode(this.data.subarray(start + 1, this.pos));
+			}
+			hash = Math.imul(hash ^ this.data[i], 0x01000193);
+		}
+		const cached = keyCache.get(hash);
+		if (cached !== undefined && this.matches(cached, start + 1)) {
+			return cached;
+		}
+		const key = String.fromCharCode(...this.data.subarray(start + 1, this.pos));
+		if (keyCache.size < KEY_CACHE_SIZE) {
+			keyCache.set(hash, key);
+		}
+		return key;
+	}
+
+	// Whether the ASCII string is the one encoded from the given position up to
+	// the current one.
+	private matches(key: string, start: number): boolean {
+		if (key.length !== this.pos - start) {
+			return false;
+		}
+		for (let i = 0; i < key.length; i++) {
+			if (key.charCodeAt(i) !== this.data[start + i]) {
+				return false;
+			}
+		}
+		return true;
+	}
+
+	// Moves past the value at the current position without decoding it.
+	private skip() {
+		this.pos = skipValue(this.data, this.pos);
+	}
+
+	// Checks that the whole message was read.
+	end() {
+		if (this.pos !== this.data.byteLength) {
+			throw new RangeError(
+				`Extra ${this.data.byteLength - this.pos} of ${this.data.byteLength} byte(s) found at buffer[${this.pos}]`,
+			);
+		}
+	}
+
+	// Reads a big-endian unsigned integer of the given size in bytes.
+	private uint(size: 1 | 2 | 4): number {
+		const pos = this.pos;
+		if (pos + size > this.data.byteLength) {
+			throw new RangeError("Insufficient data");
+		}
+		this.pos = pos + size;
+		if (size === 1) {
+			return this.data[pos];
+		}
+		return size === 2 ? readUint16(this.data, pos) : readUint32(this.data, pos);
+	}
+}
+
+// Returns the position that follows the value at the given position, reading
+// only the headers of the values it contains.
+function skipValue(data: Uint8Array, pos: number): number {
+	const length = data.byteLength;
+	let remaining = 1;
+	while (remaining > 0) {
+		// Lengths read past the end are NaN, which fails this check too.
+		if (!(pos < length)) {
+			throw new RangeError("Insufficient data");
+		}
+		remaining -= 1;
+		const byte = data[pos];
+		pos += 1;
+		if (byte <= 0x7f || byte >= 0xe0) {
+			continue;
+		}
+		if (byte <= 0x8f) {
+			remaining += (byte - 0x80) * 2;
+		} else if (byte <= 0x9f) {
+			remaining += byte - 0x90;
+		} else if (byte <= 0xbf) {
+			pos += byte - 0xa0;
+		} else {
+			switch (byte) {
+				case 0xc0:
+				case 0xc2:
+				case 0xc3:
+					break;
+				case 0xc4:
+				case 0xd9:
+					pos += 1 + data[pos];
+					break;
+				case 0xc5:
+				case 0xda:
+					pos += 2 + readUint16(data, pos);
+					break;
+				case 0xc6:
+				case 0xdb:
+					pos += 4 + readUint32(data, pos);
+					break;
+				case 0xc7:
+					pos += 2 + data[pos];
+					break;
+				case 0xc8:
+					pos += 3 + readUint16(data, pos);
+					break;
+				case 0xc9:
+					pos += 5 + readUint32(data, pos);
+					break;
+				case 0xcc:
+				case 0xd0:
+					pos += 1;
+					break;
+				case 0xcd:
+				case 0xd1:
+					pos += 2;
+					break;
+				case 0xca:
+				case 0xce:
+				case 0xd2:
+					pos += 4;
+					break;
+				case 0xcb:
+				case 0xcf:
+				case 0xd3:
+					pos += 8;
+					break;
+				case 0xd4:
+				case 0xd5:
+				case 0xd6:
+				case 0xd7:
+				case 0xd8:
+					pos += 1 + 2 ** (byte - 0xd4);
+					break;
+				case 0xdc:
+					remaining += readUint16(data, pos);
+					pos += 2;
+					break;
+				case 0xdd:
+					remaining += readUint32(data, pos);
+					pos += 4;
+					break;
+				case 0xde:
+					remaining += readUint16(data, pos) * 2;
+					pos += 2;
+					break;
+				case 0xdf:
+					remaining += readUint32(data, pos) * 2;
+					pos += 4;
+					break;
+				default:
+					throw new MessagePackDecodeError(
+						`Unrecognized type byte: 0x${byte.toString(16)}`,
+					);
+			}
+		}
+	}
+	if (!(pos <= length)) {
+		throw new RangeError("Insufficient data");
+	}
+	return pos;
+}
+
+function readUint16(data: Uint8Array, pos: number): number {
+	return data[pos] * 0x100 + data[pos + 1];
+}
+
+function readUint32(data: Uint8Array, pos: number): number {
+	return (
+		data[pos] * 0x1000000 + data[pos + 1] * 0x10000 + readUint16(data, pos + 2)
+	);
+}
+
+// Defines a property that is decoded from the given part of the data when
+// first read, or replaced if written before that.
+function defineLazy(
+	target: Record<string, unknown>,
+	key: string,
+	decoder: ValueDecoder,
+	data: Uint8Array,
+	start: number,
+	end: number,
+) {
+	const settle = (value: unknown) => {
+		Object.defineProperty(target, key, {
+			value,
+			writable: true,
+			enumerable: true,
+			configurable: true,
+		});
+	};
+	Object.defineProperty(target, key, {
+		get() {
+			const value = decoder.decode(data.subarray(start, end));
+			settle(value);
+			return value;
+		},
+		set: settle,
+		enumerable: true,
+		configurable: true,
+	});
+}
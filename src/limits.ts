@@ -0,0 +1,197 @@
+// Hard limits on the size and shape of server messages, checked before any
+// memory is allocated for what a frame claims to contain, so that a hostile or
+// corrupted frame cannot exhaust the memory of the client.
+
+import type { DecodeErrorKind } from "./codec";
+
+/**
+ * Limits on the messages a codec decodes. Frames exceeding them fail to decode
+ * with a `DecodeError` whose `kind` names the limit.
+ */
+export interface DecodeLimits {
+	/**
+	 * Largest size of a message once decompressed, in bytes. Decompression
+	 * stops as soon as it is exceeded. Defaults to 64 MiB.
+	 */
+	maxMessageBytes?: number;
+	/** Largest number of items in an array. Defaults to 1,048,576. */
+	maxArrayLength?: number;
+	/** Largest number of entries in a map. Defaults to 65,536. */
+	maxMapLength?: number;
+	/**
+	 * Largest number of arrays and maps nested in one another, counting the
+	 * message itself. Defaults to 32.
+	 */
+	maxDepth?: number;
+}
+
+/**
+ * Decode limits with all defaults filled in.
+ */
+export type ResolvedDecodeLimits = Required<DecodeLimits>;
+
+/**
+ * Fills in defaults for the given decode limits.
+ *
+ * @throws {RangeError} If a limit is not a positive integer.
+ */
+export function resolveDecodeLimits(
+	limits: DecodeLimits = {},
+): ResolvedDecodeLimits {
+	const resolved: ResolvedDecodeLimits = {
+		maxMessageBytes: limits.maxMessageBytes ?? 64 * 1024 * 1024,
+		maxArrayLength: limits.maxArrayLength ?? 1_048_576,
+		maxMapLength: limits.maxMapLength ?? 65_536,
+		maxDepth: limits.maxDepth ?? 32,
+	};
+	for (const [name, value] of Object.entries(resolved)) {
+		if (!Number.isSafeInteger(value) || value < 1) {
+			throw new RangeError(
+				`Decode limit ${name} must be a positive integer, got ${value}.`,
+			);
+		}
+	}
+	return resolved;
+}
+
+/**
+ * Why a frame was rejected by {@link scanMessagePack}.
+ */
+export interface LimitViolation {
+	kind: DecodeErrorKind;
+	reason: string;
+}
+
+/**
+ * Walks the MessagePack encoding of a message without decoding it, checking
+ * that it holds exactly one well-formed value within the limits and no
+ * extension types. Lengths are checked against the limits and the bytes left
+ * before anything is read, so the walk takes time proportional to the size of
+ * the frame and no memory beyond one entry per level of nesting.
+ *
+ * Only uses its arguments and globals, so that its source can be evaluated on
+ * its own in a worker.
+ *
+ * @returns What is wrong with the encoding, or null if nothing is.
+ */
+export function scanMessagePack(
+	bytes: Uint8Array,
+	limits: ResolvedDecodeLimits,
+): LimitViolation | null {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	const end = bytes.byteLength;
+	// Number of values left to read in each array or map being read, the
+	// innermost last, starting with the message itself.
+	const open: number[] = [1];
+	let offset = 0;
+
+	const truncated = (): LimitViolation => ({
+		kind: "malformed",
+		reason: `truncated at byte ${offset} of ${end}`,
+	});
+	// Reads the big-endian length of the given size at the offset.
+	const readLength = (size: number): number => {
+		const at = offset;
+		offset += size;
+		if (size === 1) {
+			return view.getUint8(at);
+		}
+		return size === 2 ? view.getUint16(at) : view.getUint32(at);
+	};
+
+	while (open.length > 0) {
+		if (open[open.length - 1] === 0) {
+			open.pop();
+			continue;
+		}
+		open[open.length - 1] -= 1;
+		if (offset >= end) {
+			return truncated();
+		}
+		const type = view.getUint8(offset);
+		offset += 1;
+
+		// Size of the length that follows the type, and what it counts.
+		let lengthSize = 0;
+		let container: "array" | "map" | null = null;
+		let length = 0;
+		if (type <= 0x7f || type >= 0xe0 || (type >= 0xc0 && type <= 0xc3)) {
+			if (type === 0xc1) {
+				return { kind: "malformed", reason: "reserved type 0xc1" };
+			}
+			continue;
+		}
+		if (type <= 0x8f) {
+			container = "map";
+			length = type & 0x0f;
+		} else if (type <= 0x9f) {
+			container = "array";
+			length = type & 0x0f;
+		} else if (type <= 0xbf) {
+			length = type & 0x1f;
+		} else if (type <= 0xc6) {
+			lengthSize = 1 << (type - 0xc4);
+		} else if (type <= 0xc9 || (type >= 0xd4 && type <= 0xd8)) {
+			return {
+				kind: "extension",
+				reason: `extension type 0x${type.toString(16)} at byte ${offset - 1}`,
+			};
+		} else if (type <= 0xd3) {
+			// Numbers, whose size follows from their type.
+			length = [4, 8, 1, 2, 4, 8, 1, 2, 4, 8][type - 0xca];
+		} else if (type <= 0xdb) {
+			lengthSize = 1 << (type - 0xd9);
+		} else if (type <= 0xdd) {
+			container = "array";
+			lengthSize = 2 << (type - 0xdc);
+		} else {
+			container = "map";
+			lengthSize = 2 << (type - 0xde);
+		}
+		if (lengthSize > 0) {
+			if (end - offset < lengthSize) {
+				return truncated();
+			}
+			length = readLength(lengthSize);
+		}
+
+		if (container === null) {
+			if (end - offset < length) {
+				return truncated();
+			}
+			offset += length;
+			continue;
+		}
+		if (open.length > limits.maxDepth) {
+			return {
+				kind: "depth",
+				reason: `nested more than ${limits.maxDepth} levels deep`,
+			};
+		}
+		if (container === "array" && length > limits.maxArrayLength) {
+			return {
+				kind: "arrayLength",
+				reason: `array of ${length} items, more than ${limits.maxArrayLength}`,
+			};
+		}
+		if (container === "map" && length > limits.maxMapLength) {
+			return {
+				kind: "mapLength",
+				reason: `map of ${length} entries, more than ${limits.maxMapLength}`,
+			};
+		}
+		// Every value takes at least one byte.
+		const values = container === "map" ? length * 2 : length;
+		if (end - offset < values) {
+			return truncated();
+		}
+		open.push(values);
+	}
+	if (offset !== end) {
+		return {
+			kind: "malformed",
+			reason: `${end - offset} bytes left after the message`,
+		};
+	}
+	return null;
+}
@@ -0,0 +1,166 @@
+// Detection of half-open connections and stalled quote streams.
+
+/**
+ * Options controlling connection liveness monitoring.
+ *
+ * Every `intervalMs` without any traffic from the server, the client probes the
+ * connection, using a WebSocket ping if the socket supports it or a `GetInfo`
+ * request otherwise. After `maxMissed` consecutive probes go unanswered, the
+ * connection is considered stale and torn down.
+ */
+export interface HeartbeatOptions {
+	/** How often to check the connection, in milliseconds. Defaults to 15 seconds. */
+	intervalMs?: number;
+	/** How long to wait for a probe to be answered, in milliseconds. Defaults to `intervalMs`. */
+	timeoutMs?: number;
+	/** Number of consecutive unanswered probes before the connection is stale. Defaults to 2. */
+	maxMissed?: number;
+	/**
+	 * A quote stream is reported as stalled if no update arrives for this many
+	 * times its negotiated update interval. Defaults to 3.
+	 */
+	stallFactor?: number;
+}
+
+/**
+ * Heartbeat options with all defaults filled in.
+ */
+export type ResolvedHeartbeatOptions = Required<HeartbeatOptions>;
+
+/**
+ * Fills in defaults for the given heartbeat setting.
+ *
+ * @returns The resolved options, or null if monitoring is disabled.
+ */
+export function resolveHeartbeatOptions(
+	options: boolean | HeartbeatOptions | undefined,
+): ResolvedHeartbeatOptions | null {
+	if (options === undefined || options === false) {
+		return null;
+	}
+	const given = options === true ? {} : options;
+	const intervalMs = given.intervalMs ?? 15_000;
+	const resolved: ResolvedHeartbeatOptions = {
+		intervalMs,
+		timeoutMs: given.timeoutMs ?? intervalMs,
+		maxMissed: given.maxMissed ?? 2,
+		stallFactor: given.stallFactor ?? 3,
+	};
+	if (resolved.intervalMs <= 0 || resolved.timeoutMs <= 0) {
+		throw new RangeError("Heartbeat interval and timeout must be positive.");
+	}
+	if (resolved.maxMissed < 1) {
+		throw new RangeError(
+			`Heartbeat maxMissed must be at least 1, got ${resolved.maxMissed}.`,
+		);
+	}
+	return resolved;
+}
+
+/**
+ * Thrown by a probe if it was not answered in time.
+ */
+export class ProbeTimeout extends Error {
+	constructor(timeoutMs: number) {
+		super(`Heartbeat probe not answered within ${timeoutMs}ms`);
+		this.name = "ProbeTimeout";
+		Object.setPrototypeOf(this, ProbeTimeout.prototype);
+	}
+}
+
+/**
+ * Periodically probes a connection and reports when it stops responding.
+ *
+ * The probe should reject with {@link ProbeTimeout} (or any error accepted by
+ * `isMissed`) when unanswered; other errors mean the server responded, just not
+ * successfully, and so still count as a sign of life.
+ */
+export class HeartbeatMonitor {
+	private options: ResolvedHeartbeatOptions;
+	private probe: () => Promise<void>;
+	private isMissed: (error: unknown) => boolean;
+	private onStale: (missed: number) => void;
+
+	private timer: ReturnType<typeof setInterval> | null = null;
+	private lastActivity = 0;
+	private inFlight = false;
+	private _missed = 0;
+
+	constructor(
+		options: ResolvedHeartbeatOptions,
+		probe: () => Promise<void>,
+		isMissed: (error: unknown) => boolean,
+		onStale: (missed: number) => void,
+	) {
+		this.options = options;
+		this.probe = probe;
+		this.isMissed = isMissed;
+		this.onStale = onStale;
+	}
+
+	/** Number of consecutive probes that went unanswered. */
+	get missed(): number {
+		return this._missed;
+	}
+
+	start() {
+		this.stop();
+		this.lastActivity = Date.now();
+		this._missed = 0;
+		this.timer = setInterval(() => {
+			void this.beat();
+		}, this.options.intervalMs);
+	}
+
+	stop() {
+		if (this.timer !== null) {
+			clearInterval(this.timer);
+			this.timer = null;
+		}
+	}
+
+	/** Records that the server sent something, proving the connection is alive. */
+	activity() {
+		this.lastActivity = Date.now();
+		this._missed = 0;
+	}
+
+	private async beat() {
+		if (this.inFlight) {
+			return;
+		}
+		if (Date.now() - this.lastActivity < this.options.intervalMs) {
+			// Recent traffic, no need to probe.
+			return;
+		}
+		this.inFlight = true;
+		let timer: ReturnType<typeof setTimeout> | undefined;
+		const timeout = new Promise<never>((_, reject) => {
+			timer = setTimeout(
+				() => reject(new ProbeTimeout(this.options.timeoutMs)),
+				this.options.timeoutMs,
+			);
+		});
+		try {
+			await Promise.race([this.probe(), timeout]);
+			this._missed = 0;
+		} catch (err) {
+			if (this.timer === null) {
+				// Stopped while the probe was in flight.
+				return;
+			}
+			if (err instanceof ProbeTimeout || this.isMissed(err)) {
+				this._missed += 1;
+				if (this._missed >= this.options.maxMissed) {
+					this.stop();
+					this.onStale(this._missed);
+				}
+			} else {
+				this._missed = 0;
+			}
+		} finally {
+			clearTimeout(timer);
+			this.inFlight = false;
+		}
+	}
+}
@@ -0,0 +1,151 @@
+// Structured logging, routed to a logger supplied by the application.
+
+/**
+ * Severity of a log entry, from least to most severe.
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * All log levels, from least to most severe.
+ */
+export const LOG_LEVELS: readonly LogLevel[] = [
+	"debug",
+	"info",
+	"warn",
+	"error",
+];
+
+/**
+ * Structured context attached to a log entry.
+ *
+ * The client uses `requestId`, `streamId` and `messageType` where applicable,
+ * and `error` for the error being reported.
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Receives log entries from the client.
+ */
+export interface Logger {
+	debug(message: string, fields?: LogFields): void;
+	info(message: string, fields?: LogFields): void;
+	warn(message: string, fields?: LogFields): void;
+	error(message: string, fields?: LogFields): void;
+}
+
+/**
+ * Logger that discards everything.
+ */
+export const noopLogger: Logger = {
+	debug() {},
+	info() {},
+	warn() {},
+	error() {},
+};
+
+/**
+ * Returns a logger that drops entries below the given level before passing
+ * them on.
+ */
+export function withLevel(logger: Logger, level: LogLevel): Logger {
+	const threshold = LOG_LEVELS.indexOf(level);
+	if (threshold === -1) {
+		throw new RangeError(`Unknown log level ${level}`);
+	}
+	const result = { ...noopLogger };
+	for (const name of LOG_LEVELS.slice(threshold)) {
+		result[name] = (message, fields) => logger[name](message, fields);
+	}
+	return result;
+}
+
+/**
+ * Returns a logger that adds the given fields to every entry, with fields of
+ * the entry itself taking precedence.
+ */
+export function withFields(logger: Logger, fields: LogFields): Logger {
+	const result = { ...noopLogger };
+	for (const name of LOG_LEVELS) {
+		result[name] = (message, entryFields) =>
+			logger[name](message, { ...fields, ...entryFields });
+	}
+	return result;
+}
+
+/**
+ * Returns a logger writing to the console, dropping entries below the given
+ * level. Fields are passed as a second argument, so they stay inspectable.
+ *
+ * This is the default logger of the client, with a level of `"warn"`.
+ */
+export function consoleLogger(level: LogLevel = "warn"): Logger {
+	const write =
+		(name: LogLevel) =>
+		(message: string, fields?: LogFields): void => {
+			if (fields === undefined || Object.keys(fields).length === 0) {
+				console[name](message);
+			} else {
+				console[name](message, fields);
+			}
+		};
+	return withLevel(
+		{
+			debug: write("debug"),
+			info: write("info"),
+			warn: write("warn"),
+			error: write("error"),
+		},
+		level,
+	);
+}
+
+/**
+ * Minimal shape of a pino logger, which takes fields before the message.
+ */
+export interface PinoLike {
+	debug(fields: object, message: string): void;
+	info(fields: object, message: string): void;
+	warn(fields: object, message: string): void;
+	error(fields: object, message: string): void;
+}
+
+/**
+ * Adapts a pino logger, or any logger taking fields before the message.
+ *
+ * Level filtering is left to the pino logger.
+ */
+export function pinoLogger(pino: PinoLike): Logger {
+	return {
+		debug: (message, fields) => pino.debug(fields ?? {}, message),
+		info: (message, fields) => pino.info(fields ?? {}, message),
+		warn: (message, fields) => pino.warn(fields ?? {}, message),
+		error: (message, fields) => pino.error(fields ?? {}, message),
+	};
+}
+
+/**
+ * Minimal shape of a winston logger.
+ */
+export interface WinstonLike {
+	log(level: string, message: string, meta?: object): unknown;
+}
+
+/**
+ * Adapts a winston logger, or any logger with a `log(level, message, meta)`
+ * method.
+ *
+ * Level filtering is left to the winston logger.
+ */
+export function winstonLogger(winston: WinstonLike): Logger {
+	const write =
+		(name: LogLevel) =>
+		(message: string, fields?: LogFields): void => {
+			winston.log(name, message, fields ?? {});
+		};
+	return {
+		debug: write("debug"),
+		info: write("info"),
+		warn: write("warn"),
+		error: write("error"),
+	};
+}
@@ -0,0 +1,561 @@
+// Counters and histograms describing what a client does, exportable in the
+// Prometheus text format.
+
+import type { StreamSequenceIssue } from "./client";
+import type { CodecObserver } from "./codec";
+
+/**
+ * Label values identifying one series of a metric.
+ */
+export type Labels = Record<string, string>;
+
+/**
+ * Value of a single series of a counter.
+ */
+export interface CounterSample {
+	labels: Labels;
+	value: number;
+}
+
+/**
+ * State of a single series of a histogram.
+ */
+export interface HistogramSnapshot {
+	/** Number of observed values. */
+	count: number;
+	/** Sum of all observed values. */
+	sum: number;
+	/** Cumulative number of values less than or equal to each upper bound. */
+	buckets: { le: number; count: number }[];
+}
+
+/**
+ * State of a single series of a histogram, with its labels.
+ */
+export interface HistogramSample extends HistogramSnapshot {
+	labels: Labels;
+}
+
+// Identifies a series by its labels, independent of their order.
+function seriesKey(labels: Labels): string {
+	return Object.keys(labels)
+		.sort()
+		.map((name) => `${name}=${labels[name]}`)
+		.join(",");
+}
+
+function formatLabels(labels: Labels, extra?: [string, string]): string {
+	const pairs = Object.entries(labels);
+	if (extra !== undefined) {
+		pairs.push(extra);
+	}
+	if (pairs.length === 0) {
+		return "";
+	}
+	const escaped = pairs.map(
+		([name, value]) =>
+			`${name}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`,
+	);
+	return `{${escaped.join(",")}}`;
+}
+
+function formatNumber(value: number): string {
+	if (value === Infinity) {
+		return "+Inf";
+	}
+	return String(value);
+}
+
+/**
+ * A monotonically increasing count, split into series by labels.
+ */
+export class Counter {
+	readonly name: string;
+	readonly help: string;
+	private series: Map<string, CounterSample> = new Map();
+
+	constructor(name: string, help: string) {
+		this.name = name;
+		this.help = help;
+	}
+
+	/** Increases the series with the given labels. */
+	inc(labels: Labels = {}, by = 1) {
+		const key = seriesKey(labels);
+		const sample = this.series.get(key);
+		if (sample === undefined) {
+			this.series.set(key, { labels, value: by });
+		} else {
+			sample.value += by;
+		}
+	}
+
+	/** Returns the value of the series with the given labels. */
+	value(labels: Labels = {}): number {
+		return this.series.get(seriesKey(labels))?.value ?? 0;
+	}
+
+	/** Returns every series recorded so far. */
+	collect(): CounterSample[] {
+		return [...this.series.values()].map((sample) => ({ ...sample }));
+	}
+
+	/** Formats the counter in the Prometheus text format. */
+	toPrometheus(): string[] {
+		const lines = [
+			`# HELP ${this.name} ${this.help}`,
+			`# TYPE ${this.name} counter`,
+		];
+		for (const { labels, value } of this.series.values()) {
+			lines.push(`${this.name}${formatLabels(labels)} ${formatNumber(value)}`);
+		}
+		return lines;
+	}
+}
+
+interface HistogramSeries {
+	labels: Labels;
+	count: number;
+	sum: number;
+	// Non-cumulative counts per bucket, with a final overflow bucket.
+	counts: number[];
+}
+
+/**
+ * Distribution of observed values over fixed buckets, split into series by
+ * labels.
+ */
+export class Histogram {
+	readonly name: string;
+	readonly help: string;
+	readonly bounds: readonly number[];
+	private series: Map<string, HistogramSeries> = new Map();
+
+	/**
+	 * @param bounds - Upper bounds of the buckets, in increasing order.
+	 */
+	constructor(name: string, help: string, bounds: readonly number[]) {
+		for (let i = 1; i < bounds.length; i++) {
+			if (!(bounds[i] > bounds[i - 1])) {
+				throw new RangeError(
+					`Histogram ${name} bucket bounds must be increasing.`,
+				);
+			}
+		}
+		this.name = name;
+		this.help = help;
+		this.bounds = bounds;
+	}
+
+	/** Records a value in the series with the given labels. */
+	observe(value: number, labels: Labels = {}) {
+		const key = seriesKey(labels);
+		let series = this.series.get(key);
+		if (series === undefined) {
+			series = {
+				labels,
+				count: 0,
+				sum: 0,
+				counts: new Array(this.bounds.length + 1).fill(0),
+			};
+			this.series.set(key, series);
+		}
+		let bucket = 0;
+		while (bucket < this.bounds.length && value > this.bounds[bucket]) {
+			bucket += 1;
+		}
+		series.counts[bucket] += 1;
+		series.count += 1;
+		series.sum += value;
+	}
+
+	/** Returns the state of the series with the given labels. */
+	snapshot(labels: Labels = {}): HistogramSnapshot {
+		const series = this.series.get(seriesKey(labels));
+		if (series === undefined) {
+			return {
+				count: 0,
+				sum: 0,
+				buckets: [...this.bounds, Infinity].map((le) => ({ le, count: 0 })),
+			};
+		}
+		return this.toSnapshot(series);
+	}
+
+	/** Returns every series recorded so far. */
+	collect(): HistogramSample[] {
+		return [...this.series.values()].map((series) => ({
+			labels: series.labels,
+			...this.toSnapshot(series),
+		}));
+	}
+
+	/** Formats the histogram in the Prometheus text format. */
+	toPrometheus(): string[] {
+		const lines = [
+			`# HELP ${this.name} ${this.help}`,
+			`# TYPE ${this.name} histogram`,
+		];
+		for (const series of this.series.values()) {
+			const { labels } = series;
+			for (const { le, count } of this.toSnapshot(series).buckets) {
+				lines.push(
+					`${this.name}_bucket${formatLabels(labels, ["le", formatNumber(le)])} ${count}`,
+				);
+			}
+			lines.push(`${this.name}_sum${formatLabels(labels)} ${series.sum}`);
+			lines.push(`${this.name}_count${formatLabels(labels)} ${series.count}`);
+		}
+		return lines;
+	}
+
+	private toSnapshot(series: HistogramSeries): HistogramSnapshot {
+		let cumulative = 0;
+		const buckets = [...this.bounds, Infinity].map((le, i) => {
+			cumulative += series.counts[i];
+			return { le, count: cumulative };
+		});
+		return { count: series.count, sum: series.sum, buckets };
+	}
+}
+
+/**
+ * Default latency buckets, in milliseconds.
+ */
+export const LATENCY_BUCKETS_MS: readonly number[] = [
+	1, 2.5, 5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000,
+];
+
+/**
+ * Default buckets for time spent encoding or decoding a message, in milliseconds.
+ */
+export const CODEC_BUCKETS_MS: readonly number[] = [
+	0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 25, 50,
+];
+
+/**
+ * Default buckets for the time between updates of a quote stream, in milliseconds.
+ */
+export const UPDATE_INTERVAL_BUCKETS_MS: readonly number[] = [
+	50, 100, 250, 500, 1000, 2500, 5000, 10000,
+];
+
+/**
+ * How a request was completed.
+ */
+export type RequestOutcome = "ok" | "error" | "timeout" | "aborted";
+
+/**
+ * Options for {@link ClientMetrics}.
+ */
+export interface ClientMetricsOptions {
+	/** Prefix of all metric names. Defaults to `"titan"`. */
+	prefix?: string;
+	/** Buckets for request latency, in milliseconds. */
+	latencyBucketsMs?: readonly number[];
+}
+
+/**
+ * Request counts and latency of a single kind of request.
+ */
+export interface RequestMetricsSnapshot {
+	sent: number;
+	ok: number;
+	error: number;
+	timeout: number;
+	aborted: number;
+	latencyMs: HistogramSnapshot;
+}
+
+/**
+ * Point-in-time view of everything recorded by {@link ClientMetrics}.
+ */
+export interface ClientMetricsSnapshot {
+	/** Counts and latency per kind of request, such as `"GetInfo"`. */
+	requests: Record<string, RequestMetricsSnapshot>;
+	streams: {
+		started: number;
+		/** Streams that ended normally or were stopped. */
+		ended: number;
+		/** Streams that ended with an error. */
+		failed: number;
+		/** Number of updates received across all streams. */
+		updates: number;
+		/** Time between consecutive updates of a stream. */
+		updateIntervalMs: HistogramSnapshot;
+		/** Times a stream skipped updates. */
+		gaps: number;
+		/** Number of updates skipped across all gaps. */
+		missedUpdates: number;
+		/** Updates dropped as duplicates. */
+		duplicates: number;
+		/** Updates dropped for arriving out of order. */
+		outOfOrder: number;
+		/** Updates dropped because their consumer did not keep up. */
+		droppedUpdates: number;
+	};
+	codec: {
+		messagesSent: number;
+		messagesReceived: number;
+		/** Bytes sent on the wire, after compression. */
+		wireBytesSent: number;
+		/** Bytes received on the wire, before decompression. */
+		wireBytesReceived: number;
+		/** Bytes of MessagePack encoded before compression. */
+		messageBytesSent: number;
+		/** Bytes of MessagePack decoded after decompression. */
+		messageBytesReceived: number;
+		/** Uncompressed over compressed size of received messages, if any were received. */
+		compressionRatio: number | null;
+		encodeMs: HistogramSnapshot;
+		decodeMs: HistogramSnapshot;
+	};
+}
+
+/**
+ * Collects metrics about requests, streams and the codec of one or more clients.
+ *
+ * Pass an instance as the `metrics` connect option; sharing one instance
+ * between clients, for example those of a pool, aggregates their metrics.
+ * Recording only updates a few counters, so it can stay enabled in production.
+ */
+export class ClientMetrics implements CodecObserver {
+	/** Requests sent, by `kind`. */
+	readonly requests: Counter;
+	/** Requests completed, by `kind` and `outcome`. */
+	readonly responses: Counter;
+	/** Time from sending a request to receiving its response, by `kind`. */
+	readonly requestDuration: Histogram;
+	/** Quote streams started. */
+	readonly streamsStarted: Counter;
+	/** Quote streams ended, by `outcome`. */
+	readonly streamsEnded: Counter;
+	/** Quote stream updates received. */
+	readonly streamUpdates: Counter;
+	/** Time between consecutive updates of a quote stream. */
+	readonly streamUpdateInterval: Histogram;
+	/** Irregular quote stream sequence numbers, by `issue`. */
+	readonly streamSequenceIssues: Counter;
+	/** Quote stream updates skipped by the server. */
+	readonly streamMissedUpdates: Counter;
+	/** Quote stream updates dropped from the buffer of a slow consumer. */
+	readonly streamDroppedUpdates: Counter;
+	/** Messages encoded or decoded, by `direction`. */
+	readonly messages: Counter;
+	/** Bytes on the wire, by `direction`. */
+	readonly wireBytes: Counter;
+	/** Bytes of uncompressed MessagePack, by `direction`. */
+	readonly messageBytes: Counter;
+	/** Time spent encoding and compressing a message. */
+	readonly encodeDuration: Histogram;
+	/** Time spent decompressing and decoding a message. */
+	readonly decodeDuration: Histogram;
+
+	constructor(options: ClientMetricsOptions = {}) {
+		const prefix = options.prefix ?? "titan";
+		this.requests = new Counter(
+			`${prefix}_requests_total`,
+			"Requests sent to the server, by kind.",
+		);
+		this.responses = new Counter(
+			`${prefix}_responses_total`,
+			"Requests completed, by kind and outcome.",
+		);
+		this.requestDuration = new Histogram(
+			`${prefix}_request_duration_ms`,
+			"Time from sending a request to receiving its response, in milliseconds.",
+			options.latencyBucketsMs ?? LATENCY_BUCKETS_MS,
+		);
+		this.streamsStarted = new Counter(
+			`${prefix}_streams_started_total`,
+			"Quote streams started.",
+		);
+		this.streamsEnded = new Counter(
+			`${prefix}_streams_ended_total`,
+			"Quote streams ended, by outcome.",
+		);
+		this.streamUpdates = new Counter(
+			`${prefix}_stream_updates_total`,
+			"Quote stream updates received.",
+		);
+		this.streamUpdateInterval = new Histogram(
+			`${prefix}_stream_update_interval_ms`,
+			"Time between consecutive updates of a quote stream, in milliseconds.",
+			UPDATE_INTERVAL_BUCKETS_MS,
+		);
+		this.streamSequenceIssues = new Counter(
+			`${prefix}_stream_sequence_issues_total`,
+			"Irregular quote stream sequence numbers, by issue.",
+		);
+		this.streamMissedUpdates = new Counter(
+			`${prefix}_stream_missed_updates_total`,
+			"Quote stream updates skipped by the server.",
+		);
+		this.streamDroppedUpdates = new Counter(
+			`${prefix}_stream_dropped_updates_total`,
+			"Quote stream updates dropped from the buffer of a slow consumer.",
+		);
+		this.messages = new Counter(
+			`${prefix}_messages_total`,
+			"Messages encoded or decoded, by direction.",
+		);
+		this.wireBytes = new Counter(
+			`${prefix}_wire_bytes_total`,
+			"Bytes sent or received on the wire, after compression, by direction.",
+		);
+		this.messageBytes = new Counter(
+			`${prefix}_message_bytes_total`,
+			"Bytes of MessagePack sent or received before compression, by direction.",
+		);
+		this.encodeDuration = new Histogram(
+			`${prefix}_encode_duration_ms`,
+			"Time spent encoding and compressing a message, in milliseconds.",
+			CODEC_BUCKETS_MS,
+		);
+		this.decodeDuration = new Histogram(
+			`${prefix}_decode_duration_ms`,
+			"Time spent decompressing and decoding a message, in milliseconds.",
+			CODEC_BUCKETS_MS,
+		);
+	}
+
+	/** Records that a request was sent. */
+	requestSent(kind: string) {
+		this.requests.inc({ kind });
+	}
+
+	/**
+	 * Records how a request was completed, with its latency if a response was
+	 * received.
+	 */
+	requestCompleted(
+		kind: string,
+		outcome: RequestOutcome,
+		latencyMs: number | null = null,
+	) {
+		this.responses.inc({ kind, outcome });
+		if (latencyMs !== null) {
+			this.requestDuration.observe(latencyMs, { kind });
+		}
+	}
+
+	/** Records that a quote stream was started. */
+	streamStarted() {
+		this.streamsStarted.inc();
+	}
+
+	/**
+	 * Records an update of a quote stream, with the time since its previous
+	 * update or since it was started.
+	 */
+	streamUpdated(intervalMs: number) {
+		this.streamUpdates.inc();
+		this.streamUpdateInterval.observe(intervalMs);
+	}
+
+	/**
+	 * Records an irregular sequence number on a quote stream, with the number of
+	 * updates skipped.
+	 */
+	streamSequence(issue: StreamSequenceIssue, missed: number) {
+		this.streamSequenceIssues.inc({ issue });
+		if (missed > 0) {
+			this.streamMissedUpdates.inc({}, missed);
+		}
+	}
+
+	/** Records that an update was dropped because its consumer fell behind. */
+	streamDropped() {
+		this.streamDroppedUpdates.inc();
+	}
+
+	/** Records that a quote stream ended. */
+	streamEnded(outcome: "ok" | "error") {
+		this.streamsEnded.inc({ outcome });
+	}
+
+	encoded(messageBytes: number, wireBytes: number, durationMs: number) {
+		this.messages.inc({ direction: "sent" });
+		this.messageBytes.inc({ direction: "sent" }, messageBytes);
+		this.wireBytes.inc({ direction: "sent" }, wireBytes);
+		this.encodeDuration.observe(durationMs);
+	}
+
+	decoded(wireBytes: number, messageBytes: number, durationMs: number) {
+		this.messages.inc({ direction: "received" });
+		this.messageBytes.inc({ direction: "received" }, messageBytes);
+		this.wireBytes.inc({ direction: "received" }, wireBytes);
+		this.decodeDuration.observe(durationMs);
+	}
+
+	/** Returns everything recorded so far. */
+	snapshot(): ClientMetricsSnapshot {
+		const requests: Record<string, RequestMetricsSnapshot> = {};
+		for (const { labels, value } of this.requests.collect()) {
+			const { kind } = labels;
+			requests[kind] = {
+				sent: value,
+				ok: this.responses.value({ kind, outcome: "ok" }),
+				error: this.responses.value({ kind, outcome: "error" }),
+				timeout: this.responses.value({ kind, outcome: "timeout" }),
+				aborted: this.responses.value({ kind, outcome: "aborted" }),
+				latencyMs: this.requestDuration.snapshot({ kind }),
+			};
+		}
+		const received = { direction: "received" };
+		const sent = { direction: "sent" };
+		const wireBytesReceived = this.wireBytes.value(received);
+		const messageBytesReceived = this.messageBytes.value(received);
+		return {
+			requests,
+			streams: {
+				started: this.streamsStarted.value(),
+				ended: this.streamsEnded.value({ outcome: "ok" }),
+				failed: this.streamsEnded.value({ outcome: "error" }),
+				updates: this.streamUpdates.value(),
+				updateIntervalMs: this.streamUpdateInterval.snapshot(),
+				gaps: this.streamSequenceIssues.value({ issue: "gap" }),
+				missedUpdates: this.streamMissedUpdates.value(),
+				duplicates: this.streamSequenceIssues.value({ issue: "duplicate" }),
+				outOfOrder: this.streamSequenceIssues.value({ issue: "outOfOrder" }),
+				droppedUpdates: this.streamDroppedUpdates.value(),
+			},
+			codec: {
+				messagesSent: this.messages.value(sent),
+				messagesReceived: this.messages.value(received),
+				wireBytesSent: this.wireBytes.value(sent),
+				wireBytesReceived,
+				messageBytesSent: this.messageBytes.value(sent),
+				messageBytesReceived,
+				compressionRatio:
+					wireBytesReceived === 0
+						? null
+						: messageBytesReceived / wireBytesReceived,
+				encodeMs: this.encodeDuration.snapshot(),
+				decodeMs: this.decodeDuration.snapshot(),
+			},
+		};
+	}
+
+	/** Formats all metrics in the Prometheus text exposition format. */
+	toPrometheus(): string {
+		const metrics = [
+			this.requests,
+			this.responses,
+			this.requestDuration,
+			this.streamsStarted,
+			this.streamsEnded,
+			this.streamUpdates,
+			this.streamUpdateInterval,
+			this.streamSequenceIssues,
+			this.streamMissedUpdates,
+			this.streamDroppedUpdates,
+			this.messages,
+			this.wireBytes,
+			this.messageBytes,
+			this.encodeDuration,
+			this.decodeDuration,
+		];
+		return `${metrics.flatMap((metric) => metric.toPrometheus()).join("\n")}\n`;
+	}
+}
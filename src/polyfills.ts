@@ -0,0 +1,18 @@
+// Polyfills of recent built-ins used by the client, imported for their side
+// effects by every module that relies on them.
+
+// Polyfill Promise.withResolvers if not available.
+// Implementation based on the example from MDN: https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Promise/withResolvers
+if (typeof Promise.withResolvers === "undefined") {
+	Object.assign(Promise, {
+		withResolvers: <T>() => {
+			let resolve!: (value: T | PromiseLike<T>) => void;
+			let reject!: (reason?: unknown) => void;
+			const promise = new Promise<T>((res, rej) => {
+				resolve = res;
+				reject = rej;
+			});
+			return { promise, resolve, reject };
+		},
+	});
+}
@@ -0,0 +1,734 @@
+// Pool of connections to the server, spreading quote streams over as many
+// connections as needed to stay within the per-connection stream limit.
+
+import {
+	type ClientEvents,
+	type ConnectOptions,
+	ConnectionClosed,
+	type RequestOptions,
+	type ResponseWithStream,
+	type Uint64Mode,
+	type Uint64Type,
+	V1Client,
+} from "./client";
+import { type Listener, TypedEventEmitter } from "./events";
+import { type Logger, consoleLogger } from "./logger";
+import "./polyfills";
+import type { TransportCloseEvent } from "./transport";
+import type * as v1 from "./types/v1";
+
+/**
+ * Options controlling how a {@link V1ClientPool} manages its connections.
+ */
+export interface PoolOptions {
+	/** Maximum number of connections to open. Unlimited by default. */
+	maxConnections?: number;
+	/**
+	 * How long a surplus connection may go without any streams before it is
+	 * closed, in milliseconds. The first connection is always kept open.
+	 * Defaults to 30 seconds.
+	 */
+	idleTimeoutMs?: number;
+	/**
+	 * Where errors thrown by event listeners are reported. Defaults to the
+	 * console.
+	 */
+	logger?: Logger;
+}
+
+/**
+ * Options accepted by {@link V1ClientPool.connect}, applied to every connection.
+ */
+export interface PoolConnectOptions extends ConnectOptions, PoolOptions {}
+
+/**
+ * Error returned when a stream cannot be started because every connection is
+ * at its stream limit and no more connections may be opened.
+ */
+export class PoolExhausted extends Error {
+	/** Number of connections in the pool. */
+	maxConnections: number;
+
+	constructor(maxConnections: number) {
+		super(
+			`All ${maxConnections} pooled connection(s) are at their concurrent stream limit`,
+		);
+		this.name = "PoolExhausted";
+		Object.setPrototypeOf(this, PoolExhausted.prototype);
+
+		this.maxConnections = maxConnections;
+	}
+}
+
+const POOL_CLOSED: TransportCloseEvent = {
+	code: 1000,
+	reason: "pool closed",
+	wasClean: true,
+};
+
+// Connection events that are forwarded without translating stream IDs.
+const FORWARDED_EVENTS = [
+	"open",
+	"close",
+	"error",
+	"request",
+	"response",
+	"unknownMessage",
+	"frame",
+	"reconnecting",
+	"reconnected",
+] as const satisfies readonly (keyof ClientEvents)[];
+
+// A single connection in the pool.
+interface PoolMember<U extends v1.Uint64> {
+	client: V1Client<U>;
+	// Maximum number of concurrent streams the server allows on the connection.
+	limit: number;
+	// When the connection was last seen holding no streams, or null if it holds some.
+	idleSince: number | null;
+	// Removes the listeners the pool registered on the client.
+	unsubscribe: () => void;
+}
+
+// Where a stream handed out by the pool currently lives.
+interface PooledStream<U extends v1.Uint64> {
+	member: PoolMember<U>;
+	// ID of the stream on the member's connection.
+	streamId: number;
+	// Reader of the stream on the member's connection, replaced when the stream
+	// is moved to another connection.
+	reader: ReadableStreamDefaultReader<v1.WithUint64<v1.SwapQuotes, U>>;
+	// Request that started the stream, used to start it again when moving it.
+	request: v1.SwapQuoteRequest;
+	signal?: AbortSignal;
+	// Set once the stream has ended on its connection.
+	ended: boolean;
+}
+
+/**
+ * Spreads quote streams over multiple connections to the server.
+ *
+ * Each connection may only hold as many streams as the server allows, as
+ * reported by `settings.connection.concurrentStreams` from `getInfo()`. The
+ * pool opens connections on demand, placing each new stream on the first
+ * connection with free capacity, so that streams concentrate on the oldest
+ * connections and surplus ones close once they have been idle for a while.
+ * Connections that close are dropped from the pool and replaced when needed.
+ *
+ * The pool also rebalances running streams. When streams end, streams of newer
+ * connections are moved to older ones with free capacity, and when a
+ * connection comes back from a reconnect with a lower limit, the streams above
+ * it are moved elsewhere, opening connections as needed. A stream is moved by
+ * starting it again on the other connection before stopping it on the first,
+ * without interrupting the ReadableStream or changing its pool-wide ID.
+ *
+ * The pool offers the same methods as {@link V1Client}. Stream IDs it returns
+ * are unique across the pool and stay the same across reconnects, so the
+ * `streamIdChanged` event is never emitted; other events are forwarded from
+ * every connection. Stream events carry pool-wide stream IDs, while request
+ * IDs in `request` and `response` events are those of the connection.
+ *
+ * Connections are opened before the pool can listen to them, so listeners for
+ * the `open` event of new connections must be passed in the `on` connect option.
+ *
+ * `U` is the type of the unsigned 64-bit integers in quotes and prices, as for
+ * {@link V1Client}.
+ */
+export class V1ClientPool<U extends v1.Uint64 = v1.Uint64> {
+	private factory: () => Promise<V1Client<U>>;
+	private maxConnections: number;
+	private idleTimeoutMs: number;
+
+	private members: PoolMember<U>[];
+	// Connection currently being opened, shared by everything waiting for one.
+	private opening: Promise<PoolMember<U>> | null;
+	private streams: Map<number, PooledStream<U>>;
+	private nextStreamId: number;
+	private events: TypedEventEmitter<ClientEvents>;
+	private sweepTimer: ReturnType<typeof setInterval> | null;
+	// Rebalancing in progress, and whether another pass was asked for meanwhile.
+	private rebalancing: Promise<void> | null;
+	private rebalanceAgain: boolean;
+	private logger: Logger;
+	private _closed: boolean;
+	private closeResolvers: PromiseWithResolvers<TransportCloseEvent>;
+
+	/**
+	 * Opens a pool of connections to the server at the given URL.
+	 *
+	 * @param url - WebSocket URL of the API endpoint.
+	 * @param options - Connection options, applied to every connection, and pool options.
+	 * @returns A promise that resolves with the pool once its first connection is open.
+	 */
+	static async connect<M extends Uint64Mode = "mixed">(
+		url: string,
+		options: PoolConnectOptions & { uint64?: M } = {},
+	): Promise<V1ClientPool<Uint64Type<M>>> {
+		const { maxConnections, idleTimeoutMs, ...connectOptions } = options;
+		const pool = new V1ClientPool(() => V1Client.connect(url, connectOptions), {
+			maxConnections,
+			idleTimeoutMs,
+			logger: connectOptions.logger,
+		});
+		await pool.anyMember();
+		return pool;
+	}
+
+	/**
+	 * Creates a pool that opens connections with the given function.
+	 *
+	 * No connection is opened until one is needed.
+	 */
+	constructor(factory: () => Promise<V1Client<U>>, options: PoolOptions = {}) {
+		this.factory = factory;
+		this.maxConnections = options.maxConnections ?? Infinity;
+		this.idleTimeoutMs = options.idleTimeoutMs ?? 30_000;
+		if (!(this.maxConnections >= 1)) {
+			throw new RangeError(
+				`Pool maxConnections must be at least 1, got ${this.maxConnections}.`,
+			);
+		}
+
+		this.members = [];
+		this.opening = null;
+		this.streams = new Map();
+		this.nextStreamId = 0;
+		this.logger = options.logger ?? consoleLogger();
+		this.events = new TypedEventEmitter(this.logger);
+		this.sweepTimer = null;
+		this.rebalancing = null;
+		this.rebalanceAgain = false;
+		this._closed = false;
+		this.closeResolvers = Promise.withResolvers();
+	}
+
+	/**
+	 * Returns true if the pool has been closed.
+	 */
+	public get closed() {
+		return this._closed;
+	}
+
+	/**
+	 * Returns the number of open connections.
+	 */
+	public get connections(): number {
+		return this.members.length;
+	}
+
+	/**
+	 * Returns the number of quote streams held across all connections.
+	 */
+	public get activeStreams(): number {
+		let count = 0;
+		for (const member of this.members) {
+			count += member.client.activeStreams;
+		}
+		return count;
+	}
+
+	/**
+	 * Registers a listener for an event from any of the pool's connections.
+	 *
+	 * @returns A function that removes the listener.
+	 */
+	public on<K extends keyof ClientEvents>(
+		event: K,
+		listener: Listener<ClientEvents[K]>,
+	): () => void {
+		return this.events.on(event, listener);
+	}
+
+	/**
+	 * Registers a listener that is removed after it is called once.
+	 *
+	 * @returns A function that removes the listener.
+	 */
+	public once<K extends keyof ClientEvents>(
+		event: K,
+		listener: Listener<ClientEvents[K]>,
+	): () => void {
+		return this.events.once(event, listener);
+	}
+
+	/**
+	 * Removes a previously registered listener.
+	 */
+	public off<K extends keyof ClientEvents>(
+		event: K,
+		listener: Listener<ClientEvents[K]>,
+	): void {
+		this.events.off(event, listener);
+	}
+
+	/**
+	 * Returns a promise that resolves when the pool is closed.
+	 */
+	public listenClosed(): Promise<TransportCloseEvent> {
+		return this.closeResolvers.promise;
+	}
+
+	/**
+	 * Closes every connection in the pool.
+	 *
+	 * @returns A promise that is resolved once all connections are closed.
+	 */
+	public async close(): Promise<TransportCloseEvent> {
+		if (!this._closed) {
+			this._closed = true;
+			this.stopSweep();
+			const members = this.members;
+			this.members = [];
+			this.streams.clear();
+			await Promise.all(
+				members.map((member) => {
+					member.unsubscribe();
+					return member.client.close();
+				}),
+			);
+			this.closeResolvers.resolve(POOL_CLOSED);
+		}
+		return this.listenClosed();
+	}
+
+	/**
+	 * Requests the server stop a stream started through the pool.
+	 *
+	 * @param streamId - The pool-wide ID of the stream to stop.
+	 * @param options - Timeout and cancellation for the request.
+	 * @returns A promise that completes once the stream has been stopped.
+	 */
+	public async stopStream(
+		streamId: number,
+		options?: RequestOptions,
+	): Promise<v1.StreamEnd> {
+		this.ensureOpen();
+		const pooled = this.streams.get(streamId);
+		if (pooled === undefined) {
+			throw new RangeError(`Unknown stream ${streamId}`);
+		}
+		const end = await pooled.member.client.stopStream(pooled.streamId, options);
+		return { ...end, id: streamId };
+	}
+
+	/**
+	 * Requests information about the server, from any connection.
+	 */
+	public async getInfo(options?: RequestOptions): Promise<v1.ServerInfo> {
+		return (await this.anyMember()).client.getInfo(options);
+	}
+
+	/**
+	 * Starts a new quote stream on a connection with free capacity, opening a
+	 * new connection if necessary.
+	 *
+	 * @throws {PoolExhausted} If every connection is full and no more may be opened.
+	 */
+	public async newSwapQuoteStream(
+		params: v1.SwapQuoteRequest,
+		options?: RequestOptions,
+	): Promise<
+		ResponseWithStream<
+			v1.QuoteSwapStreamResponse,
+			v1.WithUint64<v1.SwapQuotes, U>
+		>
+	> {
+		const { member, started } = await this.place((client) =>
+			client.newSwapQuoteStream(params, options),
+		);
+		const { response, stream, streamId } = await started;
+		const id = this.nextStreamId;
+		this.nextStreamId += 1;
+		const pooled: PooledStream<U> = {
+			member,
+			streamId,
+			reader: stream.getReader(),
+			request: params,
+			signal: options?.signal,
+			ended: false,
+		};
+		this.streams.set(id, pooled);
+		this.events.emit("streamStart", {
+			streamId: id,
+			intervalMs: response.intervalMs,
+			request: params,
+		});
+		return { response, streamId: id, stream: this.track(id, pooled) };
+	}
+
+	/**
+	 * Requests a list of venues from the server, from any connection.
+	 */
+	public async getVenues(
+		params?: v1.GetVenuesRequest,
+		options?: RequestOptions,
+	): Promise<v1.VenueInfo> {
+		return (await this.anyMember()).client.getVenues(params, options);
+	}
+
+	/**
+	 * Requests a list of providers from the server, from any connection.
+	 */
+	public async listProviders(
+		params?: v1.ListProvidersRequest,
+		options?: RequestOptions,
+	): Promise<v1.ProviderInfo[]> {
+		return (await this.anyMember()).client.listProviders(params, options);
+	}
+
+	/**
+	 * Requests a swap price from the server, from any connection.
+	 */
+	public async getSwapPrice(
+		params: v1.SwapPriceRequest,
+		options?: RequestOptions,
+	): Promise<v1.WithUint64<v1.SwapPrice, U>> {
+		return (await this.anyMember()).client.getSwapPrice(params, options);
+	}
+
+	private ensureOpen() {
+		if (this._closed) {
+			throw new ConnectionClosed(POOL_CLOSED);
+		}
+	}
+
+	private async anyMember(): Promise<PoolMember<U>> {
+		this.ensureOpen();
+		const member = this.members.find((m) => !m.client.closed);
+		return member ?? this.openMember();
+	}
+
+	// Starts a stream on the first connection with free capacity. The stream is
+	// started synchronously once a connection is found, so that concurrent
+	// placements see each other's streams.
+	private async place<T>(
+		start: (client: V1Client<U>) => T,
+	): Promise<{ member: PoolMember<U>; started: T }> {
+		for (;;) {
+			this.ensureOpen();
+			const member = this.members.find(
+				(m) => !m.client.closed && m.client.activeStreams < m.limit,
+			);
+			if (member !== undefined) {
+				member.idleSince = null;
+				return { member, started: start(member.client) };
+			}
+			if (this.members.length >= this.maxConnections) {
+				throw new PoolExhausted(this.maxConnections);
+			}
+			await this.openMember();
+		}
+	}
+
+	private openMember(): Promise<PoolMember<U>> {
+		if (this.opening === null) {
+			this.opening = this.open().finally(() => {
+				this.opening = null;
+			});
+		}
+		return this.opening;
+	}
+
+	private async open(): Promise<PoolMember<U>> {
+		const client = await this.factory();
+		let info: v1.ServerInfo;
+		try {
+			info = await client.getInfo();
+		} catch (err) {
+			await client.close();
+			throw err;
+		}
+		if (this._closed) {
+			await client.close();
+			throw new ConnectionClosed(POOL_CLOSED);
+		}
+
+		const member: PoolMember<U> = {
+			client,
+			limit: info.settings.connection.concurrentStreams,
+			idleSince: Date.now(),
+			unsubscribe: () => {},
+		};
+		const removers = [
+			...FORWARDED_EVENTS.map((name) => this.forward(client, name)),
+			client.on("streamIdChanged", ({ previousId, streamId }) => {
+				const pooled = this.findStream(member, previousId);
+				if (pooled !== undefined) {
+					pooled[1].streamId = streamId;
+				}
+			}),
+			client.on("streamStalled", (event) => {
+				const pooled = this.findStream(member, event.streamId);
+				if (pooled !== undefined) {
+					this.events.emit("streamStalled", { ...event, streamId: pooled[0] });
+				}
+			}),
+			client.on("streamResumed", (event) => {
+				const pooled = this.findStream(member, event.streamId);
+				if (pooled !== undefined) {
+					this.events.emit("streamResumed", { ...event, streamId: pooled[0] });
+				}
+			}),
+			client.on("streamStart", (event) => {
+				// New streams are reported by newSwapQuoteStream() once they have a
+				// pool-wide ID, this only sees streams re-issued after reconnecting.
+				const pooled = this.findStream(member, event.streamId);
+				if (pooled !== undefined) {
+					this.events.emit("streamStart", { ...event, streamId: pooled[0] });
+				}
+			}),
+			client.on("streamData", (event) => {
+				const pooled = this.findStream(member, event.streamId);
+				if (pooled !== undefined) {
+					this.events.emit("streamData", { ...event, streamId: pooled[0] });
+				}
+			}),
+			client.on("streamSequence", (event) => {
+				const pooled = this.findStream(member, event.streamId);
+				if (pooled !== undefined) {
+					this.events.emit("streamSequence", { ...event, streamId: pooled[0] });
+				}
+			}),
+			client.on("streamEnd", (event) => {
+				const pooled = this.findStream(member, event.streamId);
+				if (pooled !== undefined) {
+					pooled[1].ended = true;
+					this.events.emit("streamEnd", { ...event, streamId: pooled[0] });
+				}
+				this.rebalance();
+			}),
+			client.on("reconnected", () => {
+				// The server may allow a different number of streams after reconnecting.
+				void client.getInfo().then(
+					(info) => {
+						member.limit = info.settings.connection.concurrentStreams;
+						this.rebalance();
+					},
+					() => {},
+				);
+			}),
+		];
+		member.unsubscribe = () => {
+			for (const remove of removers) {
+				remove();
+			}
+		};
+		void client.listenClosed().then(() => this.removeMember(member));
+
+		this.members.push(member);
+		this.updateSweep();
+		return member;
+	}
+
+	private removeMember(member: PoolMember<U>) {
+		const index = this.members.indexOf(member);
+		if (index === -1) {
+			return;
+		}
+		this.members.splice(index, 1);
+		member.unsubscribe();
+		for (const [id, pooled] of this.streams) {
+			if (pooled.member === member) {
+				this.streams.delete(id);
+			}
+		}
+		this.updateSweep();
+	}
+
+	// Re-emits an event of a connection as is.
+	private forward<K extends (typeof FORWARDED_EVENTS)[number]>(
+		client: V1Client<U>,
+		name: K,
+	): () => void {
+		return client.on(name, (event) => {
+			this.events.emit(name, event);
+		});
+	}
+
+	private findStream(
+		member: PoolMember<U>,
+		streamId: number,
+	): [number, PooledStream<U>] | undefined {
+		for (const entry of this.streams) {
+			if (entry[1].member === member && entry[1].streamId === streamId) {
+				return entry;
+			}
+		}
+		return undefined;
+	}
+
+	// Wraps a stream so that the pool forgets about it once it is done. Reads
+	// follow the stream when it is moved to another connection.
+	private track(
+		id: number,
+		pooled: PooledStream<U>,
+	): ReadableStream<v1.WithUint64<v1.SwapQuotes, U>> {
+		const forget = () => {
+			this.streams.delete(id);
+		};
+		return new ReadableStream<v1.WithUint64<v1.SwapQuotes, U>>(
+			{
+				async pull(controller) {
+					for (;;) {
+						const reader = pooled.reader;
+						try {
+							const { done, value } = await reader.read();
+							if (!done) {
+								controller.enqueue(value);
+							} else if (reader === pooled.reader) {
+								forget();
+								controller.close();
+							} else {
+								// The stream was moved, and its previous reader cancelled.
+								continue;
+							}
+						} catch (err) {
+							if (reader !== pooled.reader) {
+								continue;
+							}
+							forget();
+							controller.error(err);
+						}
+						return;
+					}
+				},
+				async cancel(reason) {
+					forget();
+					await pooled.reader.cancel(reason);
+				},
+			},
+			{ highWaterMark: 0 },
+		);
+	}
+
+	// Starts moving streams where they belong, unless already doing so.
+	private rebalance() {
+		if (this._closed) {
+			return;
+		}
+		if (this.rebalancing !== null) {
+			this.rebalanceAgain = true;
+			return;
+		}
+		// Connections only update their streams once their events are handled.
+		this.rebalancing = Promise.resolve()
+			.then(() => this.moveStreams())
+			.catch((error) => {
+				this.logger.warn("Failed to rebalance quote streams", { error });
+			})
+			.finally(() => {
+				this.rebalancing = null;
+				if (this.rebalanceAgain) {
+					this.rebalanceAgain = false;
+					this.rebalance();
+				}
+			});
+	}
+
+	private async moveStreams() {
+		for (;;) {
+			const move = this.nextMove();
+			if (move === undefined) {
+				return;
+			}
+			const [id, pooled] = move;
+			let target = move[2];
+			if (target === null) {
+				if (this.members.length >= this.maxConnections) {
+					return;
+				}
+				target = await this.openMember();
+			}
+			await this.moveStream(id, pooled, target);
+		}
+	}
+
+	// Picks the next stream to move and where to, or null as the target if a
+	// connection must be opened for it. Streams above the limit of their
+	// connection come first, then streams that fit on an older connection.
+	private nextMove():
+		| [number, PooledStream<U>, PoolMember<U> | null]
+		| undefined {
+		if (this._closed) {
+			return undefined;
+		}
+		const hasRoom = (m: PoolMember<U>) =>
+			!m.client.closed && m.client.activeStreams < m.limit;
+		const live = [...this.streams].filter(
+			([, pooled]) => !pooled.ended && !pooled.member.client.closed,
+		);
+		for (const [id, pooled] of live) {
+			const { member } = pooled;
+			if (member.client.activeStreams > member.limit) {
+				const target = this.members.find((m) => m !== member && hasRoom(m));
+				return [id, pooled, target ?? null];
+			}
+		}
+		for (const member of this.members.slice(1).reverse()) {
+			const entry = live.find(([, pooled]) => pooled.member === member);
+			const target = this.members
+				.slice(0, this.members.indexOf(member))
+				.find(hasRoom);
+			if (entry !== undefined && target !== undefined) {
+				return [entry[0], entry[1], target];
+			}
+		}
+		return undefined;
+	}
+
+	// Starts a stream again on the target connection, then switches its reader
+	// over and stops it on its previous connection.
+	private async moveStream(
+		id: number,
+		pooled: PooledStream<U>,
+		target: PoolMember<U>,
+	) {
+		target.idleSince = null;
+		const { stream, streamId } = await target.client.newSwapQuoteStream(
+			pooled.request,
+			{ signal: pooled.signal },
+		);
+		const previous = pooled.reader;
+		if (this.streams.get(id) !== pooled || pooled.ended) {
+			// The stream went away while it was being started again.
+			await stream.cancel();
+			return;
+		}
+		pooled.member = target;
+		pooled.streamId = streamId;
+		pooled.reader = stream.getReader();
+		await previous.cancel();
+	}
+
+	// Surplus connections only need to be checked while there are any.
+	private updateSweep() {
+		if (this.members.length > 1 && this.sweepTimer === null) {
+			this.sweepTimer = setInterval(() => this.sweep(), this.idleTimeoutMs);
+		} else if (this.members.length <= 1) {
+			this.stopSweep();
+		}
+	}
+
+	private stopSweep() {
+		if (this.sweepTimer !== null) {
+			clearInterval(this.sweepTimer);
+			this.sweepTimer = null;
+		}
+	}
+
+	// Closes connections other than the first that have been idle for too long.
+	private sweep() {
+		const now = Date.now();
+		for (const member of this.members.slice(1).reverse()) {
+			if (member.client.activeStreams > 0) {
+				member.idleSince = null;
+				continue;
+			}
+			member.idleSince ??= now;
+			if (now - member.idleSince >= this.idleTimeoutMs) {
+				this.removeMember(member);
+				void member.client.close();
+			}
+		}
+	}
+}
@@ -0,0 +1,147 @@
+// Client-side enforcement of the server's limit on concurrent streams.
+
+import { type Logger, consoleLogger } from "./logger";
+
+/**
+ * What to do with a new stream once the concurrent stream limit is reached.
+ *
+ * - `"queue"`: wait until a running stream ends, then start it.
+ * - `"reject"`: fail immediately with `StreamLimitExceeded`.
+ */
+export type StreamLimitPolicy = "queue" | "reject";
+
+/**
+ * Options controlling client-side enforcement of the server's limit on
+ * concurrent streams per connection.
+ *
+ * The limit is learned from `settings.connection.concurrentStreams` in every
+ * `getInfo()` response. Until it is known, streams are not limited.
+ */
+export interface StreamLimitOptions {
+	/** What to do with new streams once the limit is reached. Defaults to `"queue"`. */
+	policy?: StreamLimitPolicy;
+	/**
+	 * Whether to fetch the limit with `getInfo()` as soon as a connection is
+	 * established, including after reconnecting. Defaults to true.
+	 */
+	fetchOnConnect?: boolean;
+	/** Fixed limit to enforce instead of the one reported by the server. */
+	maxStreams?: number;
+}
+
+/**
+ * Stream limit options with all defaults filled in.
+ */
+export interface ResolvedStreamLimitOptions {
+	policy: StreamLimitPolicy;
+	fetchOnConnect: boolean;
+	maxStreams: number | null;
+}
+
+/**
+ * Fills in defaults for the given stream limit setting.
+ *
+ * @returns The resolved options, or null if the limit is not enforced.
+ */
+export function resolveStreamLimitOptions(
+	options: boolean | StreamLimitOptions | undefined,
+): ResolvedStreamLimitOptions | null {
+	if (options === undefined || options === false) {
+		return null;
+	}
+	const given = options === true ? {} : options;
+	const resolved: ResolvedStreamLimitOptions = {
+		policy: given.policy ?? "queue",
+		fetchOnConnect: given.fetchOnConnect ?? true,
+		maxStreams: given.maxStreams ?? null,
+	};
+	if (resolved.maxStreams !== null && !(resolved.maxStreams >= 1)) {
+		throw new RangeError(
+			`Stream limit maxStreams must be at least 1, got ${resolved.maxStreams}.`,
+		);
+	}
+	return resolved;
+}
+
+/**
+ * A stream request waiting for a free slot.
+ */
+export interface QueuedStream {
+	/** Starts the stream, called once a slot is free. */
+	start(): void;
+	/** Fails the request without starting it. */
+	fail(error: unknown): void;
+	/** Called with the 1-based position in the queue whenever it changes. */
+	onPosition?: (position: number) => void;
+}
+
+/**
+ * First-in first-out queue of stream requests, keeping each entry informed of
+ * its position.
+ */
+export class StreamQueue {
+	private entries: QueuedStream[] = [];
+	private logger: Logger;
+
+	/**
+	 * @param logger - Where errors thrown by position callbacks are reported.
+	 */
+	constructor(logger: Logger = consoleLogger()) {
+		this.logger = logger;
+	}
+
+	get length(): number {
+		return this.entries.length;
+	}
+
+	push(entry: QueuedStream) {
+		this.entries.push(entry);
+		this.notifyPosition(entry, this.entries.length);
+	}
+
+	/** Removes the next entry, moving everyone else up. */
+	shift(): QueuedStream | undefined {
+		const entry = this.entries.shift();
+		this.notifyFrom(0);
+		return entry;
+	}
+
+	/**
+	 * Removes an entry from anywhere in the queue.
+	 *
+	 * @returns false if the entry was not queued.
+	 */
+	remove(entry: QueuedStream): boolean {
+		const index = this.entries.indexOf(entry);
+		if (index === -1) {
+			return false;
+		}
+		this.entries.splice(index, 1);
+		this.notifyFrom(index);
+		return true;
+	}
+
+	/** Empties the queue, returning the entries that were in it. */
+	clear(): QueuedStream[] {
+		const entries = this.entries;
+		this.entries = [];
+		return entries;
+	}
+
+	private notifyFrom(index: number) {
+		for (let i = index; i < this.entries.length; i++) {
+			this.notifyPosition(this.entries[i], i + 1);
+		}
+	}
+
+	private notifyPosition(entry: QueuedStream, position: number) {
+		try {
+			entry.onPosition?.(position);
+		} catch (err) {
+			this.logger.error("Queue position callback threw error", {
+				position,
+				error: err,
+			});
+		}
+	}
+}
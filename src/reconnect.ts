@@ -0,0 +1,99 @@
+// Settings and helpers for automatically re-establishing a client connection.
+
+/**
+ * What to do with one-shot requests (everything but quote streams) that were
+ * still waiting on a response when the connection dropped.
+ *
+ * - `"retry"`: re-send the request on the new connection.
+ * - `"reject"`: reject the request with the error that closed the connection.
+ */
+export type PendingRequestPolicy = "retry" | "reject";
+
+/**
+ * Options controlling automatic reconnection.
+ *
+ * Delays between attempts grow exponentially starting at `initialDelayMs`,
+ * multiplied by `multiplier` after each failed attempt, up to `maxDelayMs`.
+ */
+export interface ReconnectOptions {
+	/**
+	 * Maximum number of consecutive attempts before giving up and closing the
+	 * client. Defaults to `Infinity`.
+	 */
+	maxAttempts?: number;
+	/** Delay before the first attempt, in milliseconds. Defaults to 250. */
+	initialDelayMs?: number;
+	/** Upper bound for the delay between attempts, in milliseconds. Defaults to 30 seconds. */
+	maxDelayMs?: number;
+	/** Factor applied to the delay after each failed attempt. Defaults to 2. */
+	multiplier?: number;
+	/**
+	 * Fraction of each delay that is randomized, between 0 and 1, so that many
+	 * clients do not reconnect in lockstep. Defaults to 0.2.
+	 */
+	jitter?: number;
+	/** How to handle requests that were in flight. Defaults to `"retry"`. */
+	pendingRequests?: PendingRequestPolicy;
+}
+
+/**
+ * Reconnect options with all defaults filled in.
+ */
+export type ResolvedReconnectOptions = Required<ReconnectOptions>;
+
+const DEFAULT_RECONNECT_OPTIONS: ResolvedReconnectOptions = {
+	maxAttempts: Number.POSITIVE_INFINITY,
+	initialDelayMs: 250,
+	maxDelayMs: 30_000,
+	multiplier: 2,
+	jitter: 0.2,
+	pendingRequests: "retry",
+};
+
+/**
+ * Fills in defaults for the given reconnect setting.
+ *
+ * @returns The resolved options, or null if reconnection is disabled.
+ */
+export function resolveReconnectOptions(
+	options: boolean | ReconnectOptions | undefined,
+): ResolvedReconnectOptions | null {
+	if (options === undefined || options === false) {
+		return null;
+	}
+	if (options === true) {
+		return { ...DEFAULT_RECONNECT_OPTIONS };
+	}
+	const resolved = { ...DEFAULT_RECONNECT_OPTIONS };
+	for (const [key, value] of Object.entries(options)) {
+		if (value !== undefined) {
+			Object.assign(resolved, { [key]: value });
+		}
+	}
+	if (resolved.jitter < 0 || resolved.jitter > 1) {
+		throw new RangeError(
+			`Reconnect jitter must be between 0 and 1, got ${resolved.jitter}.`,
+		);
+	}
+	return resolved;
+}
+
+/**
+ * Computes how long to wait before the given reconnect attempt.
+ *
+ * @param attempt - The attempt number, starting from 1.
+ * @param random - Source of randomness in [0, 1), overridable for testing.
+ */
+export function backoffDelay(
+	options: ResolvedReconnectOptions,
+	attempt: number,
+	random: () => number = Math.random,
+): number {
+	const base = Math.min(
+		options.maxDelayMs,
+		options.initialDelayMs * options.multiplier ** Math.max(0, attempt - 1),
+	);
+	// Spread the delay uniformly over [base * (1 - jitter), base].
+	const spread = base * options.jitter;
+	return Math.round(base - spread * random());
+}
@@ -0,0 +1,726 @@
+// Golden encodings of every message of the v1 protocol, and a check that the
+// client still sends and reads exactly those bytes, so that changes to field
+// names, integer widths or enum encodings cannot go unnoticed.
+
+import { V1ClientCodec } from "../codec";
+import {
+	type CompressorRegistry,
+	NullCompressor,
+	compressors,
+} from "../compression";
+import { V1Client } from "../client";
+import { noopLogger } from "../logger";
+import { SwapMode } from "../types/common";
+import * as v1 from "../types/v1";
+import { ScriptedTransport } from "./harness";
+
+/**
+ * A request with the exact bytes the client must encode it to.
+ */
+export interface RequestConformanceCase {
+	/** Name of the case, used in reports. */
+	name: string;
+	/** Request sent through the client. */
+	data: v1.RequestData;
+	/**
+	 * MessagePack encoding of the request, before compression, as the first
+	 * request of a connection, with ID 0. In hexadecimal.
+	 */
+	golden: string;
+}
+
+/**
+ * A server message encoding with the value the client must decode it to.
+ */
+export interface MessageConformanceCase {
+	/** Name of the case, used in reports. */
+	name: string;
+	/** MessagePack encoding of the message, before compression, in hexadecimal. */
+	golden: string;
+	/**
+	 * The decoded message, with unsigned 64-bit integers decoded as by the
+	 * default `"mixed"` mode.
+	 */
+	expected: v1.ServerMessage<v1.Uint64>;
+}
+
+/**
+ * A case that the client did not conform to.
+ */
+export interface ConformanceFailure {
+	/** Name of the case. */
+	name: string;
+	/** Compression the case was checked with, or null for none. */
+	compression: string | null;
+	/** What differs from the golden encoding or decoded value. */
+	message: string;
+}
+
+/**
+ * Result of {@link checkConformance}.
+ */
+export interface ConformanceReport {
+	/** Number of cases checked, counted once per compression. */
+	checked: number;
+	/** Cases that did not conform. Empty if the client conforms. */
+	failures: ConformanceFailure[];
+}
+
+/**
+ * Options for {@link checkConformance}.
+ */
+export interface ConformanceOptions {
+	/**
+	 * Where compressors are looked up. Defaults to the default registry.
+	 */
+	compressors?: CompressorRegistry;
+	/**
+	 * Compressions to check, with null for none. Defaults to no compression
+	 * followed by every compression of the registry.
+	 */
+	compressions?: (string | null)[];
+}
+
+// A 32-byte key filled with the given byte, distinct for each field so that
+// swapped fields are caught.
+function key(fill: number): Uint8Array {
+	return new Uint8Array(32).fill(fill);
+}
+
+// Joins lines of hexadecimal, to keep long encodings readable.
+function hex(...lines: string[]): string {
+	return lines.join("");
+}
+
+/** Maximum value of an unsigned 64-bit integer. */
+const U64_MAX = 18446744073709551615n;
+
+/**
+ * Every request variant, with every optional field set at least once.
+ */
+export const requestCases: readonly RequestConformanceCase[] = [
+	{
+		name: "GetInfo",
+		data: { GetInfo: {} },
+		golden: "82a2696400a46461746181a7476574496e666f80",
+	},
+	{
+		name: "NewSwapQuoteStream",
+		data: {
+			NewSwapQuoteStream: {
+				swap: {
+					inputMint: key(1),
+					outputMint: key(2),
+					amount: 1_000_000,
+					swapMode: SwapMode.ExactOut,
+					slippageBps: 50,
+					dexes: ["Raydium"],
+					excludeDexes: ["Phoenix"],
+					onlyDirectRoutes: true,
+					addSizeConstraint: true,
+					sizeConstraint: 1212,
+					providers: ["titan"],
+					noVoteAccounts: true,
+					venueAllowlist: [key(3)],
+					venueBanlist: [key(4)],
+				},
+				transaction: {
+					userPublicKey: key(5),
+					closeInputTokenAccount: true,
+					createOutputTokenAccount: false,
+					feeAccount: key(6),
+					feeBps: 10,
+					feeFromInputMint: true,
+					outputAccount: key(7),
+					outputWsol: true,
+					titanSwapVersion: v1.SwapVersion.V3,
+					positiveSlippageFeeReceiver: key(8),
+					payer: key(9),
+				},
+				update: { intervalMs: 500, num_quotes: 3 },
+			},
+		},
+		golden: hex(
+			"82a2696400a46461746181b24e65775377617051756f746553747265616d83a4",
+			"737761708ea9696e7075744d696e74c420010101010101010101010101010101",
+			"0101010101010101010101010101010101aa6f75747075744d696e74c4200202",
+			"020202020202020202020202020202020202020202020202020202020202a661",
+			"6d6f756e74cf00000000000f4240a8737761704d6f6465a845786163744f7574",
+			"ab736c69707061676542707332a5646578657391a75261796469756dac657863",
+			"6c756465446578657391a750686f656e6978b06f6e6c79446972656374526f75",
+			"746573c3b161646453697a65436f6e73747261696e74c3ae73697a65436f6e73",
+			"747261696e74cd04bca970726f76696465727391a5746974616eae6e6f566f74",
+			"654163636f756e7473c3ae76656e7565416c6c6f776c69737491c42003030303",
+			"03030303030303030303030303030303030303030303030303030303ac76656e",
+			"756542616e6c69737491c4200404040404040404040404040404040404040404",
+			"040404040404040404040404ab7472616e73616374696f6e8bad757365725075",
+			"626c69634b6579c4200505050505050505050505050505050505050505050505",
+			"050505050505050505b6636c6f7365496e707574546f6b656e4163636f756e74",
+			"c3b86372656174654f7574707574546f6b656e4163636f756e74c2aa66656541",
+			"63636f756e74c420060606060606060606060606060606060606060606060606",
+			"0606060606060606a66665654270730ab066656546726f6d496e7075744d696e",
+			"74c3ad6f75747075744163636f756e74c4200707070707070707070707070707",
+			"070707070707070707070707070707070707aa6f757470757457736f6cc3b074",
+			"6974616e5377617056657273696f6e03bb706f736974697665536c6970706167",
+			"654665655265636569766572c420080808080808080808080808080808080808",
+			"0808080808080808080808080808a57061796572c42009090909090909090909",
+			"09090909090909090909090909090909090909090909a675706461746582aa69",
+			"6e74657276616c4d73cf00000000000001f4aa6e756d5f71756f74657303",
+		),
+	},
+	{
+		name: "NewSwapQuoteStream with numQuotes",
+		data: {
+			NewSwapQuoteStream: {
+				swap: { inputMint: key(1), outputMint: key(2), amount: U64_MAX },
+				transaction: {
+					userPublicKey: key(5),
+					titanSwapVersion: v1.SwapVersion.V2,
+				},
+				update: { numQuotes: 5 },
+			},
+		},
+		golden: hex(
+			"82a2696400a46461746181b24e65775377617051756f746553747265616d83a4",
+			"7377617083a9696e7075744d696e74c420010101010101010101010101010101",
+			"0101010101010101010101010101010101aa6f75747075744d696e74c4200202",
+			"020202020202020202020202020202020202020202020202020202020202a661",
+			"6d6f756e74cfffffffffffffffffab7472616e73616374696f6e82ad75736572",
+			"5075626c69634b6579c420050505050505050505050505050505050505050505",
+			"0505050505050505050505b0746974616e5377617056657273696f6e02a67570",
+			"6461746581aa6e756d5f71756f74657305",
+		),
+	},
+	{
+		name: "StopStream",
+		data: { StopStream: { id: 7 } },
+		golden: "82a2696400a46461746181aa53746f7053747265616d81a2696407",
+	},
+	{
+		name: "GetVenues",
+		data: { GetVenues: { includeProgramIds: true } },
+		golden: hex(
+			"82a2696400a46461746181a947657456656e75657381b1696e636c7564655072",
+			"6f6772616d496473c3",
+		),
+	},
+	{
+		name: "ListProviders",
+		data: { ListProviders: { includeIcons: true } },
+		golden: hex(
+			"82a2696400a46461746181ad4c69737450726f76696465727381ac696e636c75",
+			"646549636f6e73c3",
+		),
+	},
+	{
+		name: "GetSwapPrice",
+		data: {
+			GetSwapPrice: {
+				inputMint: key(1),
+				outputMint: key(2),
+				amount: 2 ** 40,
+				dexes: ["Raydium"],
+				excludeDexes: ["Phoenix"],
+			},
+		},
+		golden: hex(
+			"82a2696400a46461746181ac47657453776170507269636585a9696e7075744d",
+			"696e74c420010101010101010101010101010101010101010101010101010101",
+			"0101010101aa6f75747075744d696e74c4200202020202020202020202020202",
+			"020202020202020202020202020202020202a6616d6f756e74cf000001000000",
+			"0000a5646578657391a75261796469756dac6578636c756465446578657391a7",
+			"50686f656e6978",
+		),
+	},
+];
+
+/**
+ * Every server message and response variant, with every optional field set at
+ * least once, and integers of every width.
+ */
+export const messageCases: readonly MessageConformanceCase[] = [
+	{
+		name: "Response GetInfo",
+		golden: hex(
+			"81a8526573706f6e736582a972657175657374496400a46461746181a7476574",
+			"496e666f82af70726f746f636f6c56657273696f6e83a56d616a6f7201a56d69",
+			"6e6f7202a5706174636803a873657474696e677384ab71756f74655570646174",
+			"6582aa696e74657276616c4d7383a36d696e64a36d6178cdea60a76465666175",
+			"6c74cd03e8aa6e756d5f71756f74657383a36d696e01a36d61780aa764656661",
+			"756c7403a47377617083ab736c69707061676542707383a36d696e00a36d6178",
+			"cd2710a764656661756c7432b06f6e6c79446972656374526f75746573c2b161",
+			"646453697a65436f6e73747261696e74c3ab7472616e73616374696f6e82b663",
+			"6c6f7365496e707574546f6b656e4163636f756e74c2b86372656174654f7574",
+			"707574546f6b656e4163636f756e74c3aa636f6e6e656374696f6e81b1636f6e",
+			"63757272656e7453747265616d7308",
+		),
+		expected: {
+			Response: {
+				requestId: 0,
+				data: {
+					GetInfo: {
+						protocolVersion: { major: 1, minor: 2, patch: 3 },
+						settings: {
+							quoteUpdate: {
+								intervalMs: { min: 100, max: 60_000, default: 1000 },
+								num_quotes: { min: 1, max: 10, default: 3 },
+							},
+							swap: {
+								slippageBps: { min: 0, max: 10_000, default: 50 },
+								onlyDirectRoutes: false,
+								addSizeConstraint: true,
+							},
+							transaction: {
+								closeInputTokenAccount: false,
+								createOutputTokenAccount: true,
+							},
+							connection: { concurrentStreams: 8 },
+						},
+					},
+				},
+			},
+		},
+	},
+	{
+		name: "Response NewSwapQuoteStream",
+		golden: hex(
+			"81a8526573706f6e736583a972657175657374496401a46461746181b24e6577",
+			"5377617051756f746553747265616d81aa696e74657276616c4d73cd01f4a673",
+			"747265616d82a2696401a86461746154797065aa5377617051756f746573",
+		),
+		expected: {
+			Response: {
+				requestId: 1,
+				data: { NewSwapQuoteStream: { intervalMs: 500 } },
+				stream: { id: 1, dataType: v1.StreamDataType.SwapQuotes },
+			},
+		},
+	},
+	{
+		name: "Response StreamStopped",
+		golden: hex(
+			"81a8526573706f6e736582a972657175657374496402a46461746181ad537472",
+			"65616d53746f7070656481a2696401",
+		),
+		expected: {
+			Response: { requestId: 2, data: { StreamStopped: { id: 1 } } },
+		},
+	},
+	{
+		name: "Response GetVenues",
+		golden: hex(
+			"81a8526573706f6e736582a972657175657374496403a46461746181a9476574",
+			"56656e75657382a66c6162656c7392a75261796469756da750686f656e6978aa",
+			"70726f6772616d49647391c4200a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a0a",
+			"0a0a0a0a0a0a0a0a0a0a0a0a0a",
+		),
+		expected: {
+			Response: {
+				requestId: 3,
+				data: {
+					GetVenues: { labels: ["Raydium", "Phoenix"], programIds: [key(10)] },
+				},
+			},
+		},
+	},
+	{
+		name: "Response ListProviders",
+		golden: hex(
+			"81a8526573706f6e736582a972657175657374496404a46461746181ad4c6973",
+			"7450726f7669646572739283a26964a5746974616ea46e616d65a5546974616e",
+			"a46b696e64ad44657841676772656761746f7284a26964a3726671a46e616d65",
+			"a3524651a46b696e64a3524651a969636f6e5572693438bb68747470733a2f2f",
+			"6578616d706c652e636f6d2f7266712e706e67",
+		),
+		expected: {
+			Response: {
+				requestId: 4,
+				data: {
+					ListProviders: [
+						{ id: "titan", name: "Titan", kind: "DexAggregator" },
+						{
+							id: "rfq",
+							name: "RFQ",
+							kind: "RFQ",
+							iconUri48: "https://example.com/rfq.png",
+						},
+					],
+				},
+			},
+		},
+	},
+	{
+		name: "Response GetSwapPrice",
+		golden: hex(
+			"81a8526573706f6e736582a972657175657374496405a46461746181ac476574",
+			"53776170507269636585a26964a770726963652d31a9696e7075744d696e74c4",
+			"2001010101010101010101010101010101010101010101010101010101010101",
+			"01aa6f75747075744d696e74c420020202020202020202020202020202020202",
+			"0202020202020202020202020202a8616d6f756e74496eceee6b2800a9616d6f",
+			"756e744f7574cfffffffffffffffff",
+		),
+		expected: {
+			Response: {
+				requestId: 5,
+				data: {
+					GetSwapPrice: {
+						id: "price-1",
+						inputMint: key(1),
+						outputMint: key(2),
+						amountIn: 4_000_000_000,
+						amountOut: U64_MAX,
+					},
+				},
+			},
+		},
+	},
+	{
+		name: "Error",
+		golden: hex(
+			"81a54572726f7283a972657175657374496406a4636f6465cd0190a76d657373",
+			"616765af696e76616c69642072657175657374",
+		),
+		expected: {
+			Error: { requestId: 6, code: 400, message: "invalid request" },
+		},
+	},
+	{
+		name: "StreamData",
+		golden: hex(
+			"81aa53747265616d4461746183a2696401a3736571ce00010000a77061796c6f",
+			"616481aa5377617051756f74657386a26964a771756f74652d31a9696e707574",
+			"4d696e74c4200101010101010101010101010101010101010101010101010101",
+			"010101010101aa6f75747075744d696e74c42002020202020202020202020202",
+			"02020202020202020202020202020202020202a8737761704d6f6465a7457861",
+			"6374496ea6616d6f756e74ce000f4240a671756f74657382a5746974616e8ea8",
+			"696e416d6f756e74ce000f4240a96f7574416d6f756e74cf0020000000000001",
+			"ab736c69707061676542707332ab706c6174666f726d46656582a6616d6f756e",
+			"74cd03e8a76665655f6270730aa57374657073918aa6616d6d4b6579c4200b0b",
+			"0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0b0ba56c",
+			"6162656ca75261796469756da9696e7075744d696e74c4200101010101010101",
+			"010101010101010101010101010101010101010101010101aa6f75747075744d",
+			"696e74c420020202020202020202020202020202020202020202020202020202",
+			"0202020202a8696e416d6f756e74ce000f4240a96f7574416d6f756e74cf0020",
+			"000000000001a8616c6c6f63507062ce3b9aca00a76665654d696e74c4200202",
+			"020202020202020202020202020202020202020202020202020202020202a966",
+			"6565416d6f756e74ccffab636f6e74657874536c6f74ce11e1a300ac696e7374",
+			"72756374696f6e739183a170c4200c0c0c0c0c0c0c0c0c0c0c0c0c0c0c0c0c0c",
+			"0c0c0c0c0c0c0c0c0c0c0c0c0c0ca1619283a170c42005050505050505050505",
+			"05050505050505050505050505050505050505050505a173c3a177c383a170c4",
+			"200d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d0d",
+			"0da173c2a177c2a164c403010203b3616464726573734c6f6f6b75705461626c",
+			"657391c4200e0e0e0e0e0e0e0e0e0e0e0e0e0e0e0e0e0e0e0e0e0e0e0e0e0e0e",
+			"0e0e0e0e0eab636f6e74657874536c6f74ce11e1a300a974696d6554616b656e",
+			"cdffffab6578706972657341744d73cf0000018bcfe56800b065787069726573",
+			"4166746572536c6f74ce11e1a396ac636f6d70757465556e697473ce00030d40",
+			"b0636f6d70757465556e69747353616665ce0003a980ab7265666572656e6365",
+			"4964a57265662d31a372667187a8696e416d6f756e74ce000f4240a96f757441",
+			"6d6f756e747fab736c69707061676542707300a5737465707390ac696e737472",
+			"756374696f6e7390b3616464726573734c6f6f6b75705461626c657390ab7472",
+			"616e73616374696f6ec403040506",
+		),
+		expected: {
+			StreamData: {
+				id: 1,
+				seq: 65_536,
+				payload: {
+					SwapQuotes: {
+						id: "quote-1",
+						inputMint: key(1),
+						outputMint: key(2),
+						swapMode: SwapMode.ExactIn,
+						amount: 1_000_000,
+						quotes: {
+							titan: {
+								inAmount: 1_000_000,
+								outAmount: 9_007_199_254_740_993n,
+								slippageBps: 50,
+								platformFee: { amount: 1000, fee_bps: 10 },
+								steps: [
+									{
+										ammKey: key(11),
+										label: "Raydium",
+										inputMint: key(1),
+										outputMint: key(2),
+										inAmount: 1_000_000,
+										outAmount: 9_007_199_254_740_993n,
+										allocPpb: 1_000_000_000,
+										feeMint: key(2),
+										feeAmount: 255,
+										contextSlot: 300_000_000,
+									},
+								],
+								instructions: [
+									{
+										p: key(12),
+										a: [
+											{ p: key(5), s: true, w: true },
+											{ p: key(13), s: false, w: false },
+										],
+										d: new Uint8Array([1, 2, 3]),
+									},
+								],
+								addressLookupTables: [key(14)],
+								contextSlot: 300_000_000,
+								timeTaken: 65_535,
+								expiresAtMs: 1_700_000_000_000n,
+								expiresAfterSlot: 300_000_150,
+								computeUnits: 200_000,
+								computeUnitsSafe: 240_000,
+								referenceId: "ref-1",
+							},
+							rfq: {
+								inAmount: 1_000_000,
+								outAmount: 127,
+								slippageBps: 0,
+								steps: [],
+								instructions: [],
+								addressLookupTables: [],
+								transaction: new Uint8Array([4, 5, 6]),
+							},
+						},
+					},
+				},
+			},
+		},
+	},
+	{
+		name: "StreamEnd",
+		golden: "81a953747265616d456e6481a2696401",
+		expected: { StreamEnd: { id: 1 } },
+	},
+	{
+		name: "StreamEnd with error",
+		golden: hex(
+			"81a953747265616d456e6483a2696402a96572726f72436f6465cd01f4ac6572",
+			"726f724d657373616765ad73747265616d206661696c6564",
+		),
+		expected: {
+			StreamEnd: { id: 2, errorCode: 500, errorMessage: "stream failed" },
+		},
+	},
+];
+
+/**
+ * Checks that the client encodes every request of {@link requestCases} to its
+ * golden encoding, and decodes the golden encoding of every message of
+ * {@link messageCases} to its expected value with strict validation, once for
+ * each compression. Requests are sent through a {@link V1Client}, so that the
+ * conversions it makes before encoding are checked too.
+ *
+ * @returns The cases that did not conform; none if the client conforms.
+ */
+export async function checkConformance(
+	options: ConformanceOptions = {},
+): Promise<ConformanceReport> {
+	const registry = options.compressors ?? compressors;
+	const report: ConformanceReport = { checked: 0, failures: [] };
+	for (const compression of options.compressions ?? [
+		null,
+		...registry.names(),
+	]) {
+		const protocol =
+			compression === null
+				? v1.WEBSOCKET_SUBPROTO_BASE
+				: `${v1.WEBSOCKET_SUBPROTO_BASE}+${compression}`;
+		for (const testCase of requestCases) {
+			report.checked += 1;
+			const message = await checkRequest(testCase, protocol, registry).catch(
+				(error) => `request could not be sent: ${describeError(error)}`,
+			);
+			if (message !== null) {
+				report.failures.push({ name: testCase.name, compression, message });
+			}
+		}
+		for (const testCase of messageCases) {
+			report.checked += 1;
+			const message = await checkMessage(testCase, protocol, registry).catch(
+				(error) => `message could not be decoded: ${describeError(error)}`,
+			);
+			if (message !== null) {
+				report.failures.push({ name: testCase.name, compression, message });
+			}
+		}
+	}
+	return report;
+}
+
+// Sends the request of the case through a client on a scripted connection,
+// returning how its encoding differs from the golden one, if it does.
+async function checkRequest(
+	testCase: RequestConformanceCase,
+	protocol: string,
+	registry: CompressorRegistry,
+): Promise<string | null> {
+	const transport = new ScriptedTransport({ protocol, compressors: registry });
+	const client = await V1Client.connect("ws://conformance/", {
+		transport: transport.factory(),
+		compressors: registry,
+		logger: noopLogger,
+	});
+	try {
+		const result = sendRequest(client, testCase.data);
+		result.catch(() => {});
+		// The request is never answered, so the result only settles if the
+		// client fails to send it.
+		await Promise.race([transport.nextRequest(), result]);
+		const encoded = await compressorFor(protocol, registry).decompress(
+			transport.sent[0],
+		);
+		return compareBytes(encoded, fromHex(testCase.golden));
+	} finally {
+		await client.close();
+	}
+}
+
+// Decodes the golden encoding of the case, compressed for the protocol,
+// returning how the decoded value differs from the expected one, if it does.
+async function checkMessage(
+	testCase: MessageConformanceCase,
+	protocol: string,
+	registry: CompressorRegistry,
+): Promise<string | null> {
+	const codec = V1ClientCodec.from_protocol(protocol, registry);
+	codec.validation = "strict";
+	const frame = await compressorFor(protocol, registry).compress(
+		fromHex(testCase.golden),
+	);
+	return compareValues(await codec.decode(frame), testCase.expected, "$");
+}
+
+function compressorFor(protocol: string, registry: CompressorRegistry) {
+	const name = protocol.substring(v1.WEBSOCKET_SUBPROTO_BASE.length + 1);
+	return registry.get(name) ?? new NullCompressor();
+}
+
+// Sends the request with the client method for its variant.
+function sendRequest(client: V1Client, data: v1.RequestData): Promise<unknown> {
+	if ("GetInfo" in data) {
+		return client.getInfo();
+	}
+	if ("NewSwapQuoteStream" in data) {
+		return client.newSwapQuoteStream(data.NewSwapQuoteStream);
+	}
+	if ("StopStream" in data) {
+		return client.stopStream(data.StopStream.id);
+	}
+	if ("GetVenues" in data) {
+		return client.getVenues(data.GetVenues);
+	}
+	if ("ListProviders" in data) {
+		return client.listProviders(data.ListProviders);
+	}
+	return client.getSwapPrice(data.GetSwapPrice);
+}
+
+function describeError(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
+
+function fromHex(encoded: string): Uint8Array {
+	const bytes = new Uint8Array(encoded.length / 2);
+	for (let i = 0; i < bytes.length; i++) {
+		bytes[i] = Number.parseInt(encoded.substring(i * 2, i * 2 + 2), 16);
+	}
+	return bytes;
+}
+
+function toHex(bytes: Uint8Array): string {
+	return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(
+		"",
+	);
+}
+
+// Describes the first difference between two encodings, with the bytes
+// around it, or returns null if they are the same.
+function compareBytes(actual: Uint8Array, golden: Uint8Array): string | null {
+	const length = Math.min(actual.length, golden.length);
+	let offset = 0;
+	while (offset < length && actual[offset] === golden[offset]) {
+		offset += 1;
+	}
+	if (offset === length && actual.length === golden.length) {
+		return null;
+	}
+	const start = Math.max(0, offset - 8);
+	return (
+		`encoding differs from golden at byte ${offset}: ` +
+		`expected ${toHex(golden.subarray(start, offset + 8))}, ` +
+		`got ${toHex(actual.subarray(start, offset + 8))}`
+	);
+}
+
+function describeValue(value: unknown): string {
+	if (value instanceof Uint8Array) {
+		return `bytes ${toHex(value)}`;
+	}
+	if (typeof value === "bigint") {
+		return `bigint ${value}`;
+	}
+	if (typeof value === "number") {
+		return `number ${value}`;
+	}
+	if (Array.isArray(value)) {
+		return "array";
+	}
+	return value === null ? "null" : typeof value;
+}
+
+// Describes the first difference between a decoded value and the expected
+// one, telling numbers and bigints apart, or returns null if they are equal.
+function compareValues(
+	actual: unknown,
+	expected: unknown,
+	path: string,
+): string | null {
+	const mismatch = `${path}: expected ${describeValue(expected)}, got ${describeValue(actual)}`;
+	if (expected instanceof Uint8Array) {
+		return actual instanceof Uint8Array && toHex(actual) === toHex(expected)
+			? null
+			: mismatch;
+	}
+	if (Array.isArray(expected)) {
+		if (!Array.isArray(actual) || actual.length !== expected.length) {
+			return `${path}: expected ${expected.length} items, got ${Array.isArray(actual) ? actual.length : describeValue(actual)}`;
+		}
+		for (let i = 0; i < expected.length; i++) {
+			const difference = compareValues(actual[i], expected[i], `${path}[${i}]`);
+			if (difference !== null) {
+				return difference;
+			}
+		}
+		return null;
+	}
+	if (typeof expected === "object" && expected !== null) {
+		if (
+			typeof actual !== "object" ||
+			actual === null ||
+			Array.isArray(actual) ||
+			actual instanceof Uint8Array
+		) {
+			return mismatch;
+		}
+		const actualFields = actual as Record<string, unknown>;
+		const expectedFields = expected as Record<string, unknown>;
+		for (const field of Object.keys(actualFields)) {
+			if (!(field in expectedFields)) {
+				return `${path}: unexpected field ${field}`;
+			}
+		}
+		for (const [field, value] of Object.entries(expectedFields)) {
+			if (!(field in actualFields)) {
+				return `${path}: missing field ${field}`;
+			}
+			const difference = compareValues(
+				actualFields[field],
+				value,
+				`${path}.${field}`,
+			);
+			if (difference !== null) {
+				return difference;
+			}
+		}
+		return null;
+	}
+	return actual === expected ? null : mismatch;
+}
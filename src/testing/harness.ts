@@ -0,0 +1,587 @@
+// Building blocks for deterministic tests of code using the client: a clock
+// that only moves when told to, a transport whose frames are scripted and
+// can be tampered with, and assertions on the client's state.
+
+import type { V1Client } from "../client";
+import {
+	type Compressor,
+	type CompressorRegistry,
+	compressors,
+} from "../compression";
+import type {
+	Transport,
+	TransportCloseEvent,
+	TransportFactory,
+	TransportMessageEvent,
+} from "../transport";
+import * as v1 from "../types/v1";
+import { ServerCodec } from "./server-codec";
+
+/**
+ * Error thrown by the assertion helpers when the client is not in the expected
+ * state.
+ */
+export class AssertionError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "AssertionError";
+		Object.setPrototypeOf(this, AssertionError.prototype);
+	}
+}
+
+type TimerHandler = (...args: unknown[]) => void;
+
+// A timer scheduled on a fake clock.
+interface FakeTimer {
+	id: number;
+	at: number;
+	// Repeat interval, for timers created with setInterval.
+	intervalMs: number | null;
+	callback: TimerHandler;
+	args: unknown[];
+}
+
+// Handle returned for fake timers, shaped like NodeJS's Timeout so that code
+// calling ref() or unref() on it keeps working.
+class FakeTimeout {
+	readonly id: number;
+
+	constructor(id: number) {
+		this.id = id;
+	}
+
+	ref(): this {
+		return this;
+	}
+
+	unref(): this {
+		return this;
+	}
+
+	hasRef(): boolean {
+		return true;
+	}
+
+	[Symbol.toPrimitive](): number {
+		return this.id;
+	}
+}
+
+// The globals a fake clock replaces.
+interface TimerGlobals {
+	setTimeout: unknown;
+	clearTimeout: unknown;
+	setInterval: unknown;
+	clearInterval: unknown;
+}
+
+/**
+ * A clock that only advances when told to, replacing `setTimeout`,
+ * `setInterval`, their `clear` counterparts, `Date.now()` and
+ * `performance.now()` while installed.
+ *
+ * Timers run in the order they are due, and promise callbacks are allowed to
+ * settle after each, so that the client reacts to one timer, such as by
+ * scheduling another, before the next one runs. Work done outside of the
+ * current thread, such as by compressors or workers, still takes real time.
+ */
+export class FakeClock {
+	private static installed: FakeClock | null = null;
+	private current: number;
+	private readonly startedAt: number;
+	private timers = new Map<number, FakeTimer>();
+	private nextId = 1;
+	private originals: TimerGlobals & {
+		dateNow: () => number;
+		performanceNow: () => number;
+	};
+	private readonly realSetImmediate: (callback: () => void) => void;
+
+	private constructor(now: number) {
+		this.current = now;
+		this.startedAt = now;
+		const globals = globalThis as unknown as TimerGlobals;
+		this.originals = {
+			setTimeout: globals.setTimeout,
+			clearTimeout: globals.clearTimeout,
+			setInterval: globals.setInterval,
+			clearInterval: globals.clearInterval,
+			dateNow: Date.now,
+			performanceNow: performance.now,
+		};
+		const realSetTimeout = setTimeout;
+		this.realSetImmediate =
+			typeof setImmediate === "function"
+				? setImmediate
+				: (callback) => realSetTimeout(callback, 0);
+	}
+
+	/**
+	 * Replaces the timer functions and clocks of the global scope with a fake
+	 * clock, until {@link uninstall} is called.
+	 *
+	 * @param now - Time the clock starts at, as a millisecond UNIX timestamp.
+	 *   Defaults to the current time.
+	 * @throws {Error} If another fake clock is installed.
+	 */
+	static install(now: number = Date.now()): FakeClock {
+		if (FakeClock.installed !== null) {
+			throw new Error("A fake clock is already installed");
+		}
+		const clock = new FakeClock(now);
+		const globals = globalThis as unknown as TimerGlobals;
+		globals.setTimeout = (
+			callback: TimerHandler,
+			delay?: number,
+			...args: unknown[]
+		) => clock.schedule(callback, delay, null, args);
+		globals.setInterval = (
+			callback: TimerHandler,
+			delay?: number,
+			...args: unknown[]
+		) => clock.schedule(callback, delay, Math.max(1, delay ?? 0), args);
+		globals.clearTimeout = (timeout?: FakeTimeout | number) =>
+			clock.cancel(timeout);
+		globals.clearInterval = (timeout?: FakeTimeout | number) =>
+			clock.cancel(timeout);
+		Date.now = () => clock.current;
+		performance.now = () => clock.current - clock.startedAt;
+		FakeClock.installed = clock;
+		return clock;
+	}
+
+	/**
+	 * Restores the real timer functions and clocks. Timers still pending on the
+	 * fake clock never run.
+	 */
+	uninstall() {
+		if (FakeClock.installed !== this) {
+			return;
+		}
+		const globals = globalThis as unknown as TimerGlobals;
+		globals.setTimeout = this.originals.setTimeout;
+		globals.clearTimeout = this.originals.clearTimeout;
+		globals.setInterval = this.originals.setInterval;
+		globals.clearInterval = this.originals.clearInterval;
+		Date.now = this.originals.dateNow;
+		performance.now = this.originals.performanceNow;
+		this.timers.clear();
+		FakeClock.installed = null;
+	}
+
+	/**
+	 * Returns the current time of the clock, as a millisecond UNIX timestamp.
+	 */
+	now(): number {
+		return this.current;
+	}
+
+	/**
+	 * Returns the number of timers waiting to run.
+	 */
+	get pendingTimers(): number {
+		return this.timers.size;
+	}
+
+	/**
+	 * Advances the clock by the given time, running the timers that come due
+	 * on the way.
+	 */
+	async tick(ms: number): Promise<void> {
+		if (!(ms >= 0)) {
+			throw new RangeError(`Cannot advance the clock by ${ms}ms.`);
+		}
+		const target = this.current + ms;
+		await this.flush();
+		for (
+			let timer = this.nextTimer();
+			timer !== undefined && timer.at <= target;
+			timer = this.nextTimer()
+		) {
+			this.current = timer.at;
+			this.fire(timer);
+			await this.flush();
+		}
+		this.current = target;
+	}
+
+	/**
+	 * Advances the clock to the next timer and runs it.
+	 *
+	 * @returns Whether there was a timer to run.
+	 */
+	async runNext(): Promise<boolean> {
+		await this.flush();
+		const timer = this.nextTimer();
+		if (timer === undefined) {
+			return false;
+		}
+		this.current = Math.max(this.current, timer.at);
+		this.fire(timer);
+		await this.flush();
+		return true;
+	}
+
+	/**
+	 * Runs timers until none are left, such as to let every retry run out.
+	 *
+	 * @param limit - Most timers to run, which intervals would otherwise
+	 *   exceed forever.
+	 * @throws {Error} If timers are still pending after running the limit.
+	 */
+	async runAll(limit = 1000): Promise<void> {
+		for (let run = 0; run < limit; run++) {
+			if (!(await this.runNext())) {
+				return;
+			}
+		}
+		throw new Error(`Timers still pending after running ${limit}`);
+	}
+
+	/**
+	 * Lets pending promise callbacks run, without advancing the clock.
+	 */
+	flush(): Promise<void> {
+		return new Promise((resolve) => this.realSetImmediate(resolve));
+	}
+
+	private schedule(
+		callback: TimerHandler,
+		delay: number | undefined,
+		intervalMs: number | null,
+		args: unknown[],
+	): FakeTimeout {
+		const id = this.nextId++;
+		this.timers.set(id, {
+			id,
+			at: this.current + Math.max(0, delay ?? 0),
+			intervalMs,
+			callback,
+			args,
+		});
+		return new FakeTimeout(id);
+	}
+
+	private cancel(timeout: FakeTimeout | number | undefined) {
+		if (timeout !== undefined) {
+			this.timers.delete(Number(timeout));
+		}
+	}
+
+	// The timer due first, or created first among those due at once.
+	private nextTimer(): FakeTimer | undefined {
+		let next: FakeTimer | undefined;
+		for (const timer of this.timers.values()) {
+			if (next === undefined || timer.at < next.at) {
+				next = timer;
+			}
+		}
+		return next;
+	}
+
+	private fire(timer: FakeTimer) {
+		if (timer.intervalMs === null) {
+			this.timers.delete(timer.id);
+		} else {
+			// Re-inserted so that it runs after timers created before it is due.
+			this.timers.delete(timer.id);
+			this.timers.set(timer.id, { ...timer, at: timer.at + timer.intervalMs });
+		}
+		timer.callback(...timer.args);
+	}
+}
+
+/**
+ * A way to tamper with frames delivered by a {@link ScriptedTransport}.
+ *
+ * - `"drop"`: the frame is never delivered.
+ * - `"delay"`: the frame is delivered after `ms` milliseconds, on the global
+ *   clock, which may be a {@link FakeClock}. Frames delivered meanwhile go
+ *   first.
+ * - `"duplicate"`: the frame is delivered twice.
+ * - `"reorder"`: the frame is held back until after the next frame, whatever
+ *   happens to that one.
+ * - `"corrupt"`: every bit of the frame is flipped, so that it fails to
+ *   decompress or decode.
+ */
+export type FrameFault =
+	| { kind: "drop" }
+	| { kind: "delay"; ms: number }
+	| { kind: "duplicate" }
+	| { kind: "reorder" }
+	| { kind: "corrupt" };
+
+/**
+ * Options for a {@link ScriptedTransport}.
+ */
+export interface ScriptedTransportOptions {
+	/**
+	 * Subprotocol the connection pretends to have negotiated, which sets how
+	 * frames are compressed. Defaults to no compression.
+	 */
+	protocol?: string;
+	/** Where the compressor of the subprotocol is looked up. */
+	compressors?: CompressorRegistry;
+}
+
+/**
+ * A transport whose server side is played by the test: it decodes the
+ * requests the client sends, and delivers the messages it is given, through
+ * the {@link FrameFault}s queued with {@link fault}.
+ *
+ * Close events caused by the client are emitted after pending promise
+ * callbacks, as from a real connection; those caused by the test are emitted
+ * at once, even if one was already emitted, to reproduce both sides closing at
+ * the same time.
+ */
+export class ScriptedTransport implements Transport {
+	readonly protocol: string;
+	onmessage: ((event: TransportMessageEvent) => void) | null = null;
+	onclose: ((event: TransportCloseEvent) => void) | null = null;
+	onerror: ((error: Error) => void) | null = null;
+	/** Frames sent by the client, in order. */
+	readonly sent: Uint8Array[] = [];
+	/** How the connection closed, once it did. */
+	closedWith: TransportCloseEvent | null = null;
+	private codec: ServerCodec;
+	private faults: FrameFault[] = [];
+	// Frame held back by a "reorder" fault.
+	private held: Uint8Array | null = null;
+	// Index in `sent` of the next frame to decode with nextRequest().
+	private readCursor = 0;
+	private sendWaiters: (() => void)[] = [];
+
+	constructor(options: ScriptedTransportOptions = {}) {
+		this.protocol = options.protocol ?? v1.WEBSOCKET_SUBPROTO_BASE;
+		this.codec = ServerCodec.from_protocol(
+			this.protocol,
+			options.compressors ?? compressors,
+		);
+	}
+
+	/**
+	 * Returns a transport factory connecting to this transport, for the
+	 * `transport` connect option.
+	 */
+	factory(): TransportFactory {
+		return async () => this;
+	}
+
+	send(data: Uint8Array): void {
+		if (this.closedWith !== null) {
+			return;
+		}
+		this.sent.push(data);
+		const waiters = this.sendWaiters;
+		this.sendWaiters = [];
+		for (const wake of waiters) {
+			wake();
+		}
+	}
+
+	close(code = 1000, reason = ""): void {
+		if (this.closedWith !== null) {
+			return;
+		}
+		const event = { code, reason, wasClean: true };
+		this.closedWith = event;
+		queueMicrotask(() => this.onclose?.(event));
+	}
+
+	/**
+	 * Waits for the client to send its next request, and decodes it. Requests
+	 * are returned in order, each once.
+	 */
+	async nextRequest(): Promise<v1.ClientRequest> {
+		while (this.readCursor >= this.sent.length) {
+			await new Promise<void>((resolve) => this.sendWaiters.push(resolve));
+		}
+		const frame = this.sent[this.readCursor];
+		this.readCursor += 1;
+		return this.codec.decode(frame);
+	}
+
+	/**
+	 * Queues a fault to apply to the next frames delivered, one frame per
+	 * fault, in the order they were queued.
+	 */
+	fault(fault: FrameFault, count = 1) {
+		for (let i = 0; i < count; i++) {
+			this.faults.push(fault);
+		}
+	}
+
+	/**
+	 * Encodes a message as the server would, and delivers it.
+	 */
+	async deliver(message: v1.ServerMessage<v1.Uint64>): Promise<void> {
+		this.deliverFrame(await this.codec.encode(message));
+	}
+
+	/**
+	 * Delivers a successful response to the given request.
+	 */
+	respond(
+		requestId: number,
+		data: v1.ResponseData,
+		stream?: v1.StreamStart,
+	): Promise<void> {
+		const response: v1.ResponseSuccess = { requestId, data };
+		if (stream !== undefined) {
+			response.stream = stream;
+		}
+		return this.deliver({ Response: response });
+	}
+
+	/**
+	 * Delivers a raw frame, applying the next queued fault, if any.
+	 */
+	deliverFrame(data: Uint8Array) {
+		const fault = this.faults.shift();
+		const held = this.held;
+		this.held = null;
+		switch (fault?.kind) {
+			case "drop":
+				break;
+			case "delay":
+				setTimeout(() => this.emit(data), fault.ms);
+				break;
+			case "duplicate":
+				this.emit(data);
+				this.emit(data);
+				break;
+			case "reorder":
+				this.held = data;
+				break;
+			case "corrupt":
+				this.emit(data.map((byte) => byte ^ 0xff));
+				break;
+			default:
+				this.emit(data);
+		}
+		if (held !== null) {
+			this.emit(held);
+		}
+	}
+
+	/**
+	 * Emits a close event from the server side, as when the server closes the
+	 * connection or it drops. Defaults to an abnormal closure.
+	 */
+	emitClose(code = 1006, reason = "", wasClean = code !== 1006) {
+		const event = { code, reason, wasClean };
+		this.closedWith ??= event;
+		this.onclose?.(event);
+	}
+
+	/**
+	 * Emits a transport error.
+	 */
+	emitError(error: Error) {
+		this.onerror?.(error);
+	}
+
+	private emit(data: Uint8Array) {
+		if (this.closedWith !== null) {
+			return;
+		}
+		// Delivered in a buffer of its own, like a WebSocket would.
+		this.onmessage?.({ data: new Uint8Array(data).buffer });
+	}
+}
+
+/**
+ * Delays of a {@link SlowCompressor}, in milliseconds.
+ */
+export interface CompressorDelays {
+	compressMs?: number;
+	decompressMs?: number;
+}
+
+/**
+ * Wraps a compressor to take longer, on the global clock, which may be a
+ * {@link FakeClock}. Register it in place of the one it wraps, through the
+ * `compressors` connect option, to simulate slow decompression.
+ */
+export class SlowCompressor implements Compressor {
+	private inner: Compressor;
+	private delays: CompressorDelays;
+
+	constructor(inner: Compressor, delays: CompressorDelays) {
+		this.inner = inner;
+		this.delays = delays;
+	}
+
+	name(): string | null {
+		return this.inner.name();
+	}
+
+	async compress(data: Uint8Array): Promise<Uint8Array> {
+		await sleep(this.delays.compressMs ?? 0);
+		return this.inner.compress(data);
+	}
+
+	async decompress(data: Uint8Array, maxBytes?: number): Promise<Uint8Array> {
+		await sleep(this.delays.decompressMs ?? 0);
+		return this.inner.decompress(data, maxBytes);
+	}
+}
+
+// Waits on the global clock, without scheduling a timer when there is nothing
+// to wait for, as a fake clock would not run it until told to.
+async function sleep(ms: number): Promise<void> {
+	if (ms > 0) {
+		await new Promise((resolve) => setTimeout(resolve, ms));
+	}
+}
+
+/**
+ * Asserts that the client is waiting for responses to exactly the given
+ * kinds of requests, such as `"GetInfo"`, in the order they were sent.
+ *
+ * @throws {AssertionError} If it is not.
+ */
+export function assertPendingRequests(
+	client: V1Client,
+	kinds: readonly string[],
+) {
+	const pending = client.pendingRequests().map(({ kind }) => kind);
+	if (
+		pending.length !== kinds.length ||
+		pending.some((kind, i) => kind !== kinds[i])
+	) {
+		throw new AssertionError(
+			`Expected pending requests [${kinds.join(", ")}], got [${pending.join(", ")}]`,
+		);
+	}
+}
+
+/**
+ * Asserts that the given number of quote streams are running on the client's
+ * current connection.
+ *
+ * @throws {AssertionError} If they are not.
+ */
+export function assertOpenStreams(client: V1Client, count: number) {
+	const open = client.openStreams();
+	if (open.length !== count) {
+		throw new AssertionError(
+			`Expected ${count} open stream(s), got ${open.length}: [${open.map(({ streamId }) => streamId).join(", ")}]`,
+		);
+	}
+}
+
+/**
+ * Asserts that the client is not waiting on anything: no pending requests, and
+ * no streams running, being started or queued.
+ *
+ * @throws {AssertionError} If it is.
+ */
+export function assertIdle(client: V1Client) {
+	assertPendingRequests(client, []);
+	if (client.activeStreams > 0 || client.queuedStreams > 0) {
+		throw new AssertionError(
+			`Expected no streams, got ${client.activeStreams} active and ${client.queuedStreams} queued`,
+		);
+	}
+}
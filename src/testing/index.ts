@@ -0,0 +1,4 @@
+export * from "./conformance";
+export * from "./harness";
+export * from "./mock-server";
+export * from "./server-codec";
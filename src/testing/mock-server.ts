@@ -0,0 +1,575 @@
+// An in-process server speaking the v1 protocol, for developing and testing
+// against without access to the real API.
+
+import { SwapMode } from "../types/common";
+import * as v1 from "../types/v1";
+import { ServerCodec } from "./server-codec";
+
+/**
+ * A quote stream script: the updates to send, in order, after which the stream
+ * ends; or a function generating the update with the given sequence number.
+ */
+export type MockQuotes =
+	| v1.SwapQuotes<v1.Uint64>[]
+	| ((request: v1.SwapQuoteRequest, seq: number) => v1.SwapQuotes<v1.Uint64>);
+
+/**
+ * Options for a {@link MockServer}.
+ */
+export interface MockServerOptions {
+	/** Port to listen on, on 127.0.0.1. Defaults to any free port. */
+	port?: number;
+	/**
+	 * Subprotocols the server accepts. Of those a client offers, the first it
+	 * offers is selected. Defaults to every v1 subprotocol.
+	 */
+	protocols?: readonly string[];
+	/**
+	 * Answer to `GetInfo` requests. Its quote update settings bound the
+	 * interval of streams, and its connection settings limit how many streams
+	 * each connection may run at once. Defaults to {@link mockServerInfo}.
+	 */
+	info?: v1.ServerInfo;
+	/** Answer to `GetVenues` requests. */
+	venues?: v1.VenueInfo;
+	/** Answer to `ListProviders` requests. */
+	providers?: v1.ProviderInfo[];
+	/** Answers `GetSwapPrice` requests. Defaults to a price 1% below par. */
+	price?: (request: v1.SwapPriceRequest) => v1.SwapPrice;
+	/**
+	 * Updates sent on every quote stream. Defaults to generating a route from
+	 * each of the `providers` forever, with amounts that vary with the
+	 * sequence number.
+	 */
+	quotes?: MockQuotes;
+}
+
+/**
+ * Error codes of the responses the mock server fails requests with.
+ */
+export const MockErrorCode = {
+	/** The request was not understood. */
+	BadRequest: 400,
+	/** `StopStream` named a stream that is not running. */
+	UnknownStream: 404,
+	/** The connection already runs as many streams as it is allowed. */
+	TooManyStreams: 429,
+} as const;
+
+/**
+ * Returns the server info a {@link MockServer} answers with by default.
+ */
+export function mockServerInfo(): v1.ServerInfo {
+	return {
+		protocolVersion: { major: 1, minor: 0, patch: 0 },
+		settings: {
+			quoteUpdate: {
+				intervalMs: { min: 10, max: 10_000, default: 1000 },
+				num_quotes: { min: 1, max: 10, default: 3 },
+			},
+			swap: {
+				slippageBps: { min: 0, max: 10_000, default: 50 },
+				onlyDirectRoutes: false,
+				addSizeConstraint: false,
+			},
+			transaction: {
+				closeInputTokenAccount: false,
+				createOutputTokenAccount: true,
+			},
+			connection: { concurrentStreams: 8 },
+		},
+	};
+}
+
+const DEFAULT_VENUES: v1.VenueInfo = { labels: ["Mock AMM", "Mock CLMM"] };
+
+const DEFAULT_PROVIDERS: v1.ProviderInfo[] = [
+	{ id: "mock", name: "Mock Aggregator", kind: "DexAggregator" },
+	{ id: "mock-rfq", name: "Mock RFQ", kind: "RFQ" },
+];
+
+// Minimal shapes of the `websocket` package's server, which is loaded on
+// demand so that browser bundles do not include it.
+interface WebSocketConnectionLike {
+	connected: boolean;
+	on(event: "message", listener: (message: WebSocketMessageLike) => void): void;
+	on(event: "close", listener: () => void): void;
+	sendBytes(data: Buffer): void;
+	close(code?: number, reason?: string): void;
+	drop(code?: number, reason?: string, skipCloseFrame?: boolean): void;
+}
+
+interface WebSocketMessageLike {
+	type: "utf8" | "binary";
+	binaryData?: Buffer;
+}
+
+interface WebSocketRequestLike {
+	requestedProtocols: string[];
+	accept(protocol: string, origin?: string): WebSocketConnectionLike;
+	reject(status?: number, reason?: string): void;
+}
+
+interface WebSocketServerLike {
+	on(event: "request", listener: (request: WebSocketRequestLike) => void): void;
+	shutDown(): void;
+}
+
+type WebSocketServerConstructor = new (options: {
+	httpServer: unknown;
+	autoAcceptConnections: boolean;
+}) => WebSocketServerLike;
+
+interface HttpServerLike {
+	listen(port: number, host: string, callback: () => void): void;
+	address(): { port: number } | string | null;
+	close(callback: () => void): void;
+	closeAllConnections?(): void;
+}
+
+function moduleExports<T>(mod: T | { default: T }): T {
+	return (mod as { default?: T }).default ?? (mod as T);
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * A v1 server running in the current process, on localhost, for developing and
+ * testing clients without access to the real API.
+ *
+ * It negotiates the same subprotocols and compressions as the real server,
+ * answers every request, and runs quote streams at the requested interval,
+ * within the bounds and stream limit of its server info. Requests failing
+ * are answered with the {@link MockErrorCode}s.
+ *
+ * Faults can be injected while it runs: see {@link failNext},
+ * {@link endStreams}, {@link closeConnections}, {@link dropConnections} and
+ * {@link frameDelayMs}.
+ *
+ * Requires NodeJS.
+ */
+export class MockServer {
+	/** URL to connect clients to. */
+	readonly url: string;
+	/** Every request received, in order, across all connections. */
+	readonly requests: v1.ClientRequest[] = [];
+	/**
+	 * How long every frame the server sends is held back, in milliseconds.
+	 * Frames still go out in order.
+	 */
+	frameDelayMs = 0;
+	private httpServer: HttpServerLike;
+	private wsServer: WebSocketServerLike;
+	private protocols: readonly string[];
+	private settings: MockSettings;
+	private connections = new Set<MockConnection>();
+	// Errors to answer the next requests of each kind with.
+	private failures = new Map<string, v1.ResponseError[]>();
+
+	private constructor(
+		httpServer: HttpServerLike,
+		wsServer: WebSocketServerLike,
+		port: number,
+		options: MockServerOptions,
+	) {
+		this.httpServer = httpServer;
+		this.wsServer = wsServer;
+		this.url = `ws://127.0.0.1:${port}/`;
+		this.protocols = options.protocols ?? v1.WEBSOCKET_SUBPROTOCOLS;
+		this.settings = {
+			info: options.info ?? mockServerInfo(),
+			venues: options.venues ?? DEFAULT_VENUES,
+			providers: options.providers ?? DEFAULT_PROVIDERS,
+			price: options.price ?? defaultPrice,
+			quotes: options.quotes ?? defaultQuotes(options.providers),
+		};
+		wsServer.on("request", (request) => this.accept(request));
+	}
+
+	/**
+	 * Starts a server listening on 127.0.0.1.
+	 */
+	static async start(options: MockServerOptions = {}): Promise<MockServer> {
+		const http = await import("node:http");
+		const pkg = moduleExports(await import("websocket"));
+		const WebSocketServer = pkg.server as unknown as WebSocketServerConstructor;
+		const httpServer = http.createServer() as HttpServerLike;
+		await new Promise<void>((resolve) =>
+			httpServer.listen(options.port ?? 0, "127.0.0.1", resolve),
+		);
+		const address = httpServer.address();
+		const port = typeof address === "object" && address ? address.port : 0;
+		const wsServer = new WebSocketServer({
+			httpServer,
+			autoAcceptConnections: false,
+		});
+		return new MockServer(httpServer, wsServer, port, options);
+	}
+
+	/**
+	 * Number of clients currently connected.
+	 */
+	get connectionCount(): number {
+		return this.connections.size;
+	}
+
+	/**
+	 * Answers the next request of the given kind, such as `"GetInfo"`, with an
+	 * error response instead. Calls add up, failing one request each.
+	 */
+	failNext(kind: string, code: number, message: string) {
+		const queue = this.failures.get(kind) ?? [];
+		queue.push({ requestId: 0, code, message });
+		this.failures.set(kind, queue);
+	}
+
+	/**
+	 * Ends every running stream, with the given error if any.
+	 */
+	endStreams(errorCode?: number, errorMessage?: string) {
+		for (const connection of this.connections) {
+			connection.endStreams(errorCode, errorMessage);
+		}
+	}
+
+	/**
+	 * Closes every connection with a close frame carrying the given code.
+	 */
+	closeConnections(code = 1000, reason = "") {
+		for (const connection of this.connections) {
+			connection.socket.close(code, reason);
+		}
+	}
+
+	/**
+	 * Drops every connection without a close frame, as a network failure would,
+	 * which clients see as code 1006.
+	 */
+	dropConnections() {
+		for (const connection of this.connections) {
+			connection.socket.drop(1006, "", true);
+		}
+	}
+
+	/**
+	 * Closes every connection and stops listening.
+	 */
+	async close(): Promise<void> {
+		for (const connection of this.connections) {
+			connection.stop();
+		}
+		this.wsServer.shutDown();
+		await new Promise<void>((resolve) => {
+			this.httpServer.close(() => resolve());
+			this.httpServer.closeAllConnections?.();
+		});
+	}
+
+	private accept(request: WebSocketRequestLike) {
+		const protocol = request.requestedProtocols.find((offered) =>
+			this.protocols.includes(offered),
+		);
+		if (protocol === undefined) {
+			request.reject(400, "No supported subprotocol offered");
+			return;
+		}
+		let codec: ServerCodec;
+		try {
+			codec = ServerCodec.from_protocol(protocol);
+		} catch (err) {
+			request.reject(400, err instanceof Error ? err.message : String(err));
+			return;
+		}
+		const connection = new MockConnection(
+			{
+				settings: this.settings,
+				requests: this.requests,
+				frameDelayMs: () => this.frameDelayMs,
+				takeFailure: (kind) => this.failures.get(kind)?.shift(),
+			},
+			request.accept(protocol),
+			codec,
+		);
+		this.connections.add(connection);
+		connection.socket.on("close", () => {
+			connection.stop();
+			this.connections.delete(connection);
+		});
+	}
+}
+
+// Server options with all defaults filled in.
+type MockSettings = Required<Omit<MockServerOptions, "port" | "protocols">>;
+
+// What connections share with the server they were accepted by.
+interface MockConnectionHost {
+	settings: MockSettings;
+	requests: v1.ClientRequest[];
+	frameDelayMs(): number;
+	// Takes the error to answer a request of the given kind with, if one was
+	// queued.
+	takeFailure(kind: string): v1.ResponseError | undefined;
+}
+
+// A running quote stream.
+interface MockStream {
+	request: v1.SwapQuoteRequest;
+	quotes: MockQuotes;
+	seq: number;
+	timer: ReturnType<typeof setInterval> | null;
+}
+
+// Server side of a connection to a client.
+class MockConnection {
+	readonly socket: WebSocketConnectionLike;
+	private host: MockConnectionHost;
+	private codec: ServerCodec;
+	private streams = new Map<number, MockStream>();
+	private nextStreamId = 1;
+	// Frames are compressed asynchronously, so sends are chained to keep them
+	// in order.
+	private sending: Promise<void> = Promise.resolve();
+
+	constructor(
+		host: MockConnectionHost,
+		socket: WebSocketConnectionLike,
+		codec: ServerCodec,
+	) {
+		this.host = host;
+		this.socket = socket;
+		this.codec = codec;
+		socket.on("message", (message) => {
+			if (message.type !== "binary" || message.binaryData === undefined) {
+				socket.close(1003, "Expected binary messages");
+				return;
+			}
+			void this.receive(new Uint8Array(message.binaryData));
+		});
+	}
+
+	endStreams(errorCode?: number, errorMessage?: string) {
+		for (const id of [...this.streams.keys()]) {
+			this.endStream(id, errorCode, errorMessage);
+		}
+	}
+
+	// Stops every stream without telling the client, once it is going away.
+	stop() {
+		for (const stream of this.streams.values()) {
+			if (stream.timer !== null) {
+				clearInterval(stream.timer);
+			}
+		}
+		this.streams.clear();
+	}
+
+	private async receive(data: Uint8Array) {
+		let request: v1.ClientRequest;
+		try {
+			request = await this.codec.decode(data);
+		} catch {
+			this.socket.close(1007, "Failed to decode request");
+			return;
+		}
+		this.host.requests.push(request);
+		const kind = Object.keys(request.data)[0] ?? "";
+		const failure = this.host.takeFailure(kind);
+		if (failure !== undefined) {
+			this.send({ Error: { ...failure, requestId: request.id } });
+			return;
+		}
+		this.handle(request);
+	}
+
+	private handle(request: v1.ClientRequest) {
+		const { info, venues, providers, price } = this.host.settings;
+		const requestId = request.id;
+		const data = request.data;
+		if ("GetInfo" in data) {
+			this.send({ Response: { requestId, data: { GetInfo: info } } });
+		} else if ("GetVenues" in data) {
+			this.send({ Response: { requestId, data: { GetVenues: venues } } });
+		} else if ("ListProviders" in data) {
+			this.send({
+				Response: { requestId, data: { ListProviders: providers } },
+			});
+		} else if ("GetSwapPrice" in data) {
+			this.send({
+				Response: {
+					requestId,
+					data: { GetSwapPrice: price(data.GetSwapPrice) },
+				},
+			});
+		} else if ("NewSwapQuoteStream" in data) {
+			this.startStream(requestId, data.NewSwapQuoteStream);
+		} else if ("StopStream" in data) {
+			const id = data.StopStream.id;
+			if (!this.streams.has(id)) {
+				this.sendError(
+					requestId,
+					MockErrorCode.UnknownStream,
+					`No stream with ID ${id}`,
+				);
+				return;
+			}
+			this.send({ Response: { requestId, data: { StreamStopped: { id } } } });
+			this.endStream(id);
+		} else {
+			this.sendError(
+				requestId,
+				MockErrorCode.BadRequest,
+				`Unknown request type ${Object.keys(data)[0]}`,
+			);
+		}
+	}
+
+	private startStream(requestId: number, request: v1.SwapQuoteRequest) {
+		const { info, quotes } = this.host.settings;
+		const limit = info.settings.connection.concurrentStreams;
+		if (this.streams.size >= limit) {
+			this.sendError(
+				requestId,
+				MockErrorCode.TooManyStreams,
+				`Connection is limited to ${limit} concurrent streams`,
+			);
+			return;
+		}
+		const bounds = info.settings.quoteUpdate.intervalMs;
+		const requested = Number(request.update?.intervalMs ?? bounds.default);
+		const intervalMs = Math.min(Math.max(requested, bounds.min), bounds.max);
+
+		const id = this.nextStreamId++;
+		const stream: MockStream = { request, quotes, seq: 0, timer: null };
+		this.streams.set(id, stream);
+		this.send({
+			Response: {
+				requestId,
+				data: { NewSwapQuoteStream: { intervalMs } },
+				stream: { id, dataType: v1.StreamDataType.SwapQuotes },
+			},
+		});
+		// The first update is sent right away, like the real server does once it
+		// has quotes.
+		this.sendUpdate(id, stream);
+		if (this.streams.has(id)) {
+			stream.timer = setInterval(() => this.sendUpdate(id, stream), intervalMs);
+		}
+	}
+
+	private sendUpdate(id: number, stream: MockStream) {
+		const seq = stream.seq;
+		let payload: v1.SwapQuotes<v1.Uint64>;
+		if (Array.isArray(stream.quotes)) {
+			if (seq >= stream.quotes.length) {
+				this.endStream(id);
+				return;
+			}
+			payload = stream.quotes[seq];
+		} else {
+			payload = stream.quotes(stream.request, seq);
+		}
+		stream.seq += 1;
+		this.send({ StreamData: { id, seq, payload: { SwapQuotes: payload } } });
+	}
+
+	private endStream(id: number, errorCode?: number, errorMessage?: string) {
+		const stream = this.streams.get(id);
+		if (stream === undefined) {
+			return;
+		}
+		if (stream.timer !== null) {
+			clearInterval(stream.timer);
+		}
+		this.streams.delete(id);
+		const end: v1.StreamEnd = { id };
+		if (errorCode !== undefined) {
+			end.errorCode = errorCode;
+			end.errorMessage = errorMessage ?? "";
+		}
+		this.send({ StreamEnd: end });
+	}
+
+	private sendError(requestId: number, code: number, message: string) {
+		this.send({ Error: { requestId, code, message } });
+	}
+
+	private send(message: v1.ServerMessage<v1.Uint64>) {
+		const queuedAt = Date.now();
+		this.sending = this.sending.then(async () => {
+			const data = await this.codec.encode(message);
+			const delay = queuedAt + this.host.frameDelayMs() - Date.now();
+			if (delay > 0) {
+				await sleep(delay);
+			}
+			if (this.socket.connected) {
+				this.socket.sendBytes(
+					Buffer.from(data.buffer, data.byteOffset, data.byteLength),
+				);
+			}
+		});
+	}
+}
+
+// Converts an amount to a number if it fits, as the server encodes them.
+function toUint64(value: bigint): v1.Uint64 {
+	return value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+}
+
+function defaultPrice(request: v1.SwapPriceRequest): v1.SwapPrice {
+	const amount = BigInt(request.amount);
+	return {
+		id: `price-${amount}`,
+		inputMint: request.inputMint,
+		outputMint: request.outputMint,
+		amountIn: toUint64(amount),
+		amountOut: toUint64((amount * 99n) / 100n),
+	};
+}
+
+// Generates updates quoting a single step route from each provider, at a rate
+// 1 to 2% below par that shifts with every update.
+function defaultQuotes(
+	providers: v1.ProviderInfo[] = DEFAULT_PROVIDERS,
+): MockQuotes {
+	return (request, seq) => {
+		const { inputMint, outputMint, swapMode = SwapMode.ExactIn } = request.swap;
+		const amount = BigInt(request.swap.amount);
+		const quotes: Record<string, v1.SwapRoute<v1.Uint64>> = {};
+		providers.forEach((provider, index) => {
+			const rate = BigInt(9800 + ((seq * 7 + index * 13) % 100));
+			const [inAmount, outAmount] =
+				swapMode === SwapMode.ExactIn
+					? [amount, (amount * rate) / 10_000n]
+					: [(amount * 10_000n + rate - 1n) / rate, amount];
+			quotes[provider.id] = {
+				inAmount: toUint64(inAmount),
+				outAmount: toUint64(outAmount),
+				slippageBps: request.swap.slippageBps ?? 50,
+				steps: [
+					{
+						ammKey: new Uint8Array(32).fill(index + 1),
+						label: provider.name,
+						inputMint,
+						outputMint,
+						inAmount: toUint64(inAmount),
+						outAmount: toUint64(outAmount),
+						allocPpb: 1_000_000_000,
+					},
+				],
+				instructions: [],
+				addressLookupTables: [],
+				contextSlot: 1000 + seq,
+			};
+		});
+		return {
+			id: `quote-${seq}`,
+			inputMint,
+			outputMint,
+			swapMode,
+			amount: request.swap.amount,
+			quotes,
+		};
+	};
+}
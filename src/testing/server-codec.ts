@@ -0,0 +1,89 @@
+// Server side of the v1 wire format, for the servers and transports that stand
+// in for the real one in tests.
+
+import { Decoder, Encoder } from "@msgpack/msgpack";
+
+import { DecodeError, InvalidProtocolError } from "../codec";
+import {
+	type Compressor,
+	type CompressorRegistry,
+	NullCompressor,
+	compressors,
+} from "../compression";
+import {
+	type ClientRequest,
+	type ServerMessage,
+	type Uint64,
+	WEBSOCKET_SUBPROTO_BASE,
+} from "../types/v1";
+
+/**
+ * Encodes server messages and decodes client requests, the reverse of
+ * `V1ClientCodec`.
+ */
+export class ServerCodec {
+	private compressor: Compressor;
+	private encoder = new Encoder({ useBigInt64: true });
+	private decoder = new Decoder({ useBigInt64: true });
+
+	/**
+	 * Constructs a codec for the given subprotocol, such as
+	 * "v1.api.titan.ag+zstd", looking its compression up in the registry.
+	 *
+	 * @throws {InvalidProtocolError} If the subprotocol is not a v1 one with a
+	 *   known compression.
+	 */
+	static from_protocol(
+		protocol: string,
+		registry: CompressorRegistry = compressors,
+	): ServerCodec {
+		if (!protocol.startsWith(WEBSOCKET_SUBPROTO_BASE)) {
+			throw new InvalidProtocolError(
+				protocol,
+				`does not start with ${WEBSOCKET_SUBPROTO_BASE}`,
+			);
+		}
+		const encoding = protocol.substring(WEBSOCKET_SUBPROTO_BASE.length);
+		if (encoding === "") {
+			return new ServerCodec(new NullCompressor());
+		}
+		const compressor = encoding.startsWith("+")
+			? registry.get(encoding.substring(1))
+			: undefined;
+		if (compressor === undefined) {
+			throw new InvalidProtocolError(protocol, `unknown encoding ${encoding}`);
+		}
+		return new ServerCodec(compressor);
+	}
+
+	constructor(compressor: Compressor) {
+		this.compressor = compressor;
+	}
+
+	/**
+	 * Encodes a server message to a frame, with compression if enabled.
+	 */
+	async encode(message: ServerMessage<Uint64>): Promise<Uint8Array> {
+		return this.compressor.compress(this.encoder.encode(message));
+	}
+
+	/**
+	 * Decodes a frame sent by a client.
+	 *
+	 * @throws {DecodeError} If the frame is not a request.
+	 */
+	async decode(data: Uint8Array): Promise<ClientRequest> {
+		const decoded = this.decoder.decode(await this.compressor.decompress(data));
+		const request = decoded as Partial<ClientRequest> | null;
+		if (
+			typeof request !== "object" ||
+			request === null ||
+			typeof request.id !== "number" ||
+			typeof request.data !== "object" ||
+			request.data === null
+		) {
+			throw new DecodeError(decoded, "expected a client request");
+		}
+		return request as ClientRequest;
+	}
+}
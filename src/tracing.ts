@@ -0,0 +1,308 @@
+// Tracing of requests and quote streams through a minimal tracer interface,
+// shaped after the OpenTelemetry API so that its tracers can be passed as is.
+
+import type { RequestOutcome } from "./metrics";
+import type * as v1 from "./types/v1";
+
+/**
+ * Value of a span attribute.
+ */
+export type SpanAttributeValue = string | number | boolean;
+
+/**
+ * Attributes of a span, link or span event.
+ */
+export type SpanAttributes = Record<string, SpanAttributeValue>;
+
+/**
+ * Identifies a span, as returned by `Span.spanContext()`.
+ */
+export interface SpanContext {
+	traceId: string;
+	spanId: string;
+	traceFlags?: number;
+}
+
+/**
+ * Link from a span to another, possibly in a different trace.
+ */
+export interface SpanLink {
+	context: SpanContext;
+	attributes?: SpanAttributes;
+}
+
+/**
+ * Status codes of a span, matching OpenTelemetry's `SpanStatusCode`.
+ */
+export const SpanStatusCode = {
+	UNSET: 0,
+	OK: 1,
+	ERROR: 2,
+} as const;
+
+/**
+ * Status of a finished span.
+ */
+export interface SpanStatus {
+	code: (typeof SpanStatusCode)[keyof typeof SpanStatusCode];
+	message?: string;
+}
+
+/**
+ * The subset of an OpenTelemetry span used by the client.
+ */
+export interface Span {
+	spanContext(): SpanContext;
+	setAttribute(key: string, value: SpanAttributeValue): void;
+	setAttributes(attributes: SpanAttributes): void;
+	addEvent(name: string, attributes?: SpanAttributes): void;
+	setStatus(status: SpanStatus): void;
+	recordException(exception: Error | string): void;
+	end(): void;
+}
+
+/**
+ * Options for starting a span.
+ */
+export interface SpanOptions {
+	attributes?: SpanAttributes;
+	links?: SpanLink[];
+}
+
+/**
+ * The subset of an OpenTelemetry tracer used by the client, such as the one
+ * returned by `trace.getTracer("titan")`.
+ */
+export interface Tracer {
+	startSpan(name: string, options?: SpanOptions): Span;
+}
+
+/**
+ * Options for {@link ClientTracing}.
+ */
+export interface TracingOptions {
+	/**
+	 * How many quote and reference IDs to remember for {@link ClientTracing.linkQuote}.
+	 * The oldest are forgotten first. Defaults to 1000.
+	 */
+	maxQuoteLinks?: number;
+}
+
+const BASE58_ALPHABET =
+	"123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+// Encodes bytes in base58, the usual representation of Solana addresses.
+function base58(bytes: Uint8Array): string {
+	const digits: number[] = [];
+	for (const byte of bytes) {
+		let carry = byte;
+		for (let i = 0; i < digits.length; i++) {
+			carry += digits[i] << 8;
+			digits[i] = carry % 58;
+			carry = Math.floor(carry / 58);
+		}
+		while (carry > 0) {
+			digits.push(carry % 58);
+			carry = Math.floor(carry / 58);
+		}
+	}
+	let result = "";
+	for (const byte of bytes) {
+		if (byte !== 0) {
+			break;
+		}
+		result += "1";
+	}
+	for (let i = digits.length - 1; i >= 0; i--) {
+		result += BASE58_ALPHABET[digits[i]];
+	}
+	return result;
+}
+
+// Attributes describing the swap a request is about, if any.
+function swapAttributes(data: v1.RequestData): SpanAttributes {
+	let swap: v1.SwapParams | v1.SwapPriceRequest;
+	if ("NewSwapQuoteStream" in data) {
+		swap = data.NewSwapQuoteStream.swap;
+	} else if ("GetSwapPrice" in data) {
+		swap = data.GetSwapPrice;
+	} else {
+		return {};
+	}
+	return {
+		"titan.swap.input_mint": base58(swap.inputMint),
+		"titan.swap.output_mint": base58(swap.outputMint),
+		"titan.swap.amount": String(swap.amount),
+	};
+}
+
+/**
+ * Creates spans for the requests and streams of a client.
+ *
+ * Used by {@link V1Client} when given as its `tracing` option; spans are
+ * named `titan.<RequestKind>` for requests and `titan.quote_stream` for
+ * streams.
+ */
+export class ClientTracing {
+	private tracer: Tracer;
+	private maxQuoteLinks: number;
+	// Span links by quote and reference ID, in insertion order.
+	private quoteLinks: Map<string, SpanLink> = new Map();
+
+	constructor(tracer: Tracer, options: TracingOptions = {}) {
+		this.tracer = tracer;
+		this.maxQuoteLinks = options.maxQuoteLinks ?? 1000;
+		if (!(this.maxQuoteLinks >= 0)) {
+			throw new RangeError(
+				`Tracing maxQuoteLinks must not be negative, got ${this.maxQuoteLinks}.`,
+			);
+		}
+	}
+
+	/** Starts the span of a request. */
+	startRequest(request: v1.ClientRequest, kind: string): Span {
+		return this.tracer.startSpan(`titan.${kind}`, {
+			attributes: {
+				"titan.request.id": request.id,
+				"titan.request.kind": kind,
+				...swapAttributes(request.data),
+			},
+		});
+	}
+
+	/** Ends the span of a request with its outcome. */
+	endRequest(span: Span, outcome: RequestOutcome, error?: unknown) {
+		span.setAttribute("titan.request.outcome", outcome);
+		endWithError(span, error);
+	}
+
+	/**
+	 * Remembers the price returned by a `GetSwapPrice` request, so that later
+	 * spans can link to its request.
+	 */
+	swapPrice(span: Span, price: v1.SwapPrice) {
+		span.setAttribute("titan.price.id", price.id);
+		this.remember(price.id, {
+			context: span.spanContext(),
+			attributes: { "titan.price.id": price.id },
+		});
+	}
+
+	/**
+	 * Starts the span of a quote stream, linked to the span of the request that
+	 * started it.
+	 */
+	startStream(
+		streamId: number,
+		intervalMs: number,
+		request: v1.ClientRequest,
+		requestSpan: Span | undefined,
+	): Span {
+		return this.tracer.startSpan("titan.quote_stream", {
+			attributes: {
+				"titan.stream.id": streamId,
+				"titan.stream.interval_ms": intervalMs,
+				...swapAttributes(request.data),
+			},
+			links:
+				requestSpan === undefined
+					? undefined
+					: [{ context: requestSpan.spanContext() }],
+		});
+	}
+
+	/**
+	 * Records data received on a stream, remembering its quote and reference
+	 * IDs so that later spans can link to the stream.
+	 */
+	streamData(span: Span, packet: v1.StreamData) {
+		const quotes = packet.payload.SwapQuotes;
+		span.addEvent("StreamData", {
+			"titan.stream.seq": packet.seq,
+			"titan.quote.id": quotes.id,
+			"titan.quote.routes": Object.keys(quotes.quotes).length,
+		});
+		const context = span.spanContext();
+		this.remember(quotes.id, {
+			context,
+			attributes: {
+				"titan.quote.id": quotes.id,
+				"titan.stream.seq": packet.seq,
+			},
+		});
+		for (const [provider, route] of Object.entries(quotes.quotes)) {
+			if (route.referenceId !== undefined) {
+				this.remember(route.referenceId, {
+					context,
+					attributes: {
+						"titan.quote.id": quotes.id,
+						"titan.quote.provider": provider,
+						"titan.quote.reference_id": route.referenceId,
+					},
+				});
+			}
+		}
+	}
+
+	/** Records that a stream is continuing under a new ID after reconnecting. */
+	streamResumed(span: Span, streamId: number) {
+		span.addEvent("StreamResumed", { "titan.stream.id": streamId });
+		span.setAttribute("titan.stream.id", streamId);
+	}
+
+	/** Ends the span of a stream the server ended. */
+	streamEnd(span: Span, packet: v1.StreamEnd) {
+		const attributes: SpanAttributes = {};
+		if (packet.errorCode !== undefined) {
+			attributes["titan.error.code"] = packet.errorCode;
+		}
+		span.addEvent("StreamEnd", attributes);
+		if (packet.errorCode !== undefined) {
+			span.setStatus({
+				code: SpanStatusCode.ERROR,
+				message: packet.errorMessage,
+			});
+		}
+		span.end();
+	}
+
+	/** Ends the span of a stream that was cancelled or failed on the client. */
+	streamClosed(span: Span, error?: unknown) {
+		span.setAttribute("titan.stream.cancelled", error === undefined);
+		endWithError(span, error);
+	}
+
+	/**
+	 * Returns a link to the span that produced the quote, route or price with
+	 * the given ID, to add to the span of executing it.
+	 *
+	 * @param id - A `SwapQuotes.id`, `SwapRoute.referenceId` or `SwapPrice.id`.
+	 * @returns The link, or null if the ID is unknown or has been forgotten.
+	 */
+	linkQuote(id: string): SpanLink | null {
+		return this.quoteLinks.get(id) ?? null;
+	}
+
+	private remember(id: string, link: SpanLink) {
+		// Re-insert so that the ID counts as the most recent.
+		this.quoteLinks.delete(id);
+		this.quoteLinks.set(id, link);
+		while (this.quoteLinks.size > this.maxQuoteLinks) {
+			const oldest = this.quoteLinks.keys().next().value as string;
+			this.quoteLinks.delete(oldest);
+		}
+	}
+}
+
+function endWithError(span: Span, error: unknown) {
+	if (error !== undefined) {
+		if (error instanceof Error) {
+			span.recordException(error);
+		}
+		span.setStatus({
+			code: SpanStatusCode.ERROR,
+			message: error instanceof Error ? error.message : String(error),
+		});
+	}
+	span.end();
+}
@@ -0,0 +1,375 @@
+// Abstraction over the WebSocket implementation used to talk to the server,
+// along with adapters for the implementations available on common runtimes.
+
+/**
+ * Event delivered when the connection closes.
+ */
+export interface TransportCloseEvent {
+	code: number;
+	reason: string;
+	wasClean: boolean;
+}
+
+/**
+ * Event delivered for each message received from the server.
+ *
+ * Binary messages must be delivered as an ArrayBuffer; other message types are ignored.
+ */
+export interface TransportMessageEvent {
+	data: unknown;
+}
+
+/**
+ * An open, bidirectional connection to the server.
+ *
+ * The shape follows the W3C WebSocket API, so that any standard WebSocket can be
+ * adapted with little more than forwarding calls.
+ */
+export interface Transport {
+	/** Subprotocol selected by the server during the handshake. */
+	readonly protocol: string;
+	onmessage: ((event: TransportMessageEvent) => void) | null;
+	onclose: ((event: TransportCloseEvent) => void) | null;
+	onerror: ((error: Error) => void) | null;
+	/** Sends a binary message to the server. */
+	send(data: Uint8Array): void;
+	/** Starts closing the connection; `onclose` is called once it is closed. */
+	close(code?: number, reason?: string): void;
+	/**
+	 * Sends a protocol-level ping, resolving once the matching pong is received.
+	 * Only implemented by transports that support it.
+	 */
+	ping?(): Promise<void>;
+}
+
+/**
+ * Options for opening a connection.
+ */
+export interface TransportOptions {
+	/**
+	 * Extra HTTP headers to send with the handshake. Transports that cannot send
+	 * headers reject if any are given.
+	 */
+	headers?: Record<string, string>;
+	/** Aborts the connection attempt. */
+	signal?: AbortSignal;
+}
+
+/**
+ * Opens a connection to the given URL, offering the given subprotocols.
+ *
+ * The returned promise resolves once the connection is open and rejects if it
+ * could not be established.
+ */
+export type TransportFactory = (
+	url: string,
+	protocols: string[],
+	options?: TransportOptions,
+) => Promise<Transport>;
+
+/**
+ * Names of the built-in transports.
+ *
+ * - `"global"`: the runtime's global `WebSocket`, available in browsers, Deno,
+ *   Bun, Cloudflare Workers and NodeJS 22+. Does not support custom headers.
+ * - `"ws"`: the `ws` package, which must be installed separately. Supports pings.
+ * - `"websocket"`: the `websocket` package.
+ * - `"auto"`: the global `WebSocket` if there is one, otherwise the `websocket` package.
+ */
+export type TransportKind = "auto" | "global" | "ws" | "websocket";
+
+/**
+ * Error thrown when a transport fails to open a connection.
+ */
+export class TransportError extends Error {
+	/** Close code, if the connection was closed during the handshake. */
+	code?: number;
+
+	constructor(message: string, options?: { cause?: unknown; code?: number }) {
+		super(message);
+		this.name = "TransportError";
+		Object.setPrototypeOf(this, TransportError.prototype);
+
+		if (options?.cause !== undefined) {
+			this.cause = options.cause;
+		}
+		this.code = options?.code;
+	}
+}
+
+// Error events from W3C WebSockets are plain events carrying no details.
+function toError(event: unknown): Error {
+	if (event instanceof Error) {
+		return event;
+	}
+	const message = (event as { message?: unknown } | null)?.message;
+	return new TransportError(
+		typeof message === "string" ? message : "WebSocket error",
+		{ cause: event },
+	);
+}
+
+// Minimal shape of a W3C WebSocket, implemented by the global WebSocket on most
+// runtimes, and the `websocket` package's w3cwebsocket.
+interface W3CWebSocketLike {
+	readonly protocol: string;
+	binaryType: string;
+	onopen: ((event: unknown) => void) | null;
+	onmessage: ((event: { data: unknown }) => void) | null;
+	onclose: ((event: TransportCloseEvent) => void) | null;
+	onerror: ((event: unknown) => void) | null;
+	send(data: Uint8Array): void;
+	close(code?: number, reason?: string): void;
+}
+
+/**
+ * Adapts a W3C-compatible WebSocket to the {@link Transport} interface.
+ */
+export class W3CTransport implements Transport {
+	onmessage: ((event: TransportMessageEvent) => void) | null = null;
+	onclose: ((event: TransportCloseEvent) => void) | null = null;
+	onerror: ((error: Error) => void) | null = null;
+	protected socket: W3CWebSocketLike;
+
+	constructor(socket: W3CWebSocketLike) {
+		this.socket = socket;
+		socket.onmessage = (event) => {
+			this.onmessage?.({ data: event.data });
+		};
+		socket.onclose = (event) => {
+			this.onclose?.({
+				code: event.code,
+				reason: event.reason,
+				wasClean: event.wasClean,
+			});
+		};
+		socket.onerror = (event) => {
+			this.onerror?.(toError(event));
+		};
+	}
+
+	get protocol(): string {
+		return this.socket.protocol;
+	}
+
+	send(data: Uint8Array): void {
+		this.socket.send(data);
+	}
+
+	close(code?: number, reason?: string): void {
+		this.socket.close(code, reason);
+	}
+}
+
+// Waits for a W3C-compatible WebSocket to open, then wraps it in a transport.
+function whenOpen<T extends W3CWebSocketLike>(
+	socket: T,
+	wrap: (socket: T) => Transport,
+	signal?: AbortSignal,
+): Promise<Transport> {
+	socket.binaryType = "arraybuffer";
+	return new Promise<Transport>((resolve, reject) => {
+		const onAbort = () => {
+			reject(signal?.reason);
+			socket.close();
+		};
+		if (signal?.aborted) {
+			onAbort();
+			return;
+		}
+		signal?.addEventListener("abort", onAbort, { once: true });
+
+		socket.onopen = () => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve(wrap(socket));
+		};
+		socket.onerror = (event) => {
+			signal?.removeEventListener("abort", onAbort);
+			reject(toError(event));
+		};
+		socket.onclose = (event) => {
+			signal?.removeEventListener("abort", onAbort);
+			// No-op if the connection was already opened or errored.
+			reject(
+				new TransportError(
+					`WebSocket closed during handshake with code ${event.code}: ${event.reason}`,
+					{ code: event.code },
+				),
+			);
+		};
+	});
+}
+
+function hasHeaders(options?: TransportOptions): boolean {
+	return (
+		options?.headers !== undefined && Object.keys(options.headers).length > 0
+	);
+}
+
+type W3CWebSocketConstructor = new (
+	url: string,
+	protocols?: string[],
+) => W3CWebSocketLike;
+
+// The `websocket` package's w3cwebsocket additionally accepts handshake headers.
+type W3CWebSocketPackageConstructor = new (
+	url: string,
+	protocols?: string[],
+	origin?: string,
+	headers?: Record<string, string>,
+) => W3CWebSocketLike;
+
+/**
+ * Transport using the runtime's global `WebSocket`.
+ */
+export const globalWebSocketTransport: TransportFactory = async (
+	url,
+	protocols,
+	options,
+) => {
+	const WebSocket = (globalThis as { WebSocket?: W3CWebSocketConstructor })
+		.WebSocket;
+	if (WebSocket === undefined) {
+		throw new TransportError(
+			"No global WebSocket available in this environment",
+		);
+	}
+	if (hasHeaders(options)) {
+		throw new TransportError(
+			"The global WebSocket does not support custom headers",
+		);
+	}
+	return whenOpen(
+		new WebSocket(url, protocols),
+		(socket) => new W3CTransport(socket),
+		options?.signal,
+	);
+};
+
+// Resolves the value CommonJS modules export, however the bundler exposes it.
+function moduleExports<T>(mod: T | { default: T }): T {
+	return (mod as { default?: T }).default ?? (mod as T);
+}
+
+/**
+ * Transport using the `websocket` package.
+ */
+export const websocketPackageTransport: TransportFactory = async (
+	url,
+	protocols,
+	options,
+) => {
+	const pkg = moduleExports(await import("websocket"));
+	if (pkg?.w3cwebsocket === undefined) {
+		throw new TransportError(
+			"The websocket package is not available in this environment",
+		);
+	}
+	const WebSocket =
+		pkg.w3cwebsocket as unknown as W3CWebSocketPackageConstructor;
+	return whenOpen(
+		new WebSocket(url, protocols, undefined, options?.headers),
+		(socket) => new W3CTransport(socket),
+		options?.signal,
+	);
+};
+
+// Minimal shape of a WebSocket from the `ws` package, which in addition to
+// the W3C interface supports pings.
+interface WsWebSocketLike extends W3CWebSocketLike {
+	ping(): void;
+	on(event: "pong", listener: () => void): void;
+}
+
+type WsWebSocketConstructor = new (
+	url: string,
+	protocols?: string[],
+	options?: { headers?: Record<string, string> },
+) => WsWebSocketLike;
+
+/**
+ * Adapts a WebSocket from the `ws` package, adding support for pings.
+ */
+class WsTransport extends W3CTransport {
+	private pongWaiters: (() => void)[] = [];
+
+	constructor(socket: WsWebSocketLike) {
+		super(socket);
+		socket.on("pong", () => {
+			const waiters = this.pongWaiters;
+			this.pongWaiters = [];
+			for (const resolve of waiters) {
+				resolve();
+			}
+		});
+	}
+
+	ping(): Promise<void> {
+		return new Promise((resolve, reject) => {
+			try {
+				(this.socket as WsWebSocketLike).ping();
+				this.pongWaiters.push(resolve);
+			} catch (err) {
+				reject(err);
+			}
+		});
+	}
+}
+
+/**
+ * Transport using the `ws` package, which must be installed separately.
+ */
+export const wsTransport: TransportFactory = async (
+	url,
+	protocols,
+	options,
+) => {
+	let mod: { WebSocket?: WsWebSocketConstructor };
+	try {
+		mod = moduleExports(
+			(await import("ws")) as unknown as { WebSocket?: WsWebSocketConstructor },
+		);
+	} catch (err) {
+		throw new TransportError(
+			"The ws package is not installed, add it to your dependencies to use the ws transport",
+			{ cause: err },
+		);
+	}
+	const WebSocket = mod?.WebSocket;
+	if (WebSocket === undefined) {
+		throw new TransportError(
+			"The ws package is not available in this environment",
+		);
+	}
+	return whenOpen(
+		new WebSocket(url, protocols, { headers: options?.headers }),
+		(socket) => new WsTransport(socket),
+		options?.signal,
+	);
+};
+
+/**
+ * Returns the transport factory for the given setting.
+ */
+export function resolveTransport(
+	transport: TransportKind | TransportFactory = "auto",
+): TransportFactory {
+	if (typeof transport === "function") {
+		return transport;
+	}
+	switch (transport) {
+		case "auto":
+			return typeof (globalThis as { WebSocket?: unknown }).WebSocket ===
+				"function"
+				? globalWebSocketTransport
+				: websocketPackageTransport;
+		case "global":
+			return globalWebSocketTransport;
+		case "ws":
+			return wsTransport;
+		case "websocket":
+			return websocketPackageTransport;
+		default:
+			throw new TypeError(`Unknown transport ${transport}`);
+	}
+}
@@ -9,6 +9,14 @@ export const WEBSOCKET_SUBPROTOCOLS = [
 	WEBSOCKET_SUBPROTO_BASE,
 ];
 
+/**
+ * Compression schemes that can be negotiated through the WebSocket subprotocol,
+ * in the default order of preference.
+ */
+export const WEBSOCKET_COMPRESSIONS = ["zstd", "brotli", "gzip"] as const;
+
+export type WebSocketCompression = (typeof WEBSOCKET_COMPRESSIONS)[number];
+
 /****** Client Requests ******/
 /**
  * Denotes the type is encoded as an unsigned 64-bit integer.
@@ -18,6 +26,20 @@ export const WEBSOCKET_SUBPROTOCOLS = [
  */
 export type Uint64 = number | bigint;
 
+/**
+ * `T`, a message holding unsigned 64-bit integers such as {@link SwapQuotes},
+ * as decoded by a client whose `uint64` mode decodes all of them as `U`. The
+ * types of `T` are kept as they are if `U` is the whole {@link Uint64}, as in
+ * the default `"mixed"` mode.
+ */
+export type WithUint64<T, U extends Uint64> = Uint64 extends U
+	? T
+	: T extends SwapQuotes<Uint64>
+		? SwapQuotes<U>
+		: T extends SwapPrice
+			? SwapPrice<U>
+			: T;
+
 /**
  * Request sent by the client to the server.
  */
@@ -138,6 +160,13 @@ export interface QuoteUpdateParams {
 	// the worst will be filtered out, based on amount in/out depending on swap mode.
 	//
 	// If not specified, the server default will be used.
+	//
+	// Sent as `num_quotes`, like the matching field of QuoteUpdateSettings.
+	num_quotes?: number;
+	/**
+	 * @deprecated Use `num_quotes`, the name the server reads. Still accepted,
+	 * and sent as `num_quotes` if that is not set.
+	 */
 	numQuotes?: number;
 }
 
@@ -179,10 +208,14 @@ export interface SwapPriceRequest {
 
 /****** Server Messages ******/
 
-export type ServerMessage =
+/**
+ * Message sent by the server to the client. The unsigned 64-bit integers of
+ * stream data are typed as `U`, see {@link SwapQuotes}.
+ */
+export type ServerMessage<U extends Uint64 = number> =
 	| { Response: ResponseSuccess }
 	| { Error: ResponseError }
-	| { StreamData: StreamData }
+	| { StreamData: StreamData<U> }
 	| { StreamEnd: StreamEnd };
 
 export type ResponseData =
@@ -223,15 +256,17 @@ export interface ResponseError {
 	message: string;
 }
 
-export type StreamDataPayload = { SwapQuotes: SwapQuotes };
+export type StreamDataPayload<U extends Uint64 = number> = {
+	SwapQuotes: SwapQuotes<U>;
+};
 
-export interface StreamData {
+export interface StreamData<U extends Uint64 = number> {
 	// ID of the stream.
 	id: number;
 	// Sequence number of this data packet.
 	seq: number;
 	// Data payload.
-	payload: StreamDataPayload;
+	payload: StreamDataPayload<U>;
 }
 
 export interface StreamEnd {
@@ -342,7 +377,12 @@ export enum SwapVersion {
 	V3 = 3,
 }
 
-export interface SwapQuotes {
+/**
+ * Quotes of a stream. Their unsigned 64-bit integers are typed as `U`: numbers
+ * by default, though values of 2^32 and above are decoded as bigints unless
+ * the `uint64` connect option says otherwise.
+ */
+export interface SwapQuotes<U extends Uint64 = number> {
 	// Unique Quote identifier.
 	id: string;
 	// Address of the input mint for this quote.
@@ -352,42 +392,42 @@ export interface SwapQuotes {
 	// What swap mode was used for the quotes.
 	swapMode: SwapMode;
 	// Amount used for the quotes.
-	amount: number;
+	amount: U;
 	// A mapping of a provider identifier to their quoted route.
-	quotes: { [key: string]: SwapRoute };
+	quotes: { [key: string]: SwapRoute<U> };
 }
 
-export interface SwapRoute {
+export interface SwapRoute<U extends Uint64 = number> {
 	// How many input tokens are expected to go through this route.
-	inAmount: number;
+	inAmount: U;
 	// How many output tokens are expected to come out of this route.
-	outAmount: number;
+	outAmount: U;
 	// Amount of slippage encurred, in basis points.
 	slippageBps: number;
 	// Platform fee information; if such a fee is charged by the provider.
-	platformFee?: PlatformFee;
+	platformFee?: PlatformFee<U>;
 	// Topologically ordered DAG containing the steps that comprise this route.
-	steps: RoutePlanStep[];
+	steps: RoutePlanStep<U>[];
 	// Instructions needed to execute the route.
 	instructions: Instruction[];
 	// Address lookup tables necessary to load.
 	addressLookupTables: Pubkey[];
 	// Context slot for the route provided.
-	contextSlot?: number;
+	contextSlot?: U;
 	// Amount of time taken to generate the quote in nanoseconds; if known.
-	timeTaken?: number;
+	timeTaken?: U;
 	// If this route expires by time, the time at which it expires,
 	// as a millisecond UNIX timestamp.
-	expiresAtMs?: number;
+	expiresAtMs?: U;
 	// If this route expires by slot, the last slot at which the route is valid.
-	expiresAfterSlot?: number;
+	expiresAfterSlot?: U;
 	// The number of compute units this transaction is expected to consume, if known.
-	computeUnits?: number;
+	computeUnits?: U;
 	// Recommended number of compute units to use for the budget for this route, if known.
 	// The number of compute units used by a route can fluctuate based on changes on-chain,
 	// so the server will recommend a higher limit that should allow the transaction to execute
 	// in the vast majority of cases.
-	computeUnitsSafe?: number;
+	computeUnitsSafe?: U;
 	// Transaction for the user to sign, if instructions not provided.
 	transaction?: Uint8Array;
 	// Provider-specific reference ID for this quote.
@@ -396,7 +436,7 @@ export interface SwapRoute {
 	referenceId?: string;
 }
 
-export interface RoutePlanStep {
+export interface RoutePlanStep<U extends Uint64 = number> {
 	// Which AMM is being executed on at this step.
 	ammKey: Uint8Array;
 	// Label for the protocol being used.
@@ -408,28 +448,29 @@ export interface RoutePlanStep {
 	// Address of the output mint for this swap.
 	outputMint: Uint8Array;
 	// How many input tokens are expected to go through this step.
-	inAmount: number;
+	inAmount: U;
 	// How many output tokens are expected to come out of this step.
-	outAmount: number;
+	outAmount: U;
 	// What what proportion, in parts per billion, of the order flow is allocated
 	// to flow through this pool.
 	allocPpb: number;
 	// Address of the mint in which the fee is charged.
 	feeMint?: Uint8Array;
 	// The amount of tokens charged as a fee for this swap.
-	feeAmount?: number;
+	feeAmount?: U;
 	// Context slot for the pool data, if known.
-	contextSlot?: number;
+	contextSlot?: U;
 }
 
-export interface PlatformFee {
+export interface PlatformFee<U extends Uint64 = number> {
 	/// Amount of tokens taken as a fee.
-	amount: number;
-	/// Fee percentage, in basis points.
+	amount: U;
+	/// Fee percentage, in basis points. Sent in snake_case, unlike the
+	/// `feeBps` field of TransactionParams.
 	fee_bps: number;
 }
 
-export interface SwapPrice {
+export interface SwapPrice<U extends Uint64 = Uint64> {
 	/** Identifier for this particular set of prices. */
 	id: string,
 	/** Address of the input mint for this price. */
@@ -437,7 +478,7 @@ export interface SwapPrice {
 	/** Address of the output mint for this price. */
 	outputMint: Pubkey,
 	/** Amount that was used for the price. */
-	amountIn: Uint64,
+	amountIn: U,
 	/** The amount out of the best simulated quote for pricing. */
-	amountOut: Uint64,
+	amountOut: U,
 }
\ No newline at end of file
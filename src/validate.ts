@@ -0,0 +1,714 @@
+// Runtime validation of values against the wire types of the protocol, built
+// from a handful of composable validators.
+
+import { type AccountMeta, type Instruction, SwapMode } from "./types/common";
+import * as v1 from "./types/v1";
+
+/**
+ * A problem found while validating a value.
+ */
+export interface ValidationIssue {
+	/**
+	 * Where the problem was found, such as
+	 * `$.StreamData.payload.SwapQuotes.quotes.Titan.instructions[0].p`.
+	 */
+	path: string;
+	/** What is wrong with the value at `path`. */
+	message: string;
+}
+
+/**
+ * Checks that a value is of type `T`.
+ */
+export interface Validator<T> {
+	/** Describes the expected value, for messages. */
+	readonly expected: string;
+	/** Whether the value may be absent from an object. */
+	readonly optional?: boolean;
+	/**
+	 * Appends everything wrong with `value`, found at `path`, to `issues`.
+	 */
+	check(value: unknown, path: string, issues: ValidationIssue[]): void;
+	/**
+	 * Returns `value`, found at `path`, with every unsigned 64-bit integer in it
+	 * replaced by the result of `map`. Objects and arrays are copied rather than
+	 * modified, and parts that do not match the validator are left as they are.
+	 */
+	mapUint64(value: unknown, map: Uint64Mapper, path: string): unknown;
+	// Only used to carry the validated type.
+	readonly _type?: T;
+}
+
+/**
+ * Replaces an unsigned 64-bit integer found at `path`, see {@link mapUint64}.
+ */
+export type Uint64Mapper = (value: unknown, path: string) => unknown;
+
+/**
+ * Error thrown by {@link assertValid} for invalid values.
+ */
+export class ValidationError extends Error {
+	/** Everything that is wrong with the value. */
+	issues: ValidationIssue[];
+
+	constructor(issues: ValidationIssue[]) {
+		super(`Invalid value: ${formatIssues(issues)}`);
+		this.name = "ValidationError";
+		Object.setPrototypeOf(this, ValidationError.prototype);
+
+		this.issues = issues;
+	}
+}
+
+/**
+ * Returns everything wrong with the value, or an empty list if it is valid.
+ *
+ * @param path - Path of the value, prefixed to the path of every issue.
+ */
+export function validate<T>(
+	validator: Validator<T>,
+	value: unknown,
+	path = "$",
+): ValidationIssue[] {
+	const issues: ValidationIssue[] = [];
+	validator.check(value, path, issues);
+	return issues;
+}
+
+/**
+ * Whether the value passes the validator.
+ */
+export function isValid<T>(
+	validator: Validator<T>,
+	value: unknown,
+): value is T {
+	return validate(validator, value).length === 0;
+}
+
+/**
+ * Throws a {@link ValidationError} if the value does not pass the validator.
+ */
+export function assertValid<T>(
+	validator: Validator<T>,
+	value: unknown,
+): asserts value is T {
+	const issues = validate(validator, value);
+	if (issues.length > 0) {
+		throw new ValidationError(issues);
+	}
+}
+
+/**
+ * Returns the value with every field the validator expects to be an unsigned
+ * 64-bit integer replaced by the result of `map`, such as to convert them all
+ * to bigint.
+ *
+ * @param path - Path of the value, passed on to `map` with the path of each
+ *   integer.
+ */
+export function mapUint64<T>(
+	validator: Validator<T>,
+	value: unknown,
+	map: Uint64Mapper,
+	path = "$",
+): unknown {
+	return validator.mapUint64(value, map, path);
+}
+
+/**
+ * Summarizes issues in a single line, listing the first few.
+ */
+export function formatIssues(issues: ValidationIssue[], max = 3): string {
+	const shown = issues
+		.slice(0, max)
+		.map((issue) => `${issue.path}: ${issue.message}`)
+		.join("; ");
+	const more = issues.length - max;
+	return more > 0 ? `${shown} (and ${more} more)` : shown;
+}
+
+// Short description of the type of a value, for messages.
+function describe(value: unknown): string {
+	if (value === null) {
+		return "null";
+	}
+	if (Array.isArray(value)) {
+		return "array";
+	}
+	if (value instanceof Uint8Array) {
+		return `${value.byteLength} bytes`;
+	}
+	if (typeof value === "string") {
+		return `string ${JSON.stringify(value.length > 20 ? `${value.slice(0, 20)}...` : value)}`;
+	}
+	if (typeof value === "number" || typeof value === "bigint") {
+		return `${typeof value} ${value}`;
+	}
+	return typeof value;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		!Array.isArray(value) &&
+		!(value instanceof Uint8Array)
+	);
+}
+
+function keyPath(path: string, key: string): string {
+	return /^[A-Za-z_$][\w$]*$/.test(key)
+		? `${path}.${key}`
+		: `${path}[${JSON.stringify(key)}]`;
+}
+
+// Validator accepting values for which the predicate holds.
+function primitive<T>(
+	expected: string,
+	test: (value: unknown) => boolean,
+): Validator<T> {
+	return {
+		expected,
+		check(value, path, issues) {
+			if (!test(value)) {
+				issues.push({
+					path,
+					message: `expected ${expected}, got ${describe(value)}`,
+				});
+			}
+		},
+		mapUint64: (value) => value,
+	};
+}
+
+const MAX_UINT64 = 2n ** 64n - 1n;
+
+/** Any string. */
+export const string: Validator<string> = primitive(
+	"string",
+	(value) => typeof value === "string",
+);
+
+/** true or false. */
+export const boolean: Validator<boolean> = primitive(
+	"boolean",
+	(value) => typeof value === "boolean",
+);
+
+/** Any finite number. */
+export const number: Validator<number> = primitive(
+	"number",
+	(value) => typeof value === "number" && Number.isFinite(value),
+);
+
+/** An integer that fits in a number without losing precision. */
+export const integer: Validator<number> = primitive("integer", (value) =>
+	Number.isSafeInteger(value),
+);
+
+/** A non-negative integer that fits in a number without losing precision. */
+export const uint: Validator<number> = primitive(
+	"unsigned integer",
+	(value) => Number.isSafeInteger(value) && (value as number) >= 0,
+);
+
+/**
+ * An unsigned 64-bit integer, decoded as a number or, if it was encoded as a
+ * 64-bit value, a bigint.
+ */
+export const uint64: Validator<v1.Uint64> = {
+	...primitive<v1.Uint64>(
+		"unsigned 64-bit integer",
+		(value) =>
+			(Number.isSafeInteger(value) && (value as number) >= 0) ||
+			(typeof value === "bigint" && value >= 0n && value <= MAX_UINT64),
+	),
+	mapUint64: (value, map, path) => map(value, path),
+};
+
+/**
+ * Binary data, of exactly `length` bytes if given.
+ */
+export function bytes(length?: number): Validator<Uint8Array> {
+	return primitive(
+		length === undefined ? "bytes" : `${length} bytes`,
+		(value) =>
+			value instanceof Uint8Array &&
+			(length === undefined || value.byteLength === length),
+	);
+}
+
+/**
+ * One of the given values.
+ */
+export function literal<T extends string | number>(
+	...values: T[]
+): Validator<T> {
+	return primitive(
+		values.map((value) => JSON.stringify(value)).join(" or "),
+		(value) => values.includes(value as T),
+	);
+}
+
+/**
+ * An array whose items all pass the given validator.
+ */
+export function array<T>(item: Validator<T>): Validator<T[]> {
+	const expected = `array of ${item.expected}`;
+	return {
+		expected,
+		check(value, path, issues) {
+			if (!Array.isArray(value)) {
+				issues.push({
+					path,
+					message: `expected ${expected}, got ${describe(value)}`,
+				});
+				return;
+			}
+			value.forEach((entry, index) => {
+				item.check(entry, `${path}[${index}]`, issues);
+			});
+		},
+		mapUint64(value, map, path) {
+			if (!Array.isArray(value)) {
+				return value;
+			}
+			return value.map((entry, index) =>
+				item.mapUint64(entry, map, `${path}[${index}]`),
+			);
+		},
+	};
+}
+
+/**
+ * An object used as a map from strings to values passing the given validator.
+ */
+export function record<T>(item: Validator<T>): Validator<Record<string, T>> {
+	const expected = `map of ${item.expected}`;
+	return {
+		expected,
+		check(value, path, issues) {
+			if (!isObject(value)) {
+				issues.push({
+					path,
+					message: `expected ${expected}, got ${describe(value)}`,
+				});
+				return;
+			}
+			for (const [key, entry] of Object.entries(value)) {
+				item.check(entry, keyPath(path, key), issues);
+			}
+		},
+		mapUint64(value, map, path) {
+			if (!isObject(value)) {
+				return value;
+			}
+			const mapped: Record<string, unknown> = {};
+			for (const [key, entry] of Object.entries(value)) {
+				mapped[key] = item.mapUint64(entry, map, keyPath(path, key));
+			}
+			return mapped;
+		},
+	};
+}
+
+/**
+ * Either a value passing the given validator or nothing. Absent fields of
+ * objects, as well as null, count as nothing.
+ */
+export function optional<T>(item: Validator<T>): Validator<T | undefined> {
+	return {
+		expected: item.expected,
+		optional: true,
+		check(value, path, issues) {
+			if (value !== undefined && value !== null) {
+				item.check(value, path, issues);
+			}
+		},
+		mapUint64(value, map, path) {
+			return value === undefined || value === null
+				? value
+				: item.mapUint64(value, map, path);
+		},
+	};
+}
+
+/**
+ * Validators for every field of `T`.
+ */
+export type Shape<T> = { [K in keyof T]-?: Validator<unknown> };
+
+/**
+ * An object whose fields pass the given validators. Fields that are not part
+ * of the shape are allowed, so that newer servers can add fields.
+ */
+export function object<T>(shape: Shape<T>): Validator<T> {
+	const fields = Object.entries(shape) as [string, Validator<unknown>][];
+	return {
+		expected: "object",
+		check(value, path, issues) {
+			if (!isObject(value)) {
+				issues.push({
+					path,
+					message: `expected object, got ${describe(value)}`,
+				});
+				return;
+			}
+			for (const [key, field] of fields) {
+				const entry = value[key];
+				if (entry === undefined && field.optional !== true) {
+					issues.push({
+						path: keyPath(path, key),
+						message: `missing ${field.expected}`,
+					});
+				} else {
+					field.check(entry, keyPath(path, key), issues);
+				}
+			}
+		},
+		mapUint64(value, map, path) {
+			if (!isObject(value)) {
+				return value;
+			}
+			const mapped = { ...value };
+			for (const [key, field] of fields) {
+				if (key in value) {
+					mapped[key] = field.mapUint64(value[key], map, keyPath(path, key));
+				}
+			}
+			return mapped;
+		},
+	};
+}
+
+type VariantKeys<T> = T extends unknown ? keyof T : never;
+
+/**
+ * A union encoded as an object with a single key naming the variant, such as
+ * `{ GetInfo: { ... } }`, whose value passes the validator for that variant.
+ *
+ * @param allowUnknown - Whether to accept variants without a validator, left
+ *   for the caller to handle.
+ */
+export function tagged<T>(
+	variants: Record<VariantKeys<T>, Validator<unknown>>,
+	allowUnknown = false,
+): Validator<T> {
+	const known = variants as Record<string, Validator<unknown>>;
+	const expected = Object.keys(known).join(" | ");
+	return {
+		expected,
+		check(value, path, issues) {
+			if (!isObject(value)) {
+				issues.push({
+					path,
+					message: `expected one of ${expected}, got ${describe(value)}`,
+				});
+				return;
+			}
+			const keys = Object.keys(value);
+			if (keys.length !== 1) {
+				issues.push({
+					path,
+					message: `expected a single key of ${expected}, got ${keys.length === 0 ? "none" : keys.join(", ")}`,
+				});
+				return;
+			}
+			const variant = Object.hasOwn(known, keys[0])
+				? known[keys[0]]
+				: undefined;
+			if (variant === undefined) {
+				if (allowUnknown) {
+					return;
+				}
+				issues.push({
+					path,
+					message: `unknown variant ${keys[0]}, expected one of ${expected}`,
+				});
+				return;
+			}
+			variant.check(value[keys[0]], keyPath(path, keys[0]), issues);
+		},
+		mapUint64(value, map, path) {
+			if (!isObject(value)) {
+				return value;
+			}
+			const keys = Object.keys(value);
+			if (keys.length !== 1 || !Object.hasOwn(known, keys[0])) {
+				return value;
+			}
+			return {
+				[keys[0]]: known[keys[0]].mapUint64(
+					value[keys[0]],
+					map,
+					keyPath(path, keys[0]),
+				),
+			};
+		},
+	};
+}
+
+/****** Common types ******/
+
+/** A Solana account public key. */
+export const pubkey: Validator<Uint8Array> = bytes(32);
+
+export const accountMeta = object<AccountMeta>({
+	p: pubkey,
+	s: boolean,
+	w: boolean,
+});
+
+export const instruction = object<Instruction>({
+	p: pubkey,
+	a: array(accountMeta),
+	d: bytes(),
+});
+
+export const swapMode = literal(SwapMode.ExactIn, SwapMode.ExactOut);
+
+/****** Client requests ******/
+
+export const swapVersion = literal(v1.SwapVersion.V2, v1.SwapVersion.V3);
+
+export const getInfoRequest = object<v1.GetInfoRequest>({});
+
+export const swapParams = object<v1.SwapParams>({
+	inputMint: pubkey,
+	outputMint: pubkey,
+	amount: uint64,
+	swapMode: optional(swapMode),
+	slippageBps: optional(uint),
+	dexes: optional(array(string)),
+	excludeDexes: optional(array(string)),
+	onlyDirectRoutes: optional(boolean),
+	addSizeConstraint: optional(boolean),
+	sizeConstraint: optional(uint),
+	providers: optional(array(string)),
+	noVoteAccounts: optional(boolean),
+	venueAllowlist: optional(array(pubkey)),
+	venueBanlist: optional(array(pubkey)),
+});
+
+export const transactionParams = object<v1.TransactionParams>({
+	userPublicKey: pubkey,
+	closeInputTokenAccount: optional(boolean),
+	createOutputTokenAccount: optional(boolean),
+	feeAccount: optional(pubkey),
+	feeBps: optional(uint),
+	feeFromInputMint: optional(boolean),
+	outputAccount: optional(pubkey),
+	outputWsol: optional(boolean),
+	titanSwapVersion: optional(swapVersion),
+	positiveSlippageFeeReceiver: optional(pubkey),
+	payer: optional(pubkey),
+});
+
+export const quoteUpdateParams = object<v1.QuoteUpdateParams>({
+	intervalMs: optional(uint64),
+	num_quotes: optional(uint),
+	numQuotes: optional(uint),
+});
+
+export const swapQuoteRequest = object<v1.SwapQuoteRequest>({
+	swap: swapParams,
+	transaction: transactionParams,
+	update: optional(quoteUpdateParams),
+});
+
+export const stopStreamRequest = object<v1.StopStreamRequest>({ id: uint });
+
+export const getVenuesRequest = object<v1.GetVenuesRequest>({
+	includeProgramIds: optional(boolean),
+});
+
+export const listProvidersRequest = object<v1.ListProvidersRequest>({
+	includeIcons: optional(boolean),
+});
+
+export const swapPriceRequest = object<v1.SwapPriceRequest>({
+	inputMint: pubkey,
+	outputMint: pubkey,
+	amount: uint64,
+	dexes: optional(array(string)),
+	excludeDexes: optional(array(string)),
+});
+
+export const requestData = tagged<v1.RequestData>({
+	GetInfo: getInfoRequest,
+	NewSwapQuoteStream: swapQuoteRequest,
+	StopStream: stopStreamRequest,
+	GetVenues: getVenuesRequest,
+	ListProviders: listProvidersRequest,
+	GetSwapPrice: swapPriceRequest,
+});
+
+export const clientRequest = object<v1.ClientRequest>({
+	id: uint,
+	data: requestData,
+});
+
+/****** Server messages ******/
+
+// Bounds and default of a server setting.
+const range = object<{ min: number; max: number; default: number }>({
+	min: uint,
+	max: uint,
+	default: uint,
+});
+
+export const versionInfo = object<v1.VersionInfo>({
+	major: uint,
+	minor: uint,
+	patch: uint,
+});
+
+export const serverSettings = object<v1.ServerSettings>({
+	quoteUpdate: object<v1.QuoteUpdateSettings>({
+		intervalMs: range,
+		num_quotes: range,
+	}),
+	swap: object<v1.SwapSettings>({
+		slippageBps: range,
+		onlyDirectRoutes: boolean,
+		addSizeConstraint: boolean,
+	}),
+	transaction: object<v1.TransactionSettings>({
+		closeInputTokenAccount: boolean,
+		createOutputTokenAccount: boolean,
+	}),
+	connection: object<v1.ConnectionSettings>({ concurrentStreams: uint }),
+});
+
+export const serverInfo = object<v1.ServerInfo>({
+	protocolVersion: versionInfo,
+	settings: serverSettings,
+});
+
+export const quoteSwapStreamResponse = object<v1.QuoteSwapStreamResponse>({
+	intervalMs: uint,
+});
+
+export const stopStreamResponse = object<v1.StopStreamResponse>({ id: uint });
+
+export const venueInfo = object<v1.VenueInfo>({
+	labels: array(string),
+	programIds: optional(array(pubkey)),
+});
+
+export const providerKind = literal<v1.ProviderKind>("DexAggregator", "RFQ");
+
+export const providerInfo = object<v1.ProviderInfo>({
+	id: string,
+	name: string,
+	kind: providerKind,
+	iconUri48: optional(string),
+});
+
+export const swapPrice = object<v1.SwapPrice>({
+	id: string,
+	inputMint: pubkey,
+	outputMint: pubkey,
+	amountIn: uint64,
+	amountOut: uint64,
+});
+
+export const platformFee = object<v1.PlatformFee>({
+	amount: uint64,
+	fee_bps: uint,
+});
+
+export const routePlanStep = object<v1.RoutePlanStep>({
+	ammKey: pubkey,
+	label: string,
+	inputMint: pubkey,
+	outputMint: pubkey,
+	inAmount: uint64,
+	outAmount: uint64,
+	allocPpb: uint,
+	feeMint: optional(pubkey),
+	feeAmount: optional(uint64),
+	contextSlot: optional(uint64),
+});
+
+export const swapRoute = object<v1.SwapRoute>({
+	inAmount: uint64,
+	outAmount: uint64,
+	slippageBps: uint,
+	platformFee: optional(platformFee),
+	steps: array(routePlanStep),
+	instructions: array(instruction),
+	addressLookupTables: array(pubkey),
+	contextSlot: optional(uint64),
+	timeTaken: optional(uint64),
+	expiresAtMs: optional(uint64),
+	expiresAfterSlot: optional(uint64),
+	computeUnits: optional(uint64),
+	computeUnitsSafe: optional(uint64),
+	transaction: optional(bytes()),
+	referenceId: optional(string),
+});
+
+export const swapQuotes = object<v1.SwapQuotes>({
+	id: string,
+	inputMint: pubkey,
+	outputMint: pubkey,
+	swapMode,
+	amount: uint64,
+	quotes: record(swapRoute),
+});
+
+export const streamDataType = literal(v1.StreamDataType.SwapQuotes);
+
+export const streamStart = object<v1.StreamStart>({
+	id: uint,
+	dataType: streamDataType,
+});
+
+export const responseData = tagged<v1.ResponseData>({
+	GetInfo: serverInfo,
+	NewSwapQuoteStream: quoteSwapStreamResponse,
+	StreamStopped: stopStreamResponse,
+	GetVenues: venueInfo,
+	ListProviders: array(providerInfo),
+	GetSwapPrice: swapPrice,
+});
+
+export const responseSuccess = object<v1.ResponseSuccess>({
+	requestId: uint,
+	data: responseData,
+	stream: optional(streamStart),
+});
+
+export const responseError = object<v1.ResponseError>({
+	requestId: uint,
+	code: integer,
+	message: string,
+});
+
+export const streamDataPayload = tagged<v1.StreamDataPayload>({
+	SwapQuotes: swapQuotes,
+});
+
+export const streamData = object<v1.StreamData>({
+	id: uint,
+	seq: uint,
+	payload: streamDataPayload,
+});
+
+export const streamEnd = object<v1.StreamEnd>({
+	id: uint,
+	errorCode: optional(integer),
+	errorMessage: optional(string),
+});
+
+// Messages of unknown types are reported by the client as such.
+export const serverMessage = tagged<v1.ServerMessage>(
+	{
+		Response: responseSuccess,
+		Error: responseError,
+		StreamData: streamData,
+		StreamEnd: streamEnd,
+	},
+	true,
+);
@@ -0,0 +1,491 @@
+// Decoding of server messages on worker threads, so that large frames do not
+// block the thread running the client.
+
+import { Decoder } from "@msgpack/msgpack";
+import { brotliDecompress, gunzip, zstdDecompress } from "http-encoding";
+
+import { DecodeError, type DecodeErrorKind, decompressFrame } from "./codec";
+import {
+	BrotliCompressor,
+	type Compressor,
+	GzipCompressor,
+	ZstdCompressor,
+	limitZstdDecompress,
+} from "./compression";
+import {
+	type LimitViolation,
+	type ResolvedDecodeLimits,
+	scanMessagePack,
+} from "./limits";
+import "./polyfills";
+
+/**
+ * Message asking a worker to decode a frame.
+ */
+export interface DecodeRequest {
+	id: number;
+	/** The frame as received, or already decompressed if `compression` is null. */
+	data: Uint8Array;
+	/** Name of the built-in compression to undo, or null if none. */
+	compression: string | null;
+	/** Limits to check the frame against, if any. */
+	limits?: ResolvedDecodeLimits;
+}
+
+/**
+ * Message from a worker with the result of a {@link DecodeRequest}.
+ */
+export interface DecodeReply {
+	id: number;
+	/** The decoded value, if successful. */
+	decoded?: unknown;
+	/** Size of the decompressed frame, if successful. */
+	messageBytes?: number;
+	/** Why the frame could not be decoded, if it failed. */
+	error?: string;
+	/** The kind of the `DecodeError` to fail with, if it failed. */
+	errorKind?: DecodeErrorKind;
+}
+
+/**
+ * A decompressed and decoded frame.
+ */
+export interface DecodedFrame {
+	decoded: unknown;
+	/** Size of the MessagePack encoded message, after decompression. */
+	messageBytes: number;
+}
+
+/**
+ * A worker running {@link serveDecodeRequests}, as seen from the thread that
+ * started it.
+ */
+export interface CodecWorker {
+	onmessage: ((reply: DecodeReply) => void) | null;
+	/** Called if the worker fails or exits, after which it is not used again. */
+	onerror: ((error: Error) => void) | null;
+	postMessage(request: DecodeRequest): void;
+	/** Stops the worker, resolving once it has stopped if it can tell. */
+	terminate(): Promise<unknown>;
+}
+
+/**
+ * Starts a new worker.
+ */
+export type CodecWorkerFactory = () => Promise<CodecWorker>;
+
+/**
+ * The end of a worker that receives requests: `parentPort` of `worker_threads`
+ * in Node, or the global scope of a Web Worker.
+ */
+export type WorkerPort =
+	| {
+			on(event: "message", listener: (message: DecodeRequest) => void): void;
+			postMessage(message: DecodeReply, transfer: ArrayBuffer[]): void;
+	  }
+	| {
+			addEventListener(
+				type: "message",
+				listener: (event: { data: DecodeRequest }) => void,
+			): void;
+			postMessage(message: DecodeReply, transfer: ArrayBuffer[]): void;
+	  };
+
+type Decompress = (
+	data: Uint8Array,
+	options?: { maxOutputLength?: number },
+) => Promise<Uint8Array>;
+
+type Scan = (
+	bytes: Uint8Array,
+	limits: ResolvedDecodeLimits,
+) => LimitViolation | null;
+
+// Answers decode requests arriving on the port. Only uses its arguments and
+// globals, so that its source can be evaluated on its own in a Node worker.
+function serve(
+	port: WorkerPort,
+	decoder: { decode(data: Uint8Array): unknown },
+	decompressors: Record<string, Decompress>,
+	scan: Scan,
+): void {
+	const handle = async (request: DecodeRequest) => {
+		const limits = request.limits;
+		const fail = (errorKind: DecodeErrorKind, error: string) =>
+			port.postMessage({ id: request.id, error, errorKind }, []);
+		const describe = (err: unknown) =>
+			err instanceof Error ? err.message : String(err);
+		// Whether the frame is still being decompressed, to tell what failed.
+		let decompressing = true;
+		try {
+			let bytes = request.data;
+			if (request.compression !== null) {
+				const decompress = decompressors[request.compression];
+				if (decompress === undefined) {
+					throw new Error(`unsupported compression ${request.compression}`);
+				}
+				bytes = await decompress(
+					bytes,
+					limits === undefined
+						? undefined
+						: { maxOutputLength: limits.maxMessageBytes },
+				);
+			}
+			decompressing = false;
+			if (limits !== undefined) {
+				if (bytes.byteLength > limits.maxMessageBytes) {
+					fail(
+						"messageSize",
+						`message of ${bytes.byteLength} bytes is larger than ${limits.maxMessageBytes}`,
+					);
+					return;
+				}
+				const violation = scan(bytes, limits);
+				if (violation !== null) {
+					fail(violation.kind, violation.reason);
+					return;
+				}
+			}
+			const decoded = decoder.decode(bytes);
+			// Binary fields are views of the decompressed frame, which is handed
+			// over rather than copied, unless it shares its buffer with others.
+			const transfer =
+				bytes.buffer instanceof ArrayBuffer &&
+				bytes.byteOffset === 0 &&
+				bytes.byteLength === bytes.buffer.byteLength
+					? [bytes.buffer]
+					: [];
+			port.postMessage(
+				{ id: request.id, decoded, messageBytes: bytes.byteLength },
+				transfer,
+			);
+		} catch (err) {
+			if (!decompressing) {
+				fail("malformed", `invalid MessagePack: ${describe(err)}`);
+			} else if ((err as { code?: unknown }).code === "ERR_BUFFER_TOO_LARGE") {
+				fail(
+					"messageSize",
+					`Decompressed message is larger than ${limits?.maxMessageBytes} bytes`,
+				);
+			} else {
+				fail("decompress", `failed to decompress: ${describe(err)}`);
+			}
+		}
+	};
+	if ("on" in port) {
+		port.on("message", handle);
+	} else {
+		port.addEventListener("message", (event) => handle(event.data));
+	}
+}
+
+/**
+ * Answers the decode requests of a {@link WorkerPool}, to be called by the
+ * script of a worker started by a custom {@link CodecWorkerFactory}, such as:
+ *
+ * ```typescript
+ * import { worker } from "@titanexchange/sdk-ts";
+ *
+ * worker.serveDecodeRequests(self);
+ * ```
+ */
+export function serveDecodeRequests(port: WorkerPort): void {
+	serve(
+		port,
+		new Decoder({ useBigInt64: true }),
+		{
+			zstd: limitZstdDecompress(zstdDecompress),
+			brotli: brotliDecompress as Decompress,
+			gzip: gunzip,
+		},
+		scanMessagePack,
+	);
+}
+
+// Source of the Node workers, loading the same modules as the client.
+const NODE_WORKER_SOURCE = `
+const { parentPort, workerData } = require("node:worker_threads");
+const { Decoder } = require(workerData.msgpack);
+const encoding = require(workerData.encoding);
+(${serve.toString()})(parentPort, new Decoder({ useBigInt64: true }), {
+	zstd: (${limitZstdDecompress.toString()})(encoding.zstdDecompress),
+	brotli: encoding.brotliDecompress,
+	gzip: encoding.gunzip,
+}, ${scanMessagePack.toString()});
+`;
+
+// Resolves a module to a path the worker can load, when the module system
+// allows it. The ES module build defines `require` with `createRequire` for
+// this, see rollup.config.mjs.
+function resolveModule(id: string): string {
+	return typeof require === "function" ? require.resolve(id) : id;
+}
+
+/**
+ * Starts workers with `worker_threads`, in Node. The workers do not keep the
+ * process running on their own.
+ */
+export const nodeCodecWorker: CodecWorkerFactory = async () => {
+	const { Worker } = await import("node:worker_threads");
+	const worker = new Worker(NODE_WORKER_SOURCE, {
+		eval: true,
+		workerData: {
+			msgpack: resolveModule("@msgpack/msgpack"),
+			encoding: resolveModule("http-encoding"),
+		},
+	});
+	worker.unref();
+	const adapter: CodecWorker = {
+		onmessage: null,
+		onerror: null,
+		postMessage: (request) => worker.postMessage(request),
+		terminate: () => worker.terminate(),
+	};
+	worker.on("message", (reply: DecodeReply) => adapter.onmessage?.(reply));
+	worker.on("error", (err) => adapter.onerror?.(err));
+	worker.on("exit", (code) =>
+		adapter.onerror?.(new Error(`Decode worker exited with code ${code}`)),
+	);
+	return adapter;
+};
+
+/**
+ * Returns a factory starting Web Workers from the given script, which must call
+ * {@link serveDecodeRequests}.
+ *
+ * @param url - URL of the worker script, loaded as a module.
+ */
+export function webCodecWorker(url: string | URL): CodecWorkerFactory {
+	return async () => {
+		const worker = new Worker(url, { type: "module" });
+		const adapter: CodecWorker = {
+			onmessage: null,
+			onerror: null,
+			postMessage: (request) => worker.postMessage(request),
+			terminate: async () => worker.terminate(),
+		};
+		worker.onmessage = (event: MessageEvent<DecodeReply>) =>
+			adapter.onmessage?.(event.data);
+		worker.onerror = (event) => adapter.onerror?.(new Error(event.message));
+		return adapter;
+	};
+}
+
+/**
+ * Error rejecting the frames a worker was decoding when it failed.
+ */
+export class WorkerError extends Error {
+	constructor(cause: Error) {
+		super(`Decode worker failed: ${cause.message}`, { cause });
+		this.name = "WorkerError";
+		Object.setPrototypeOf(this, WorkerError.prototype);
+	}
+}
+
+/**
+ * Options for a {@link WorkerPool}.
+ */
+export interface WorkerPoolOptions {
+	/** Number of workers. Defaults to 1. */
+	size?: number;
+	/**
+	 * Starts a worker. Defaults to {@link nodeCodecWorker} in Node; required
+	 * elsewhere, such as {@link webCodecWorker} in browsers.
+	 */
+	factory?: CodecWorkerFactory;
+}
+
+// A worker of the pool and the requests it has yet to answer.
+interface PoolWorker {
+	worker: Promise<CodecWorker>;
+	pending: Map<number, PromiseWithResolvers<DecodedFrame>>;
+}
+
+// Compressors whose decompression the workers implement themselves.
+const WORKER_COMPRESSORS = [ZstdCompressor, BrotliCompressor, GzipCompressor];
+
+/**
+ * Workers that decompress and decode the messages of the connections using
+ * the pool, enabled with the `workers` connect option.
+ *
+ * Each frame goes to the worker with the fewest frames in progress. Workers
+ * finish out of order, but the client still handles messages in the order they
+ * were received. Frames compressed with a custom compressor are decompressed
+ * before being sent to a worker, which only knows the built-in ones.
+ *
+ * Workers are started as needed and replaced if they fail. The pool may be
+ * shared by several clients, and is not closed with them.
+ */
+export class WorkerPool {
+	private size: number;
+	private factory: CodecWorkerFactory;
+	private workers: PoolWorker[];
+	private nextId: number;
+	private terminated: boolean;
+
+	constructor(options: WorkerPoolOptions = {}) {
+		this.size = options.size ?? 1;
+		if (!Number.isInteger(this.size) || this.size < 1) {
+			throw new RangeError(
+				`Worker pool size must be a positive integer, got ${this.size}.`,
+			);
+		}
+		const factory =
+			options.factory ??
+			(typeof process !== "undefined" && process.versions?.node !== undefined
+				? nodeCodecWorker
+				: undefined);
+		if (factory === undefined) {
+			throw new TypeError(
+				"A worker factory is required outside of Node, see webCodecWorker.",
+			);
+		}
+		this.factory = factory;
+		this.workers = [];
+		this.nextId = 0;
+		this.terminated = false;
+	}
+
+	/** Number of frames being decoded. */
+	get pending(): number {
+		return this.workers.reduce((sum, w) => sum + w.pending.size, 0);
+	}
+
+	/**
+	 * Decompresses and decodes a frame on a worker.
+	 *
+	 * @param compressor - Compression of the frame.
+	 * @param limits - Limits to check the frame against, if any.
+	 */
+	async decode(
+		data: Uint8Array,
+		compressor: Compressor,
+		limits?: ResolvedDecodeLimits,
+	): Promise<DecodedFrame> {
+		if (this.terminated) {
+			throw new DecodeError(
+				undefined,
+				"worker pool was terminated",
+				[],
+				"worker",
+			);
+		}
+		let compression = compressor.name();
+		if (
+			compression !== null &&
+			!WORKER_COMPRESSORS.some((builtin) => compressor instanceof builtin)
+		) {
+			data =
+				limits === undefined
+					? await compressor.decompress(data)
+					: await decompressFrame(compressor, data, limits);
+			compression = null;
+		}
+
+		const target = this.pick();
+		const id = this.nextId;
+		this.nextId += 1;
+		const resolvers = Promise.withResolvers<DecodedFrame>();
+		target.pending.set(id, resolvers);
+		try {
+			(await target.worker).postMessage({ id, data, compression, limits });
+		} catch (err) {
+			target.pending.delete(id);
+			throw err;
+		}
+		return resolvers.promise;
+	}
+
+	/**
+	 * Stops every worker, failing the frames they were decoding.
+	 *
+	 * @returns A promise that resolves once the workers have stopped.
+	 */
+	async terminate(): Promise<void> {
+		this.terminated = true;
+		const workers = this.workers;
+		this.workers = [];
+		for (const entry of workers) {
+			this.fail(entry, new Error("terminated"));
+		}
+		await Promise.allSettled(
+			workers.map(async (entry) => (await entry.worker).terminate()),
+		);
+	}
+
+	// Returns the worker with the fewest frames in progress, starting a new one
+	// if all are busy and the pool is not full.
+	private pick(): PoolWorker {
+		let best: PoolWorker | undefined;
+		for (const entry of this.workers) {
+			if (best === undefined || entry.pending.size < best.pending.size) {
+				best = entry;
+			}
+		}
+		if (
+			best !== undefined &&
+			(best.pending.size === 0 || this.workers.length >= this.size)
+		) {
+			return best;
+		}
+		return this.start();
+	}
+
+	private start(): PoolWorker {
+		const entry: PoolWorker = {
+			worker: this.factory(),
+			pending: new Map(),
+		};
+		this.workers.push(entry);
+		entry.worker.then(
+			(worker) => {
+				worker.onmessage = (reply) => {
+					const resolvers = entry.pending.get(reply.id);
+					if (resolvers === undefined) {
+						return;
+					}
+					entry.pending.delete(reply.id);
+					if (reply.error !== undefined) {
+						resolvers.reject(
+							new DecodeError(
+								undefined,
+								reply.error,
+								[],
+								reply.errorKind ?? "malformed",
+							),
+						);
+					} else {
+						resolvers.resolve({
+							decoded: reply.decoded,
+							messageBytes: reply.messageBytes ?? 0,
+						});
+					}
+				};
+				worker.onerror = (error) => {
+					this.remove(entry);
+					this.fail(entry, error);
+				};
+			},
+			(error) => {
+				this.remove(entry);
+				this.fail(entry, error);
+			},
+		);
+		return entry;
+	}
+
+	private remove(entry: PoolWorker) {
+		const index = this.workers.indexOf(entry);
+		if (index !== -1) {
+			this.workers.splice(index, 1);
+		}
+	}
+
+	private fail(entry: PoolWorker, error: Error) {
+		const pending = [...entry.pending.values()];
+		entry.pending.clear();
+		for (const resolvers of pending) {
+			resolvers.reject(new WorkerError(error));
+		}
+	}
+}
@@ -0,0 +1,154 @@
+import { resolveStreamBufferOptions } from "../src/backpressure";
+import { type StreamBufferOptions, V1Client } from "../src/client";
+import { type Logger, noopLogger } from "../src/logger";
+import { ClientMetrics } from "../src/metrics";
+import type * as v1 from "../src/types/v1";
+import {
+	FakeWebSocket,
+	StubCodec,
+	emitResponseNewSwapQuoteStream,
+	emitStreamData,
+	emitStreamEnd,
+	minimalSwapQuotes,
+} from "./helpers";
+
+function quoteRequest(): v1.SwapQuoteRequest {
+	return {
+		swap: {
+			inputMint: new Uint8Array(32),
+			outputMint: new Uint8Array(32),
+			amount: 10,
+		},
+		transaction: { userPublicKey: new Uint8Array(32) },
+	};
+}
+
+function tick() {
+	return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+// Starts a stream with the given buffer options and sends it the given number
+// of updates, identified by their sequence number.
+async function bufferedStream(
+	buffer: StreamBufferOptions,
+	updates: number,
+	logger: Logger = noopLogger,
+) {
+	const metrics = new ClientMetrics();
+	const socket = new FakeWebSocket();
+	const codec = new StubCodec();
+	const client = new V1Client(socket as any, codec as any, {
+		metrics,
+		logger,
+	});
+	const started = client.newSwapQuoteStream(quoteRequest(), { buffer });
+	emitResponseNewSwapQuoteStream(socket, codec, 0, 42, 1000);
+	const { stream } = await started;
+	for (let seq = 0; seq < updates; seq++) {
+		emitStreamData(
+			socket,
+			codec,
+			42,
+			{ ...minimalSwapQuotes(), id: `q${seq}` },
+			seq,
+		);
+	}
+	await tick();
+	return { stream, metrics, socket, codec };
+}
+
+async function readAll(stream: ReadableStream<v1.SwapQuotes>) {
+	const ids: string[] = [];
+	for await (const quotes of stream as any) {
+		ids.push(quotes.id);
+	}
+	return ids;
+}
+
+describe("stream buffer options", () => {
+	test("fill in defaults", () => {
+		expect(resolveStreamBufferOptions(undefined)).toEqual({
+			policy: "unbounded",
+			size: Infinity,
+			onDrop: null,
+		});
+		expect(resolveStreamBufferOptions({ policy: "latest" }).size).toBe(1);
+		expect(resolveStreamBufferOptions({ policy: "dropOldest" }).size).toBe(16);
+		expect(() =>
+			resolveStreamBufferOptions({ policy: "dropOldest", size: 0 }),
+		).toThrow(RangeError);
+	});
+
+	test("invalid options reject the stream request", async () => {
+		const client = new V1Client(
+			new FakeWebSocket() as any,
+			new StubCodec() as any,
+		);
+		await expect(
+			client.newSwapQuoteStream(quoteRequest(), {
+				buffer: { policy: "dropOldest", size: -1 },
+			}),
+		).rejects.toBeInstanceOf(RangeError);
+	});
+});
+
+describe("quote stream backpressure", () => {
+	test("keeps every update by default", async () => {
+		const { stream, socket, codec, metrics } = await bufferedStream({}, 5);
+		emitStreamEnd(socket, codec, 42);
+		expect(await readAll(stream)).toEqual(["q0", "q1", "q2", "q3", "q4"]);
+		expect(metrics.snapshot().streams.droppedUpdates).toBe(0);
+	});
+
+	test("drops the oldest updates once the buffer is full", async () => {
+		const onDrop = jest.fn();
+		const { stream, socket, codec, metrics } = await bufferedStream(
+			{ policy: "dropOldest", size: 2, onDrop },
+			5,
+		);
+		emitStreamEnd(socket, codec, 42);
+		expect(await readAll(stream)).toEqual(["q3", "q4"]);
+		expect(onDrop.mock.calls).toEqual([[1], [2], [3]]);
+		expect(metrics.snapshot().streams.droppedUpdates).toBe(3);
+	});
+
+	test("latest only conflation hands out the newest update", async () => {
+		const { stream, socket, codec } = await bufferedStream(
+			{ policy: "latest" },
+			3,
+		);
+		const reader = stream.getReader();
+		expect((await reader.read()).value?.id).toBe("q2");
+
+		// A waiting reader gets the next update as soon as it arrives.
+		const next = reader.read();
+		emitStreamData(socket, codec, 42, { ...minimalSwapQuotes(), id: "q3" }, 3);
+		expect((await next).value?.id).toBe("q3");
+
+		emitStreamData(socket, codec, 42, { ...minimalSwapQuotes(), id: "q4" }, 4);
+		emitStreamEnd(socket, codec, 42);
+		await tick();
+		expect((await reader.read()).value?.id).toBe("q4");
+		expect((await reader.read()).done).toBe(true);
+	});
+
+	test("errors thrown by onDrop are logged", async () => {
+		const logger = { ...noopLogger, error: jest.fn() };
+		const { stream } = await bufferedStream(
+			{
+				policy: "latest",
+				onDrop: () => {
+					throw new Error("boom");
+				},
+			},
+			2,
+			logger,
+		);
+		const reader = stream.getReader();
+		expect((await reader.read()).value?.id).toBe("q1");
+		expect(logger.error).toHaveBeenCalledWith(
+			"Stream drop callback threw error",
+			expect.objectContaining({ dropped: 1 }),
+		);
+	});
+});
@@ -0,0 +1,23 @@
+import typescript from "@rollup/plugin-typescript";
+import { rollup } from "rollup";
+
+// Builds the NodeJS output of the package into another directory, so that
+// tests can load it without replacing the published build.
+const dir = process.argv[2];
+if (!dir) {
+	console.error("Missing output directory");
+	process.exit(2);
+}
+
+const { default: configs } = await import("../rollup.config.mjs");
+const [config] = configs;
+// The TypeScript plugin requires its output directory to match
+const bundle = await rollup({
+	...config,
+	plugins: [typescript({ outDir: dir })],
+});
+const outputs = Array.isArray(config.output) ? config.output : [config.output];
+for (const output of outputs) {
+	await bundle.write({ ...output, dir });
+}
+await bundle.close();
@@ -0,0 +1,191 @@
+import * as fs from "node:fs/promises";
+import { encode } from "@msgpack/msgpack";
+
+import {
+	type Capture,
+	CaptureError,
+	SessionRecorder,
+	decodeCapture,
+	encodeCapture,
+	replayTransport,
+} from "../src/capture";
+import { V1Client } from "../src/client";
+import { DecodeError, V1ClientCodec } from "../src/codec";
+import { noopLogger } from "../src/logger";
+import { TransportError } from "../src/transport";
+import * as v1 from "../src/types/v1";
+import {
+	FakeWebSocket,
+	STREAM_FIXTURES,
+	fixtureCapture,
+	fixtureQuoteRequest,
+	minimalServerInfo,
+} from "./helpers";
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+	const data = new Uint8Array(chunks.reduce((n, c) => n + c.byteLength, 0));
+	let offset = 0;
+	for (const chunk of chunks) {
+		data.set(chunk, offset);
+		offset += chunk.byteLength;
+	}
+	return data;
+}
+
+function tick() {
+	return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe("session recorder", () => {
+	test("records frames and connection events", async () => {
+		const chunks: Uint8Array[] = [];
+		const recorder = new SessionRecorder({
+			write: (chunk) => chunks.push(chunk),
+			keepFrames: 1,
+		});
+		const socket = new FakeWebSocket();
+		const client = await V1Client.connect("ws://example/", {
+			transport: async () => socket,
+			recorder,
+		});
+
+		const info = client.getInfo();
+		await tick();
+		const response = encode({
+			Response: { requestId: 0, data: { GetInfo: minimalServerInfo() } },
+		});
+		socket.emitBinary(response.slice().buffer);
+		await info;
+		await client.close();
+
+		const recorded = decodeCapture(concat(chunks));
+		expect(recorded.startedAt).toBe(recorder.startedAt);
+		expect(recorded.connections).toHaveLength(1);
+		const [connection] = recorded.connections;
+		expect(connection.protocol).toBe(v1.WEBSOCKET_SUBPROTO_BASE);
+		expect(connection.frames.map((frame) => frame.direction)).toEqual([
+			"sent",
+			"received",
+		]);
+		expect(connection.frames[0].data).toEqual(socket.sent[0]);
+		expect(connection.frames[1].data).toEqual(response);
+		expect(connection.close).toMatchObject({ code: 1000 });
+
+		// Only the most recent frame is kept in memory.
+		expect(recorder.capture()).toEqual({
+			...recorded,
+			connections: [{ ...connection, frames: [connection.frames[1]] }],
+		});
+		expect(decodeCapture(encodeCapture(recorded))).toEqual(recorded);
+	});
+
+	test("attaches recent frames to decode errors", async () => {
+		const invalid = encode([1, 2]);
+		const capture = await fixtureCapture(...STREAM_FIXTURES[0]);
+		capture.connections[0].frames[2].data = invalid;
+		const recorder = new SessionRecorder({ keepFrames: 2 });
+		const errors: unknown[] = [];
+		const client = await V1Client.connect("replay://", {
+			transport: replayTransport(capture),
+			recorder,
+			logger: noopLogger,
+			on: { error: ({ error }) => errors.push(error) },
+		});
+
+		client.newSwapQuoteStream(fixtureQuoteRequest()).catch(() => {});
+		await client.listenClosed();
+
+		expect(errors).toHaveLength(1);
+		const error = errors[0] as DecodeError;
+		expect(error).toBeInstanceOf(DecodeError);
+		const frames = error.capture?.connections[0].frames ?? [];
+		expect(frames).toHaveLength(2);
+		expect(frames[1]).toMatchObject({ direction: "received", data: invalid });
+	});
+
+	test("rejects invalid options", () => {
+		expect(() => new SessionRecorder({ keepFrames: -1 })).toThrow(RangeError);
+	});
+});
+
+describe("capture files", () => {
+	test("rejects invalid captures", () => {
+		const header = encode({ Capture: { version: 1, startedAt: 0 } });
+		const frame = encode({
+			Frame: { timeMs: 0, direction: "received", data: new Uint8Array() },
+		});
+		for (const data of [
+			new Uint8Array(),
+			frame,
+			concat([header, frame]),
+			concat([header, encode({ Open: { timeMs: "soon", protocol: "" } })]),
+			encode({ Capture: { version: 2, startedAt: 0 } }),
+			new Uint8Array([0xc1]),
+		]) {
+			expect(() => decodeCapture(data)).toThrow(CaptureError);
+		}
+	});
+});
+
+describe("replay transport", () => {
+	test("replays the stream fixtures", async () => {
+		for (const [protocol, file] of STREAM_FIXTURES) {
+			const capture = await fixtureCapture(protocol, file);
+			const transport = replayTransport(capture);
+			const client = await V1Client.connect("replay://", { transport });
+			expect(client.compression).toBe(
+				V1ClientCodec.from_protocol(protocol).compression(),
+			);
+
+			const { stream } = await client.newSwapQuoteStream(fixtureQuoteRequest());
+			const { value } = await stream.getReader().read();
+			const expected = (await V1ClientCodec.from_protocol(protocol).decode(
+				await fs.readFile(`test/data/${file}`),
+			)) as { StreamData: v1.StreamData };
+			expect(value).toEqual(expected.StreamData.payload.SwapQuotes);
+			await client.close();
+
+			await expect(
+				transport("replay://", [protocol], {}),
+			).rejects.toBeInstanceOf(TransportError);
+		}
+	});
+
+	test("replays at the recorded pace", async () => {
+		const [protocol, file] = STREAM_FIXTURES[0];
+		const capture = await fixtureCapture(protocol, file);
+		const started = Date.now();
+		const client = await V1Client.connect("replay://", {
+			transport: replayTransport(capture, { pace: "realtime" }),
+		});
+		const { stream } = await client.newSwapQuoteStream(fixtureQuoteRequest());
+		await stream.getReader().read();
+		// The update was recorded 40ms after the connection opened.
+		expect(Date.now() - started).toBeGreaterThanOrEqual(35);
+		await client.close();
+	});
+
+	test("closes connections that were recorded closing", async () => {
+		const capture: Capture = {
+			startedAt: 0,
+			connections: [
+				{
+					protocol: v1.WEBSOCKET_SUBPROTO_BASE,
+					openedAtMs: 0,
+					frames: [],
+					close: { timeMs: 0, code: 4000, reason: "bye", wasClean: true },
+				},
+			],
+		};
+		const client = await V1Client.connect("replay://", {
+			transport: replayTransport(capture),
+		});
+		await expect(client.listenClosed()).resolves.toMatchObject({
+			code: 4000,
+			reason: "bye",
+		});
+		expect(() => replayTransport(capture, { pace: "slow" as any })).toThrow(
+			RangeError,
+		);
+	});
+});
@@ -3,7 +3,7 @@ import { V1Client } from "../src/client";
 import { V1ClientCodec } from "../src/codec";
 import * as v1 from "../src/types/v1";
 import { server as WebSocketServer } from "websocket";
-import { minimalServerInfo, minimalSwapQuotes } from "./helpers";
+import { answerGetInfo, minimalServerInfo, minimalSwapQuotes } from "./helpers";
 
 async function createServer() {
 	const httpServer = http.createServer();
@@ -101,6 +101,58 @@ describe("V1Client (integration)", () => {
 		expect(done.done).toBe(true);
 	});
 
+	test.each(["ws", "websocket"] as const)(
+		"getInfo round-trip over the %s transport",
+		async (transport) => {
+			answerGetInfo(wsServer);
+
+			const client = await V1Client.connect(`ws://127.0.0.1:${port}/`, { transport });
+			const info = await client.getInfo();
+			expect(info.protocolVersion.major).toBe(1);
+			await client.close();
+		},
+	);
+
+	test.each(["ws", "websocket"] as const)(
+		"%s transport sends the token in the Authorization header",
+		async (transport) => {
+			const authorization = new Promise<string | undefined>((resolve) => {
+				wsServer.on("request", (req) => {
+					resolve(req.httpRequest.headers.authorization);
+					req.accept(v1.WEBSOCKET_SUBPROTO_BASE);
+				});
+			});
+
+			const client = await V1Client.connect(`ws://127.0.0.1:${port}/`, {
+				transport,
+				token: async () => "secret",
+			});
+			await expect(authorization).resolves.toBe("Bearer secret");
+			await client.close();
+		},
+	);
+
+	test("ws transport answers heartbeats with pings", async () => {
+		const codec = V1ClientCodec.from_protocol(v1.WEBSOCKET_SUBPROTO_BASE);
+		const decoded = jest.fn();
+		wsServer.on("request", (req) => {
+			const conn = req.accept(v1.WEBSOCKET_SUBPROTO_BASE);
+			conn.on("message", async (msg) => {
+				if (msg.type === "binary") decoded(await codec.decode(new Uint8Array(msg.binaryData)));
+			});
+		});
+
+		const client = await V1Client.connect(`ws://127.0.0.1:${port}/`, {
+			transport: "ws",
+			heartbeat: { intervalMs: 10, maxMissed: 1 },
+		});
+		await new Promise((resolve) => setTimeout(resolve, 60));
+		expect(client.closed).toBe(false);
+		// Pings are answered by the server's WebSocket layer, no GetInfo needed.
+		expect(decoded).not.toHaveBeenCalled();
+		await client.close();
+	});
+
 	test("malformed frame triggers client close and inflight rejection", async () => {
 		wsServer.on("request", (req) => {
 			const selected = req.requestedProtocols.find((p) => p.startsWith(v1.WEBSOCKET_SUBPROTO_BASE)) || v1.WEBSOCKET_SUBPROTO_BASE;
@@ -116,4 +168,46 @@ describe("V1Client (integration)", () => {
 	});
 });
 
+describe("V1Client.connectBest (integration)", () => {
+	const servers: Awaited<ReturnType<typeof createServer>>[] = [];
+
+	// Starts a server answering GetInfo after the given delay.
+	async function infoServer(delayMs: number) {
+		const s = await createServer();
+		servers.push(s);
+		answerGetInfo(s.wsServer, delayMs);
+		return s;
+	}
+
+	afterEach(() => {
+		for (const s of servers.splice(0)) {
+			s.wsServer.shutDown();
+			s.httpServer.close();
+		}
+	});
 
+	test("connects to the fastest endpoint and fails over when it drops", async () => {
+		const slow = await infoServer(50);
+		const fast = await infoServer(0);
+		const slowUrl = `ws://127.0.0.1:${slow.port}/`;
+		const fastUrl = `ws://127.0.0.1:${fast.port}/`;
+		const downUrl = "ws://127.0.0.1:1/";
+
+		const client = await V1Client.connectBest([downUrl, slowUrl, fastUrl], {
+			transport: "websocket",
+			reconnect: { initialDelayMs: 0, jitter: 0 },
+		});
+		expect(client.endpoint).toBe(fastUrl);
+		const status = client.endpointStatus();
+		expect(status.map((s) => s.healthy)).toEqual([false, true, true]);
+		expect(status[1].rttMs).toBeGreaterThan(status[2].rttMs as number);
+
+		const reconnected = new Promise((resolve) => client.once("reconnected", resolve));
+		fast.wsServer.closeAllConnections();
+		await reconnected;
+		expect(client.endpoint).toBe(slowUrl);
+		expect(client.endpointStatus()[2]).toMatchObject({ healthy: false });
+		await expect(client.getInfo()).resolves.toBeDefined();
+		await client.close();
+	});
+});
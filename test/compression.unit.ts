@@ -0,0 +1,112 @@
+import { encode } from "@msgpack/msgpack";
+
+import { V1Client } from "../src/client";
+import { InvalidProtocolError, V1ClientCodec } from "../src/codec";
+import {
+	type Compressor,
+	CompressorRegistry,
+	GzipCompressor,
+	ZstdCompressor,
+	compressors,
+} from "../src/compression";
+import type { TransportOptions } from "../src/transport";
+import * as v1 from "../src/types/v1";
+import { FakeWebSocket } from "./helpers";
+
+// "Compresses" by reversing the bytes, enough to tell it was applied.
+function reverseCompressor(name: string | null = "reverse"): Compressor {
+	const reverse = async (data: Uint8Array) => data.slice().reverse();
+	return { name: () => name, compress: reverse, decompress: reverse };
+}
+
+describe("compressor registry", () => {
+	test("holds the built-in compressors by default", () => {
+		expect(compressors.names()).toEqual(v1.WEBSOCKET_COMPRESSIONS);
+	});
+
+	test("registers, replaces and removes compressors", () => {
+		const registry = new CompressorRegistry([
+			new ZstdCompressor(),
+			new GzipCompressor(),
+		]);
+		registry.register(reverseCompressor());
+		expect(registry.names()).toEqual(["zstd", "gzip", "reverse"]);
+
+		// A replacement keeps the place of the compressor it replaces.
+		const zstd = reverseCompressor("zstd");
+		registry.register(zstd);
+		expect(registry.names()).toEqual(["zstd", "gzip", "reverse"]);
+		expect(registry.get("zstd")).toBe(zstd);
+
+		expect(registry.unregister("gzip")).toBe(true);
+		expect(registry.unregister("gzip")).toBe(false);
+		expect(registry.has("gzip")).toBe(false);
+		expect(registry.names()).toEqual(["zstd", "reverse"]);
+	});
+
+	test("rejects names that cannot be a subprotocol suffix", () => {
+		const registry = new CompressorRegistry();
+		for (const name of [null, "", "zstd+dict"]) {
+			expect(() => registry.register(reverseCompressor(name))).toThrow(
+				RangeError,
+			);
+		}
+	});
+
+	test("codecs pick up registered compressors", async () => {
+		const registry = new CompressorRegistry([reverseCompressor()]);
+		const codec = V1ClientCodec.from_protocol(
+			`${v1.WEBSOCKET_SUBPROTO_BASE}+reverse`,
+			registry,
+		);
+		expect(codec.compression()).toBe("reverse");
+		const message = encode({ StreamEnd: { id: 1 } });
+		await expect(codec.decode(message.slice().reverse())).resolves.toEqual({
+			StreamEnd: { id: 1 },
+		});
+
+		expect(() =>
+			V1ClientCodec.from_protocol(
+				`${v1.WEBSOCKET_SUBPROTO_BASE}+gzip`,
+				registry,
+			),
+		).toThrow(InvalidProtocolError);
+	});
+
+	test("connections offer and negotiate registered compressors", async () => {
+		const registry = new CompressorRegistry([
+			reverseCompressor(),
+			new GzipCompressor(),
+		]);
+		const offered: string[][] = [];
+		const factory = async (
+			_url: string,
+			protocols: string[],
+			_options?: TransportOptions,
+		) => {
+			offered.push(protocols);
+			const socket = new FakeWebSocket();
+			socket.protocol = `${v1.WEBSOCKET_SUBPROTO_BASE}+reverse`;
+			return socket;
+		};
+		const client = await V1Client.connect("ws://example/", {
+			transport: factory,
+			compressors: registry,
+		});
+		expect(offered[0]).toEqual([
+			`${v1.WEBSOCKET_SUBPROTO_BASE}+reverse`,
+			`${v1.WEBSOCKET_SUBPROTO_BASE}+gzip`,
+			v1.WEBSOCKET_SUBPROTO_BASE,
+		]);
+		expect(client.compression).toBe("reverse");
+		await client.close();
+
+		await expect(
+			V1Client.connect("ws://example/", {
+				transport: factory,
+				compressors: registry,
+				compression: ["zstd"],
+			}),
+		).rejects.toBeInstanceOf(RangeError);
+	});
+});
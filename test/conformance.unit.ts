@@ -0,0 +1,79 @@
+import { V1Client } from "../src/client";
+import {
+	type Compressor,
+	CompressorRegistry,
+	GzipCompressor,
+} from "../src/compression";
+import { noopLogger } from "../src/logger";
+import { checkConformance } from "../src/testing/conformance";
+import { ScriptedTransport } from "../src/testing/harness";
+import * as v1 from "../src/types/v1";
+import { fixtureQuoteRequest } from "./helpers";
+
+// Compressor whose decompressed frames have a trailing byte added, as if the
+// encoding had drifted.
+class TrailingByteCompressor implements Compressor {
+	name(): string {
+		return "trailing";
+	}
+
+	async compress(data: Uint8Array): Promise<Uint8Array> {
+		return data;
+	}
+
+	async decompress(data: Uint8Array): Promise<Uint8Array> {
+		return new Uint8Array([...data, 0xc0]);
+	}
+}
+
+describe("checkConformance", () => {
+	test("passes for every compression", async () => {
+		const report = await checkConformance();
+		expect(report.failures).toEqual([]);
+		expect(report.checked).toBe((1 + v1.WEBSOCKET_COMPRESSIONS.length) * 17);
+	});
+
+	test("reports cases that differ from their golden encoding", async () => {
+		const report = await checkConformance({
+			compressors: new CompressorRegistry([
+				new GzipCompressor(),
+				new TrailingByteCompressor(),
+			]),
+			compressions: ["gzip", "trailing"],
+		});
+		expect(report.checked).toBe(34);
+		expect(report.failures).toHaveLength(17);
+		expect(report.failures[0]).toEqual({
+			name: "GetInfo",
+			compression: "trailing",
+			message: expect.any(String),
+		});
+		expect(
+			report.failures.every(({ compression }) => compression === "trailing"),
+		).toBe(true);
+	});
+
+	test("sends the deprecated numQuotes as num_quotes", async () => {
+		const transport = new ScriptedTransport();
+		const client = await V1Client.connect("ws://scripted/", {
+			transport: transport.factory(),
+			logger: noopLogger,
+		});
+		const started = client.newSwapQuoteStream({
+			...fixtureQuoteRequest(),
+			update: { numQuotes: 3 },
+		});
+		started.catch(() => {});
+
+		const request = await transport.nextRequest();
+		expect(request.data).toEqual({
+			NewSwapQuoteStream: expect.objectContaining({
+				update: { num_quotes: 3 },
+			}),
+		});
+		const frame = Buffer.from(transport.sent[0]).toString("latin1");
+		expect(frame).toContain("num_quotes");
+		expect(frame).not.toContain("numQuotes");
+		await client.close();
+	});
+});
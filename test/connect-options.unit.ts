@@ -0,0 +1,201 @@
+import { ConnectTimeout, V1Client } from "../src/client";
+import { InvalidProtocolError } from "../src/codec";
+import {
+	TransportError,
+	type TransportOptions,
+	globalWebSocketTransport,
+} from "../src/transport";
+import * as v1 from "../src/types/v1";
+import { FakeWebSocket } from "./helpers";
+
+// Transport factory handing out fake sockets, recording how it was called.
+function fakeFactory(protocol = v1.WEBSOCKET_SUBPROTO_BASE) {
+	const sockets: FakeWebSocket[] = [];
+	const calls: {
+		url: string;
+		protocols: string[];
+		options?: TransportOptions;
+	}[] = [];
+	const factory = async (
+		url: string,
+		protocols: string[],
+		options?: TransportOptions,
+	) => {
+		calls.push({ url, protocols, options });
+		const socket = new FakeWebSocket();
+		socket.protocol = protocol;
+		sockets.push(socket);
+		return socket;
+	};
+	return { factory, sockets, calls };
+}
+
+describe("V1Client.connect options", () => {
+	test("sends the token and headers with the handshake", async () => {
+		const { factory, calls } = fakeFactory();
+		const client = await V1Client.connect("ws://example/", {
+			transport: factory,
+			headers: { "X-Client": "tests" },
+			token: "secret",
+		});
+		expect(calls[0].url).toBe("ws://example/");
+		expect(calls[0].options?.headers).toEqual({
+			"X-Client": "tests",
+			Authorization: "Bearer secret",
+		});
+		await client.close();
+	});
+
+	test("calls the token provider on every reconnect", async () => {
+		const { factory, sockets, calls } = fakeFactory();
+		let issued = 0;
+		const token = jest.fn(async () => `token-${++issued}`);
+		const client = await V1Client.connect("ws://example/", {
+			transport: factory,
+			token,
+			reconnect: { initialDelayMs: 0, jitter: 0 },
+		});
+
+		const reconnected = new Promise((resolve) =>
+			client.once("reconnected", resolve),
+		);
+		sockets[0].drop();
+		await reconnected;
+		expect(token).toHaveBeenCalledTimes(2);
+		expect(calls.map((c) => c.options?.headers?.Authorization)).toEqual([
+			"Bearer token-1",
+			"Bearer token-2",
+		]);
+		await client.close();
+	});
+
+	test("offers compression in the given order of preference", async () => {
+		const { factory, calls } = fakeFactory(
+			`${v1.WEBSOCKET_SUBPROTO_BASE}+gzip`,
+		);
+		const client = await V1Client.connect("ws://example/", {
+			transport: factory,
+			compression: ["gzip", "zstd"],
+		});
+		expect(calls[0].protocols).toEqual([
+			`${v1.WEBSOCKET_SUBPROTO_BASE}+gzip`,
+			`${v1.WEBSOCKET_SUBPROTO_BASE}+zstd`,
+			v1.WEBSOCKET_SUBPROTO_BASE,
+		]);
+		expect(client.compression).toBe("gzip");
+		await client.close();
+	});
+
+	test("compression can be disabled", async () => {
+		const { factory, calls } = fakeFactory();
+		const client = await V1Client.connect("ws://example/", {
+			transport: factory,
+			compression: false,
+		});
+		expect(calls[0].protocols).toEqual([v1.WEBSOCKET_SUBPROTO_BASE]);
+		expect(client.compression).toBeNull();
+		await client.close();
+	});
+
+	test("rejects unsupported compression", async () => {
+		const { factory } = fakeFactory();
+		await expect(
+			V1Client.connect("ws://example/", {
+				transport: factory,
+				compression: ["lzma" as any],
+			}),
+		).rejects.toBeInstanceOf(RangeError);
+	});
+
+	test("rejects a protocol the client did not offer", async () => {
+		const { factory, sockets } = fakeFactory(
+			`${v1.WEBSOCKET_SUBPROTO_BASE}+zstd`,
+		);
+		await expect(
+			V1Client.connect("ws://example/", {
+				transport: factory,
+				compression: false,
+			}),
+		).rejects.toBeInstanceOf(InvalidProtocolError);
+		expect(sockets[0].closed).toBeDefined();
+	});
+
+	test("gives up with ConnectTimeout and closes late connections", async () => {
+		const socket = new FakeWebSocket();
+		let open: (() => void) | undefined;
+		let signal: AbortSignal | undefined;
+		const factory = (
+			_url: string,
+			_protocols: string[],
+			options?: TransportOptions,
+		) =>
+			new Promise<FakeWebSocket>((resolve) => {
+				signal = options?.signal;
+				open = () => resolve(socket);
+			});
+
+		await expect(
+			V1Client.connect("ws://example/", {
+				transport: factory,
+				connectTimeoutMs: 5,
+			}),
+		).rejects.toBeInstanceOf(ConnectTimeout);
+		expect(signal?.aborted).toBe(true);
+
+		open?.();
+		await Promise.resolve();
+		expect(socket.closed).toBeDefined();
+	});
+});
+
+describe("global WebSocket transport", () => {
+	const original = (globalThis as any).WebSocket;
+	let urls: string[];
+	beforeEach(() => {
+		urls = [];
+		(globalThis as any).WebSocket = class {
+			protocol = v1.WEBSOCKET_SUBPROTO_BASE;
+			binaryType = "blob";
+			onopen: (() => void) | null = null;
+			onclose: ((event: any) => void) | null = null;
+			constructor(url: string) {
+				urls.push(url);
+				setTimeout(() => this.onopen?.(), 0);
+			}
+			close() {
+				this.onclose?.({ code: 1000, reason: "", wasClean: true });
+			}
+		};
+	});
+	afterEach(() => {
+		(globalThis as any).WebSocket = original;
+	});
+
+	test("sends the token in the query string when asked to", async () => {
+		const client = await V1Client.connect("wss://example/ws?region=eu", {
+			transport: "global",
+			token: "secret",
+			tokenInQuery: true,
+		});
+		expect(urls).toEqual(["wss://example/ws?region=eu&auth=secret"]);
+		await client.close();
+	});
+
+	test("rejects a token it cannot send in a header", async () => {
+		for (const transport of ["global", "auto"] as const) {
+			await expect(
+				V1Client.connect("wss://example/ws", { transport, token: "secret" }),
+			).rejects.toThrow(/tokenInQuery/);
+		}
+		expect(urls).toHaveLength(0);
+	});
+
+	test("rejects custom headers", async () => {
+		await expect(
+			globalWebSocketTransport("wss://example/", [], {
+				headers: { Authorization: "Bearer secret" },
+			}),
+		).rejects.toBeInstanceOf(TransportError);
+		expect(urls).toHaveLength(0);
+	});
+});
@@ -1,6 +1,7 @@
 import { encode } from "@msgpack/msgpack";
 import { execFile } from "node:child_process";
 import { promisify } from "node:util";
+import os from "node:os";
 import path from "node:path";
 import { pathToFileURL } from "node:url";
 import * as v1 from "../src/types/v1";
@@ -79,6 +80,22 @@ describe("distribution imports", () => {
 		const { stdout } = await run(nodeBin, [smokePath, esmUrl]);
 		expect(stdout.trim()).toBe("OK");
 	});
+
+	test("ESM worker pool starts outside the package directory", async () => {
+		// Build the current sources, as workers are not in the published build
+		const run = promisify(execFile);
+		const nodeBin = process.execPath;
+		const outDir = path.resolve(__dirname, "../out/dist-test");
+		await run(nodeBin, [path.resolve(__dirname, "./build-node.mjs"), outDir], {
+			cwd: path.resolve(__dirname, ".."),
+		});
+		const esmUrl = pathToFileURL(path.join(outDir, "titan-sdk.mjs")).href;
+		const smokePath = path.resolve(__dirname, "./worker-smoke.mjs");
+		const { stdout } = await run(nodeBin, [smokePath, esmUrl], {
+			cwd: os.tmpdir(),
+		});
+		expect(stdout.trim()).toBe("OK");
+	}, 120_000);
 });
 
 
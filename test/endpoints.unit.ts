@@ -0,0 +1,115 @@
+import { EndpointSelector, NoEndpointAvailable } from "../src/endpoints";
+
+const rtts: Record<string, number> = {
+	"wss://eu": 40,
+	"wss://us": 10,
+	"wss://ap": 90,
+};
+
+async function probe(url: string) {
+	const rtt = rtts[url];
+	if (rtt === undefined) {
+		throw new Error(`${url} unreachable`);
+	}
+	return rtt;
+}
+
+describe("EndpointSelector", () => {
+	test("requires at least one endpoint", () => {
+		expect(() => new EndpointSelector([], probe)).toThrow(RangeError);
+	});
+
+	test("keeps the given order until probed", () => {
+		const selector = new EndpointSelector(["wss://eu", "wss://us"], probe);
+		expect(selector.ranked()).toEqual(["wss://eu", "wss://us"]);
+		expect(selector.current).toBeNull();
+	});
+
+	test("ranks by measured latency, unhealthy endpoints last", async () => {
+		const selector = new EndpointSelector(
+			["wss://down", "wss://eu", "wss://us", "wss://ap"],
+			probe,
+		);
+		const status = await selector.probeAll();
+		expect(selector.ranked()).toEqual([
+			"wss://us",
+			"wss://eu",
+			"wss://ap",
+			"wss://down",
+		]);
+		expect(status[0]).toMatchObject({
+			url: "wss://down",
+			healthy: false,
+			rttMs: null,
+			failures: 1,
+			lastError: expect.any(Error),
+		});
+		expect(status[2]).toMatchObject({
+			url: "wss://us",
+			healthy: true,
+			rttMs: 10,
+		});
+		expect(status[2].checkedAt).toEqual(expect.any(Number));
+	});
+
+	test("connects to the best endpoint, skipping those that fail", async () => {
+		const selector = new EndpointSelector(["wss://eu", "wss://us"], probe);
+		await selector.probeAll();
+
+		const open = jest.fn(async (url: string) => {
+			if (url === "wss://us") {
+				throw new Error("refused");
+			}
+			return url;
+		});
+		await expect(selector.connect(open)).resolves.toBe("wss://eu");
+		expect(open.mock.calls.map(([url]) => url)).toEqual([
+			"wss://us",
+			"wss://eu",
+		]);
+		expect(selector.current).toBe("wss://eu");
+		expect(selector.status()[1]).toMatchObject({ healthy: false, failures: 1 });
+	});
+
+	test("fails over from the current endpoint when reconnecting", async () => {
+		const selector = new EndpointSelector(["wss://eu", "wss://us"], probe);
+		await selector.probeAll();
+		const open = async (url: string) => url;
+
+		await expect(selector.connect(open)).resolves.toBe("wss://us");
+		const dropped = new Error("connection lost");
+		await expect(selector.connect(open, dropped)).resolves.toBe("wss://eu");
+		expect(selector.status()[1]).toMatchObject({
+			url: "wss://us",
+			healthy: false,
+			lastError: dropped,
+		});
+
+		// The endpoint that just failed is only retried after all others.
+		const refuse = jest.fn(async (url: string) => {
+			throw new Error(`${url} refused`);
+		});
+		await expect(selector.connect(refuse)).rejects.toBeInstanceOf(
+			NoEndpointAvailable,
+		);
+		expect(refuse.mock.calls.map(([url]) => url)).toEqual([
+			"wss://us",
+			"wss://eu",
+		]);
+	});
+
+	test("rejects with every error when no endpoint is reachable", async () => {
+		const selector = new EndpointSelector(["wss://a", "wss://b"], probe);
+		const connecting = selector.connect(async (url) => {
+			throw new Error(`${url} refused`);
+		});
+		await expect(connecting).rejects.toBeInstanceOf(NoEndpointAvailable);
+		await expect(connecting).rejects.toMatchObject({
+			errors: [
+				{ url: "wss://a", error: expect.any(Error) },
+				{ url: "wss://b", error: expect.any(Error) },
+			],
+		});
+		expect(selector.current).toBeNull();
+	});
+});
@@ -0,0 +1,191 @@
+import { type ClientEvents, V1Client } from "../src/client";
+import type * as v1 from "../src/types/v1";
+import {
+	FakeWebSocket,
+	StubCodec,
+	emitError,
+	emitResponseGetInfo,
+	emitResponseNewSwapQuoteStream,
+	emitStreamData,
+	emitStreamEnd,
+	failNextDecode,
+	minimalServerInfo,
+	minimalSwapQuotes,
+} from "./helpers";
+
+function quoteRequest(): v1.SwapQuoteRequest {
+	return {
+		swap: {
+			inputMint: new Uint8Array(32),
+			outputMint: new Uint8Array(32),
+			amount: 10,
+		},
+		transaction: { userPublicKey: new Uint8Array(32) },
+	};
+}
+
+// Client recording every occurrence of the given events, in order.
+function recordingClient(names: (keyof ClientEvents)[]) {
+	const socket = new FakeWebSocket();
+	const codec = new StubCodec();
+	const seen: [string, unknown][] = [];
+	const on = Object.fromEntries(
+		names.map((name) => [name, (event: unknown) => seen.push([name, event])]),
+	);
+	const client = new V1Client(socket as any, codec as any, { on });
+	return { client, socket, codec, seen };
+}
+
+function tick() {
+	return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe("V1Client events", () => {
+	test("listeners passed when connecting see the open event", () => {
+		const { seen } = recordingClient(["open"]);
+		expect(seen).toEqual([
+			[
+				"open",
+				{
+					protocol: "v1.api.titan.ag",
+					compression: null,
+					endpoint: null,
+					reconnect: false,
+				},
+			],
+		]);
+	});
+
+	test("reports requests and responses with their latency", async () => {
+		const { client, socket, codec, seen } = recordingClient([
+			"request",
+			"response",
+		]);
+		const info = client.getInfo();
+		await tick();
+		emitResponseGetInfo(socket, codec, 0, minimalServerInfo());
+		await info;
+		const failed = client.getVenues();
+		await tick();
+		emitError(socket, codec, 1, 400, "bad request");
+		await expect(failed).rejects.toThrow("bad request");
+
+		expect(seen.map(([name]) => name)).toEqual([
+			"request",
+			"response",
+			"request",
+			"response",
+		]);
+		expect(seen[0][1]).toMatchObject({
+			requestId: 0,
+			kind: "GetInfo",
+			request: { id: 0, data: { GetInfo: {} } },
+		});
+		expect(seen[1][1]).toMatchObject({
+			requestId: 0,
+			ok: true,
+			latencyMs: expect.any(Number),
+		});
+		expect(seen[3][1]).toMatchObject({
+			requestId: 1,
+			ok: false,
+			message: { code: 400 },
+		});
+	});
+
+	test("leaves heartbeat probes out of request events", async () => {
+		const socket = new FakeWebSocket();
+		const codec = new StubCodec();
+		const seen: string[] = [];
+		const client = new V1Client(socket, codec as any, {
+			heartbeat: { intervalMs: 5, timeoutMs: 50 },
+			on: {
+				request: () => seen.push("request"),
+				response: () => seen.push("response"),
+			},
+		});
+		for (let i = 0; i < 3; i++) {
+			await new Promise((resolve) => setTimeout(resolve, 10));
+			for (const message of codec.encodedMessages.splice(0)) {
+				emitResponseGetInfo(socket, codec, message.id, minimalServerInfo());
+			}
+		}
+		expect(client.closed).toBe(false);
+		expect(seen).toEqual([]);
+		await client.close();
+	});
+
+	test("reports the lifecycle of streams", async () => {
+		const { client, socket, codec, seen } = recordingClient([
+			"streamStart",
+			"streamData",
+			"streamEnd",
+		]);
+		const started = client.newSwapQuoteStream(quoteRequest());
+		emitResponseNewSwapQuoteStream(socket, codec, 0, 42, 500);
+		await started;
+		emitStreamData(socket, codec, 42, minimalSwapQuotes());
+		emitStreamEnd(socket, codec, 42, 5, "no liquidity");
+		await tick();
+
+		expect(seen).toEqual([
+			[
+				"streamStart",
+				{ streamId: 42, intervalMs: 500, request: expect.any(Object) },
+			],
+			[
+				"streamData",
+				{
+					streamId: 42,
+					seq: 0,
+					payload: { SwapQuotes: expect.any(Object) },
+				},
+			],
+			[
+				"streamEnd",
+				{ streamId: 42, errorCode: 5, errorMessage: "no liquidity" },
+			],
+		]);
+	});
+
+	test("reports unknown message types", async () => {
+		const { socket, codec, seen } = recordingClient(["unknownMessage"]);
+		const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+		codec.setNextDecode([{ Surprise: {} } as any]);
+		socket.emitBinary(new Uint8Array([0]).buffer);
+		await tick();
+		warn.mockRestore();
+		expect(seen).toEqual([["unknownMessage", { message: { Surprise: {} } }]]);
+	});
+
+	test("taps raw frames in both directions", async () => {
+		const { client, socket, codec, seen } = recordingClient(["frame"]);
+		const info = client.getInfo();
+		await tick();
+		emitResponseGetInfo(socket, codec, 0, minimalServerInfo());
+		await info;
+		expect(seen).toEqual([
+			["frame", { direction: "sent", data: new Uint8Array([1]) }],
+			["frame", { direction: "received", data: new Uint8Array([0]) }],
+		]);
+	});
+
+	test("reports errors and closes", async () => {
+		const { socket, codec, seen } = recordingClient(["error", "close"]);
+		const failure = new Error("garbage");
+		failNextDecode(socket, codec, failure);
+		await tick();
+		expect(seen).toEqual([
+			["error", { error: failure }],
+			[
+				"close",
+				{
+					code: 3002,
+					reason: "",
+					wasClean: true,
+					willReconnect: false,
+				},
+			],
+		]);
+	});
+});
@@ -0,0 +1,219 @@
+import { encode } from "@msgpack/msgpack";
+
+import { DecodeError, V1ClientCodec } from "../src/codec";
+import { compressors } from "../src/compression";
+import { resolveDecodeLimits, scanMessagePack } from "../src/limits";
+import * as v1 from "../src/types/v1";
+
+// Property-based tests of the codec against hostile or corrupted frames, over
+// inputs drawn from a seeded generator so that failures can be reproduced.
+
+const PROTOCOLS = [
+	v1.WEBSOCKET_SUBPROTO_BASE,
+	...v1.WEBSOCKET_COMPRESSIONS.map(
+		(compression) => `${v1.WEBSOCKET_SUBPROTO_BASE}+${compression}`,
+	),
+];
+
+// Small, fast generator of uniform numbers in [0, 1), from a 32-bit seed.
+function random(seed: number): () => number {
+	let state = seed >>> 0;
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+function integer(rand: () => number, max: number): number {
+	return Math.floor(rand() * max);
+}
+
+// A random value of any MessagePack type but extensions, at most `depth`
+// containers deep.
+function value(rand: () => number, depth: number): unknown {
+	switch (integer(rand, depth > 0 ? 10 : 8)) {
+		case 0:
+			return null;
+		case 1:
+			return rand() < 0.5;
+		case 2:
+			return integer(rand, 2 ** (1 + integer(rand, 52))) - 2 ** 20;
+		case 3:
+			return BigInt(integer(rand, 2 ** 32)) << 31n;
+		case 4:
+			return rand() * 1e6;
+		case 5:
+			return "s".repeat(integer(rand, 40));
+		case 6:
+			return Uint8Array.from({ length: integer(rand, 300) }, () =>
+				integer(rand, 256),
+			);
+		case 7:
+			return `${integer(rand, 1000)}`;
+		case 8:
+			return Array.from({ length: integer(rand, 6) }, () =>
+				value(rand, depth - 1),
+			);
+		default:
+			return object(rand, depth - 1);
+	}
+}
+
+function object(rand: () => number, depth: number): Record<string, unknown> {
+	const fields: Record<string, unknown> = {};
+	for (let i = integer(rand, 6); i > 0; i--) {
+		fields[`f${integer(rand, 20)}`] = value(rand, depth);
+	}
+	return fields;
+}
+
+// Runs the property over `runs` inputs, naming the seed that failed.
+async function property(
+	runs: number,
+	check: (rand: () => number, seed: number) => Promise<void> | void,
+) {
+	for (let seed = 1; seed <= runs; seed++) {
+		try {
+			await check(random(seed), seed);
+		} catch (err) {
+			throw new Error(`Property failed for seed ${seed}: ${err}`, {
+				cause: err,
+			});
+		}
+	}
+}
+
+// Decodes the frame, expecting either a message or a DecodeError.
+async function decodeOrFail(codec: V1ClientCodec, frame: Uint8Array) {
+	try {
+		await codec.decode(frame);
+	} catch (err) {
+		if (!(err instanceof DecodeError)) {
+			throw new Error(`expected a DecodeError, got ${err}`);
+		}
+	}
+}
+
+async function compress(protocol: string, data: Uint8Array) {
+	const name = protocol.split("+")[1];
+	const compressor = name === undefined ? undefined : compressors.get(name);
+	return compressor === undefined ? data : compressor.compress(data);
+}
+
+describe("codec fuzzing", () => {
+	test("decodes every well-formed message", async () => {
+		await property(100, async (rand, seed) => {
+			const message = object(rand, 4);
+			const protocol = PROTOCOLS[seed % PROTOCOLS.length];
+			const codec = V1ClientCodec.from_protocol(protocol);
+			const frame = await compress(
+				protocol,
+				encode(message, { useBigInt64: true }),
+			);
+			expect(await codec.decode(frame)).toEqual(message);
+		});
+	});
+
+	test("fails truncated frames with a DecodeError", async () => {
+		await property(100, async (rand, seed) => {
+			const protocol = PROTOCOLS[seed % PROTOCOLS.length];
+			const codec = V1ClientCodec.from_protocol(protocol);
+			const frame = await compress(
+				protocol,
+				encode(object(rand, 4), { useBigInt64: true }),
+			);
+			await decodeOrFail(
+				codec,
+				frame.subarray(0, integer(rand, frame.byteLength)),
+			);
+		});
+	});
+
+	test("fails corrupted frames with a DecodeError", async () => {
+		await property(200, async (rand, seed) => {
+			const protocol = PROTOCOLS[seed % PROTOCOLS.length];
+			const codec = V1ClientCodec.from_protocol(protocol);
+			codec.lazyRoutes = seed % 2 === 0;
+			const frame = Uint8Array.from(
+				await compress(
+					protocol,
+					encode(object(rand, 4), { useBigInt64: true }),
+				),
+			);
+			for (let flips = 1 + integer(rand, 4); flips > 0; flips--) {
+				frame[integer(rand, frame.byteLength)] = integer(rand, 256);
+			}
+			await decodeOrFail(codec, frame);
+		});
+	});
+
+	test("fails random bytes with a DecodeError", async () => {
+		await property(200, async (rand, seed) => {
+			const codec = V1ClientCodec.from_protocol(
+				PROTOCOLS[seed % PROTOCOLS.length],
+			);
+			await decodeOrFail(
+				codec,
+				Uint8Array.from({ length: integer(rand, 64) }, () =>
+					integer(rand, 256),
+				),
+			);
+		});
+	});
+
+	test("rejects hostile container headers without allocating", async () => {
+		const codec = V1ClientCodec.from_protocol(v1.WEBSOCKET_SUBPROTO_BASE);
+		await property(200, async (rand) => {
+			// A map or array header claiming up to 2^32 - 1 entries, nested in
+			// up to 10,000 arrays, with a few bytes of content.
+			const header = [0xdc, 0xdd, 0xde, 0xdf][integer(rand, 4)];
+			const length = Array.from({ length: header & 1 ? 4 : 2 }, () =>
+				integer(rand, 256),
+			);
+			const frame = new Uint8Array([
+				...new Uint8Array(integer(rand, 10_000)).fill(0x91),
+				header,
+				...length,
+				...Array.from({ length: integer(rand, 8) }, () => integer(rand, 256)),
+			]);
+			const error = await codec.decode(frame).catch((err) => err);
+			expect(error).toBeInstanceOf(DecodeError);
+			expect(["depth", "arrayLength", "mapLength", "malformed"]).toContain(
+				error.kind,
+			);
+		});
+	});
+
+	test("agrees with the decoder on the limits", async () => {
+		const limits = resolveDecodeLimits({
+			maxArrayLength: 3,
+			maxMapLength: 3,
+			maxDepth: 3,
+		});
+		await property(300, (rand) => {
+			const message = object(rand, 4);
+			const violation = scanMessagePack(
+				encode(message, { useBigInt64: true }),
+				limits,
+			);
+			const exceeds = (candidate: unknown, depth: number): boolean => {
+				if (candidate instanceof Uint8Array || typeof candidate !== "object") {
+					return false;
+				}
+				if (candidate === null) {
+					return false;
+				}
+				const items = Object.values(candidate);
+				return (
+					depth > limits.maxDepth ||
+					items.length > 3 ||
+					items.some((item) => exceeds(item, depth + 1))
+				);
+			};
+			expect(violation !== null).toBe(exceeds(message, 1));
+		});
+	});
+});
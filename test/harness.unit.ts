@@ -0,0 +1,258 @@
+import {
+	type StreamStalledEvent,
+	RequestTimeout,
+	V1Client,
+} from "../src/client";
+import { CompressorRegistry, GzipCompressor } from "../src/compression";
+import { noopLogger } from "../src/logger";
+import {
+	AssertionError,
+	FakeClock,
+	ScriptedTransport,
+	SlowCompressor,
+	assertIdle,
+	assertOpenStreams,
+	assertPendingRequests,
+} from "../src/testing/harness";
+import * as v1 from "../src/types/v1";
+import {
+	fixtureQuoteRequest,
+	minimalServerInfo,
+	minimalSwapQuotes,
+	minimalVenueInfo,
+} from "./helpers";
+
+describe("FakeClock", () => {
+	const realDateNow = Date.now;
+	const realPerformanceNow = performance.now;
+	let clock: FakeClock;
+
+	beforeEach(() => {
+		clock = FakeClock.install(1_000_000);
+	});
+
+	afterEach(() => {
+		clock.uninstall();
+	});
+
+	test("runs timers in order as time advances", async () => {
+		const fired: string[] = [];
+		setTimeout(() => fired.push("b"), 20);
+		setTimeout(() => fired.push("a"), 10);
+		const interval = setInterval(() => fired.push("i"), 15);
+		const cancelled = setTimeout(() => fired.push("x"), 5);
+		clearTimeout(cancelled);
+
+		await clock.tick(9);
+		expect(fired).toEqual([]);
+		await clock.tick(21);
+		expect(fired).toEqual(["a", "i", "b", "i"]);
+		expect(Date.now()).toBe(1_000_030);
+		expect(performance.now()).toBe(30);
+
+		clearInterval(interval);
+		expect(clock.pendingTimers).toBe(0);
+	});
+
+	test("runs timers scheduled by other timers", async () => {
+		const fired: number[] = [];
+		setTimeout(() => {
+			fired.push(Date.now());
+			Promise.resolve().then(() =>
+				setTimeout(() => fired.push(Date.now()), 10),
+			);
+		}, 10);
+		await clock.runAll();
+		expect(fired).toEqual([1_000_010, 1_000_020]);
+
+		setInterval(() => {}, 1);
+		await expect(clock.runAll(10)).rejects.toThrow();
+	});
+
+	test("restores the real clock when uninstalled", () => {
+		expect(() => FakeClock.install()).toThrow();
+		expect(Date.now()).toBe(1_000_000);
+		expect(performance.now()).toBe(0);
+		clock.uninstall();
+		expect(Date.now).toBe(realDateNow);
+		expect(performance.now).toBe(realPerformanceNow);
+		expect(Date.now()).toBeGreaterThan(1_000_000_000_000);
+		clock = FakeClock.install();
+	});
+});
+
+describe("ScriptedTransport", () => {
+	let clock: FakeClock;
+	let transport: ScriptedTransport;
+	let client: V1Client;
+
+	beforeEach(async () => {
+		clock = FakeClock.install();
+		transport = new ScriptedTransport();
+		client = await V1Client.connect("ws://scripted/", {
+			transport: transport.factory(),
+			logger: noopLogger,
+			heartbeat: { intervalMs: 60_000, stallFactor: 3 },
+		});
+	});
+
+	afterEach(async () => {
+		clock.uninstall();
+		await client.close();
+	});
+
+	test("times out requests on the fake clock", async () => {
+		const info = client.getInfo({ timeoutMs: 1000 });
+		const request = await transport.nextRequest();
+		expect(request.data).toEqual({ GetInfo: {} });
+		assertPendingRequests(client, ["GetInfo"]);
+
+		await clock.tick(999);
+		assertPendingRequests(client, ["GetInfo"]);
+		await clock.tick(1);
+		await expect(info).rejects.toBeInstanceOf(RequestTimeout);
+		assertIdle(client);
+	});
+
+	test("reports streams that stall", async () => {
+		const stalls: StreamStalledEvent[] = [];
+		client.on("streamStalled", (event) => stalls.push(event));
+		const started = client.newSwapQuoteStream(fixtureQuoteRequest());
+		const request = await transport.nextRequest();
+		await transport.respond(
+			request.id,
+			{ NewSwapQuoteStream: { intervalMs: 1000 } },
+			{ id: 7, dataType: v1.StreamDataType.SwapQuotes },
+		);
+		const { stream } = await started;
+		await transport.deliver({
+			StreamData: {
+				id: 7,
+				seq: 0,
+				payload: { SwapQuotes: minimalSwapQuotes() },
+			},
+		});
+		await stream.getReader().read();
+		assertOpenStreams(client, 1);
+
+		await clock.tick(2999);
+		expect(stalls).toEqual([]);
+		await clock.tick(1);
+		expect(stalls).toEqual([
+			expect.objectContaining({ streamId: 7, silentForMs: 3000 }),
+		]);
+		expect(client.openStreams()).toEqual([
+			{ streamId: 7, intervalMs: 1000, lastSeq: 0, stalled: true },
+		]);
+	});
+
+	test("drops, delays and reorders frames", async () => {
+		const settled: string[] = [];
+		const info = client.getInfo().then((result) => {
+			settled.push("GetInfo");
+			return result;
+		});
+		const venues = client.getVenues().then((result) => {
+			settled.push("GetVenues");
+			return result;
+		});
+		const infoRequest = await transport.nextRequest();
+		const venuesRequest = await transport.nextRequest();
+
+		transport.fault({ kind: "drop" });
+		await transport.respond(infoRequest.id, { GetInfo: minimalServerInfo() });
+		assertPendingRequests(client, ["GetInfo", "GetVenues"]);
+
+		transport.fault({ kind: "reorder" });
+		await transport.respond(infoRequest.id, { GetInfo: minimalServerInfo() });
+		assertPendingRequests(client, ["GetInfo", "GetVenues"]);
+		await transport.respond(venuesRequest.id, {
+			GetVenues: minimalVenueInfo(),
+		});
+		await expect(info).resolves.toEqual(minimalServerInfo());
+		await expect(venues).resolves.toEqual(minimalVenueInfo());
+		expect(settled).toEqual(["GetVenues", "GetInfo"]);
+
+		const delayed = client.getInfo();
+		const delayedRequest = await transport.nextRequest();
+		transport.fault({ kind: "delay", ms: 500 });
+		await transport.respond(delayedRequest.id, {
+			GetInfo: minimalServerInfo(),
+		});
+		await clock.tick(499);
+		assertPendingRequests(client, ["GetInfo"]);
+		await clock.tick(1);
+		await expect(delayed).resolves.toEqual(minimalServerInfo());
+		assertIdle(client);
+	});
+
+	test("duplicates and corrupts frames", async () => {
+		const errors: unknown[] = [];
+		client.on("error", ({ error }) => errors.push(error));
+		const info = client.getInfo();
+		const request = await transport.nextRequest();
+
+		transport.fault({ kind: "duplicate" });
+		await transport.respond(request.id, { GetInfo: minimalServerInfo() });
+		await expect(info).resolves.toEqual(minimalServerInfo());
+		expect(errors).toEqual([]);
+
+		transport.fault({ kind: "corrupt" });
+		await transport.deliver({ StreamEnd: { id: 1 } });
+		await client.listenClosed();
+		expect(errors).toHaveLength(1);
+	});
+
+	test("delivers close events from both sides", async () => {
+		const closes: number[] = [];
+		client.on("close", ({ code }) => closes.push(code));
+		transport.emitClose(1006);
+		transport.emitClose(1000);
+		await clock.flush();
+		expect(client.closed).toBe(true);
+		expect(closes).toEqual([1006]);
+	});
+
+	test("assertions report the state of the client", async () => {
+		client.getInfo().catch(() => {});
+		await transport.nextRequest();
+		expect(() => assertIdle(client)).toThrow(AssertionError);
+		expect(() => assertPendingRequests(client, [])).toThrow(
+			"Expected pending requests [], got [GetInfo]",
+		);
+		expect(() => assertOpenStreams(client, 1)).toThrow(AssertionError);
+	});
+});
+
+describe("SlowCompressor", () => {
+	test("delays decompression on the fake clock", async () => {
+		const clock = FakeClock.install();
+		try {
+			const registry = new CompressorRegistry([
+				new SlowCompressor(new GzipCompressor(), { decompressMs: 100 }),
+			]);
+			const transport = new ScriptedTransport({
+				protocol: `${v1.WEBSOCKET_SUBPROTO_BASE}+gzip`,
+			});
+			const client = await V1Client.connect("ws://scripted/", {
+				transport: transport.factory(),
+				compressors: registry,
+			});
+			let resolved = false;
+			const info = client.getInfo().then((result) => {
+				resolved = true;
+				return result;
+			});
+			const request = await transport.nextRequest();
+			await transport.respond(request.id, { GetInfo: minimalServerInfo() });
+
+			await clock.tick(99);
+			expect(resolved).toBe(false);
+			await clock.tick(1);
+			await expect(info).resolves.toEqual(minimalServerInfo());
+			await client.close();
+		} finally {
+			clock.uninstall();
+		}
+	});
+});
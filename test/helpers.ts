@@ -1,12 +1,21 @@
+import * as fs from "node:fs/promises";
+import { decode, encode } from "@msgpack/msgpack";
+import type { server as WebSocketServer } from "websocket";
+
+import type { Capture } from "../src/capture";
+import { type Compressor, compressors } from "../src/compression";
+import type {
+	Transport,
+	TransportCloseEvent,
+	TransportMessageEvent,
+} from "../src/transport";
 import * as v1 from "../src/types/v1";
 
-export class FakeWebSocket {
-	protocol: string | null = v1.WEBSOCKET_SUBPROTO_BASE;
-	binaryType = "arraybuffer";
-	onopen?: () => void;
-	onmessage?: (e: { data: ArrayBuffer }) => void;
-	onclose?: (e: { code: number; reason?: string; wasClean: boolean }) => void;
-	onerror?: (e: Error) => void;
+export class FakeWebSocket implements Transport {
+	protocol: string = v1.WEBSOCKET_SUBPROTO_BASE;
+	onmessage: ((e: TransportMessageEvent) => void) | null = null;
+	onclose: ((e: TransportCloseEvent) => void) | null = null;
+	onerror: ((e: Error) => void) | null = null;
 	sent: Uint8Array[] = [];
 	closed?: { code?: number; reason?: string };
 
@@ -15,12 +24,21 @@ export class FakeWebSocket {
 	};
 	close = (code?: number, reason?: string) => {
 		this.closed = { code, reason };
-		this.onclose?.({ code: code ?? 1000, reason, wasClean: true });
+		this.onclose?.({
+			code: code ?? 1000,
+			reason: reason ?? "",
+			wasClean: true,
+		});
 	};
 
 	emitBinary(buffer: ArrayBuffer) {
 		this.onmessage?.({ data: buffer });
 	}
+
+	// Simulates the server or network dropping the connection.
+	drop(code = 1006, reason = "") {
+		this.onclose?.({ code, reason, wasClean: false });
+	}
 }
 
 export class StubCodec {
@@ -35,6 +53,8 @@ export class StubCodec {
 		this.nextDecodeErr = error;
 	}
 
+	compression = (): string | null => null;
+
 	encode = async (message: any) => {
 		this.encodedMessages.push(message);
 		return new Uint8Array([1]);
@@ -168,8 +188,8 @@ export function emitResponseStopStream(
 	socket.emitBinary(new Uint8Array([0]).buffer);
 }
 
-export function emitStreamData(socket: FakeWebSocket, codec: StubCodec, streamId: number, quotes: v1.SwapQuotes) {
-	codec.setNextDecode([{ StreamData: { id: streamId, seq: 0, payload: { SwapQuotes: quotes } } }]);
+export function emitStreamData(socket: FakeWebSocket, codec: StubCodec, streamId: number, quotes: v1.SwapQuotes, seq = 0) {
+	codec.setNextDecode([{ StreamData: { id: streamId, seq, payload: { SwapQuotes: quotes } } }]);
 	socket.emitBinary(new Uint8Array([0]).buffer);
 }
 
@@ -194,4 +214,90 @@ export function failNextDecode(socket: FakeWebSocket, codec: StubCodec, error: E
 	socket.emitBinary(new Uint8Array([0]).buffer);
 }
 
+// Accepts connections to the server without compression, and answers every
+// GetInfo request on them after the given delay.
+export function answerGetInfo(wsServer: WebSocketServer, delayMs = 0) {
+	wsServer.on("request", (req) => {
+		const conn = req.accept(v1.WEBSOCKET_SUBPROTO_BASE);
+		conn.on("message", (msg) => {
+			if (msg.type !== "binary") return;
+			const request = decode(msg.binaryData) as v1.ClientRequest;
+			if (!("GetInfo" in request.data)) return;
+			const response: v1.ServerMessage = {
+				Response: { requestId: request.id, data: { GetInfo: minimalServerInfo() } },
+			};
+			const encoded = Buffer.from(encode(response));
+			setTimeout(() => conn.sendBytes(encoded), delayMs);
+		});
+	});
+}
+
+// Quote stream fixtures in test/data, with the subprotocol they are compressed for.
+export const STREAM_FIXTURES: [protocol: string, file: string][] = [
+	[v1.WEBSOCKET_SUBPROTO_BASE, "stream_data.msgpack"],
+	[`${v1.WEBSOCKET_SUBPROTO_BASE}+zstd`, "stream_data.msgpack.zstd"],
+	[`${v1.WEBSOCKET_SUBPROTO_BASE}+brotli`, "stream_data.msgpack.brotli"],
+	[`${v1.WEBSOCKET_SUBPROTO_BASE}+gzip`, "stream_data.msgpack.gz"],
+];
+
+// Request for the quote stream the fixtures were recorded from.
+export function fixtureQuoteRequest(): v1.SwapQuoteRequest {
+	return {
+		swap: {
+			inputMint: new Uint8Array(32),
+			outputMint: new Uint8Array(32),
+			amount: 50_000_000,
+		},
+		transaction: { userPublicKey: new Uint8Array(32) },
+	};
+}
+
+// Turns a quote stream fixture into a capture of a session that requested the
+// stream, got it started as stream 0, and received the fixture as its first update.
+export async function fixtureCapture(protocol: string, file: string): Promise<Capture> {
+	const compression = protocol.split("+")[1];
+	const compress = (message: object) => {
+		const encoded = encode(message, { useBigInt64: true });
+		return compression === undefined
+			? encoded
+			: (compressors.get(compression) as Compressor).compress(encoded);
+	};
+	const request = await compress({
+		id: 0,
+		data: { NewSwapQuoteStream: fixtureQuoteRequest() },
+	});
+	const response = await compress({
+		Response: {
+			requestId: 0,
+			data: { NewSwapQuoteStream: { intervalMs: 1000 } },
+			stream: { id: 0, dataType: v1.StreamDataType.SwapQuotes },
+		},
+	});
+	const update = new Uint8Array(await fs.readFile(`test/data/${file}`));
+	return {
+		startedAt: 0,
+		connections: [
+			{
+				protocol,
+				openedAtMs: 0,
+				frames: [
+					{ timeMs: 0, direction: "sent", data: request },
+					{ timeMs: 20, direction: "received", data: response },
+					{ timeMs: 40, direction: "received", data: update },
+				],
+			},
+		],
+	};
+}
 
+// A zstd frame that declares no content size, made of RLE blocks: a few bytes
+// per block that decompress to 128 KiB each.
+export function zstdBomb(blocks: number): Uint8Array {
+	// Magic number, then a descriptor with no size and a 128 KiB window.
+	const frame = [0x28, 0xb5, 0x2f, 0xfd, 0x00, 0x38];
+	for (let i = 1; i <= blocks; i++) {
+		// RLE block of 128 KiB, the last one flagged, repeating "a".
+		frame.push(i === blocks ? 0x03 : 0x02, 0x00, 0x10, 0x61);
+	}
+	return new Uint8Array(frame);
+}
@@ -0,0 +1,124 @@
+import * as fs from "node:fs/promises";
+import { Decoder, encode } from "@msgpack/msgpack";
+
+import { V1Client } from "../src/client";
+import { V1ClientCodec } from "../src/codec";
+import { LAZY_ROUTE_FIELDS, decodeLazily } from "../src/lazy";
+import * as v1 from "../src/types/v1";
+import { FakeWebSocket } from "./helpers";
+
+const decoder = new Decoder({ useBigInt64: true });
+
+// Whether the field is still waiting to be decoded.
+function isPending(route: object, field: string): boolean {
+	return Object.getOwnPropertyDescriptor(route, field)?.get !== undefined;
+}
+
+function routes(message: v1.ServerMessage): v1.SwapRoute[] {
+	if (!("StreamData" in message)) {
+		throw new Error("expected stream data");
+	}
+	return Object.values(message.StreamData.payload.SwapQuotes.quotes);
+}
+
+describe("lazy decoding", () => {
+	test("decodes route details on first access", async () => {
+		for (const [protocol, file] of [
+			["v1.api.titan.ag", "stream_data.msgpack"],
+			["v1.api.titan.ag+zstd", "stream_data.msgpack.zstd"],
+			["v1.api.titan.ag+brotli", "stream_data.msgpack.brotli"],
+			["v1.api.titan.ag+gzip", "stream_data.msgpack.gz"],
+		]) {
+			const data = await fs.readFile(`test/data/${file}`);
+			const eager = V1ClientCodec.from_protocol(protocol);
+			const lazy = V1ClientCodec.from_protocol(protocol);
+			lazy.lazyRoutes = true;
+
+			const message = await lazy.decode(data);
+			const [route] = routes(message);
+			expect(isPending(route, "instructions")).toBe(true);
+			expect(isPending(route, "inAmount")).toBe(false);
+			expect(route.instructions.length).toBeGreaterThan(0);
+			expect(isPending(route, "instructions")).toBe(false);
+			expect(isPending(route, "steps")).toBe(true);
+
+			expect(message).toEqual(await eager.decode(data));
+		}
+	});
+
+	test("only defers the fields of quoted routes", () => {
+		const messages: v1.ServerMessage[] = [
+			{ StreamEnd: { id: 1 } },
+			{ Response: { requestId: 2, data: { ListProviders: [] } } },
+			{ Error: { requestId: 3, code: 500, message: "steps" } },
+		];
+		for (const message of messages) {
+			expect(decodeLazily(decoder, encode(message))).toEqual(message);
+		}
+
+		const route = {
+			inAmount: 2n ** 60n,
+			outAmount: 5,
+			slippageBps: 50,
+			steps: [],
+			instructions: [],
+			addressLookupTables: [new Uint8Array(32).fill(7)],
+			transaction: new Uint8Array([1, 2, 3]),
+			referenceId: "ref",
+		};
+		const decoded = decodeLazily(
+			decoder,
+			encode(
+				{
+					StreamData: {
+						id: 1,
+						seq: 0,
+						payload: { SwapQuotes: { id: "q", quotes: { Titan: route } } },
+					},
+				},
+				{ useBigInt64: true },
+			),
+		) as v1.ServerMessage;
+		const [lazyRoute] = routes(decoded);
+		for (const field of LAZY_ROUTE_FIELDS) {
+			expect(isPending(lazyRoute, field)).toBe(true);
+		}
+		expect(Object.keys(lazyRoute)).toEqual(Object.keys(route));
+		expect(lazyRoute).toEqual(route);
+	});
+
+	test("fields written before they are read are replaced", () => {
+		const data = encode({
+			StreamData: {
+				id: 1,
+				seq: 0,
+				payload: { SwapQuotes: { quotes: { Titan: { steps: [1] } } } },
+			},
+		});
+		const [route] = routes(decodeLazily(decoder, data) as v1.ServerMessage);
+		route.steps = [];
+		expect(route.steps).toEqual([]);
+		expect(isPending(route, "steps")).toBe(false);
+	});
+
+	test("rejects truncated and trailing data", () => {
+		const data = encode({ StreamEnd: { id: 1 } });
+		expect(() => decodeLazily(decoder, data.subarray(0, -1))).toThrow(
+			RangeError,
+		);
+		const extra = new Uint8Array(data.byteLength + 1);
+		extra.set(data);
+		expect(() => decodeLazily(decoder, extra)).toThrow(RangeError);
+	});
+});
+
+describe("client with lazy routes", () => {
+	test("enables lazy decoding on the codec", async () => {
+		const codec = V1ClientCodec.from_protocol(v1.WEBSOCKET_SUBPROTO_BASE);
+		const client = new V1Client(new FakeWebSocket() as any, codec, {
+			lazyRoutes: true,
+		});
+		expect(codec.lazyRoutes).toBe(true);
+		await client.close();
+	});
+});
@@ -0,0 +1,188 @@
+import { encode } from "@msgpack/msgpack";
+
+import { type ClientErrorEvent, V1Client } from "../src/client";
+import { DecodeError, V1ClientCodec } from "../src/codec";
+import {
+	type Compressor,
+	DecompressionLimitError,
+	compressors,
+} from "../src/compression";
+import { resolveDecodeLimits, scanMessagePack } from "../src/limits";
+import { ScriptedTransport } from "../src/testing/harness";
+import * as v1 from "../src/types/v1";
+import { zstdBomb } from "./helpers";
+
+// An encoding of `depth` arrays nested in one another, around a nil.
+function nested(depth: number): Uint8Array {
+	return new Uint8Array([...Array(depth).fill(0x91), 0xc0]);
+}
+
+async function decodeError(
+	codec: V1ClientCodec,
+	data: Uint8Array,
+): Promise<DecodeError> {
+	const error = await codec.decode(data).catch((err) => err);
+	expect(error).toBeInstanceOf(DecodeError);
+	return error;
+}
+
+describe("resolveDecodeLimits", () => {
+	test("fills in defaults", () => {
+		expect(resolveDecodeLimits({ maxDepth: 8 })).toEqual({
+			maxMessageBytes: 64 * 1024 * 1024,
+			maxArrayLength: 1_048_576,
+			maxMapLength: 65_536,
+			maxDepth: 8,
+		});
+	});
+
+	test("rejects limits that are not positive integers", () => {
+		for (const limits of [
+			{ maxDepth: 0 },
+			{ maxArrayLength: 1.5 },
+			{ maxMessageBytes: Number.POSITIVE_INFINITY },
+		]) {
+			expect(() => resolveDecodeLimits(limits)).toThrow(RangeError);
+		}
+	});
+});
+
+describe("scanMessagePack", () => {
+	const limits = resolveDecodeLimits({
+		maxArrayLength: 6,
+		maxMapLength: 2,
+		maxDepth: 3,
+	});
+
+	test("accepts well-formed messages within the limits", () => {
+		const message = encode(
+			{ a: [1, -1, 2 ** 40, 1.5, "text", new Uint8Array(300)], b: null },
+			{ useBigInt64: true },
+		);
+		expect(scanMessagePack(message, limits)).toBeNull();
+		expect(scanMessagePack(nested(2), limits)).toBeNull();
+	});
+
+	test("names the limit exceeded", () => {
+		expect(scanMessagePack(encode([1, 2, 3, 4, 5, 6, 7]), limits)?.kind).toBe(
+			"arrayLength",
+		);
+		expect(scanMessagePack(encode({ a: 1, b: 2, c: 3 }), limits)?.kind).toBe(
+			"mapLength",
+		);
+		expect(scanMessagePack(nested(4), limits)?.kind).toBe("depth");
+		expect(
+			scanMessagePack(new Uint8Array([0xd4, 0x01, 0x00]), limits)?.kind,
+		).toBe("extension");
+	});
+
+	test("rejects lengths longer than the frame before reading them", () => {
+		for (const frame of [
+			// Array of 65,535 items.
+			[0xdc, 0xff, 0xff],
+			// String of 2^32 - 1 bytes.
+			[0xdb, 0xff, 0xff, 0xff, 0xff, 0x61],
+			// Binary whose length is cut short.
+			[0xc5, 0x01],
+			// Map missing its last value.
+			[0x81, 0xa1, 0x61],
+		]) {
+			expect(
+				scanMessagePack(new Uint8Array(frame), resolveDecodeLimits()),
+			).toEqual({
+				kind: "malformed",
+				reason: expect.stringMatching(/^truncated/),
+			});
+		}
+	});
+
+	test("rejects reserved types and trailing bytes", () => {
+		expect(scanMessagePack(new Uint8Array([0xc1]), limits)?.kind).toBe(
+			"malformed",
+		);
+		expect(scanMessagePack(new Uint8Array([0x80, 0x80]), limits)).toEqual({
+			kind: "malformed",
+			reason: "1 bytes left after the message",
+		});
+	});
+});
+
+describe("decode limits", () => {
+	test("reject messages decompressing past the size limit", async () => {
+		const message = encode({
+			StreamEnd: { id: 1, errorMessage: "x".repeat(100_000) },
+		});
+		for (const compression of v1.WEBSOCKET_COMPRESSIONS) {
+			const codec = V1ClientCodec.from_protocol(
+				`${v1.WEBSOCKET_SUBPROTO_BASE}+${compression}`,
+			);
+			codec.limits = resolveDecodeLimits({ maxMessageBytes: 10_000 });
+			const compressed = await compressors.get(compression)?.compress(message);
+			const error = await decodeError(codec, compressed as Uint8Array);
+			expect(error.kind).toBe("messageSize");
+		}
+	});
+
+	test("stop zstd frames that declare no size before decompressing", async () => {
+		const zstd = compressors.get("zstd") as Compressor;
+		const bomb = zstdBomb(64);
+		expect((await zstd.decompress(bomb)).byteLength).toBe(8 * 1024 * 1024);
+
+		const codec = V1ClientCodec.from_protocol(
+			`${v1.WEBSOCKET_SUBPROTO_BASE}+zstd`,
+		);
+		codec.limits = resolveDecodeLimits({ maxMessageBytes: 1024 });
+		// A frame declaring a single byte, followed by the bomb.
+		const small = [0x28, 0xb5, 0x2f, 0xfd, 0x20, 0x01, 0x09, 0x00, 0x00, 0x61];
+		for (const frame of [bomb, new Uint8Array([...small, ...bomb])]) {
+			const error = await decodeError(codec, frame);
+			expect(error.kind).toBe("messageSize");
+			expect(error.message).toContain(
+				new DecompressionLimitError(1024).message,
+			);
+		}
+		expect(await zstd.decompress(new Uint8Array(small), 1)).toEqual(
+			new Uint8Array([0x61]),
+		);
+	});
+
+	test("give every failure a kind", async () => {
+		const codec = V1ClientCodec.from_protocol(
+			`${v1.WEBSOCKET_SUBPROTO_BASE}+gzip`,
+		);
+		expect((await decodeError(codec, new Uint8Array([1, 2, 3]))).kind).toBe(
+			"decompress",
+		);
+
+		const plain = V1ClientCodec.from_protocol(v1.WEBSOCKET_SUBPROTO_BASE);
+		plain.limits = resolveDecodeLimits({ maxDepth: 3 });
+		expect((await decodeError(plain, nested(4))).kind).toBe("depth");
+		expect((await decodeError(plain, encode([1]))).kind).toBe("shape");
+		// A map with an array as a key.
+		expect(
+			(await decodeError(plain, new Uint8Array([0x81, 0x90, 0xc0]))).kind,
+		).toBe("malformed");
+
+		plain.validation = "strict";
+		expect(
+			(await decodeError(plain, encode({ StreamEnd: { id: "1" } }))).kind,
+		).toBe("schema");
+	});
+
+	test("are set by the decodeLimits option", async () => {
+		expect(() => resolveDecodeLimits({ maxMapLength: -1 })).toThrow(RangeError);
+		const transport = new ScriptedTransport();
+		const client = await V1Client.connect("ws://scripted/", {
+			transport: transport.factory(),
+			decodeLimits: { maxDepth: 3 },
+		});
+		const errors: ClientErrorEvent[] = [];
+		client.on("error", (event) => errors.push(event));
+
+		transport.deliverFrame(nested(4));
+		expect((await client.listenClosed()).code).toBe(3002);
+		expect(errors).toEqual([
+			{ error: expect.objectContaining({ kind: "depth" }) },
+		]);
+	});
+});
@@ -0,0 +1,220 @@
+import { ConnectionStale, V1Client } from "../src/client";
+import {
+	HeartbeatMonitor,
+	ProbeTimeout,
+	resolveHeartbeatOptions,
+} from "../src/liveness";
+import type * as v1 from "../src/types/v1";
+import {
+	FakeWebSocket,
+	StubCodec,
+	emitResponseGetInfo,
+	emitResponseNewSwapQuoteStream,
+	emitStreamData,
+	minimalServerInfo,
+	minimalSwapQuotes,
+} from "./helpers";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function quoteRequest(): v1.SwapQuoteRequest {
+	return {
+		swap: {
+			inputMint: new Uint8Array(32),
+			outputMint: new Uint8Array(32),
+			amount: 10,
+		},
+		transaction: { userPublicKey: new Uint8Array(32) },
+	};
+}
+
+class PingableWebSocket extends FakeWebSocket {
+	ping = jest.fn(async () => {});
+}
+
+describe("heartbeat options", () => {
+	test("disabled unless requested", () => {
+		expect(resolveHeartbeatOptions(undefined)).toBeNull();
+		expect(resolveHeartbeatOptions(false)).toBeNull();
+	});
+
+	test("timeout defaults to the interval", () => {
+		expect(resolveHeartbeatOptions({ intervalMs: 500 })).toEqual({
+			intervalMs: 500,
+			timeoutMs: 500,
+			maxMissed: 2,
+			stallFactor: 3,
+		});
+	});
+
+	test("rejects invalid settings", () => {
+		expect(() => resolveHeartbeatOptions({ intervalMs: 0 })).toThrow(
+			RangeError,
+		);
+		expect(() => resolveHeartbeatOptions({ maxMissed: 0 })).toThrow(
+			RangeError,
+		);
+	});
+});
+
+describe("HeartbeatMonitor", () => {
+	const options = { intervalMs: 5, timeoutMs: 5, maxMissed: 2, stallFactor: 3 };
+
+	test("reports stale after consecutive missed probes", async () => {
+		const onStale = jest.fn();
+		const monitor = new HeartbeatMonitor(
+			options,
+			() => new Promise(() => {}),
+			() => false,
+			onStale,
+		);
+		monitor.start();
+		await sleep(60);
+		monitor.stop();
+		expect(onStale).toHaveBeenCalledTimes(1);
+		expect(onStale).toHaveBeenCalledWith(2);
+	});
+
+	test("answered probes and activity keep the connection alive", async () => {
+		const onStale = jest.fn();
+		const probe = jest.fn(async () => {});
+		const monitor = new HeartbeatMonitor(options, probe, () => false, onStale);
+		monitor.start();
+		await sleep(40);
+		monitor.stop();
+		expect(probe).toHaveBeenCalled();
+		expect(onStale).not.toHaveBeenCalled();
+	});
+
+	test("errors other than timeouts count as a sign of life", async () => {
+		const onStale = jest.fn();
+		const monitor = new HeartbeatMonitor(
+			options,
+			async () => {
+				throw new Error("server said no");
+			},
+			(err) => err instanceof ProbeTimeout,
+			onStale,
+		);
+		monitor.start();
+		await sleep(40);
+		monitor.stop();
+		expect(onStale).not.toHaveBeenCalled();
+	});
+});
+
+describe("V1Client liveness", () => {
+	test("tears down a connection that stops answering with ConnectionStale", async () => {
+		const socket = new FakeWebSocket();
+		const codec = new StubCodec();
+		const client = new V1Client(socket as any, codec as any, {
+			heartbeat: { intervalMs: 5, maxMissed: 2 },
+		});
+
+		const pending = client.getSwapPrice({
+			inputMint: new Uint8Array(32),
+			outputMint: new Uint8Array(32),
+			amount: 1,
+		});
+		await expect(pending).rejects.toBeInstanceOf(ConnectionStale);
+		expect(client.closed).toBe(true);
+		expect(socket.closed?.code).toBe(4000);
+		// Heartbeats are sent as GetInfo requests when ping is not supported.
+		expect(
+			codec.encodedMessages.filter((m) => m.data.GetInfo !== undefined).length,
+		).toBeGreaterThanOrEqual(2);
+	});
+
+	test("answered GetInfo heartbeats keep the connection open", async () => {
+		const socket = new FakeWebSocket();
+		const codec = new StubCodec();
+		const client = new V1Client(socket as any, codec as any, {
+			heartbeat: { intervalMs: 5, timeoutMs: 50, maxMissed: 1 },
+		});
+
+		const answered = new Set<number>();
+		const responder = setInterval(() => {
+			for (const message of codec.encodedMessages) {
+				if (!answered.has(message.id)) {
+					answered.add(message.id);
+					emitResponseGetInfo(socket, codec, message.id, minimalServerInfo());
+				}
+			}
+		}, 1);
+		await sleep(60);
+		clearInterval(responder);
+		expect(client.closed).toBe(false);
+		expect(answered.size).toBeGreaterThan(0);
+		await client.close();
+	});
+
+	test("uses WebSocket pings when the socket supports them", async () => {
+		const socket = new PingableWebSocket();
+		const codec = new StubCodec();
+		const client = new V1Client(socket as any, codec as any, {
+			heartbeat: { intervalMs: 5 },
+		});
+
+		await sleep(30);
+		expect(socket.ping).toHaveBeenCalled();
+		expect(codec.encodedMessages).toHaveLength(0);
+		expect(client.closed).toBe(false);
+		await client.close();
+	});
+
+	test("reports stalled streams and their recovery", async () => {
+		const socket = new PingableWebSocket();
+		const codec = new StubCodec();
+		const client = new V1Client(socket as any, codec as any, {
+			heartbeat: { intervalMs: 1000, stallFactor: 2 },
+		});
+
+		const stalled = jest.fn();
+		const resumed = jest.fn();
+		client.on("streamStalled", stalled);
+		client.on("streamResumed", resumed);
+
+		const streamP = client.newSwapQuoteStream(quoteRequest());
+		emitResponseNewSwapQuoteStream(socket, codec, 0, 6, 5);
+		const { stream } = await streamP;
+		const reader = stream.getReader();
+
+		await sleep(30);
+		expect(stalled).toHaveBeenCalledTimes(1);
+		expect(stalled).toHaveBeenCalledWith(
+			expect.objectContaining({ streamId: 6, intervalMs: 5 }),
+		);
+		expect(stalled.mock.calls[0][0].silentForMs).toBeGreaterThanOrEqual(10);
+
+		emitStreamData(socket, codec, 6, minimalSwapQuotes());
+		await reader.read();
+		expect(resumed).toHaveBeenCalledWith(
+			expect.objectContaining({ streamId: 6 }),
+		);
+		await client.close();
+	});
+
+	test("stale connection is re-established when reconnect is enabled", async () => {
+		const socket = new FakeWebSocket();
+		const codec = new StubCodec();
+		const replacement = new PingableWebSocket();
+		const client = new V1Client(socket as any, codec as any, {
+			heartbeat: { intervalMs: 5, maxMissed: 1 },
+			reconnect: { initialDelayMs: 0, jitter: 0 },
+			connector: async () => ({
+				transport: replacement as any,
+				codec: new StubCodec() as any,
+			}),
+		});
+
+		const reconnecting = new Promise<any>((resolve) =>
+			client.once("reconnecting", resolve),
+		);
+		await expect(reconnecting).resolves.toMatchObject({
+			error: expect.any(ConnectionStale),
+		});
+		await new Promise((resolve) => client.once("reconnected", resolve));
+		expect(client.closed).toBe(false);
+		await client.close();
+	});
+});
@@ -0,0 +1,151 @@
+import { V1Client } from "../src/client";
+import {
+	type Logger,
+	consoleLogger,
+	noopLogger,
+	pinoLogger,
+	winstonLogger,
+	withFields,
+	withLevel,
+} from "../src/logger";
+import {
+	FakeWebSocket,
+	StubCodec,
+	emitResponseGetInfo,
+	emitStreamData,
+	minimalServerInfo,
+	minimalSwapQuotes,
+} from "./helpers";
+
+// Logger recording every entry as [level, message, fields].
+function recordingLogger() {
+	const entries: [string, string, unknown][] = [];
+	const record =
+		(level: string) => (message: string, fields?: Record<string, unknown>) => {
+			entries.push([level, message, fields]);
+		};
+	const logger: Logger = {
+		debug: record("debug"),
+		info: record("info"),
+		warn: record("warn"),
+		error: record("error"),
+	};
+	return { logger, entries };
+}
+
+describe("loggers", () => {
+	test("withLevel drops entries below the threshold", () => {
+		const { logger, entries } = recordingLogger();
+		const filtered = withLevel(logger, "warn");
+		filtered.debug("d");
+		filtered.info("i");
+		filtered.warn("w");
+		filtered.error("e", { requestId: 1 });
+		expect(entries).toEqual([
+			["warn", "w", undefined],
+			["error", "e", { requestId: 1 }],
+		]);
+		expect(() => withLevel(logger, "verbose" as any)).toThrow(RangeError);
+	});
+
+	test("withFields adds context to every entry", () => {
+		const { logger, entries } = recordingLogger();
+		const child = withFields(logger, { client: "eu", streamId: 0 });
+		child.info("started", { streamId: 7 });
+		expect(entries).toEqual([
+			["info", "started", { client: "eu", streamId: 7 }],
+		]);
+	});
+
+	test("consoleLogger writes fields as a separate argument", () => {
+		const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+		const info = jest.spyOn(console, "info").mockImplementation(() => {});
+		try {
+			const logger = consoleLogger();
+			logger.info("hidden");
+			logger.warn("plain");
+			logger.warn("with fields", { streamId: 3 });
+			expect(info).not.toHaveBeenCalled();
+			expect(warn.mock.calls).toEqual([
+				["plain"],
+				["with fields", { streamId: 3 }],
+			]);
+		} finally {
+			warn.mockRestore();
+			info.mockRestore();
+		}
+	});
+
+	test("adapts pino and winston style loggers", () => {
+		const pino = {
+			debug: jest.fn(),
+			info: jest.fn(),
+			warn: jest.fn(),
+			error: jest.fn(),
+		};
+		pinoLogger(pino).error("failed", { requestId: 2 });
+		pinoLogger(pino).info("no fields");
+		expect(pino.error).toHaveBeenCalledWith({ requestId: 2 }, "failed");
+		expect(pino.info).toHaveBeenCalledWith({}, "no fields");
+
+		const winston = { log: jest.fn() };
+		winstonLogger(winston).warn("slow", { streamId: 1 });
+		expect(winston.log).toHaveBeenCalledWith("warn", "slow", { streamId: 1 });
+	});
+});
+
+describe("V1Client logging", () => {
+	test("routes diagnostics through the configured logger", async () => {
+		const { logger, entries } = recordingLogger();
+		const socket = new FakeWebSocket();
+		const codec = new StubCodec();
+		new V1Client(socket as any, codec as any, { logger });
+
+		emitStreamData(socket, codec, 9, minimalSwapQuotes());
+		emitResponseGetInfo(socket, codec, 5, minimalServerInfo());
+		await new Promise((resolve) => setTimeout(resolve, 0));
+		expect(entries).toEqual([
+			[
+				"error",
+				"Got stream data for unknown stream",
+				{ streamId: 9, messageType: "StreamData", seq: 0 },
+			],
+			[
+				"error",
+				"Got response for unknown request ID",
+				{ requestId: 5, messageType: "Response" },
+			],
+		]);
+	});
+
+	test("reports listener errors through the logger", () => {
+		const { logger, entries } = recordingLogger();
+		const failure = new Error("listener bug");
+		new V1Client(new FakeWebSocket() as any, new StubCodec() as any, {
+			logger,
+			on: {
+				open: () => {
+					throw failure;
+				},
+			},
+		});
+		expect(entries).toEqual([
+			[
+				"error",
+				"Event listener threw error",
+				{ event: "open", error: failure },
+			],
+		]);
+	});
+
+	test("noopLogger discards everything", async () => {
+		const error = jest.spyOn(console, "error");
+		const socket = new FakeWebSocket();
+		const codec = new StubCodec();
+		new V1Client(socket as any, codec as any, { logger: noopLogger });
+		emitStreamData(socket, codec, 9, minimalSwapQuotes());
+		await new Promise((resolve) => setTimeout(resolve, 0));
+		expect(error).not.toHaveBeenCalled();
+		error.mockRestore();
+	});
+});
@@ -0,0 +1,193 @@
+import { gzip } from "http-encoding";
+import { encode } from "@msgpack/msgpack";
+
+import { V1Client } from "../src/client";
+import { V1ClientCodec } from "../src/codec";
+import { ClientMetrics, Counter, Histogram } from "../src/metrics";
+import type * as v1 from "../src/types/v1";
+import {
+	FakeWebSocket,
+	StubCodec,
+	emitError,
+	emitResponseGetInfo,
+	emitResponseNewSwapQuoteStream,
+	emitStreamData,
+	emitStreamEnd,
+	minimalServerInfo,
+	minimalSwapQuotes,
+} from "./helpers";
+
+function quoteRequest(): v1.SwapQuoteRequest {
+	return {
+		swap: {
+			inputMint: new Uint8Array(32),
+			outputMint: new Uint8Array(32),
+			amount: 10,
+		},
+		transaction: { userPublicKey: new Uint8Array(32) },
+	};
+}
+
+function tick() {
+	return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe("metric primitives", () => {
+	test("counters keep a series per label set", () => {
+		const counter = new Counter("things_total", "Things.");
+		counter.inc({ kind: "a", outcome: "ok" });
+		counter.inc({ outcome: "ok", kind: "a" }, 2);
+		counter.inc({ kind: "b" });
+		expect(counter.value({ kind: "a", outcome: "ok" })).toBe(3);
+		expect(counter.value({ kind: "c" })).toBe(0);
+		expect(counter.toPrometheus()).toEqual([
+			"# HELP things_total Things.",
+			"# TYPE things_total counter",
+			'things_total{kind="a",outcome="ok"} 3',
+			'things_total{kind="b"} 1',
+		]);
+	});
+
+	test("histograms count values into cumulative buckets", () => {
+		const histogram = new Histogram("latency_ms", "Latency.", [10, 100]);
+		histogram.observe(5);
+		histogram.observe(10);
+		histogram.observe(50);
+		histogram.observe(500);
+		expect(histogram.snapshot()).toEqual({
+			count: 4,
+			sum: 565,
+			buckets: [
+				{ le: 10, count: 2 },
+				{ le: 100, count: 3 },
+				{ le: Infinity, count: 4 },
+			],
+		});
+		expect(histogram.toPrometheus()).toEqual([
+			"# HELP latency_ms Latency.",
+			"# TYPE latency_ms histogram",
+			'latency_ms_bucket{le="10"} 2',
+			'latency_ms_bucket{le="100"} 3',
+			'latency_ms_bucket{le="+Inf"} 4',
+			"latency_ms_sum 565",
+			"latency_ms_count 4",
+		]);
+		expect(() => new Histogram("bad", "Bad.", [10, 5])).toThrow(RangeError);
+	});
+
+	test("escapes label values", () => {
+		const counter = new Counter("c", "C.");
+		counter.inc({ kind: 'say "hi"\\\n' });
+		expect(counter.toPrometheus()[2]).toBe('c{kind="say \\"hi\\"\\\\\\n"} 1');
+	});
+});
+
+describe("ClientMetrics", () => {
+	test("records requests by kind and outcome", async () => {
+		const metrics = new ClientMetrics();
+		const socket = new FakeWebSocket();
+		const codec = new StubCodec();
+		const client = new V1Client(socket as any, codec as any, { metrics });
+
+		const info = client.getInfo();
+		const venues = client.getVenues();
+		const timedOut = client.listProviders(undefined, { timeoutMs: 1 });
+		await tick();
+		emitResponseGetInfo(socket, codec, 0, minimalServerInfo());
+		emitError(socket, codec, 1, 500, "boom");
+		await info;
+		await expect(venues).rejects.toThrow("boom");
+		await expect(timedOut).rejects.toThrow();
+
+		const { requests } = metrics.snapshot();
+		expect(requests.GetInfo).toMatchObject({ sent: 1, ok: 1, error: 0 });
+		expect(requests.GetInfo.latencyMs.count).toBe(1);
+		expect(requests.GetVenues).toMatchObject({ sent: 1, error: 1 });
+		expect(requests.ListProviders).toMatchObject({ sent: 1, timeout: 1 });
+		expect(requests.ListProviders.latencyMs.count).toBe(0);
+	});
+
+	test("leaves heartbeat probes out", async () => {
+		const metrics = new ClientMetrics();
+		const socket = new FakeWebSocket();
+		const codec = new StubCodec();
+		const client = new V1Client(socket, codec as any, {
+			metrics,
+			heartbeat: { intervalMs: 5, timeoutMs: 5, maxMissed: 3 },
+		});
+
+		// One probe is answered, the next times out
+		while (codec.encodedMessages.length === 0) {
+			await tick();
+		}
+		const [probe] = codec.encodedMessages;
+		emitResponseGetInfo(socket, codec, probe.id, minimalServerInfo());
+		while (codec.encodedMessages.length === 1) {
+			await tick();
+		}
+		await new Promise((resolve) => setTimeout(resolve, 10));
+		expect(metrics.snapshot().requests).toEqual({});
+		expect(metrics.toPrometheus()).not.toContain("GetInfo");
+		await client.close();
+	});
+
+	test("records stream starts, updates and ends", async () => {
+		const metrics = new ClientMetrics();
+		const socket = new FakeWebSocket();
+		const codec = new StubCodec();
+		const client = new V1Client(socket as any, codec as any, { metrics });
+
+		const started = client.newSwapQuoteStream(quoteRequest());
+		emitResponseNewSwapQuoteStream(socket, codec, 0, 42, 1000);
+		await started;
+		emitStreamData(socket, codec, 42, minimalSwapQuotes(), 0);
+		emitStreamData(socket, codec, 42, minimalSwapQuotes(), 1);
+		emitStreamEnd(socket, codec, 42, 3, "gone");
+		await tick();
+
+		expect(metrics.snapshot().streams).toMatchObject({
+			started: 1,
+			ended: 0,
+			failed: 1,
+			updates: 2,
+			updateIntervalMs: { count: 2 },
+		});
+	});
+
+	test("records bytes and time spent in the codec", async () => {
+		const metrics = new ClientMetrics();
+		const codec = V1ClientCodec.from_protocol("v1.api.titan.ag+gzip");
+		codec.observer = metrics;
+
+		const payload = encode(
+			{ StreamEnd: { id: 1, errorMessage: "x".repeat(1000) } },
+			{ useBigInt64: true },
+		);
+		await codec.decode(await gzip(payload));
+		await codec.encode({ id: 0, data: { GetInfo: {} } });
+
+		const { codec: stats } = metrics.snapshot();
+		expect(stats.messagesReceived).toBe(1);
+		expect(stats.messageBytesReceived).toBe(payload.byteLength);
+		expect(stats.compressionRatio).toBeGreaterThan(10);
+		expect(stats.decodeMs.count).toBe(1);
+		expect(stats.messagesSent).toBe(1);
+		expect(stats.wireBytesSent).toBeGreaterThan(0);
+	});
+
+	test("exports every metric in Prometheus format", () => {
+		const metrics = new ClientMetrics({ prefix: "app" });
+		metrics.requestSent("GetInfo");
+		metrics.requestCompleted("GetInfo", "ok", 12);
+		const text = metrics.toPrometheus();
+		expect(text).toContain('app_requests_total{kind="GetInfo"} 1');
+		expect(text).toContain(
+			'app_responses_total{kind="GetInfo",outcome="ok"} 1',
+		);
+		expect(text).toContain(
+			'app_request_duration_ms_bucket{kind="GetInfo",le="25"} 1',
+		);
+		expect(text).toContain("# TYPE app_decode_duration_ms histogram");
+		expect(text.endsWith("\n")).toBe(true);
+	});
+});
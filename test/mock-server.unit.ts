@@ -0,0 +1,159 @@
+import { ErrorResponse, StreamError, V1Client } from "../src/client";
+import {
+	MockErrorCode,
+	MockServer,
+	mockServerInfo,
+} from "../src/testing/mock-server";
+import * as v1 from "../src/types/v1";
+import { fixtureQuoteRequest, minimalSwapQuotes } from "./helpers";
+
+function quoteRequest(intervalMs: number): v1.SwapQuoteRequest {
+	return { ...fixtureQuoteRequest(), update: { intervalMs } };
+}
+
+describe("MockServer", () => {
+	let server: MockServer;
+
+	afterEach(async () => {
+		await server.close();
+	});
+
+	test("answers requests with every compression", async () => {
+		server = await MockServer.start();
+		for (const compression of [false, ...v1.WEBSOCKET_COMPRESSIONS] as const) {
+			const client = await V1Client.connect(server.url, {
+				compression: compression === false ? false : [compression],
+			});
+			expect(client.compression).toBe(
+				compression === false ? null : compression,
+			);
+
+			expect(await client.getInfo()).toEqual(mockServerInfo());
+			expect((await client.getVenues()).labels.length).toBeGreaterThan(0);
+			expect((await client.listProviders()).map(({ id }) => id)).toEqual([
+				"mock",
+				"mock-rfq",
+			]);
+			const price = await client.getSwapPrice({
+				inputMint: new Uint8Array(32).fill(1),
+				outputMint: new Uint8Array(32).fill(2),
+				amount: 1000,
+			});
+			expect(price).toMatchObject({ amountIn: 1000, amountOut: 990 });
+			await client.close();
+		}
+		expect(
+			server.requests.map((request) => Object.keys(request.data)[0]),
+		).toEqual(
+			Array(4)
+				.fill(["GetInfo", "GetVenues", "ListProviders", "GetSwapPrice"])
+				.flat(),
+		);
+	});
+
+	test("streams quotes at the requested interval", async () => {
+		server = await MockServer.start();
+		const client = await V1Client.connect(server.url);
+
+		const started = Date.now();
+		const { response, stream, streamId } = await client.newSwapQuoteStream(
+			quoteRequest(20),
+		);
+		expect(response.intervalMs).toBe(20);
+		const reader = stream.getReader();
+		for (let i = 0; i < 3; i++) {
+			const { value } = await reader.read();
+			expect(value?.quotes.mock.inAmount).toBe(50_000_000);
+		}
+		expect(Date.now() - started).toBeGreaterThanOrEqual(35);
+
+		await client.stopStream(streamId);
+		const bounded = await client.newSwapQuoteStream(quoteRequest(1));
+		expect(bounded.response.intervalMs).toBe(10);
+		await client.close();
+	});
+
+	test("ends scripted streams after their last update", async () => {
+		const scripted = [minimalSwapQuotes(), { ...minimalSwapQuotes(), id: "2" }];
+		server = await MockServer.start({ quotes: scripted });
+		const client = await V1Client.connect(server.url);
+
+		const { stream } = await client.newSwapQuoteStream(quoteRequest(10));
+		const reader = stream.getReader();
+		const received: v1.SwapQuotes[] = [];
+		for (
+			let next = await reader.read();
+			!next.done;
+			next = await reader.read()
+		) {
+			received.push(next.value);
+		}
+		expect(received).toEqual(scripted);
+		await client.close();
+	});
+
+	test("enforces the concurrent stream limit", async () => {
+		const info = mockServerInfo();
+		info.settings.connection.concurrentStreams = 1;
+		server = await MockServer.start({ info });
+		const client = await V1Client.connect(server.url);
+
+		const { streamId } = await client.newSwapQuoteStream(quoteRequest(1000));
+		const error = await client
+			.newSwapQuoteStream(quoteRequest(1000))
+			.catch((err) => err);
+		expect(error).toBeInstanceOf(ErrorResponse);
+		expect(error.response.code).toBe(MockErrorCode.TooManyStreams);
+
+		await client.stopStream(streamId);
+		await client.newSwapQuoteStream(quoteRequest(1000));
+		await client.close();
+	});
+
+	test("injects faults", async () => {
+		server = await MockServer.start();
+		const client = await V1Client.connect(server.url);
+
+		server.failNext("GetInfo", 503, "unavailable");
+		await expect(client.getInfo()).rejects.toMatchObject({
+			response: { code: 503, message: "unavailable" },
+		});
+		await client.getInfo();
+
+		const { stream } = await client.newSwapQuoteStream(quoteRequest(1000));
+		const reader = stream.getReader();
+		await reader.read();
+		server.endStreams(500, "stream failed");
+		const error = await reader.read().catch((err) => err);
+		expect(error).toBeInstanceOf(StreamError);
+		expect(error.errorCode).toBe(500);
+
+		server.frameDelayMs = 50;
+		const started = Date.now();
+		await client.getInfo();
+		expect(Date.now() - started).toBeGreaterThanOrEqual(45);
+		server.frameDelayMs = 0;
+
+		server.dropConnections();
+		expect((await client.listenClosed()).code).toBe(1006);
+
+		const other = await V1Client.connect(server.url);
+		server.closeConnections(4001, "going away");
+		expect(await other.listenClosed()).toMatchObject({
+			code: 4001,
+			reason: "going away",
+		});
+	});
+
+	test("rejects clients offering no accepted subprotocol", async () => {
+		server = await MockServer.start({
+			protocols: [`${v1.WEBSOCKET_SUBPROTO_BASE}+zstd`],
+		});
+		await expect(
+			V1Client.connect(server.url, { compression: false }),
+		).rejects.toThrow();
+		const client = await V1Client.connect(server.url);
+		expect(client.compression).toBe("zstd");
+		await client.close();
+	});
+});
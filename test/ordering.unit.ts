@@ -0,0 +1,134 @@
+import { encode } from "@msgpack/msgpack";
+
+import { V1Client } from "../src/client";
+import { V1ClientCodec } from "../src/codec";
+import type { Logger } from "../src/logger";
+import * as v1 from "../src/types/v1";
+import { FakeWebSocket, minimalSwapQuotes } from "./helpers";
+
+function sleep(ms: number) {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Codec whose decompression of each frame takes as many milliseconds as its
+// first byte says, so that later frames can finish decoding first.
+function slowCodec() {
+	return new V1ClientCodec({
+		name: () => "slow",
+		compress: async (data: Uint8Array) => data,
+		decompress: async (data: Uint8Array) => {
+			await sleep(data[0]);
+			return data.subarray(1);
+		},
+	});
+}
+
+// Sends a server message that takes the given time to decompress.
+function emitSlow(
+	socket: FakeWebSocket,
+	message: v1.ServerMessage,
+	delayMs: number,
+) {
+	const encoded = encode(message, { useBigInt64: true });
+	const frame = new Uint8Array(encoded.byteLength + 1);
+	frame[0] = delayMs;
+	frame.set(encoded, 1);
+	socket.emitBinary(frame.buffer);
+}
+
+function streamResponse(requestId: number, streamId: number): v1.ServerMessage {
+	return {
+		Response: {
+			requestId,
+			data: { NewSwapQuoteStream: { intervalMs: 1000 } },
+			stream: { id: streamId, dataType: v1.StreamDataType.SwapQuotes },
+		},
+	};
+}
+
+function streamData(streamId: number, seq: number): v1.ServerMessage {
+	return {
+		StreamData: {
+			id: streamId,
+			seq,
+			payload: { SwapQuotes: { ...minimalSwapQuotes(), id: `quote-${seq}` } },
+		},
+	};
+}
+
+function recordingLogger() {
+	const errors: [string, unknown][] = [];
+	const logger: Logger = {
+		debug() {},
+		info() {},
+		warn() {},
+		error: (message, fields) => errors.push([message, fields]),
+	};
+	return { logger, errors };
+}
+
+function quoteRequest(): v1.SwapQuoteRequest {
+	return {
+		swap: {
+			inputMint: new Uint8Array(32),
+			outputMint: new Uint8Array(32),
+			amount: 10,
+		},
+		transaction: { userPublicKey: new Uint8Array(32) },
+	};
+}
+
+describe("message ordering", () => {
+	test("handles a stream's response before its first data", async () => {
+		const { logger, errors } = recordingLogger();
+		const socket = new FakeWebSocket();
+		const client = new V1Client(socket as any, slowCodec(), { logger });
+
+		const started = client.newSwapQuoteStream(quoteRequest());
+		emitSlow(socket, streamResponse(0, 7), 30);
+		emitSlow(socket, streamData(7, 0), 0);
+		const { stream } = await started;
+		const reader = stream.getReader();
+		await expect(reader.read()).resolves.toMatchObject({
+			value: { id: "quote-0" },
+		});
+		expect(errors).toEqual([]);
+	});
+
+	test("delivers all data before the stream ends", async () => {
+		const socket = new FakeWebSocket();
+		const client = new V1Client(socket as any, slowCodec());
+
+		const started = client.newSwapQuoteStream(quoteRequest());
+		emitSlow(socket, streamResponse(0, 7), 0);
+		const { stream } = await started;
+		emitSlow(socket, streamData(7, 0), 40);
+		emitSlow(socket, streamData(7, 1), 20);
+		emitSlow(socket, { StreamEnd: { id: 7 } }, 0);
+
+		const ids: string[] = [];
+		for await (const quotes of stream as any) {
+			ids.push(quotes.id);
+		}
+		expect(ids).toEqual(["quote-0", "quote-1"]);
+	});
+
+	test("processes messages before a frame that fails to decode", async () => {
+		const socket = new FakeWebSocket();
+		const client = new V1Client(socket as any, slowCodec());
+
+		const info = client.getVenues();
+		emitSlow(
+			socket,
+			{ Response: { requestId: 0, data: { GetVenues: { labels: [] } } } },
+			30,
+		);
+		socket.emitBinary(new Uint8Array([0, 0xc1]).buffer);
+		await expect(info).resolves.toEqual({ labels: [] });
+		await sleep(0);
+		expect(socket.closed).toEqual({
+			code: 3002,
+			reason: "failed to decode message",
+		});
+	});
+});
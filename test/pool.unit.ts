@@ -0,0 +1,297 @@
+import { ConnectionClosed, V1Client } from "../src/client";
+import { PoolExhausted, V1ClientPool } from "../src/pool";
+import type * as v1 from "../src/types/v1";
+import {
+	FakeWebSocket,
+	StubCodec,
+	emitResponseGetInfo,
+	emitResponseNewSwapQuoteStream,
+	emitResponseStopStream,
+	emitStreamData,
+	emitStreamEnd,
+	minimalServerInfo,
+	minimalSwapQuotes,
+} from "./helpers";
+
+function quoteRequest(): v1.SwapQuoteRequest {
+	return {
+		swap: {
+			inputMint: new Uint8Array(32),
+			outputMint: new Uint8Array(32),
+			amount: 10,
+		},
+		transaction: { userPublicKey: new Uint8Array(32) },
+	};
+}
+
+interface FakeConnection {
+	client: V1Client;
+	socket: FakeWebSocket;
+	codec: StubCodec;
+}
+
+// Connection factory whose servers allow the given number of concurrent streams.
+// Clients reconnect if asked to, replacing the socket and codec of their connection.
+function fakeConnections(concurrentStreams: number, reconnect = false) {
+	const connections: FakeConnection[] = [];
+	const factory = async () => {
+		const socket = new FakeWebSocket();
+		const codec = new StubCodec();
+		const connection = { socket, codec } as FakeConnection;
+		const client = new V1Client(socket as any, codec as any, {
+			reconnect: reconnect && { initialDelayMs: 0, jitter: 0 },
+			connector: async () => {
+				connection.socket = new FakeWebSocket();
+				connection.codec = new StubCodec();
+				return {
+					transport: connection.socket,
+					codec: connection.codec as any,
+				};
+			},
+		});
+		connection.client = client;
+		connections.push(connection);
+		setTimeout(() => {
+			const info = minimalServerInfo();
+			info.settings.connection.concurrentStreams = concurrentStreams;
+			emitResponseGetInfo(socket, codec, 0, info);
+		}, 0);
+		return client;
+	};
+	return { factory, connections };
+}
+
+// Answers every unanswered NewSwapQuoteStream request, numbering streams from 100.
+function answerStreams(connections: FakeConnection[]) {
+	for (const { socket, codec } of connections) {
+		for (const message of codec.encodedMessages) {
+			if (message.data.NewSwapQuoteStream !== undefined && !message.answered) {
+				message.answered = true;
+				emitResponseNewSwapQuoteStream(
+					socket,
+					codec,
+					message.id,
+					100 + message.id,
+					1000,
+				);
+			}
+		}
+	}
+}
+
+// Starts a stream through the pool, answering it once it has been placed.
+async function startStream(pool: V1ClientPool, connections: FakeConnection[]) {
+	const started = pool.newSwapQuoteStream(quoteRequest());
+	await new Promise((resolve) => setTimeout(resolve, 5));
+	answerStreams(connections);
+	return started;
+}
+
+describe("V1ClientPool", () => {
+	test("opens connections as streams exceed the per-connection limit", async () => {
+		const { factory, connections } = fakeConnections(2);
+		const pool = new V1ClientPool(factory);
+
+		const streams = [];
+		for (let i = 0; i < 3; i++) {
+			streams.push(await startStream(pool, connections));
+		}
+		expect(pool.connections).toBe(2);
+		expect(connections[0].client.activeStreams).toBe(2);
+		expect(connections[1].client.activeStreams).toBe(1);
+		expect(pool.activeStreams).toBe(3);
+		// Both connections hand out stream 101 first, the pool keeps IDs unique.
+		expect(streams.map((s) => s.streamId)).toEqual([0, 1, 2]);
+		await pool.close();
+	});
+
+	test("concurrent streams share newly opened connections", async () => {
+		const { factory, connections } = fakeConnections(2);
+		const pool = new V1ClientPool(factory);
+
+		const started = [1, 2, 3, 4].map(() =>
+			pool.newSwapQuoteStream(quoteRequest()),
+		);
+		// Keep answering until the second connection has opened and been used
+		let done = false;
+		const all = Promise.all(started).finally(() => {
+			done = true;
+		});
+		while (!done) {
+			await new Promise((resolve) => setTimeout(resolve, 5));
+			answerStreams(connections);
+		}
+		await all;
+		expect(pool.connections).toBe(2);
+		await pool.close();
+	});
+
+	test("stops streams by their pool-wide ID", async () => {
+		const { factory, connections } = fakeConnections(1);
+		const pool = new V1ClientPool(factory);
+		await startStream(pool, connections);
+		const { streamId } = await startStream(pool, connections);
+		expect(streamId).toBe(1);
+
+		const stopped = pool.stopStream(streamId);
+		const { socket, codec } = connections[1];
+		const request = codec.encodedMessages.at(-1);
+		expect(request.data.StopStream.id).toBe(101);
+		emitResponseStopStream(socket, codec, request.id, 101);
+		await expect(stopped).resolves.toMatchObject({ id: 1 });
+		await expect(pool.stopStream(42)).rejects.toBeInstanceOf(RangeError);
+		await pool.close();
+	});
+
+	test("reuses capacity freed by ended streams", async () => {
+		const { factory, connections } = fakeConnections(1);
+		const pool = new V1ClientPool(factory);
+		const { stream } = await startStream(pool, connections);
+
+		emitStreamEnd(connections[0].socket, connections[0].codec, 101);
+		expect((await stream.getReader().read()).done).toBe(true);
+
+		await startStream(pool, connections);
+		expect(pool.connections).toBe(1);
+		await pool.close();
+	});
+
+	test("moves streams to older connections as capacity frees up", async () => {
+		const { factory, connections } = fakeConnections(2);
+		const pool = new V1ClientPool(factory);
+		await startStream(pool, connections);
+		await startStream(pool, connections);
+		const moved = await startStream(pool, connections);
+		const [older, newer] = connections;
+		expect(newer.client.activeStreams).toBe(1);
+
+		emitStreamEnd(older.socket, older.codec, 101);
+		await new Promise((resolve) => setTimeout(resolve, 5));
+		// Started again as stream 103 on the older connection, then stopped on the newer one
+		answerStreams(connections);
+		await new Promise((resolve) => setTimeout(resolve, 5));
+		const stop = newer.codec.encodedMessages.at(-1);
+		expect(stop.data.StopStream.id).toBe(101);
+		emitResponseStopStream(newer.socket, newer.codec, stop.id, 101);
+		emitStreamEnd(newer.socket, newer.codec, 101);
+		await new Promise((resolve) => setTimeout(resolve, 5));
+		expect(older.client.activeStreams).toBe(2);
+		expect(newer.client.activeStreams).toBe(0);
+
+		const reader = moved.stream.getReader();
+		const read = reader.read();
+		emitStreamData(older.socket, older.codec, 103, minimalSwapQuotes());
+		await expect(read).resolves.toMatchObject({ done: false });
+		expect(moved.streamId).toBe(2);
+		await pool.close();
+	});
+
+	test("moves streams off connections whose limit dropped on reconnect", async () => {
+		const { factory, connections } = fakeConnections(2, true);
+		const pool = new V1ClientPool(factory);
+		await startStream(pool, connections);
+		await startStream(pool, connections);
+		expect(pool.connections).toBe(1);
+
+		const reconnected = new Promise((resolve) =>
+			pool.once("reconnected", resolve),
+		);
+		connections[0].socket.drop();
+		await reconnected;
+		answerStreams(connections);
+		const [first] = connections;
+		const getInfo = first.codec.encodedMessages.at(-1);
+		expect(getInfo.data.GetInfo).toBeDefined();
+		const info = minimalServerInfo();
+		info.settings.connection.concurrentStreams = 1;
+		emitResponseGetInfo(first.socket, first.codec, getInfo.id, info);
+
+		// One stream is started again on a new connection, then stopped on the first
+		await new Promise((resolve) => setTimeout(resolve, 5));
+		answerStreams(connections);
+		await new Promise((resolve) => setTimeout(resolve, 5));
+		const stop = first.codec.encodedMessages.at(-1);
+		const { id } = stop.data.StopStream;
+		emitResponseStopStream(first.socket, first.codec, stop.id, id);
+		emitStreamEnd(first.socket, first.codec, id);
+		await new Promise((resolve) => setTimeout(resolve, 5));
+		expect(pool.connections).toBe(2);
+		expect(connections[0].client.activeStreams).toBe(1);
+		expect(connections[1].client.activeStreams).toBe(1);
+		await pool.close();
+	});
+
+	test("rejects with PoolExhausted at the connection limit", async () => {
+		const { factory, connections } = fakeConnections(1);
+		const pool = new V1ClientPool(factory, { maxConnections: 1 });
+		await startStream(pool, connections);
+
+		await expect(
+			pool.newSwapQuoteStream(quoteRequest()),
+		).rejects.toBeInstanceOf(PoolExhausted);
+		await pool.close();
+	});
+
+	test("replaces connections that closed", async () => {
+		const { factory, connections } = fakeConnections(5);
+		const pool = new V1ClientPool(factory);
+		const { stream } = await startStream(pool, connections);
+
+		connections[0].socket.drop();
+		await expect(stream.getReader().read()).rejects.toBeInstanceOf(
+			ConnectionClosed,
+		);
+		expect(pool.connections).toBe(0);
+
+		await startStream(pool, connections);
+		expect(connections).toHaveLength(2);
+		expect(pool.connections).toBe(1);
+		await pool.close();
+	});
+
+	test("forwards stream events with pool-wide IDs", async () => {
+		const { factory, connections } = fakeConnections(1);
+		const pool = new V1ClientPool(factory);
+		const seen: [string, number][] = [];
+		pool.on("streamStart", ({ streamId }) => seen.push(["start", streamId]));
+		pool.on("streamEnd", ({ streamId }) => seen.push(["end", streamId]));
+		await startStream(pool, connections);
+		await startStream(pool, connections);
+
+		emitStreamEnd(connections[1].socket, connections[1].codec, 101);
+		await new Promise((resolve) => setTimeout(resolve, 0));
+		expect(seen).toEqual([
+			["start", 0],
+			["start", 1],
+			["end", 1],
+		]);
+		await pool.close();
+	});
+
+	test("closes surplus connections once idle", async () => {
+		const { factory, connections } = fakeConnections(1);
+		const pool = new V1ClientPool(factory, { idleTimeoutMs: 10 });
+		await startStream(pool, connections);
+		await startStream(pool, connections);
+		expect(pool.connections).toBe(2);
+
+		emitStreamEnd(connections[1].socket, connections[1].codec, 101);
+		await new Promise((resolve) => setTimeout(resolve, 40));
+		expect(pool.connections).toBe(1);
+		expect(connections[1].client.closed).toBe(true);
+		expect(connections[0].client.closed).toBe(false);
+		await pool.close();
+	});
+
+	test("closing closes every connection and rejects further requests", async () => {
+		const { factory, connections } = fakeConnections(1);
+		const pool = new V1ClientPool(factory);
+		await startStream(pool, connections);
+		await startStream(pool, connections);
+
+		await expect(pool.close()).resolves.toMatchObject({ code: 1000 });
+		expect(pool.closed).toBe(true);
+		expect(connections.every((c) => c.client.closed)).toBe(true);
+		await expect(pool.getInfo()).rejects.toBeInstanceOf(ConnectionClosed);
+	});
+});
@@ -0,0 +1,201 @@
+import {
+	AbortError,
+	ConnectionClosed,
+	RequestTimeout,
+	StreamLimitExceeded,
+	type StreamLimitOptions,
+	V1Client,
+} from "../src/client";
+import { StreamQueue, resolveStreamLimitOptions } from "../src/quota";
+import type * as v1 from "../src/types/v1";
+import {
+	FakeWebSocket,
+	StubCodec,
+	emitError,
+	emitResponseGetInfo,
+	emitResponseNewSwapQuoteStream,
+	emitStreamEnd,
+	minimalServerInfo,
+} from "./helpers";
+
+function quoteRequest(): v1.SwapQuoteRequest {
+	return {
+		swap: {
+			inputMint: new Uint8Array(32),
+			outputMint: new Uint8Array(32),
+			amount: 10,
+		},
+		transaction: { userPublicKey: new Uint8Array(32) },
+	};
+}
+
+// Client whose server reported a limit of the given number of streams.
+async function limitedClient(
+	concurrentStreams: number,
+	streamLimit: boolean | StreamLimitOptions = true,
+) {
+	const socket = new FakeWebSocket();
+	const codec = new StubCodec();
+	const client = new V1Client(socket as any, codec as any, { streamLimit });
+	const info = minimalServerInfo();
+	info.settings.connection.concurrentStreams = concurrentStreams;
+	const getInfo = client.getInfo();
+	emitResponseGetInfo(socket, codec, 0, info);
+	await getInfo;
+	return { client, socket, codec };
+}
+
+function streamRequests(codec: StubCodec) {
+	return codec.encodedMessages.filter(
+		(message) => message.data.NewSwapQuoteStream !== undefined,
+	);
+}
+
+describe("resolveStreamLimitOptions", () => {
+	test("is disabled unless requested", () => {
+		expect(resolveStreamLimitOptions(undefined)).toBeNull();
+		expect(resolveStreamLimitOptions(false)).toBeNull();
+		expect(resolveStreamLimitOptions(true)).toEqual({
+			policy: "queue",
+			fetchOnConnect: true,
+			maxStreams: null,
+		});
+	});
+
+	test("rejects invalid limits", () => {
+		expect(() => resolveStreamLimitOptions({ maxStreams: 0 })).toThrow(
+			RangeError,
+		);
+	});
+});
+
+describe("StreamQueue", () => {
+	test("keeps entries informed of their position", () => {
+		const queue = new StreamQueue();
+		const positions: number[][] = [[], [], []];
+		const entries = positions.map((seen) => ({
+			start: jest.fn(),
+			fail: jest.fn(),
+			onPosition: (position: number) => seen.push(position),
+		}));
+		for (const entry of entries) {
+			queue.push(entry);
+		}
+		expect(queue.remove(entries[0])).toBe(true);
+		expect(queue.remove(entries[0])).toBe(false);
+		expect(queue.shift()).toBe(entries[1]);
+		expect(positions).toEqual([[1], [2, 1], [3, 2, 1]]);
+		expect(queue.clear()).toEqual([entries[2]]);
+		expect(queue.length).toBe(0);
+	});
+});
+
+describe("V1Client stream limit", () => {
+	test("learns the limit from getInfo", async () => {
+		const { client } = await limitedClient(3);
+		expect(client.streamLimit).toBe(3);
+
+		const { client: fixed } = await limitedClient(3, { maxStreams: 1 });
+		expect(fixed.streamLimit).toBe(1);
+
+		const { client: disabled } = await limitedClient(3, false);
+		expect(disabled.streamLimit).toBeNull();
+	});
+
+	test("does not limit streams until the limit is known", () => {
+		const socket = new FakeWebSocket();
+		const codec = new StubCodec();
+		const client = new V1Client(socket as any, codec as any, {
+			streamLimit: true,
+		});
+		client.newSwapQuoteStream(quoteRequest());
+		client.newSwapQuoteStream(quoteRequest());
+		expect(streamRequests(codec)).toHaveLength(2);
+		expect(client.queuedStreams).toBe(0);
+	});
+
+	test("rejects streams beyond the limit with the reject policy", async () => {
+		const { client, codec } = await limitedClient(1, { policy: "reject" });
+		client.newSwapQuoteStream(quoteRequest());
+
+		const rejected = client.newSwapQuoteStream(quoteRequest());
+		await expect(rejected).rejects.toBeInstanceOf(StreamLimitExceeded);
+		await expect(rejected).rejects.toMatchObject({ limit: 1 });
+		expect(streamRequests(codec)).toHaveLength(1);
+	});
+
+	test("queues streams until a running stream ends", async () => {
+		const { client, socket, codec } = await limitedClient(1);
+		const first = client.newSwapQuoteStream(quoteRequest());
+		const positions: number[] = [];
+		const second = client.newSwapQuoteStream(quoteRequest(), {
+			onQueuePosition: (position) => positions.push(position),
+		});
+		expect(client.queuedStreams).toBe(1);
+		expect(positions).toEqual([1]);
+		expect(streamRequests(codec)).toHaveLength(1);
+
+		const [request] = streamRequests(codec);
+		emitResponseNewSwapQuoteStream(socket, codec, request.id, 7, 1000);
+		await first;
+		expect(client.queuedStreams).toBe(1);
+
+		emitStreamEnd(socket, codec, 7);
+		await new Promise((resolve) => setTimeout(resolve, 0));
+		expect(client.queuedStreams).toBe(0);
+		const requests = streamRequests(codec);
+		expect(requests).toHaveLength(2);
+		emitResponseNewSwapQuoteStream(socket, codec, requests[1].id, 8, 1000);
+		await expect(second).resolves.toMatchObject({ streamId: 8 });
+	});
+
+	test("starts queued streams when a stream request fails", async () => {
+		const { client, socket, codec } = await limitedClient(1);
+		const first = client.newSwapQuoteStream(quoteRequest());
+		client.newSwapQuoteStream(quoteRequest());
+
+		const [request] = streamRequests(codec);
+		emitError(socket, codec, request.id, 1, "no route");
+		await expect(first).rejects.toThrow("no route");
+		expect(streamRequests(codec)).toHaveLength(2);
+	});
+
+	test("removes aborted requests from the queue", async () => {
+		const { client, codec } = await limitedClient(1);
+		client.newSwapQuoteStream(quoteRequest());
+		const controller = new AbortController();
+		const positions: number[] = [];
+		const aborted = client.newSwapQuoteStream(quoteRequest(), {
+			signal: controller.signal,
+		});
+		client.newSwapQuoteStream(quoteRequest(), {
+			onQueuePosition: (position) => positions.push(position),
+		});
+
+		controller.abort("not needed");
+		await expect(aborted).rejects.toBeInstanceOf(AbortError);
+		expect(client.queuedStreams).toBe(1);
+		expect(positions).toEqual([2, 1]);
+		expect(streamRequests(codec)).toHaveLength(1);
+	});
+
+	test("counts time spent queued towards the timeout", async () => {
+		const { client } = await limitedClient(1);
+		client.newSwapQuoteStream(quoteRequest());
+		const queued = client.newSwapQuoteStream(quoteRequest(), {
+			timeoutMs: 10,
+		});
+		await expect(queued).rejects.toBeInstanceOf(RequestTimeout);
+		expect(client.queuedStreams).toBe(0);
+	});
+
+	test("rejects queued requests when the connection closes", async () => {
+		const { client, socket } = await limitedClient(1);
+		client.newSwapQuoteStream(quoteRequest()).catch(() => {});
+		const queued = client.newSwapQuoteStream(quoteRequest());
+
+		socket.drop();
+		await expect(queued).rejects.toBeInstanceOf(ConnectionClosed);
+		expect(client.queuedStreams).toBe(0);
+	});
+});
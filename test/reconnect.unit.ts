@@ -0,0 +1,249 @@
+import { type ClientOptions, V1Client } from "../src/client";
+import { backoffDelay, resolveReconnectOptions } from "../src/reconnect";
+import type * as v1 from "../src/types/v1";
+import {
+	FakeWebSocket,
+	StubCodec,
+	emitResponseGetInfo,
+	emitResponseNewSwapQuoteStream,
+	emitStreamData,
+	minimalServerInfo,
+	minimalSwapQuotes,
+} from "./helpers";
+
+function quoteRequest(): v1.SwapQuoteRequest {
+	return {
+		swap: {
+			inputMint: new Uint8Array(32),
+			outputMint: new Uint8Array(32),
+			amount: 10,
+		},
+		transaction: { userPublicKey: new Uint8Array(32) },
+	};
+}
+
+// Creates a client whose connector hands out new fake connections on demand.
+function reconnectingClient(options: Partial<ClientOptions> = {}) {
+	const sockets = [new FakeWebSocket()];
+	const codecs = [new StubCodec()];
+	let failures = 0;
+	const control = {
+		sockets,
+		codecs,
+		// Number of upcoming connection attempts that should fail.
+		failNext(count: number) {
+			failures = count;
+		},
+	};
+	const client = new V1Client(sockets[0] as any, codecs[0] as any, {
+		reconnect: { initialDelayMs: 0, jitter: 0 },
+		connector: async () => {
+			if (failures > 0) {
+				failures -= 1;
+				throw new Error("connect failed");
+			}
+			const socket = new FakeWebSocket();
+			const codec = new StubCodec();
+			sockets.push(socket);
+			codecs.push(codec);
+			return { transport: socket as any, codec: codec as any };
+		},
+		...options,
+	});
+	return { client, ...control };
+}
+
+function nextEvent<K extends "reconnected" | "streamIdChanged">(
+	client: V1Client,
+	event: K,
+) {
+	return new Promise((resolve) => client.once(event, resolve));
+}
+
+describe("reconnect options", () => {
+	test("disabled unless requested", () => {
+		expect(resolveReconnectOptions(undefined)).toBeNull();
+		expect(resolveReconnectOptions(false)).toBeNull();
+		expect(resolveReconnectOptions(true)).toMatchObject({ multiplier: 2 });
+	});
+
+	test("backoff grows exponentially up to the maximum", () => {
+		const options = resolveReconnectOptions({
+			initialDelayMs: 100,
+			maxDelayMs: 1000,
+			jitter: 0,
+		});
+		if (options === null) throw new Error("expected options");
+		expect([1, 2, 3, 4, 5].map((n) => backoffDelay(options, n))).toEqual([
+			100, 200, 400, 800, 1000,
+		]);
+	});
+
+	test("jitter shortens the delay by at most the given fraction", () => {
+		const options = resolveReconnectOptions({
+			initialDelayMs: 1000,
+			jitter: 0.5,
+		});
+		if (options === null) throw new Error("expected options");
+		expect(backoffDelay(options, 1, () => 0)).toBe(1000);
+		expect(backoffDelay(options, 1, () => 0.999999)).toBe(500);
+	});
+
+	test("rejects invalid jitter", () => {
+		expect(() => resolveReconnectOptions({ jitter: 2 })).toThrow(RangeError);
+	});
+});
+
+describe("V1Client reconnect", () => {
+	test("re-issues active streams and keeps the consumer stream flowing", async () => {
+		const { client, sockets, codecs } = reconnectingClient();
+
+		const streamP = client.newSwapQuoteStream(quoteRequest());
+		emitResponseNewSwapQuoteStream(sockets[0], codecs[0], 0, 5, 1000);
+		const { stream, streamId } = await streamP;
+		expect(streamId).toBe(5);
+		const reader = stream.getReader();
+
+		emitStreamData(sockets[0], codecs[0], 5, minimalSwapQuotes());
+		expect((await reader.read()).done).toBe(false);
+
+		const reconnecting = jest.fn();
+		client.on("reconnecting", reconnecting);
+		const reconnected = nextEvent(client, "reconnected");
+		sockets[0].drop();
+		expect(client.reconnecting).toBe(true);
+		expect(client.closed).toBe(false);
+		await reconnected;
+		expect(reconnecting).toHaveBeenCalledWith(
+			expect.objectContaining({ attempt: 1 }),
+		);
+
+		// The original request is re-sent on the new connection.
+		const resent = codecs[1].encodedMessages[0];
+		expect(resent.data.NewSwapQuoteStream.swap.amount).toBe(10n);
+
+		const changed = nextEvent(client, "streamIdChanged");
+		emitResponseNewSwapQuoteStream(sockets[1], codecs[1], resent.id, 9, 1000);
+		await expect(changed).resolves.toEqual({ previousId: 5, streamId: 9 });
+
+		emitStreamData(sockets[1], codecs[1], 9, minimalSwapQuotes());
+		const next = await reader.read();
+		expect(next.done).toBe(false);
+		expect(next.value?.id).toBe("test-quote-id");
+	});
+
+	test("retries pending requests by default", async () => {
+		const { client, sockets, codecs } = reconnectingClient();
+
+		const infoP = client.getInfo();
+		const reconnected = nextEvent(client, "reconnected");
+		sockets[0].drop();
+		await reconnected;
+
+		expect(codecs[1].encodedMessages[0]).toMatchObject({
+			id: 0,
+			data: { GetInfo: {} },
+		});
+		emitResponseGetInfo(sockets[1], codecs[1], 0, minimalServerInfo());
+		await expect(infoP).resolves.toMatchObject({
+			protocolVersion: { major: 1 },
+		});
+	});
+
+	test("rejects pending requests with the reject policy", async () => {
+		const { client, sockets } = reconnectingClient({
+			reconnect: { initialDelayMs: 0, jitter: 0, pendingRequests: "reject" },
+		});
+
+		const infoP = client.getInfo();
+		sockets[0].drop();
+		await expect(infoP).rejects.toMatchObject({ name: "ConnectionClosed" });
+	});
+
+	test("requests made while reconnecting are sent once connected", async () => {
+		const { client, sockets, codecs } = reconnectingClient();
+
+		const reconnected = nextEvent(client, "reconnected");
+		sockets[0].drop();
+		void client.getInfo();
+		expect(codecs[0].encodedMessages).toHaveLength(0);
+		await reconnected;
+		expect(codecs[1].encodedMessages[0]).toMatchObject({
+			data: { GetInfo: {} },
+		});
+	});
+
+	test("retries failed connection attempts", async () => {
+		const { client, sockets, failNext } = reconnectingClient();
+		failNext(2);
+
+		const attempts: number[] = [];
+		client.on("reconnecting", (event) => attempts.push(event.attempt));
+		const reconnected = nextEvent(client, "reconnected");
+		sockets[0].drop();
+		await expect(reconnected).resolves.toMatchObject({ attempts: 3 });
+		expect(attempts).toEqual([1, 2, 3]);
+	});
+
+	test("gives up after the maximum number of attempts", async () => {
+		const { client, sockets, codecs, failNext } = reconnectingClient({
+			reconnect: { initialDelayMs: 0, jitter: 0, maxAttempts: 2 },
+		});
+		failNext(10);
+
+		const streamP = client.newSwapQuoteStream(quoteRequest());
+		emitResponseNewSwapQuoteStream(sockets[0], codecs[0], 0, 5, 1000);
+		const { stream } = await streamP;
+		const reader = stream.getReader();
+
+		sockets[0].drop(1006, "gone");
+		const event = await client.listenClosed();
+		expect(event.code).toBe(1006);
+		expect(client.closed).toBe(true);
+		await expect(reader.read()).rejects.toMatchObject({
+			name: "ConnectionClosed",
+		});
+	});
+
+	test("close() while reconnecting stops reconnecting", async () => {
+		const { client, sockets } = reconnectingClient({
+			reconnect: { initialDelayMs: 60_000, jitter: 0 },
+		});
+
+		const infoP = client.getInfo();
+		sockets[0].drop();
+		expect(client.reconnecting).toBe(true);
+
+		const event = await client.close();
+		expect(event.code).toBe(1000);
+		expect(client.closed).toBe(true);
+		expect(client.reconnecting).toBe(false);
+		await expect(infoP).rejects.toMatchObject({ name: "ConnectionClosed" });
+		expect(sockets).toHaveLength(1);
+	});
+
+	test("streams cancelled while reconnecting are not re-issued", async () => {
+		const { client, sockets, codecs } = reconnectingClient();
+
+		const streamP = client.newSwapQuoteStream(quoteRequest());
+		emitResponseNewSwapQuoteStream(sockets[0], codecs[0], 0, 5, 1000);
+		const { stream } = await streamP;
+
+		const reconnected = nextEvent(client, "reconnected");
+		sockets[0].drop();
+		await stream.cancel("no longer needed");
+		await reconnected;
+		expect(codecs[1].encodedMessages).toHaveLength(0);
+	});
+
+	test("does not reconnect after the client is closed", async () => {
+		const { client, sockets } = reconnectingClient();
+
+		const reconnecting = jest.fn();
+		client.on("reconnecting", reconnecting);
+		await client.close();
+		expect(client.closed).toBe(true);
+		expect(reconnecting).not.toHaveBeenCalled();
+		expect(sockets).toHaveLength(1);
+	});
+});
@@ -0,0 +1,184 @@
+import { AbortError, RequestTimeout, V1Client } from "../src/client";
+import type * as v1 from "../src/types/v1";
+import {
+	FakeWebSocket,
+	StubCodec,
+	emitResponseGetInfo,
+	emitResponseNewSwapQuoteStream,
+	emitStreamData,
+	emitStreamEnd,
+	minimalServerInfo,
+	minimalSwapQuotes,
+} from "./helpers";
+
+function quoteRequest(): v1.SwapQuoteRequest {
+	return {
+		swap: {
+			inputMint: new Uint8Array(32),
+			outputMint: new Uint8Array(32),
+			amount: 10,
+		},
+		transaction: { userPublicKey: new Uint8Array(32) },
+	};
+}
+
+function stopRequests(codec: StubCodec) {
+	return codec.encodedMessages.filter((m) => m?.data?.StopStream);
+}
+
+describe("V1Client request options", () => {
+	let consoleError: jest.SpyInstance;
+	beforeEach(() => {
+		consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+	});
+	afterEach(() => {
+		consoleError.mockRestore();
+	});
+
+	test("rejects with RequestTimeout when the server does not respond", async () => {
+		const socket = new FakeWebSocket();
+		const codec = new StubCodec();
+		const client = new V1Client(socket as any, codec as any);
+
+		const infoP = client.getInfo({ timeoutMs: 5 });
+		await expect(infoP).rejects.toBeInstanceOf(RequestTimeout);
+		await expect(infoP).rejects.toMatchObject({ requestId: 0, timeoutMs: 5 });
+
+		// A late response is ignored without being reported.
+		emitResponseGetInfo(socket, codec, 0, minimalServerInfo());
+		await new Promise((resolve) => setTimeout(resolve, 0));
+		expect(consoleError).not.toHaveBeenCalled();
+	});
+
+	test("uses the client-wide default timeout", async () => {
+		const socket = new FakeWebSocket();
+		const codec = new StubCodec();
+		const client = new V1Client(socket as any, codec as any, {
+			requestTimeoutMs: 5,
+		});
+
+		await expect(client.getVenues()).rejects.toBeInstanceOf(RequestTimeout);
+		await expect(client.listProviders()).rejects.toBeInstanceOf(
+			RequestTimeout,
+		);
+	});
+
+	test("per-request timeout overrides the default", async () => {
+		const socket = new FakeWebSocket();
+		const codec = new StubCodec();
+		const client = new V1Client(socket as any, codec as any, {
+			requestTimeoutMs: 1,
+		});
+
+		const infoP = client.getInfo({ timeoutMs: 60_000 });
+		await new Promise((resolve) => setTimeout(resolve, 10));
+		emitResponseGetInfo(socket, codec, 0, minimalServerInfo());
+		await expect(infoP).resolves.toBeDefined();
+	});
+
+	test("responses arriving in time clear the timeout", async () => {
+		jest.useFakeTimers();
+		try {
+			const socket = new FakeWebSocket();
+			const codec = new StubCodec();
+			const client = new V1Client(socket as any, codec as any);
+
+			const infoP = client.getInfo({ timeoutMs: 1000 });
+			emitResponseGetInfo(socket, codec, 0, minimalServerInfo());
+			await expect(infoP).resolves.toBeDefined();
+			expect(jest.getTimerCount()).toBe(0);
+		} finally {
+			jest.useRealTimers();
+		}
+	});
+
+	test("aborting rejects with AbortError", async () => {
+		const socket = new FakeWebSocket();
+		const codec = new StubCodec();
+		const client = new V1Client(socket as any, codec as any);
+
+		const controller = new AbortController();
+		const priceP = client.getSwapPrice(
+			{
+				inputMint: new Uint8Array(32),
+				outputMint: new Uint8Array(32),
+				amount: 1,
+			},
+			{ signal: controller.signal },
+		);
+		controller.abort("changed my mind");
+		await expect(priceP).rejects.toBeInstanceOf(AbortError);
+		await expect(priceP).rejects.toMatchObject({ reason: "changed my mind" });
+	});
+
+	test("already aborted signal rejects without sending", async () => {
+		const socket = new FakeWebSocket();
+		const codec = new StubCodec();
+		const client = new V1Client(socket as any, codec as any);
+
+		const infoP = client.getInfo({ signal: AbortSignal.abort() });
+		await expect(infoP).rejects.toBeInstanceOf(AbortError);
+		expect(codec.encodedMessages).toHaveLength(0);
+	});
+
+	test("stream started after its request timed out is stopped", async () => {
+		const socket = new FakeWebSocket();
+		const codec = new StubCodec();
+		const client = new V1Client(socket as any, codec as any);
+
+		const streamP = client.newSwapQuoteStream(quoteRequest(), {
+			timeoutMs: 5,
+		});
+		await expect(streamP).rejects.toBeInstanceOf(RequestTimeout);
+
+		emitResponseNewSwapQuoteStream(socket, codec, 0, 3, 1000);
+		await new Promise((resolve) => setTimeout(resolve, 0));
+		const stops = stopRequests(codec);
+		expect(stops).toHaveLength(1);
+		expect(stops[0].data.StopStream.id).toBe(3);
+
+		// Data and end for the discarded stream are dropped quietly.
+		emitStreamData(socket, codec, 3, minimalSwapQuotes());
+		emitStreamEnd(socket, codec, 3);
+		await new Promise((resolve) => setTimeout(resolve, 0));
+		expect(consoleError).not.toHaveBeenCalled();
+	});
+
+	test("aborting a running stream errors it and stops it", async () => {
+		const socket = new FakeWebSocket();
+		const codec = new StubCodec();
+		const client = new V1Client(socket as any, codec as any);
+
+		const controller = new AbortController();
+		const streamP = client.newSwapQuoteStream(quoteRequest(), {
+			signal: controller.signal,
+		});
+		emitResponseNewSwapQuoteStream(socket, codec, 0, 4, 1000);
+		const { stream } = await streamP;
+		const reader = stream.getReader();
+
+		controller.abort();
+		await expect(reader.read()).rejects.toBeInstanceOf(AbortError);
+		const stops = stopRequests(codec);
+		expect(stops).toHaveLength(1);
+		expect(stops[0].data.StopStream.id).toBe(4);
+	});
+
+	test("stream timeout does not apply once the stream has started", async () => {
+		const socket = new FakeWebSocket();
+		const codec = new StubCodec();
+		const client = new V1Client(socket as any, codec as any);
+
+		const streamP = client.newSwapQuoteStream(quoteRequest(), {
+			timeoutMs: 5,
+		});
+		emitResponseNewSwapQuoteStream(socket, codec, 0, 4, 1000);
+		const { stream } = await streamP;
+		const reader = stream.getReader();
+
+		await new Promise((resolve) => setTimeout(resolve, 10));
+		emitStreamData(socket, codec, 4, minimalSwapQuotes());
+		expect((await reader.read()).done).toBe(false);
+		expect(stopRequests(codec)).toHaveLength(0);
+	});
+});
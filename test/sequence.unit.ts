@@ -0,0 +1,141 @@
+import {
+	type StreamSequenceEvent,
+	StreamSequenceError,
+	V1Client,
+} from "../src/client";
+import { ClientMetrics } from "../src/metrics";
+import type * as v1 from "../src/types/v1";
+import {
+	FakeWebSocket,
+	StubCodec,
+	emitResponseNewSwapQuoteStream,
+	emitStreamData,
+	minimalSwapQuotes,
+} from "./helpers";
+
+function quoteRequest(): v1.SwapQuoteRequest {
+	return {
+		swap: {
+			inputMint: new Uint8Array(32),
+			outputMint: new Uint8Array(32),
+			amount: 10,
+		},
+		transaction: { userPublicKey: new Uint8Array(32) },
+	};
+}
+
+function quotes(id: string): v1.SwapQuotes {
+	return { ...minimalSwapQuotes(), id };
+}
+
+function tick() {
+	return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe("stream sequence numbers", () => {
+	test("drops duplicates and stale data and reports gaps", async () => {
+		const metrics = new ClientMetrics();
+		const issues: StreamSequenceEvent[] = [];
+		const socket = new FakeWebSocket();
+		const codec = new StubCodec();
+		const client = new V1Client(socket as any, codec as any, {
+			metrics,
+			on: { streamSequence: (event) => issues.push(event) },
+		});
+
+		const started = client.newSwapQuoteStream(quoteRequest());
+		emitResponseNewSwapQuoteStream(socket, codec, 0, 42, 1000);
+		const { stream } = await started;
+		for (const seq of [0, 1, 1, 4, 2, 5]) {
+			emitStreamData(socket, codec, 42, quotes(`q${seq}`), seq);
+		}
+		await tick();
+
+		const reader = stream.getReader();
+		const received: string[] = [];
+		for (let i = 0; i < 4; i++) {
+			received.push((await reader.read()).value!.id);
+		}
+		expect(received).toEqual(["q0", "q1", "q4", "q5"]);
+		expect(issues).toEqual([
+			{ streamId: 42, issue: "duplicate", expectedSeq: 2, seq: 1, missed: 0 },
+			{ streamId: 42, issue: "gap", expectedSeq: 2, seq: 4, missed: 2 },
+			{ streamId: 42, issue: "outOfOrder", expectedSeq: 5, seq: 2, missed: 0 },
+		]);
+		expect(metrics.snapshot().streams).toMatchObject({
+			updates: 4,
+			gaps: 1,
+			missedUpdates: 2,
+			duplicates: 1,
+			outOfOrder: 1,
+		});
+	});
+
+	test("fails streams started with failOnSequenceGap on gaps", async () => {
+		const socket = new FakeWebSocket();
+		const codec = new StubCodec();
+		const client = new V1Client(socket as any, codec as any);
+
+		const started = client.newSwapQuoteStream(quoteRequest(), {
+			failOnSequenceGap: true,
+		});
+		emitResponseNewSwapQuoteStream(socket, codec, 0, 42, 1000);
+		const { stream } = await started;
+		const reader = stream.getReader();
+		emitStreamData(socket, codec, 42, quotes("q0"), 0);
+		expect((await reader.read()).value?.id).toBe("q0");
+		emitStreamData(socket, codec, 42, quotes("q3"), 3);
+		const error = await reader.read().catch((e) => e);
+		expect(error).toBeInstanceOf(StreamSequenceError);
+		expect(error).toMatchObject({
+			streamId: 42,
+			expectedSeq: 1,
+			receivedSeq: 3,
+		});
+		expect(codec.encodedMessages.at(-1)?.data).toEqual({
+			StopStream: { id: 42 },
+		});
+	});
+
+	test("starts over when a stream is re-issued after reconnecting", async () => {
+		const issues: StreamSequenceEvent[] = [];
+		const sockets = [new FakeWebSocket()];
+		const codecs = [new StubCodec()];
+		const client = new V1Client(sockets[0] as any, codecs[0] as any, {
+			reconnect: { initialDelayMs: 0, jitter: 0 },
+			connector: async () => {
+				sockets.push(new FakeWebSocket());
+				codecs.push(new StubCodec());
+				return { transport: sockets[1] as any, codec: codecs[1] as any };
+			},
+			on: { streamSequence: (event) => issues.push(event) },
+		});
+
+		const started = client.newSwapQuoteStream(quoteRequest(), {
+			failOnSequenceGap: true,
+		});
+		emitResponseNewSwapQuoteStream(sockets[0], codecs[0], 0, 5, 1000);
+		const { stream } = await started;
+		emitStreamData(sockets[0], codecs[0], 5, quotes("a"), 7);
+		emitStreamData(sockets[0], codecs[0], 5, quotes("b"), 8);
+		await tick();
+
+		const reconnected = new Promise((resolve) =>
+			client.once("reconnected", resolve),
+		);
+		sockets[0].drop();
+		await reconnected;
+		const resent = codecs[1].encodedMessages[0];
+		emitResponseNewSwapQuoteStream(sockets[1], codecs[1], resent.id, 9, 1000);
+		emitStreamData(sockets[1], codecs[1], 9, quotes("c"), 0);
+		await tick();
+
+		const reader = stream.getReader();
+		const received: string[] = [];
+		for (let i = 0; i < 3; i++) {
+			received.push((await reader.read()).value!.id);
+		}
+		expect(received).toEqual(["a", "b", "c"]);
+		expect(issues).toEqual([]);
+	});
+});
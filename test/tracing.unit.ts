@@ -0,0 +1,235 @@
+import { RequestTimeout, V1Client } from "../src/client";
+import {
+	ClientTracing,
+	type Span,
+	type SpanAttributeValue,
+	type SpanAttributes,
+	type SpanOptions,
+	type SpanStatus,
+	SpanStatusCode,
+	type Tracer,
+} from "../src/tracing";
+import type * as v1 from "../src/types/v1";
+import {
+	FakeWebSocket,
+	StubCodec,
+	emitResponseGetInfo,
+	emitResponseNewSwapQuoteStream,
+	emitStreamData,
+	emitStreamEnd,
+	minimalServerInfo,
+	minimalSwapQuotes,
+} from "./helpers";
+
+class MemorySpan implements Span {
+	attributes: SpanAttributes;
+	events: { name: string; attributes?: SpanAttributes }[] = [];
+	status: SpanStatus = { code: SpanStatusCode.UNSET };
+	exceptions: (Error | string)[] = [];
+	ended = false;
+
+	constructor(
+		readonly name: string,
+		readonly id: string,
+		readonly options: SpanOptions,
+	) {
+		this.attributes = { ...options.attributes };
+	}
+
+	spanContext() {
+		return { traceId: "trace", spanId: this.id };
+	}
+	setAttribute(key: string, value: SpanAttributeValue) {
+		this.attributes[key] = value;
+	}
+	setAttributes(attributes: SpanAttributes) {
+		Object.assign(this.attributes, attributes);
+	}
+	addEvent(name: string, attributes?: SpanAttributes) {
+		this.events.push({ name, attributes });
+	}
+	setStatus(status: SpanStatus) {
+		this.status = status;
+	}
+	recordException(exception: Error | string) {
+		this.exceptions.push(exception);
+	}
+	end() {
+		if (this.ended) {
+			throw new Error(`span ${this.name} ended twice`);
+		}
+		this.ended = true;
+	}
+}
+
+// Tracer keeping every span it started.
+class MemoryTracer implements Tracer {
+	spans: MemorySpan[] = [];
+
+	startSpan(name: string, options: SpanOptions = {}) {
+		const span = new MemorySpan(name, `span-${this.spans.length}`, options);
+		this.spans.push(span);
+		return span;
+	}
+}
+
+function quoteRequest(): v1.SwapQuoteRequest {
+	const inputMint = new Uint8Array(32);
+	inputMint[31] = 1;
+	return {
+		swap: { inputMint, outputMint: new Uint8Array(32), amount: 10 },
+		transaction: { userPublicKey: new Uint8Array(32) },
+	};
+}
+
+function tracedClient() {
+	const tracer = new MemoryTracer();
+	const tracing = new ClientTracing(tracer);
+	const socket = new FakeWebSocket();
+	const codec = new StubCodec();
+	const client = new V1Client(socket as any, codec as any, { tracing });
+	return { tracer, tracing, client, socket, codec };
+}
+
+function tick() {
+	return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe("ClientTracing", () => {
+	test("opens a span per request with its outcome", async () => {
+		const { tracer, client, socket, codec } = tracedClient();
+		const info = client.getInfo();
+		const timedOut = client.getVenues(undefined, { timeoutMs: 1 });
+		emitResponseGetInfo(socket, codec, 0, minimalServerInfo());
+		await info;
+		await expect(timedOut).rejects.toBeInstanceOf(RequestTimeout);
+		await tick();
+
+		const [getInfo, getVenues] = tracer.spans;
+		expect(getInfo.name).toBe("titan.GetInfo");
+		expect(getInfo.attributes).toEqual({
+			"titan.request.id": 0,
+			"titan.request.kind": "GetInfo",
+			"titan.request.outcome": "ok",
+		});
+		expect(getInfo.ended).toBe(true);
+		expect(getVenues.attributes["titan.request.outcome"]).toBe("timeout");
+		expect(getVenues.status.code).toBe(SpanStatusCode.ERROR);
+		expect(getVenues.exceptions[0]).toBeInstanceOf(RequestTimeout);
+	});
+
+	test("leaves heartbeat probes untraced", async () => {
+		const tracer = new MemoryTracer();
+		const socket = new FakeWebSocket();
+		const codec = new StubCodec();
+		const client = new V1Client(socket, codec as any, {
+			tracing: new ClientTracing(tracer),
+			heartbeat: { intervalMs: 5, timeoutMs: 50 },
+		});
+		while (codec.encodedMessages.length === 0) {
+			await tick();
+		}
+		const [probe] = codec.encodedMessages;
+		emitResponseGetInfo(socket, codec, probe.id, minimalServerInfo());
+		await tick();
+		expect(tracer.spans).toEqual([]);
+		await client.close();
+	});
+
+	test("traces streams from start to end, linked to their request", async () => {
+		const { tracer, client, socket, codec } = tracedClient();
+		const started = client.newSwapQuoteStream(quoteRequest());
+		emitResponseNewSwapQuoteStream(socket, codec, 0, 42, 1000);
+		await started;
+		const quotes = minimalSwapQuotes();
+		emitStreamData(socket, codec, 42, quotes);
+		emitStreamEnd(socket, codec, 42, 7, "expired");
+		await tick();
+
+		const [request, stream] = tracer.spans;
+		expect(request.attributes).toMatchObject({
+			"titan.swap.input_mint": "11111111111111111111111111111112",
+			"titan.swap.output_mint": "11111111111111111111111111111111",
+			"titan.swap.amount": "10",
+		});
+		expect(stream.name).toBe("titan.quote_stream");
+		expect(stream.options.links).toEqual([
+			{ context: { traceId: "trace", spanId: request.id } },
+		]);
+		expect(stream.attributes).toMatchObject({
+			"titan.stream.id": 42,
+			"titan.stream.interval_ms": 1000,
+		});
+		expect(stream.events).toEqual([
+			{
+				name: "StreamData",
+				attributes: {
+					"titan.stream.seq": 0,
+					"titan.quote.id": quotes.id,
+					"titan.quote.routes": Object.keys(quotes.quotes).length,
+				},
+			},
+			{ name: "StreamEnd", attributes: { "titan.error.code": 7 } },
+		]);
+		expect(stream.status).toEqual({
+			code: SpanStatusCode.ERROR,
+			message: "expired",
+		});
+		expect(stream.ended).toBe(true);
+	});
+
+	test("ends stream spans when the consumer cancels", async () => {
+		const { tracer, client, socket, codec } = tracedClient();
+		const started = client.newSwapQuoteStream(quoteRequest());
+		emitResponseNewSwapQuoteStream(socket, codec, 0, 42, 1000);
+		const { stream } = await started;
+		void stream.cancel();
+		emitStreamEnd(socket, codec, 42);
+		await tick();
+
+		const span = tracer.spans[1];
+		expect(span.ended).toBe(true);
+		expect(span.attributes["titan.stream.cancelled"]).toBe(true);
+		expect(span.events).toEqual([]);
+	});
+
+	test("links quotes and reference IDs to the stream that produced them", async () => {
+		const { tracer, tracing, client, socket, codec } = tracedClient();
+		const started = client.newSwapQuoteStream(quoteRequest());
+		emitResponseNewSwapQuoteStream(socket, codec, 0, 42, 1000);
+		await started;
+		const quotes = minimalSwapQuotes();
+		const [provider] = Object.keys(quotes.quotes);
+		quotes.quotes[provider].referenceId = "rfq-1";
+		emitStreamData(socket, codec, 42, quotes);
+		await tick();
+
+		const context = { traceId: "trace", spanId: tracer.spans[1].id };
+		expect(tracing.linkQuote(quotes.id)).toEqual({
+			context,
+			attributes: { "titan.quote.id": quotes.id, "titan.stream.seq": 0 },
+		});
+		expect(tracing.linkQuote("rfq-1")).toEqual({
+			context,
+			attributes: {
+				"titan.quote.id": quotes.id,
+				"titan.quote.provider": provider,
+				"titan.quote.reference_id": "rfq-1",
+			},
+		});
+		expect(tracing.linkQuote("unknown")).toBeNull();
+	});
+
+	test("forgets the oldest quote links first", () => {
+		const tracer = new MemoryTracer();
+		const tracing = new ClientTracing(tracer, { maxQuoteLinks: 1 });
+		const span = tracer.startSpan("titan.GetSwapPrice");
+		tracing.swapPrice(span, { id: "a" } as v1.SwapPrice);
+		tracing.swapPrice(span, { id: "b" } as v1.SwapPrice);
+		expect(tracing.linkQuote("a")).toBeNull();
+		expect(tracing.linkQuote("b")).not.toBeNull();
+		expect(() => new ClientTracing(tracer, { maxQuoteLinks: -1 })).toThrow(
+			RangeError,
+		);
+	});
+});
@@ -0,0 +1,165 @@
+import { V1Client } from "../src/client";
+import { InvalidProtocolError } from "../src/codec";
+import {
+	TransportError,
+	globalWebSocketTransport,
+	resolveTransport,
+	websocketPackageTransport,
+	wsTransport,
+} from "../src/transport";
+import * as v1 from "../src/types/v1";
+import { FakeWebSocket } from "./helpers";
+
+// Stand-in for a runtime's global WebSocket, driven by the test.
+class FakeGlobalWebSocket {
+	static instances: FakeGlobalWebSocket[] = [];
+
+	url: string;
+	protocols?: string[];
+	protocol = "";
+	binaryType = "blob";
+	onopen: ((event: unknown) => void) | null = null;
+	onmessage: ((event: { data: unknown }) => void) | null = null;
+	onclose: ((event: any) => void) | null = null;
+	onerror: ((event: unknown) => void) | null = null;
+	sent: Uint8Array[] = [];
+
+	constructor(url: string, protocols?: string[]) {
+		this.url = url;
+		this.protocols = protocols;
+		FakeGlobalWebSocket.instances.push(this);
+	}
+
+	send(data: Uint8Array) {
+		this.sent.push(data);
+	}
+	close(code?: number, reason?: string) {
+		this.onclose?.({
+			code: code ?? 1000,
+			reason: reason ?? "",
+			wasClean: true,
+		});
+	}
+}
+
+describe("resolveTransport", () => {
+	const original = (globalThis as any).WebSocket;
+	afterEach(() => {
+		(globalThis as any).WebSocket = original;
+	});
+
+	test("resolves built-in transports by name", () => {
+		expect(resolveTransport("global")).toBe(globalWebSocketTransport);
+		expect(resolveTransport("ws")).toBe(wsTransport);
+		expect(resolveTransport("websocket")).toBe(websocketPackageTransport);
+	});
+
+	test("passes custom factories through", () => {
+		const factory = async () => new FakeWebSocket();
+		expect(resolveTransport(factory)).toBe(factory);
+	});
+
+	test("auto prefers the global WebSocket", () => {
+		(globalThis as any).WebSocket = undefined;
+		expect(resolveTransport()).toBe(websocketPackageTransport);
+		(globalThis as any).WebSocket = FakeGlobalWebSocket;
+		expect(resolveTransport("auto")).toBe(globalWebSocketTransport);
+	});
+
+	test("rejects unknown names", () => {
+		expect(() => resolveTransport("carrier-pigeon" as any)).toThrow(TypeError);
+	});
+});
+
+describe("globalWebSocketTransport", () => {
+	const original = (globalThis as any).WebSocket;
+	beforeEach(() => {
+		FakeGlobalWebSocket.instances = [];
+		(globalThis as any).WebSocket = FakeGlobalWebSocket;
+	});
+	afterEach(() => {
+		(globalThis as any).WebSocket = original;
+	});
+
+	test("resolves once open and forwards events", async () => {
+		const transportP = globalWebSocketTransport("ws://example/", ["a", "b"]);
+		const socket = FakeGlobalWebSocket.instances[0];
+		expect(socket.protocols).toEqual(["a", "b"]);
+		expect(socket.binaryType).toBe("arraybuffer");
+		socket.protocol = "b";
+		socket.onopen?.({});
+		const transport = await transportP;
+		expect(transport.protocol).toBe("b");
+
+		const messages: unknown[] = [];
+		const errors: Error[] = [];
+		transport.onmessage = (event) => messages.push(event.data);
+		transport.onerror = (error) => errors.push(error);
+		const buffer = new ArrayBuffer(2);
+		socket.onmessage?.({ data: buffer });
+		socket.onerror?.({ type: "error" });
+		expect(messages).toEqual([buffer]);
+		expect(errors[0]).toBeInstanceOf(TransportError);
+
+		transport.send(new Uint8Array([1]));
+		expect(socket.sent).toHaveLength(1);
+
+		const closed = new Promise((resolve) => {
+			transport.onclose = resolve;
+		});
+		transport.close(1000, "bye");
+		await expect(closed).resolves.toEqual({
+			code: 1000,
+			reason: "bye",
+			wasClean: true,
+		});
+	});
+
+	test("rejects if closed during the handshake", async () => {
+		const transportP = globalWebSocketTransport("ws://example/", []);
+		FakeGlobalWebSocket.instances[0].onclose?.({
+			code: 1002,
+			reason: "bad handshake",
+			wasClean: false,
+		});
+		await expect(transportP).rejects.toBeInstanceOf(TransportError);
+		await expect(transportP).rejects.toMatchObject({ code: 1002 });
+	});
+
+	test("rejects when there is no global WebSocket", async () => {
+		(globalThis as any).WebSocket = undefined;
+		await expect(globalWebSocketTransport("ws://example/", [])).rejects.toThrow(
+			"No global WebSocket",
+		);
+	});
+});
+
+describe("V1Client.connect with a custom transport", () => {
+	test("negotiates the codec from the selected protocol", async () => {
+		const socket = new FakeWebSocket();
+		socket.protocol = `${v1.WEBSOCKET_SUBPROTO_BASE}+zstd`;
+		const factory = jest.fn(async () => socket);
+
+		const client = await V1Client.connect("ws://example/", {
+			transport: factory,
+		});
+		expect(factory).toHaveBeenCalledWith(
+			"ws://example/",
+			v1.WEBSOCKET_SUBPROTOCOLS,
+			{ headers: {} },
+		);
+		expect(client.closed).toBe(false);
+		await client.close();
+		expect(socket.closed).toBeDefined();
+	});
+
+	test("rejects and closes the transport if no protocol was selected", async () => {
+		const socket = new FakeWebSocket();
+		socket.protocol = "";
+
+		await expect(
+			V1Client.connect("ws://example/", { transport: async () => socket }),
+		).rejects.toBeInstanceOf(InvalidProtocolError);
+		expect(socket.closed).toBeDefined();
+	});
+});
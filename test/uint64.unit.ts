@@ -0,0 +1,214 @@
+import { encode } from "@msgpack/msgpack";
+
+import { V1Client } from "../src/client";
+import {
+	DecodeError,
+	type Uint64Mode,
+	type Uint64Type,
+	V1ClientCodec,
+} from "../src/codec";
+import { noopLogger } from "../src/logger";
+import * as v1 from "../src/types/v1";
+import { FakeWebSocket, StubCodec, minimalSwapQuotes } from "./helpers";
+
+const LARGE = 2n ** 60n;
+
+function quoteRequest(): v1.SwapQuoteRequest {
+	return {
+		swap: {
+			inputMint: new Uint8Array(32),
+			outputMint: new Uint8Array(32),
+			amount: 10,
+		},
+		transaction: { userPublicKey: new Uint8Array(32) },
+		update: { intervalMs: 500, numQuotes: 3 },
+	};
+}
+
+// Quotes with one route whose output amount does not fit in a number.
+function largeQuotes(): v1.SwapQuotes<v1.Uint64> {
+	return {
+		...minimalSwapQuotes(),
+		quotes: {
+			Titan: {
+				inAmount: 10,
+				outAmount: LARGE,
+				slippageBps: 50,
+				platformFee: { amount: 1, fee_bps: 10 },
+				steps: [
+					{
+						ammKey: new Uint8Array(32),
+						label: "Phoenix",
+						inputMint: new Uint8Array(32),
+						outputMint: new Uint8Array(32),
+						inAmount: 10,
+						outAmount: LARGE,
+						allocPpb: 1_000_000_000,
+					},
+				],
+				instructions: [],
+				addressLookupTables: [],
+				expiresAtMs: 1_700_000_000_000,
+			},
+		},
+	};
+}
+
+function quotesMessage(quotes: v1.SwapQuotes<v1.Uint64>): Uint8Array {
+	return encode(
+		{ StreamData: { id: 1, seq: 0, payload: { SwapQuotes: quotes } } },
+		{ useBigInt64: true },
+	);
+}
+
+async function decodeQuotes(
+	mode: Uint64Mode,
+	quotes: v1.SwapQuotes<v1.Uint64>,
+) {
+	const codec = V1ClientCodec.from_protocol(v1.WEBSOCKET_SUBPROTO_BASE);
+	codec.uint64 = mode;
+	const message = (await codec.decode(quotesMessage(quotes))) as {
+		StreamData: v1.StreamData<v1.Uint64>;
+	};
+	return message.StreamData.payload.SwapQuotes;
+}
+
+describe("request encoding", () => {
+	test("converts every Uint64 field to bigint", async () => {
+		const codec = new StubCodec();
+		const client = new V1Client(new FakeWebSocket() as any, codec as any);
+		client.newSwapQuoteStream(quoteRequest());
+		client.getSwapPrice({
+			inputMint: new Uint8Array(32),
+			outputMint: new Uint8Array(32),
+			amount: 2 ** 40,
+		});
+		await new Promise((resolve) => setTimeout(resolve, 0));
+
+		const [stream, price] = codec.encodedMessages;
+		expect(stream.data.NewSwapQuoteStream.swap.amount).toBe(10n);
+		expect(stream.data.NewSwapQuoteStream.update).toEqual({
+			intervalMs: 500n,
+			num_quotes: 3,
+		});
+		expect(price.data.GetSwapPrice.amount).toBe(2n ** 40n);
+	});
+
+	test("rejects invalid values, naming the field", () => {
+		const client = new V1Client(
+			new FakeWebSocket() as any,
+			new StubCodec() as any,
+		);
+		const request = quoteRequest();
+		request.update = { intervalMs: 2.5 };
+		expect(() => client.newSwapQuoteStream(request)).toThrow(
+			new TypeError(
+				"$.NewSwapQuoteStream.update.intervalMs must be a whole number, got 2.5.",
+			),
+		);
+		request.update = { intervalMs: 2n ** 64n };
+		expect(() => client.newSwapQuoteStream(request)).toThrow(RangeError);
+		request.update = undefined;
+		request.swap.amount = -1;
+		expect(() => client.newSwapQuoteStream(request)).toThrow(
+			new RangeError(
+				"$.NewSwapQuoteStream.swap.amount must be non-negative, got -1.",
+			),
+		);
+	});
+});
+
+describe("response decoding", () => {
+	test("mixed mode keeps numbers and bigints as decoded", async () => {
+		const route = (await decodeQuotes("mixed", largeQuotes())).quotes.Titan;
+		expect(route.inAmount).toBe(10);
+		expect(route.outAmount).toBe(LARGE);
+	});
+
+	test("bigint mode decodes every Uint64 as a bigint", async () => {
+		const quotes = await decodeQuotes("bigint", largeQuotes());
+		const route = quotes.quotes.Titan;
+		expect(quotes.amount).toBe(10n);
+		expect(route.inAmount).toBe(10n);
+		expect(route.outAmount).toBe(LARGE);
+		expect(route.platformFee).toEqual({ amount: 1n, fee_bps: 10 });
+		expect(route.steps[0].inAmount).toBe(10n);
+		expect(route.steps[0].allocPpb).toBe(1_000_000_000);
+		expect(route.expiresAtMs).toBe(1_700_000_000_000n);
+		expect(route.slippageBps).toBe(50);
+	});
+
+	test("number mode fails on values that do not fit", async () => {
+		const decoded = await decodeQuotes("number", {
+			...minimalSwapQuotes(),
+			amount: 2n ** 40n,
+		});
+		expect(decoded.amount).toBe(2 ** 40);
+
+		const error = await decodeQuotes("number", largeQuotes()).catch((e) => e);
+		expect(error).toBeInstanceOf(DecodeError);
+		expect(error.reason).toBe(
+			`$.StreamData.payload.SwapQuotes.quotes.Titan.outAmount: ${LARGE} does not fit in a number without losing precision`,
+		);
+	});
+
+	test("keeps the default types of quotes unless a mode is set", () => {
+		const quotes: v1.WithUint64<
+			v1.SwapQuotes,
+			Uint64Type<"mixed">
+		> = minimalSwapQuotes();
+		// Numbers by default, as before the mode existed.
+		const amount: number = quotes.amount + 1;
+		const price: v1.WithUint64<v1.SwapPrice, Uint64Type<"mixed">> = {
+			id: "price",
+			inputMint: new Uint8Array(32),
+			outputMint: new Uint8Array(32),
+			amountIn: 10,
+			amountOut: 9n,
+		};
+		const wide: v1.WithUint64<v1.SwapQuotes, Uint64Type<"bigint">> = {
+			...minimalSwapQuotes(),
+			amount: 10n,
+			quotes: {},
+		};
+		expect([amount, price.amountOut, wide.amount]).toEqual([
+			quotes.amount + 1,
+			9n,
+			10n,
+		]);
+	});
+
+	test("the connect option sets the mode of the codec", async () => {
+		const socket = new FakeWebSocket();
+		const codec = V1ClientCodec.from_protocol(v1.WEBSOCKET_SUBPROTO_BASE);
+		const client = new V1Client<bigint>(socket as any, codec, {
+			uint64: "bigint",
+			logger: noopLogger,
+		});
+		expect(codec.uint64).toBe("bigint");
+
+		const price = client.getSwapPrice({
+			inputMint: new Uint8Array(32),
+			outputMint: new Uint8Array(32),
+			amount: 10,
+		});
+		const response: v1.ServerMessage = {
+			Response: {
+				requestId: 0,
+				data: {
+					GetSwapPrice: {
+						id: "price",
+						inputMint: new Uint8Array(32),
+						outputMint: new Uint8Array(32),
+						amountIn: 10,
+						amountOut: 9,
+					},
+				},
+			},
+		};
+		socket.emitBinary(encode(response, { useBigInt64: true }).slice().buffer);
+		// Typed as a bigint, so that no conversion is needed.
+		const amountOut: bigint = (await price).amountOut;
+		expect(amountOut).toBe(9n);
+	});
+});
@@ -0,0 +1,224 @@
+import { encode } from "@msgpack/msgpack";
+
+import { DecodeError, V1ClientCodec } from "../src/codec";
+import type { Logger } from "../src/logger";
+import type * as v1 from "../src/types/v1";
+import {
+	ValidationError,
+	assertValid,
+	clientRequest,
+	isValid,
+	object,
+	optional,
+	serverMessage,
+	swapRoute,
+	uint64,
+	validate,
+} from "../src/validate";
+import {
+	minimalProviderInfo,
+	minimalServerInfo,
+	minimalSwapQuotes,
+	minimalVenueInfo,
+} from "./helpers";
+
+function quotesMessage(quotes: v1.SwapQuotes): v1.ServerMessage {
+	return { StreamData: { id: 1, seq: 0, payload: { SwapQuotes: quotes } } };
+}
+
+function fullRoute(): v1.SwapRoute {
+	return {
+		inAmount: 10,
+		outAmount: (2n ** 60n) as unknown as number,
+		slippageBps: 50,
+		platformFee: { amount: 1, fee_bps: 10 },
+		steps: [
+			{
+				ammKey: new Uint8Array(32),
+				label: "Phoenix",
+				inputMint: new Uint8Array(32),
+				outputMint: new Uint8Array(32),
+				inAmount: 10,
+				outAmount: 9,
+				allocPpb: 1_000_000_000,
+			},
+		],
+		instructions: [
+			{
+				p: new Uint8Array(32),
+				a: [{ p: new Uint8Array(32), s: true, w: false }],
+				d: new Uint8Array([1, 2, 3]),
+			},
+		],
+		addressLookupTables: [new Uint8Array(32)],
+		expiresAtMs: 1_700_000_000_000,
+		referenceId: "rfq-1",
+	};
+}
+
+describe("validators", () => {
+	test("accept well-formed server messages", () => {
+		const messages: v1.ServerMessage[] = [
+			{ Response: { requestId: 0, data: { GetInfo: minimalServerInfo() } } },
+			{ Response: { requestId: 1, data: { GetVenues: minimalVenueInfo() } } },
+			{
+				Response: {
+					requestId: 2,
+					data: { ListProviders: minimalProviderInfo() },
+				},
+			},
+			{
+				Response: {
+					requestId: 3,
+					data: { NewSwapQuoteStream: { intervalMs: 1000 } },
+					stream: { id: 4, dataType: "SwapQuotes" as v1.StreamDataType },
+				},
+			},
+			{ Error: { requestId: 5, code: -1, message: "nope" } },
+			quotesMessage(minimalSwapQuotes()),
+			{ StreamEnd: { id: 4 } },
+		];
+		for (const message of messages) {
+			expect(validate(serverMessage, message)).toEqual([]);
+		}
+		expect(validate(swapRoute, fullRoute())).toEqual([]);
+	});
+
+	test("report precise paths for invalid routes", () => {
+		const quotes = minimalSwapQuotes();
+		const route = fullRoute() as any;
+		delete route.instructions;
+		route.steps[0].ammKey = new Uint8Array(31);
+		route.inAmount = "10";
+		quotes.quotes = { "Provider A": route };
+
+		const prefix = '$.StreamData.payload.SwapQuotes.quotes["Provider A"]';
+		expect(validate(serverMessage, quotesMessage(quotes))).toEqual([
+			{
+				path: `${prefix}.inAmount`,
+				message: 'expected unsigned 64-bit integer, got string "10"',
+			},
+			{
+				path: `${prefix}.steps[0].ammKey`,
+				message: "expected 32 bytes, got 31 bytes",
+			},
+			{
+				path: `${prefix}.instructions`,
+				message: "missing array of object",
+			},
+		]);
+	});
+
+	test("allow unknown fields and message types, but not unknown variants", () => {
+		const quotes = { ...minimalSwapQuotes(), newField: 1 };
+		expect(validate(serverMessage, quotesMessage(quotes))).toEqual([]);
+		expect(validate(serverMessage, { Notice: { text: "hi" } })).toEqual([]);
+		expect(
+			validate(serverMessage, {
+				Response: { requestId: 0, data: { GetWeather: {} } },
+			}),
+		).toEqual([
+			{
+				path: "$.Response.data",
+				message: expect.stringContaining("unknown variant GetWeather"),
+			},
+		]);
+		expect(
+			validate(serverMessage, { StreamEnd: { id: 1 }, Error: {} }),
+		).toEqual([
+			{
+				path: "$",
+				message: expect.stringContaining("got StreamEnd, Error"),
+			},
+		]);
+	});
+
+	test("validate client requests", () => {
+		const request: v1.ClientRequest = {
+			id: 0,
+			data: {
+				NewSwapQuoteStream: {
+					swap: {
+						inputMint: new Uint8Array(32),
+						outputMint: new Uint8Array(32),
+						amount: 10n,
+					},
+					transaction: { userPublicKey: new Uint8Array(32) },
+				},
+			},
+		};
+		expect(isValid(clientRequest, request)).toBe(true);
+		expect(isValid(clientRequest, { id: 0, data: { GetInfo: null } })).toBe(
+			false,
+		);
+	});
+
+	test("compose into custom validators", () => {
+		const stored = object<{ savedAt: number; route?: v1.SwapRoute }>({
+			savedAt: uint64,
+			route: optional(swapRoute),
+		});
+		expect(() => assertValid(stored, { savedAt: 1 })).not.toThrow();
+		expect(() => assertValid(stored, { savedAt: -1, route: {} })).toThrow(
+			ValidationError,
+		);
+		expect(validate(stored, { savedAt: -1 }, "$.saved")).toEqual([
+			{
+				path: "$.saved.savedAt",
+				message: "expected unsigned 64-bit integer, got number -1",
+			},
+		]);
+	});
+});
+
+describe("codec validation", () => {
+	const invalid = encode({ StreamEnd: { id: "one" } }, { useBigInt64: true });
+
+	function recordingLogger() {
+		const warnings: unknown[] = [];
+		const logger: Logger = {
+			debug() {},
+			info() {},
+			warn: (message, fields) => warnings.push([message, fields]),
+			error() {},
+		};
+		return { logger, warnings };
+	}
+
+	test("is off by default", async () => {
+		const codec = V1ClientCodec.from_protocol("v1.api.titan.ag");
+		await expect(codec.decode(invalid)).resolves.toEqual({
+			StreamEnd: { id: "one" },
+		});
+	});
+
+	test("strict mode fails invalid messages with their paths", async () => {
+		const codec = V1ClientCodec.from_protocol("v1.api.titan.ag");
+		codec.validation = "strict";
+		const error = await codec.decode(invalid).catch((e) => e);
+		expect(error).toBeInstanceOf(DecodeError);
+		expect(error.reason).toBe(
+			'$.StreamEnd.id: expected unsigned integer, got string "one"',
+		);
+		expect(error.issues).toHaveLength(1);
+	});
+
+	test("lenient mode warns and passes invalid messages on", async () => {
+		const { logger, warnings } = recordingLogger();
+		const codec = V1ClientCodec.from_protocol("v1.api.titan.ag");
+		codec.validation = "lenient";
+		codec.logger = logger;
+		await expect(codec.decode(invalid)).resolves.toEqual({
+			StreamEnd: { id: "one" },
+		});
+		expect(warnings).toEqual([
+			[
+				"Server message does not match schema",
+				{
+					messageType: "StreamEnd",
+					issues: '$.StreamEnd.id: expected unsigned integer, got string "one"',
+				},
+			],
+		]);
+	});
+});
@@ -0,0 +1,24 @@
+import { encode } from "@msgpack/msgpack";
+
+// Decodes a frame on the worker pool of the given module, which must load the
+// modules used by its workers wherever it is run from.
+const moduleUrl = process.argv[2];
+if (!moduleUrl) {
+	console.error("Missing module path");
+	process.exit(2);
+}
+
+const { codec: { V1ClientCodec }, worker } = await import(moduleUrl);
+const workers = new worker.WorkerPool({ size: 1 });
+try {
+	const codec = V1ClientCodec.from_protocol("v1.api.titan.ag");
+	codec.workers = workers;
+	const decoded = await codec.decode(encode({ StreamEnd: { id: 1 } }));
+	if (decoded?.StreamEnd?.id !== 1) {
+		console.error("decode failed");
+		process.exit(1);
+	}
+	console.log("OK");
+} finally {
+	await workers.terminate();
+}
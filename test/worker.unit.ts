@@ -0,0 +1,209 @@
+import * as fs from "node:fs/promises";
+import { encode } from "@msgpack/msgpack";
+import { gzip } from "http-encoding";
+
+import { V1Client } from "../src/client";
+import { DecodeError, V1ClientCodec } from "../src/codec";
+import { resolveDecodeLimits } from "../src/limits";
+import * as v1 from "../src/types/v1";
+import {
+	type CodecWorker,
+	type CodecWorkerFactory,
+	type DecodeReply,
+	type DecodeRequest,
+	WorkerError,
+	WorkerPool,
+	serveDecodeRequests,
+} from "../src/worker";
+import { FakeWebSocket, minimalSwapQuotes, zstdBomb } from "./helpers";
+
+function sleep(ms: number) {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Starts workers that answer on the test's thread, taking as many milliseconds
+// to start decoding each frame as the next of the given delays.
+function inProcessWorkers(delays: number[] = []) {
+	const started: CodecWorker[] = [];
+	const factory: CodecWorkerFactory = async () => {
+		let handle: ((request: DecodeRequest) => void) | undefined;
+		const worker: CodecWorker = {
+			onmessage: null,
+			onerror: null,
+			postMessage: (request) => {
+				setTimeout(() => handle?.(request), delays.shift() ?? 0);
+			},
+			terminate: async () => {},
+		};
+		serveDecodeRequests({
+			on: (_event, listener) => {
+				handle = listener;
+			},
+			postMessage: (reply: DecodeReply) => worker.onmessage?.(reply),
+		});
+		started.push(worker);
+		return worker;
+	};
+	return { factory, started };
+}
+
+function frame(message: v1.ServerMessage): Uint8Array {
+	return encode(message, { useBigInt64: true });
+}
+
+describe("worker pool", () => {
+	test("decodes frames on worker threads", async () => {
+		const workers = new WorkerPool({ size: 2 });
+		try {
+			for (const [protocol, file] of [
+				["v1.api.titan.ag", "stream_data.msgpack"],
+				["v1.api.titan.ag+zstd", "stream_data.msgpack.zstd"],
+				["v1.api.titan.ag+gzip", "stream_data.msgpack.gz"],
+			]) {
+				const data = await fs.readFile(`test/data/${file}`);
+				const local = V1ClientCodec.from_protocol(protocol);
+				const offloaded = V1ClientCodec.from_protocol(protocol);
+				offloaded.workers = workers;
+				await expect(offloaded.decode(data)).resolves.toEqual(
+					await local.decode(data),
+				);
+			}
+			const codec = V1ClientCodec.from_protocol("v1.api.titan.ag");
+			codec.workers = workers;
+			await expect(codec.decode(new Uint8Array([0xc1]))).rejects.toBeInstanceOf(
+				DecodeError,
+			);
+			codec.limits = resolveDecodeLimits({ maxDepth: 1 });
+			await expect(
+				codec.decode(frame({ StreamEnd: { id: 1 } })),
+			).rejects.toMatchObject({ kind: "depth" });
+		} finally {
+			await workers.terminate();
+		}
+	}, 20_000);
+
+	test("spreads frames over workers and replaces failed ones", async () => {
+		const { factory, started } = inProcessWorkers([20, 20, 0]);
+		const workers = new WorkerPool({ size: 2, factory });
+		const codec = V1ClientCodec.from_protocol("v1.api.titan.ag");
+		codec.workers = workers;
+
+		const first = codec.decode(frame({ StreamEnd: { id: 1 } }));
+		const second = codec.decode(frame({ StreamEnd: { id: 2 } }));
+		await sleep(0);
+		expect(started).toHaveLength(2);
+		expect(workers.pending).toBe(2);
+		await expect(first).resolves.toEqual({ StreamEnd: { id: 1 } });
+		await expect(second).resolves.toEqual({ StreamEnd: { id: 2 } });
+
+		const lost = codec.decode(frame({ StreamEnd: { id: 3 } }));
+		await sleep(0);
+		started[0].onerror?.(new Error("out of memory"));
+		await expect(lost).rejects.toBeInstanceOf(WorkerError);
+		await expect(
+			codec.decode(frame({ StreamEnd: { id: 4 } })),
+		).resolves.toEqual({ StreamEnd: { id: 4 } });
+
+		await workers.terminate();
+		await expect(
+			codec.decode(frame({ StreamEnd: { id: 5 } })),
+		).rejects.toBeInstanceOf(DecodeError);
+	});
+
+	test("enforces decode limits on workers", async () => {
+		const { factory } = inProcessWorkers();
+		const workers = new WorkerPool({ factory });
+		const codec = V1ClientCodec.from_protocol("v1.api.titan.ag+gzip");
+		codec.workers = workers;
+		codec.limits = resolveDecodeLimits({ maxMessageBytes: 100 });
+
+		const large = frame({
+			StreamEnd: { id: 1, errorMessage: "x".repeat(200) },
+		});
+		await expect(codec.decode(await gzip(large))).rejects.toMatchObject({
+			kind: "messageSize",
+		});
+		await expect(codec.decode(new Uint8Array([1, 2, 3]))).rejects.toMatchObject(
+			{ kind: "decompress" },
+		);
+		await expect(
+			codec.decode(await gzip(new Uint8Array([0xd4, 0, 0]))),
+		).rejects.toMatchObject({ kind: "extension" });
+		await expect(
+			codec.decode(await gzip(frame({ StreamEnd: { id: 2 } }))),
+		).resolves.toEqual({ StreamEnd: { id: 2 } });
+		await workers.terminate();
+	});
+
+	test("fails corrupt and oversized zstd frames on worker threads", async () => {
+		const workers = new WorkerPool();
+		try {
+			const codec = V1ClientCodec.from_protocol("v1.api.titan.ag+zstd");
+			codec.workers = workers;
+			// A compressed block of garbage, which the WASM fallback of zstd
+			// decompresses to null.
+			const corrupt = [0x28, 0xb5, 0x2f, 0xfd, 0x00, 0x38, 0x25, 0x00, 0x00];
+			await expect(
+				codec.decode(new Uint8Array([...corrupt, 0xff, 0xff, 0xff, 0xff])),
+			).rejects.toMatchObject({ kind: "decompress" });
+			codec.limits = resolveDecodeLimits({ maxMessageBytes: 1024 });
+			await expect(codec.decode(zstdBomb(64))).rejects.toMatchObject({
+				kind: "messageSize",
+			});
+			// The worker survives both.
+			const data = await fs.readFile("test/data/stream_data.msgpack.zstd");
+			codec.limits = resolveDecodeLimits();
+			await expect(codec.decode(data)).resolves.toEqual(
+				await V1ClientCodec.from_protocol("v1.api.titan.ag+zstd").decode(data),
+			);
+			expect(workers.pending).toBe(0);
+		} finally {
+			await workers.terminate();
+		}
+	}, 20_000);
+
+	test("rejects invalid sizes", () => {
+		expect(() => new WorkerPool({ size: 0 })).toThrow(RangeError);
+	});
+});
+
+describe("client with workers", () => {
+	test("handles messages in the order they were received", async () => {
+		// The response takes longer to decode than the data that follows it.
+		const { factory } = inProcessWorkers([30, 0]);
+		const workers = new WorkerPool({ size: 2, factory });
+		const socket = new FakeWebSocket();
+		const codec = V1ClientCodec.from_protocol(v1.WEBSOCKET_SUBPROTO_BASE);
+		const client = new V1Client(socket as any, codec, { workers });
+
+		const started = client.newSwapQuoteStream({
+			swap: {
+				inputMint: new Uint8Array(32),
+				outputMint: new Uint8Array(32),
+				amount: 10,
+			},
+			transaction: { userPublicKey: new Uint8Array(32) },
+		});
+		const response = frame({
+			Response: {
+				requestId: 0,
+				data: { NewSwapQuoteStream: { intervalMs: 1000 } },
+				stream: { id: 7, dataType: v1.StreamDataType.SwapQuotes },
+			},
+		});
+		const data = frame({
+			StreamData: {
+				id: 7,
+				seq: 0,
+				payload: { SwapQuotes: { ...minimalSwapQuotes(), id: "quote-0" } },
+			},
+		});
+		socket.emitBinary(response.slice().buffer);
+		socket.emitBinary(data.slice().buffer);
+
+		const { stream } = await started;
+		await expect(stream.getReader().read()).resolves.toMatchObject({
+			value: { id: "quote-0" },
+		});
+	});
+});